@@ -1,14 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ProviderId } from '@/lib/llm/providers/types';
-import { getProvider } from '@/lib/llm/providers/registry';
+import { getProvider, isCustomProviderId } from '@/lib/llm/providers/registry';
+import { checkCustomProviderEndpoint } from '@/lib/llm/providers/custom-endpoint';
+import { getProviderAdapter, ProviderRequest, ProviderRequestOptions } from '@/lib/llm/providers/adapters';
 import { LLMMessage, ToolDefinition } from '@/lib/llm/types';
+import { buildContent, contentImages, contentText } from '@/lib/llm/message-content';
+
+const STREAM_HEADERS: Record<string, string> = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  'Connection': 'keep-alive',
+};
 
 export async function POST(request: NextRequest) {
   try {
-    const { prompt, apiKey, model, tools, context, messages, tool_choice, provider, max_tokens } = await request.json();
+    const { prompt, apiKey, model, tools, context, messages, tool_choice, provider, max_tokens, customProvider } = await request.json();
     
     const selectedProvider: ProviderId = provider || 'openrouter';
-    const providerConfig = getProvider(selectedProvider);
+
+    // Custom provider definitions live in the browser, so the client sends them along
+    if (isCustomProviderId(selectedProvider) && !customProvider?.baseUrl) {
+      return NextResponse.json(
+        { error: `Unknown provider: ${selectedProvider}. Check your custom provider settings.` },
+        { status: 400 }
+      );
+    }
+
+    // The endpoint comes from the client, so only allowlisted hosts are called
+    const endpointError = isCustomProviderId(selectedProvider) ? checkCustomProviderEndpoint(customProvider) : null;
+    if (endpointError) {
+      return NextResponse.json({ error: endpointError }, { status: 403 });
+    }
+
+    const providerConfig = getProvider(selectedProvider, customProvider);
     
     if (!prompt && !messages) {
       return NextResponse.json(
@@ -34,19 +58,21 @@ Capabilities:
 - Two tools: shell({ cmd: string[] }) for commands, json_patch for file editing.
 - Edit files reliably with json_patch tool:
   Use EXACT string replacement - copy text precisely from file as seen with cat.
-  oldStr must be unique; JSON escaping handled automatically.
-- Supported shell commands: ls, cat, nl [-ba], grep (-n -i), find (-name), mkdir -p, rm [-rfv], rmdir [-v], mv, cp [-r], echo (stdout only; no redirection), sed s/pat/repl/g (non-persisting).
+  oldStr must be unique (or set occurrence / replace_all); JSON escaping handled automatically.
+- Supported shell commands: ls, cat, nl [-ba], grep (-n -i -v -c), find (-name), mkdir -p, rm [-rfv], rmdir [-v], mv, cp [-r], echo, wc, sort, uniq, cut, sed (s///, line ranges, d, p; -i edits in place), awk (field printing).
+- Shell operators: pipes (|), command lists (&&, ||, ;) and redirection (>, >>, <, 2>/dev/null, 2>&1).
 - No network; only /workspace paths exist.
   • Note: both '/path' and '/workspace/path' are accepted; '/workspace' is normalized to '/'.
 
 Habits:
-- Read with ls/cat/grep/find before editing.
+- Read with ls/cat/grep/find before editing. Independent read-only calls made in the same turn run in parallel, so batch them.
 - Persist file content changes ONLY with json_patch tool; use mv/rm/mkdir/cp for structure.
-- Do NOT use echo > or >> or sed to write files; redirection is disabled by design.
+- Do NOT use echo > or >> to rewrite existing files; use json_patch. Redirection is fine for small new files or appends.
 - Use json_patch operations in priority order:
-  1. PREFER "replace_entity" for HTML elements, functions, components (more reliable)
+  1. PREFER "replace_entity" for HTML elements, functions, components (more reliable); "insert_before"/"insert_after"/"delete_entity" take the same selectors
   2. Use "update" only for simple text changes without clear entity boundaries  
   3. Use "rewrite" for complete file replacement
+  4. Use "apply_diff" with a unified diff for several hunks or files at once
 - AVOID large oldStr blocks (50+ lines) - use replace_entity instead for code blocks.
 - Keep changes small and atomic.`;
 
@@ -80,107 +106,23 @@ Habits:
       chatMessages.unshift({ role: 'system', content: systemPrompt });
     }
 
-    const apiEndpoint = getApiEndpoint(selectedProvider, providerConfig, model);
-    const headers = buildHeaders(selectedProvider, apiKey, request, providerConfig);
-    
-    let processedMessages = chatMessages;
-    let anthropicSystemPrompt = '';
-    
-    if (selectedProvider === 'anthropic') {
-      const systemMessage = chatMessages.find((msg: LLMMessage) => msg.role === 'system');
-      if (systemMessage) {
-        anthropicSystemPrompt = systemMessage.content;
-      }
-      
-      processedMessages = [];
-      let currentUserMessage: any = null;
-      
-      for (const msg of chatMessages) {
-        if (msg.role === 'system') {
-          continue;
-        } else if (msg.role === 'tool') {
-          if (currentUserMessage && currentUserMessage.role === 'user') {
-            if (!Array.isArray(currentUserMessage.content)) {
-              currentUserMessage = {
-                ...currentUserMessage,
-                content: [{ type: 'text', text: currentUserMessage.content }]
-              };
-            }
-            currentUserMessage.content.push({
-              type: 'tool_result',
-              tool_use_id: msg.tool_call_id,
-              content: msg.content
-            });
-          } else {
-            if (currentUserMessage && currentUserMessage.role === 'user') {
-              processedMessages.push(currentUserMessage);
-            }
-            currentUserMessage = {
-              role: 'user',
-              content: [{
-                type: 'tool_result',
-                tool_use_id: msg.tool_call_id,
-                content: msg.content
-              }]
-            };
-          }
-        } else {
-          if (currentUserMessage && currentUserMessage.role === 'user') {
-            processedMessages.push(currentUserMessage);
-          }
-          
-          if (msg.role === 'assistant' && msg.tool_calls) {
-            const content = [];
-            if (msg.content) {
-              content.push({ type: 'text', text: msg.content });
-            }
-            for (const toolCall of msg.tool_calls) {
-              content.push({
-                type: 'tool_use',
-                id: toolCall.id,
-                name: toolCall.function.name,
-                input: JSON.parse(toolCall.function.arguments || '{}')
-              });
-            }
-
-            currentUserMessage = {
-              role: 'assistant',
-              content: content
-            };
-          } else {
-            // Ensure non-empty content for Anthropic
-            const messageContent = msg.content || '';
-            if (!messageContent && msg.role === 'assistant') {
-              // Skip empty assistant messages (Anthropic rejects them)
-              currentUserMessage = null;
-            } else {
-              currentUserMessage = { ...msg };
-            }
-          }
-          
-          if (msg.role !== 'user' && currentUserMessage) {
-            processedMessages.push(currentUserMessage);
-            currentUserMessage = null;
-          }
-        }
-      }
-      
-      if (currentUserMessage && currentUserMessage.role === 'user') {
-        processedMessages.push(currentUserMessage);
-      }
-    }
-
-    const requestBody: Record<string, unknown> = {
-      model: model || getDefaultModel(selectedProvider),
-      messages: processedMessages,
-      stream: true
+    const adapter = getProviderAdapter(selectedProvider);
+    const modelName = model || getDefaultModel(selectedProvider, providerConfig);
+    const requestOptions: ProviderRequestOptions = {
+      config: providerConfig,
+      model: modelName,
+      messages: chatMessages,
+      toolChoice: tool_choice,
+      maxTokens: max_tokens || 4096,
+      apiKey,
+      referer: request.headers.get('referer') || undefined
     };
 
-    if (selectedProvider === 'anthropic' && anthropicSystemPrompt) {
-      requestBody.system = anthropicSystemPrompt;
-    }
-
-    if (tools && tools.length > 0) {
+    // Custom endpoints without function calling get the JSON tool-call prompt up front
+    const useToolFallback = !!providerConfig.isCustom && !providerConfig.supportsFunctions && tools?.length > 0;
+    if (useToolFallback) {
+      requestOptions.messages = buildToolFallbackMessages(chatMessages, systemPrompt, tools);
+    } else if (tools && tools.length > 0) {
       // Validate tools to ensure all required fields are present
       const validTools = tools.filter((tool: { name?: string; description?: string; parameters?: unknown }) => {
         if (!tool.name || tool.name.trim() === '') {
@@ -203,135 +145,22 @@ Habits:
         );
       }
 
-      if (selectedProvider === 'anthropic') {
-        requestBody.tools = validTools.map((tool: { name: string; description: string; parameters: unknown }) => ({
-          name: tool.name,
-          description: tool.description,
-          input_schema: tool.parameters
-        }));
-        if (tool_choice && typeof tool_choice === 'object') {
-          requestBody.tool_choice = tool_choice;
-        } else if (tool_choice === 'auto' || !tool_choice) {
-          requestBody.tool_choice = { type: 'auto' };
-        } else if (tool_choice === 'any') {
-          requestBody.tool_choice = { type: 'any' };
-        } else if (typeof tool_choice === 'string') {
-          requestBody.tool_choice = { type: 'tool', name: tool_choice };
-        } else {
-          requestBody.tool_choice = { type: 'auto' };
-        }
-      } else if (selectedProvider === 'ollama') {
-        requestBody.tools = validTools.map((tool: { name: string; description: string; parameters: unknown }) => ({
-          type: 'function',
-          function: tool
-        }));
-        requestBody.tool_choice = tool_choice || 'auto';
-      } else {
-        requestBody.tools = validTools.map((tool: { name: string; description: string; parameters: unknown }) => ({
-          type: 'function',
-          function: tool
-        }));
-        requestBody.tool_choice = tool_choice || 'auto';
-      }
-    }
-
-    if (selectedProvider === 'openai') {
-      requestBody.max_completion_tokens = max_tokens || 4096;
-      
-      const modelName = model || getDefaultModel(selectedProvider);
-      if (modelName.includes('gpt-5-nano')) {
-        requestBody.temperature = 1;
-      } else {
-        requestBody.temperature = 0.7;
-      }
-    } else if (selectedProvider === 'anthropic') {
-      requestBody.max_tokens = max_tokens || 4096;
-      requestBody.temperature = 0.7;
-    } else {
-      requestBody.max_tokens = max_tokens || 4096;
-      requestBody.temperature = 0.7;
+      requestOptions.tools = validTools;
     }
 
-
-    const response = await fetch(apiEndpoint, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(requestBody)
-    });
+    // An allowlisted custom host must not bounce the request somewhere else
+    const redirect: RequestRedirect = providerConfig.isCustom ? 'error' : 'follow';
+    const response = await sendProviderRequest(adapter.buildRequest(requestOptions), redirect);
 
     if (!response.ok) {
-      const errorText = await response.text();
-
-      // Try to parse and extract clean error message from JSON response
-      let cleanError = errorText;
-      try {
-        const parsed = JSON.parse(errorText);
-        if (parsed.error?.message) {
-          // Extract the inner message: "Key limit exceeded. Manage it using..."
-          cleanError = parsed.error.message;
-        } else if (typeof parsed.error === 'string') {
-          cleanError = parsed.error;
-        }
-      } catch {
-        // Not JSON, use raw text as-is
-      }
+      const error = adapter.normalizeError(response.status, await response.text(), response.headers);
 
-      const headers: Record<string, string> = {};
-      if (response.status === 429) {
-        const retryAfter = response.headers.get('Retry-After');
-        const rateLimitReset = response.headers.get('X-RateLimit-Reset');
-        const rateLimitRemaining = response.headers.get('X-RateLimit-Remaining');
-
-        if (retryAfter) headers['Retry-After'] = retryAfter;
-        if (rateLimitReset) headers['X-RateLimit-Reset'] = rateLimitReset;
-        if (rateLimitRemaining) headers['X-RateLimit-Remaining'] = rateLimitRemaining;
-      }
-      if (selectedProvider === 'ollama' && cleanError.includes('does not support tools') && tools && tools.length > 0) {
-        const fallbackSystemPrompt = systemPrompt + `
-
-IMPORTANT: This model doesn't support native function calling, so you must use JSON format for tool calls.
-
-Available tools:
-${tools.map((tool: ToolDefinition) => `
-- ${tool.name}: ${tool.description}
-  Parameters: ${JSON.stringify(tool.parameters, null, 2)}
-`).join('')}
-
-When you need to use a tool, respond with:
-\`\`\`json
-{
-  "tool_calls": [
-    {
-      "id": "call_1",
-      "function": {
-        "name": "tool_name",
-        "arguments": "{\"param1\": \"value1\"}"
-      }
-    }
-  ]
-}
-\`\`\`
-
-You can make multiple tool calls in a single response. Always include the tool_calls array even for a single tool call.`;
-
-        const fallbackMessages = [...chatMessages];
-        const systemMsgIndex = fallbackMessages.findIndex(m => m.role === 'system');
-        if (systemMsgIndex >= 0) {
-          fallbackMessages[systemMsgIndex].content = fallbackSystemPrompt;
-        }
-
-        const fallbackBody: any = {
-          ...requestBody,
-          messages: fallbackMessages
-        };
-        delete fallbackBody.tools;
-        delete fallbackBody.tool_choice;
-
-        const fallbackResponse = await fetch(apiEndpoint, {
-          method: 'POST',
-          headers,
-          body: JSON.stringify(fallbackBody)
-        });
+      if (error.toolsUnsupported && requestOptions.tools) {
+        const fallbackResponse = await sendProviderRequest(adapter.buildRequest({
+          ...requestOptions,
+          messages: buildToolFallbackMessages(chatMessages, systemPrompt, tools),
+          tools: undefined
+        }), redirect);
 
         if (!fallbackResponse.ok) {
           const fallbackError = await fallbackResponse.text();
@@ -341,31 +170,22 @@ You can make multiple tool calls in a single response. Always include the tool_c
           );
         }
 
-        const fallbackHeaders: Record<string, string> = {
-          'Content-Type': 'text/event-stream',
-          'Cache-Control': 'no-cache',
-          'Connection': 'keep-alive',
-          'X-Tool-Fallback': 'json-parsing'
-        };
-
-
         return new Response(fallbackResponse.body, {
-          headers: fallbackHeaders,
+          headers: { ...STREAM_HEADERS, 'X-Tool-Fallback': 'json-parsing' },
         });
       }
 
-
       return NextResponse.json(
-        { error: `${providerConfig.name} API error: ${cleanError}` },
-        { status: response.status, headers }
+        { error: `${providerConfig.name} API error: ${error.message}` },
+        { status: error.status, headers: error.headers }
       );
     }
 
-    const responseHeaders: Record<string, string> = {
-      'Content-Type': 'text/event-stream',
-      'Cache-Control': 'no-cache',
-      'Connection': 'keep-alive',
-    };
+    const responseHeaders: Record<string, string> = { ...STREAM_HEADERS };
+
+    if (useToolFallback) {
+      responseHeaders['X-Tool-Fallback'] = 'json-parsing';
+    }
 
     if (selectedProvider === 'openrouter') {
       const openRouterHeaders = [
@@ -399,51 +219,71 @@ You can make multiple tool calls in a single response. Always include the tool_c
   }
 }
 
-function getApiEndpoint(provider: ProviderId, config: ReturnType<typeof getProvider>, model?: string): string {
-  const baseUrl = config.baseUrl || 'https://openrouter.ai/api/v1';
-  
-  if (provider === 'anthropic') {
-    return 'https://api.anthropic.com/v1/messages';
-  } else if (provider === 'gemini') {
-    const geminiModel = model || 'gemini-1.5-flash';
-    return `https://generativelanguage.googleapis.com/v1beta/models/${geminiModel}:generateContent`;
-  } else {
-    return `${baseUrl}/chat/completions`;
-  }
+function sendProviderRequest({ url, headers, body }: ProviderRequest, redirect: RequestRedirect): Promise<Response> {
+  return fetch(url, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(body),
+    redirect
+  });
 }
 
-function buildHeaders(
-  provider: ProviderId, 
-  apiKey: string | undefined,
-  request: NextRequest,
-  config: ReturnType<typeof getProvider>
-): Record<string, string> {
-  const headers: Record<string, string> = {
-    'Content-Type': 'application/json'
-  };
-  
-  if (provider === 'anthropic') {
-    headers['x-api-key'] = apiKey || '';
-    headers['anthropic-version'] = '2023-06-01';
-    if (config.supportsFunctions) {
-      headers['anthropic-beta'] = 'tools-2024-04-04';
+/**
+ * Replace the system prompt with one describing the JSON tool-call format,
+ * for models that can't take native tool definitions.
+ */
+function buildToolFallbackMessages(chatMessages: LLMMessage[], systemPrompt: string, tools: ToolDefinition[]): LLMMessage[] {
+  const existingSystem = chatMessages.find(m => m.role === 'system');
+  const basePrompt = typeof existingSystem?.content === 'string' ? existingSystem.content : systemPrompt;
+  const fallbackSystemPrompt = basePrompt + `
+
+IMPORTANT: This model doesn't support native function calling, so you must use JSON format for tool calls.
+
+Available tools:
+${tools.map((tool: ToolDefinition) => `
+- ${tool.name}: ${tool.description}
+  Parameters: ${JSON.stringify(tool.parameters, null, 2)}
+`).join('')}
+
+When you need to use a tool, respond with:
+\`\`\`json
+{
+  "tool_calls": [
+    {
+      "id": "call_1",
+      "function": {
+        "name": "tool_name",
+        "arguments": "{\"param1\": \"value1\"}"
+      }
+    }
+  ]
+}
+\`\`\`
+
+You can make multiple tool calls in a single response. Always include the tool_calls array even for a single tool call.`;
+
+  // Earlier tool calls and results are folded into plain text the model can read
+  return chatMessages.map((message): LLMMessage => {
+    if (message.role === 'system') {
+      return { role: 'system', content: fallbackSystemPrompt };
     }
-  } else if (provider === 'gemini') {
-  } else {
-    if (apiKey) {
-      headers['Authorization'] = `Bearer ${apiKey}`;
+    if (message.role === 'tool') {
+      const images = contentImages(message.content).map(part => part.image_url.url);
+      return { role: 'user', content: buildContent(`Tool result (${message.tool_call_id}):\n${contentText(message.content)}`, images) };
     }
-    
-    if (provider === 'openrouter') {
-      headers['HTTP-Referer'] = request.headers.get('referer') || 'http://localhost:3000';
-      headers['X-Title'] = 'OSW-Studio';
+    if (message.role === 'assistant' && message.tool_calls?.length) {
+      const calls = JSON.stringify({ tool_calls: message.tool_calls.map(({ id, function: fn }) => ({ id, function: fn })) }, null, 2);
+      const text = contentText(message.content);
+      return { role: 'assistant', content: `${text ? `${text}\n\n` : ''}\`\`\`json\n${calls}\n\`\`\`` };
     }
-  }
-  
-  return headers;
+    return message;
+  });
 }
 
-function getDefaultModel(provider: ProviderId): string {
+function getDefaultModel(provider: ProviderId, config?: ReturnType<typeof getProvider>): string {
+  if (config?.isCustom) {
+    return config.defaultModel || '';
+  }
   switch (provider) {
     case 'openrouter':
       return 'deepseek/deepseek-chat';
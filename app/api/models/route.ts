@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ProviderId } from '@/lib/llm/providers/types';
-import { getProvider } from '@/lib/llm/providers/registry';
+import { getProvider, isCustomProviderId, buildProviderAuthHeaders, getModelsUrl } from '@/lib/llm/providers/registry';
+import { checkCustomProviderEndpoint } from '@/lib/llm/providers/custom-endpoint';
 import { logger } from '@/lib/utils';
 
 export async function POST(request: NextRequest) {
   try {
-    const { apiKey, provider } = await request.json();
+    const { apiKey, provider, customProvider } = await request.json();
     
     if (!provider) {
       return NextResponse.json(
@@ -14,8 +15,25 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const providerConfig = getProvider(provider as ProviderId);
+    if (isCustomProviderId(provider) && !customProvider?.baseUrl) {
+      return NextResponse.json(
+        { error: `Unknown provider: ${provider}` },
+        { status: 400 }
+      );
+    }
+
+    // The endpoint comes from the client, so only allowlisted hosts are called
+    const endpointError = isCustomProviderId(provider) ? checkCustomProviderEndpoint(customProvider) : null;
+    if (endpointError) {
+      return NextResponse.json({ error: endpointError }, { status: 403 });
+    }
+
+    const providerConfig = getProvider(provider as ProviderId, customProvider);
     
+    if (providerConfig.isCustom) {
+      return NextResponse.json({ models: await fetchCustomProviderModels(providerConfig, apiKey) });
+    }
+
     // If no API key but required, return empty array
     if (providerConfig.apiKeyRequired && !apiKey) {
       return NextResponse.json({ models: [] });
@@ -147,3 +165,42 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ models: [] });
   }
 }
+
+/**
+ * Custom providers: query the discovery endpoint, falling back to the configured model list
+ */
+async function fetchCustomProviderModels(
+  providerConfig: ReturnType<typeof getProvider>,
+  apiKey?: string
+): Promise<string[]> {
+  const configuredModels = providerConfig.models?.map(m => m.id) || [];
+  if (!providerConfig.supportsModelDiscovery) {
+    return configuredModels;
+  }
+
+  try {
+    const response = await fetch(getModelsUrl(providerConfig), {
+      headers: {
+        'Content-Type': 'application/json',
+        ...buildProviderAuthHeaders(providerConfig, apiKey)
+      },
+      redirect: 'error'
+    });
+    if (response.ok) {
+      const data = await response.json();
+      // OpenAI-style { data: [...] }, or a bare array / { models: [...] } from other gateways
+      const entries: unknown[] = Array.isArray(data) ? data : data.data || data.models || [];
+      const discovered = entries
+        .map(entry => typeof entry === 'string' ? entry : (entry as { id?: string; name?: string })?.id || (entry as { name?: string })?.name)
+        .filter((id): id is string => typeof id === 'string' && id.length > 0);
+      if (discovered.length > 0) {
+        return Array.from(new Set([...configuredModels, ...discovered]));
+      }
+    } else {
+      logger.warn(`Model discovery failed for ${providerConfig.name}: ${response.status}`);
+    }
+  } catch (error) {
+    logger.error(`Error fetching models for ${providerConfig.name}:`, error);
+  }
+  return configuredModels;
+}
@@ -1,22 +1,44 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ProviderId } from '@/lib/llm/providers/types';
-import { getProvider } from '@/lib/llm/providers/registry';
+import { getProvider, isCustomProviderId, buildProviderAuthHeaders, getModelsUrl } from '@/lib/llm/providers/registry';
+import { checkCustomProviderEndpoint } from '@/lib/llm/providers/custom-endpoint';
 import { logger } from '@/lib/utils';
 
 export async function POST(request: NextRequest) {
   try {
-    const { apiKey, provider } = await request.json();
+    const { apiKey, provider, customProvider } = await request.json();
     
-    if (!apiKey || !provider) {
+    if (!provider || (!apiKey && !isCustomProviderId(provider))) {
       return NextResponse.json(
         { error: 'API key and provider are required' },
         { status: 400 }
       );
     }
 
-    const providerConfig = getProvider(provider as ProviderId);
+    if (isCustomProviderId(provider) && !customProvider?.baseUrl) {
+      return NextResponse.json(
+        { error: `Unknown provider: ${provider}` },
+        { status: 400 }
+      );
+    }
+
+    // The endpoint comes from the client, so only allowlisted hosts are called
+    const endpointError = isCustomProviderId(provider) ? checkCustomProviderEndpoint(customProvider) : null;
+    if (endpointError) {
+      return NextResponse.json({ error: endpointError }, { status: 403 });
+    }
+
+    const providerConfig = getProvider(provider as ProviderId, customProvider);
     let isValid = false;
 
+    if (providerConfig.isCustom) {
+      const customResp = await fetch(getModelsUrl(providerConfig), {
+        headers: buildProviderAuthHeaders(providerConfig, apiKey),
+        redirect: 'error'
+      });
+      return NextResponse.json({ valid: customResp.ok });
+    }
+
     switch (provider) {
       case 'openrouter':
         const openrouterResp = await fetch('https://openrouter.ai/api/v1/auth/key', {
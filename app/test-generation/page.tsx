@@ -4,7 +4,9 @@ import React, { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Orchestrator } from '@/lib/llm/orchestrator';
 import { testScenarios } from '@/lib/testing/test-scenarios';
-import { ArrowLeft, Play, CheckCircle, XCircle, Clock, RefreshCw, ChevronDown, ChevronUp, Square } from 'lucide-react';
+import { replayAllTranscripts } from '@/lib/testing/replay';
+import { ReplayResult } from '@/lib/testing/types';
+import { ArrowLeft, Play, CheckCircle, XCircle, Clock, RefreshCw, ChevronDown, ChevronUp, Square, FileCheck } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 import { toast } from 'sonner';
 import { AlertCircle } from 'lucide-react';
@@ -53,6 +55,8 @@ export default function TestGenerationPage() {
   // Model settings popover state
   const [showModelSettings, setShowModelSettings] = useState(false);
   const [currentModel, setCurrentModel] = useState('');
+  const [replayResults, setReplayResults] = useState<ReplayResult[]>([]);
+  const [replaying, setReplaying] = useState(false);
 
   useEffect(() => {
     // Set the current model on the client to avoid hydration mismatch
@@ -234,6 +238,22 @@ export default function TestGenerationPage() {
     setExpandedTests(new Set());
   };
 
+  const runReplayTests = async () => {
+    setReplaying(true);
+    try {
+      const results = await replayAllTranscripts();
+      setReplayResults(results);
+      const failed = results.filter(r => !r.passed).length;
+      if (failed > 0) {
+        toast.error(`${failed} of ${results.length} adapter replays failed`);
+      } else {
+        toast.success(`All ${results.length} adapter replays passed`);
+      }
+    } finally {
+      setReplaying(false);
+    }
+  };
+
   const getStatusIcon = (status: TestResult['status']) => {
     switch (status) {
       case 'success': return <CheckCircle className="h-4 w-4 text-green-500" />;
@@ -352,8 +372,38 @@ export default function TestGenerationPage() {
             <RefreshCw className="h-4 w-4 mr-2" />
             Reset
           </Button>
+          <Button variant="outline" onClick={runReplayTests} disabled={replaying}>
+            <FileCheck className="h-4 w-4 mr-2" />
+            Replay Adapters (offline)
+          </Button>
         </div>
 
+        {/* Adapter Replay Results */}
+        {replayResults.length > 0 && (
+          <div className="bg-card border rounded-lg p-4 mb-6">
+            <div className="font-medium mb-1">Adapter Replays</div>
+            <div className="text-sm text-muted-foreground mb-3">
+              Recorded provider streams decoded through the adapter layer, and Gemini request bodies built from chat histories. No API calls are made.
+            </div>
+            <div className="space-y-2">
+              {replayResults.map((result) => (
+                <div key={result.id} className="text-sm">
+                  <div className="flex items-center gap-2">
+                    {getStatusIcon(result.passed ? 'success' : 'failed')}
+                    {result.name}
+                    {result.chunkCount > 0 && (
+                      <span className="text-muted-foreground">({result.chunkCount} chunks)</span>
+                    )}
+                  </div>
+                  {result.errors.length > 0 && (
+                    <div className="text-red-600 ml-6">{result.errors.join(', ')}</div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Test Results */}
         <div className="grid gap-4">
           {testResults.map((result) => {
@@ -0,0 +1,424 @@
+'use client';
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { DiffEditor } from '@monaco-editor/react';
+import { useTheme } from 'next-themes';
+import { formatDistanceToNow } from 'date-fns';
+import { History, RotateCcw, FilePlus, FileMinus, FileDiff, Folder, Loader2 } from 'lucide-react';
+import {
+  checkpointManager,
+  Checkpoint,
+  CheckpointFileChange,
+  CURRENT_STATE_ID
+} from '@/lib/vfs/checkpoint';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn, logger } from '@/lib/utils';
+import { toast } from 'sonner';
+
+interface CheckpointHistoryDialogProps {
+  projectId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  savedCheckpointId?: string | null;
+  initialCheckpointId?: string | null;
+  onRestoreCheckpoint: (checkpointId: string, description: string) => Promise<void> | void;
+  onRestorePaths: (checkpointId: string, paths: string[], description: string) => Promise<void>;
+}
+
+interface DiffContents {
+  path: string;
+  original: string | null;
+  modified: string | null;
+  binary: boolean;
+}
+
+const LANGUAGES: Record<string, string> = {
+  js: 'javascript',
+  mjs: 'javascript',
+  ts: 'typescript',
+  tsx: 'typescript',
+  jsx: 'javascript',
+  html: 'html',
+  htm: 'html',
+  css: 'css',
+  json: 'json',
+  md: 'markdown',
+  xml: 'xml',
+  svg: 'xml',
+  yaml: 'yaml',
+  yml: 'yaml'
+};
+
+const STATUS_ICONS = {
+  added: FilePlus,
+  removed: FileMinus,
+  modified: FileDiff
+};
+
+const STATUS_COLORS = {
+  added: 'text-green-600 dark:text-green-400',
+  removed: 'text-red-600 dark:text-red-400',
+  modified: 'text-amber-600 dark:text-amber-400'
+};
+
+function getLanguageFromPath(path: string): string {
+  const ext = path.split('.').pop()?.toLowerCase() || '';
+  return LANGUAGES[ext] || 'plaintext';
+}
+
+function getParentDirectory(path: string): string {
+  const parent = path.split('/').slice(0, -1).join('/');
+  return parent || '/';
+}
+
+export function CheckpointHistoryDialog({
+  projectId,
+  open,
+  onOpenChange,
+  savedCheckpointId,
+  initialCheckpointId,
+  onRestoreCheckpoint,
+  onRestorePaths
+}: CheckpointHistoryDialogProps) {
+  const { resolvedTheme } = useTheme();
+  const [checkpoints, setCheckpoints] = useState<Checkpoint[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string>(CURRENT_STATE_ID);
+  const [changes, setChanges] = useState<CheckpointFileChange[]>([]);
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const [diff, setDiff] = useState<DiffContents | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const selectedCheckpoint = useMemo(
+    () => checkpoints.find(cp => cp.id === selectedId) || null,
+    [checkpoints, selectedId]
+  );
+
+  // Load checkpoints whenever the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+
+    checkpointManager.getCheckpoints(projectId)
+      .then(list => {
+        if (cancelled) return;
+        setCheckpoints(list);
+        setSelectedId(prev => (prev && list.some(cp => cp.id === prev) ? prev : list[0]?.id ?? null));
+      })
+      .catch(error => {
+        logger.error('[CheckpointHistory] Failed to load checkpoints', error);
+        toast.error('Failed to load checkpoint history');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, projectId, refreshKey]);
+
+  // Preselect the requested checkpoint (e.g. when comparing a named save)
+  useEffect(() => {
+    if (open && initialCheckpointId) {
+      setSelectedId(initialCheckpointId);
+      setCompareId(CURRENT_STATE_ID);
+    }
+  }, [open, initialCheckpointId]);
+
+  // Re-diff against the live project when files change
+  useEffect(() => {
+    if (!open) return;
+    const handleFilesChanged = () => setRefreshKey(key => key + 1);
+    window.addEventListener('filesChanged', handleFilesChanged);
+    return () => window.removeEventListener('filesChanged', handleFilesChanged);
+  }, [open]);
+
+  // Compute changed files between the selected checkpoint and the comparison target
+  useEffect(() => {
+    if (!open || !selectedId || selectedId === compareId) {
+      setChanges([]);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+
+    checkpointManager.diffCheckpoints(projectId, selectedId, compareId)
+      .then(result => {
+        if (cancelled) return;
+        setChanges(result);
+        setSelectedPath(prev => (prev && result.some(change => change.path === prev) ? prev : result[0]?.path ?? null));
+      })
+      .catch(error => {
+        logger.error('[CheckpointHistory] Failed to diff checkpoints', error);
+        if (!cancelled) setChanges([]);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, projectId, selectedId, compareId, refreshKey]);
+
+  // Load both sides of the selected file for the diff view
+  useEffect(() => {
+    if (!open || !selectedId || !selectedPath) {
+      setDiff(null);
+      return;
+    }
+    let cancelled = false;
+
+    Promise.all([
+      checkpointManager.getFileContent(projectId, selectedId, selectedPath),
+      checkpointManager.getFileContent(projectId, compareId, selectedPath)
+    ])
+      .then(([original, modified]) => {
+        if (cancelled) return;
+        const binary = original instanceof ArrayBuffer || modified instanceof ArrayBuffer;
+        setDiff({
+          path: selectedPath,
+          original: typeof original === 'string' ? original : null,
+          modified: typeof modified === 'string' ? modified : null,
+          binary
+        });
+      })
+      .catch(error => {
+        logger.error('[CheckpointHistory] Failed to load file contents', error);
+        if (!cancelled) setDiff(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, projectId, selectedId, compareId, selectedPath, refreshKey]);
+
+  // Group changed files by parent directory so folders can be restored as a unit
+  const groupedChanges = useMemo(() => {
+    const groups = new Map<string, CheckpointFileChange[]>();
+    for (const change of changes) {
+      const dir = getParentDirectory(change.path);
+      groups.set(dir, [...(groups.get(dir) || []), change]);
+    }
+    return Array.from(groups.entries()).sort(([a], [b]) => a.localeCompare(b));
+  }, [changes]);
+
+  const handleRestorePaths = useCallback(async (paths: string[], label: string) => {
+    if (!selectedCheckpoint) return;
+    setRestoring(true);
+    try {
+      await onRestorePaths(selectedCheckpoint.id, paths, label);
+      setRefreshKey(key => key + 1);
+    } finally {
+      setRestoring(false);
+    }
+  }, [onRestorePaths, selectedCheckpoint]);
+
+  const handleRestoreAll = useCallback(async () => {
+    if (!selectedCheckpoint) return;
+    setRestoring(true);
+    try {
+      await onRestoreCheckpoint(selectedCheckpoint.id, selectedCheckpoint.description);
+      setRefreshKey(key => key + 1);
+    } finally {
+      setRestoring(false);
+    }
+  }, [onRestoreCheckpoint, selectedCheckpoint]);
+
+  const describeCheckpoint = (checkpoint: Checkpoint) =>
+    `${checkpoint.name || checkpoint.description} · ${formatDistanceToNow(new Date(checkpoint.timestamp), { addSuffix: true })}`;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-6xl w-[95vw] h-[85vh] flex flex-col gap-3">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Checkpoint History
+          </DialogTitle>
+          <DialogDescription>
+            Compare checkpoints with each other or with the current project, and restore individual files or folders.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 min-h-0 grid grid-cols-[16rem_16rem_1fr] gap-3">
+          {/* Checkpoint list */}
+          <div className="min-h-0 overflow-y-auto border rounded-md">
+            {checkpoints.length === 0 && (
+              <p className="p-3 text-sm text-muted-foreground">No checkpoints yet.</p>
+            )}
+            {checkpoints.map(checkpoint => (
+              <button
+                key={checkpoint.id}
+                onClick={() => setSelectedId(checkpoint.id)}
+                className={cn(
+                  'w-full text-left px-3 py-2 border-b border-border/50 hover:bg-muted/60 transition-colors',
+                  checkpoint.id === selectedId && 'bg-muted'
+                )}
+              >
+                <div className="flex items-center gap-1.5 mb-0.5">
+                  <Badge variant={checkpoint.kind === 'manual' ? 'default' : 'outline'} className="text-[10px] px-1.5 py-0">
+                    {checkpoint.kind}
+                  </Badge>
+                  {checkpoint.id === savedCheckpointId && (
+                    <Badge variant="secondary" className="text-[10px] px-1.5 py-0">saved</Badge>
+                  )}
+                  <span className="text-xs text-muted-foreground ml-auto">
+                    {formatDistanceToNow(new Date(checkpoint.timestamp), { addSuffix: true })}
+                  </span>
+                </div>
+                <p className="text-sm truncate" title={checkpoint.description}>
+                  {checkpoint.name ? <span className="font-medium">{checkpoint.name}</span> : checkpoint.description}
+                </p>
+                {checkpoint.tags && checkpoint.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1 my-0.5">
+                    {checkpoint.tags.map(tag => (
+                      <Badge key={tag} variant="outline" className="text-[10px] px-1.5 py-0">{tag}</Badge>
+                    ))}
+                  </div>
+                )}
+                <p className="text-xs text-muted-foreground">{checkpoint.manifest.size} files</p>
+              </button>
+            ))}
+          </div>
+
+          {/* Changed files */}
+          <div className="min-h-0 flex flex-col border rounded-md">
+            <div className="p-2 border-b space-y-2">
+              <label className="text-xs text-muted-foreground">Compare with</label>
+              <Select value={compareId} onValueChange={setCompareId}>
+                <SelectTrigger className="h-8 w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={CURRENT_STATE_ID}>Current project</SelectItem>
+                  {checkpoints
+                    .filter(cp => cp.id !== selectedId)
+                    .map(cp => (
+                      <SelectItem key={cp.id} value={cp.id}>
+                        {describeCheckpoint(cp)}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex-1 min-h-0 overflow-y-auto">
+              {loading && (
+                <div className="p-3 flex items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Comparing…
+                </div>
+              )}
+              {!loading && selectedId && changes.length === 0 && (
+                <p className="p-3 text-sm text-muted-foreground">No differences.</p>
+              )}
+              {!loading && groupedChanges.map(([dir, dirChanges]) => (
+                <div key={dir}>
+                  <div className="flex items-center gap-1.5 px-2 py-1 bg-muted/40 text-xs text-muted-foreground">
+                    <Folder className="h-3.5 w-3.5" />
+                    <span className="truncate flex-1" title={dir}>{dir}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-1.5 text-xs"
+                      disabled={restoring || !selectedCheckpoint}
+                      title={`Restore ${dir} from this checkpoint`}
+                      onClick={() => handleRestorePaths([dir], dir === '/' ? 'Project root' : dir)}
+                    >
+                      <RotateCcw className="h-3 w-3" />
+                    </Button>
+                  </div>
+                  {dirChanges.map(change => {
+                    const Icon = STATUS_ICONS[change.status];
+                    return (
+                      <div
+                        key={change.path}
+                        className={cn(
+                          'group flex items-center gap-1.5 pl-4 pr-2 py-1 text-sm cursor-pointer hover:bg-muted/60',
+                          change.path === selectedPath && 'bg-muted'
+                        )}
+                        onClick={() => setSelectedPath(change.path)}
+                      >
+                        <Icon className={cn('h-3.5 w-3.5 shrink-0', STATUS_COLORS[change.status])} />
+                        <span className="truncate flex-1" title={change.path}>{change.path.split('/').pop()}</span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 px-1.5 text-xs opacity-0 group-hover:opacity-100"
+                          disabled={restoring || !selectedCheckpoint}
+                          title="Restore this file from the checkpoint"
+                          onClick={(event) => {
+                            event.stopPropagation();
+                            handleRestorePaths([change.path], change.path);
+                          }}
+                        >
+                          <RotateCcw className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Diff view */}
+          <div className="min-h-0 flex flex-col border rounded-md overflow-hidden">
+            <div className="flex items-center gap-2 px-3 py-2 border-b text-xs text-muted-foreground">
+              <span className="truncate flex-1">
+                {diff ? `${diff.path}: checkpoint (left) → ${compareId === CURRENT_STATE_ID ? 'current project' : 'compared checkpoint'} (right)` : 'Select a file to view changes'}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7"
+                disabled={restoring || !selectedCheckpoint}
+                onClick={handleRestoreAll}
+              >
+                <RotateCcw className="h-3.5 w-3.5 mr-1.5" />
+                Restore entire checkpoint
+              </Button>
+            </div>
+            <div className="flex-1 min-h-0">
+              {diff && diff.binary && (
+                <p className="p-3 text-sm text-muted-foreground">Binary file changed; no text diff available.</p>
+              )}
+              {diff && !diff.binary && (
+                <DiffEditor
+                  height="100%"
+                  language={getLanguageFromPath(diff.path)}
+                  original={diff.original ?? ''}
+                  modified={diff.modified ?? ''}
+                  theme={resolvedTheme === 'dark' ? 'vs-dark' : 'light'}
+                  options={{
+                    readOnly: true,
+                    renderSideBySide: true,
+                    minimap: { enabled: false },
+                    fontSize: 13,
+                    scrollBeyondLastLine: false,
+                    automaticLayout: true
+                  }}
+                />
+              )}
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
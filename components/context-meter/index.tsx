@@ -0,0 +1,56 @@
+'use client';
+
+import React from 'react';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { ContextUsage } from '@/lib/llm/context-window';
+import { cn } from '@/lib/utils';
+
+function formatTokens(tokens: number): string {
+  if (tokens < 1000) return String(tokens);
+  return `${(tokens / 1000).toFixed(tokens >= 10000 ? 0 : 1)}K`;
+}
+
+export interface ContextMeterProps {
+  usage: ContextUsage;
+  className?: string;
+}
+
+/**
+ * How much of the model's context window the last request used, and what was compacted to fit
+ */
+export function ContextMeter({ usage, className }: ContextMeterProps) {
+  const ratio = usage.contextLength > 0 ? Math.min(1, usage.usedTokens / usage.contextLength) : 0;
+  const percent = Math.round(ratio * 100);
+  const barColor = ratio >= 0.9 ? 'bg-red-500' : ratio >= 0.7 ? 'bg-amber-500' : 'bg-primary';
+
+  const compaction = usage.compaction;
+  const compactionNotes = compaction ? [
+    compaction.staleReads > 0 && `${compaction.staleReads} stale file reads summarised`,
+    compaction.truncatedOutputs > 0 && `${compaction.truncatedOutputs} old tool outputs shortened`,
+    compaction.droppedMessages > 0 && `${compaction.droppedMessages} earlier messages dropped`
+  ].filter((note): note is string => !!note) : [];
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <div className={cn('flex items-center gap-1.5 text-xs text-muted-foreground', className)}>
+          <div className="h-1.5 w-12 rounded-full bg-border overflow-hidden">
+            <div className={cn('h-full rounded-full', barColor)} style={{ width: `${percent}%` }} />
+          </div>
+          <span>{percent}%</span>
+        </div>
+      </TooltipTrigger>
+      <TooltipContent side="top">
+        <div className="space-y-1">
+          <p className="text-xs">
+            Context used: {formatTokens(usage.usedTokens)} / {formatTokens(usage.contextLength)} tokens
+            {usage.measured ? '' : ' (estimated)'}
+          </p>
+          {compactionNotes.map(note => (
+            <p key={note} className="text-xs">{note}</p>
+          ))}
+        </div>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
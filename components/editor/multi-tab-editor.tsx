@@ -191,6 +191,7 @@ export function MultiTabEditor({ projectId, onFilesChange: _onFilesChange, onClo
     const textExtensions: Record<string, string> = {
       'js': 'javascript',
       'mjs': 'javascript',
+      'jsx': 'javascript',
       'ts': 'typescript',
       'tsx': 'typescript',
       'html': 'html',
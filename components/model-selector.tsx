@@ -44,7 +44,8 @@ interface ModelSelectorProps {
 
 export function ModelSelector({ provider, value: _value, onChange, className, hideModelDetails }: ModelSelectorProps) {
   const currentProvider = provider || configManager.getSelectedProvider();
-  const providerConfig = getProvider(currentProvider);
+  // Custom providers are rebuilt from settings on every lookup, so keep a stable reference
+  const providerConfig = useMemo(() => getProvider(currentProvider), [currentProvider]);
   const [models, setModels] = useState<ProviderModel[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedModel, setSelectedModel] = useState('');
@@ -158,12 +159,12 @@ export function ModelSelector({ provider, value: _value, onChange, className, hi
       } else if (providerConfig.supportsModelDiscovery) {
         // Try to discover models (we know API key exists at this point)
         const modelIds = await LLMClient.getAvailableModels(apiKey || undefined, currentProvider);
-        loadedModels = modelIds.map(id => ({
+        loadedModels = modelIds.map(id => providerConfig.models?.find(m => m.id === id) || {
           id,
           name: id.split('/').pop() || id,
           contextLength: 32000,
-          supportsFunctions: true
-        }));
+          supportsFunctions: providerConfig.supportsFunctions
+        });
       } else if (providerConfig.models) {
         // Use hardcoded models
         loadedModels = providerConfig.models;
@@ -0,0 +1,266 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Bookmark, Check, Edit2, GitCompare, RotateCcw, Trash2, X, Loader2 } from 'lucide-react';
+import { Checkpoint } from '@/lib/vfs/checkpoint';
+import { saveManager } from '@/lib/vfs/save-manager';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { cn, logger } from '@/lib/utils';
+import { toast } from 'sonner';
+
+interface NamedSavesDialogProps {
+  projectId: string;
+  projectName?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  savedCheckpointId?: string | null;
+  onSave?: (options: { name: string; tags: string[] }) => Promise<void>;
+  onCompare: (checkpoint: Checkpoint) => void;
+  onRestore: (checkpoint: Checkpoint) => Promise<void>;
+  onDeleted?: (checkpoint: Checkpoint) => void;
+}
+
+function parseTags(value: string): string[] {
+  return Array.from(new Set(value.split(',').map(tag => tag.trim()).filter(Boolean)));
+}
+
+export function NamedSavesDialog({
+  projectId,
+  projectName,
+  open,
+  onOpenChange,
+  savedCheckpointId,
+  onSave,
+  onCompare,
+  onRestore,
+  onDeleted
+}: NamedSavesDialogProps) {
+  const [saves, setSaves] = useState<Checkpoint[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newTags, setNewTags] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [editTags, setEditTags] = useState('');
+
+  const loadSaves = useCallback(async () => {
+    setLoading(true);
+    try {
+      setSaves(await saveManager.listNamedSaves(projectId));
+    } catch (error) {
+      logger.error('[NamedSaves] Failed to load saves', error);
+      toast.error('Failed to load saved versions');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    if (!open) {
+      setEditingId(null);
+      return;
+    }
+    loadSaves();
+  }, [open, loadSaves]);
+
+  const handleCreate = async () => {
+    if (!onSave) return;
+    const name = newName.trim();
+    if (!name) {
+      toast.error('Enter a name for this save');
+      return;
+    }
+    setBusy(true);
+    try {
+      await onSave({ name, tags: parseTags(newTags) });
+      setNewName('');
+      setNewTags('');
+      await loadSaves();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startEditing = (checkpoint: Checkpoint) => {
+    setEditingId(checkpoint.id);
+    setEditName(checkpoint.name || '');
+    setEditTags((checkpoint.tags || []).join(', '));
+  };
+
+  const handleRename = async (checkpoint: Checkpoint) => {
+    setBusy(true);
+    try {
+      await saveManager.updateNamedSave(checkpoint.id, editName, parseTags(editTags));
+      setEditingId(null);
+      await loadSaves();
+    } catch (error) {
+      logger.error('[NamedSaves] Failed to rename save', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to rename save');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRestore = async (checkpoint: Checkpoint) => {
+    if (!confirm(`Restore "${checkpoint.name}"? Unsaved changes will be lost.`)) {
+      return;
+    }
+    setBusy(true);
+    try {
+      await onRestore(checkpoint);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (checkpoint: Checkpoint) => {
+    if (!confirm(`Delete the save "${checkpoint.name}"? This cannot be undone.`)) {
+      return;
+    }
+    setBusy(true);
+    try {
+      await saveManager.deleteNamedSave(projectId, checkpoint.id);
+      onDeleted?.(checkpoint);
+      toast.success(`Deleted "${checkpoint.name}"`);
+      await loadSaves();
+    } catch (error) {
+      logger.error('[NamedSaves] Failed to delete save', error);
+      toast.error('Failed to delete save');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] flex flex-col gap-3">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Bookmark className="h-5 w-5" />
+            Saved Versions{projectName ? ` · ${projectName}` : ''}
+          </DialogTitle>
+          <DialogDescription>
+            Named saves are kept until you delete them. Compare them with the current project or restore them at any time.
+          </DialogDescription>
+        </DialogHeader>
+
+        {onSave && (
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleCreate();
+              }}
+              placeholder="Save current state as…"
+              className="flex-1"
+              disabled={busy}
+            />
+            <Input
+              value={newTags}
+              onChange={(e) => setNewTags(e.target.value)}
+              placeholder="Tags (comma separated)"
+              className="sm:w-56"
+              disabled={busy}
+            />
+            <Button onClick={handleCreate} disabled={busy || !newName.trim()}>
+              Save
+            </Button>
+          </div>
+        )}
+
+        <div className="flex-1 min-h-0 overflow-y-auto border rounded-md">
+          {loading && (
+            <div className="p-3 flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading…
+            </div>
+          )}
+          {!loading && saves.length === 0 && (
+            <p className="p-3 text-sm text-muted-foreground">No named saves yet.</p>
+          )}
+          {!loading && saves.map(checkpoint => (
+            <div
+              key={checkpoint.id}
+              className={cn(
+                'px-3 py-2 border-b border-border/50 last:border-b-0',
+                checkpoint.id === savedCheckpointId && 'bg-muted/60'
+              )}
+            >
+              {editingId === checkpoint.id ? (
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <Input
+                    value={editName}
+                    onChange={(e) => setEditName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleRename(checkpoint);
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="h-8 flex-1"
+                    autoFocus
+                  />
+                  <Input
+                    value={editTags}
+                    onChange={(e) => setEditTags(e.target.value)}
+                    placeholder="Tags"
+                    className="h-8 sm:w-48"
+                  />
+                  <div className="flex gap-1">
+                    <Button size="icon" variant="ghost" className="h-8 w-8" disabled={busy} onClick={() => handleRename(checkpoint)}>
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => setEditingId(null)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-1.5">
+                      <span className="text-sm font-medium truncate" title={checkpoint.name || undefined}>
+                        {checkpoint.name}
+                      </span>
+                      {checkpoint.id === savedCheckpointId && (
+                        <Badge variant="secondary" className="text-[10px] px-1.5 py-0">current</Badge>
+                      )}
+                      {(checkpoint.tags || []).map(tag => (
+                        <Badge key={tag} variant="outline" className="text-[10px] px-1.5 py-0">{tag}</Badge>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(checkpoint.timestamp), { addSuffix: true })} · {checkpoint.manifest.size} files
+                    </p>
+                  </div>
+                  <Button size="icon" variant="ghost" className="h-7 w-7" title="Rename" disabled={busy} onClick={() => startEditing(checkpoint)}>
+                    <Edit2 className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button size="icon" variant="ghost" className="h-7 w-7" title="Compare with current project" disabled={busy} onClick={() => onCompare(checkpoint)}>
+                    <GitCompare className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button size="icon" variant="ghost" className="h-7 w-7" title="Restore" disabled={busy} onClick={() => handleRestore(checkpoint)}>
+                    <RotateCcw className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button size="icon" variant="ghost" className="h-7 w-7 text-destructive" title="Delete" disabled={busy} onClick={() => handleDelete(checkpoint)}>
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,10 +4,14 @@ import React, { useState, useEffect, useRef, useCallback, useMemo, forwardRef, u
 import { VirtualServer } from '@/lib/preview/virtual-server';
 import {
   CompiledProject,
+  CompileDiagnostic,
   PreviewMessage,
   FocusContextPayload,
   PreviewHostMessage
 } from '@/lib/preview/types';
+import { injectConsoleBridge, mapPreviewSources, previewConsole } from '@/lib/preview/console';
+import { PreviewMode, PreviewRequestHandler, previewServiceWorker } from '@/lib/preview/service-worker';
+import { MAX_REDIRECTS, pageCandidates, resolveRoute } from '@/lib/preview/routing';
 import { vfs } from '@/lib/vfs';
 import { Button } from '@/components/ui/button';
 import {
@@ -20,16 +24,32 @@ import {
   Home,
   Eye,
   Crosshair,
+  Server,
   X
 } from 'lucide-react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { cn, logger } from '@/lib/utils';
 import { captureIframeScreenshot } from '@/lib/utils/screenshot';
+import { PreviewConsole } from './preview-console';
+import { toast } from 'sonner';
+
+export interface PreviewCaptureOptions {
+  /** Page to load before capturing; defaults to the page shown */
+  path?: string;
+  /** Output size; defaults to a 640×360 thumbnail */
+  width?: number;
+  height?: number;
+}
 
 export interface MultipagePreviewHandle {
-  captureScreenshot: () => Promise<string | null>;
+  captureScreenshot: (options?: PreviewCaptureOptions) => Promise<string | null>;
 }
 
+// Longest wait for a pending rebuild and page load before capturing anyway
+const CAPTURE_SETTLE_TIMEOUT = 5000;
+// Time for fonts, images and entrance transitions after the load event
+const CAPTURE_RENDER_DELAY = 300;
+
 interface MultipagePreviewProps {
   projectId: string;
   currentPath?: string;
@@ -48,6 +68,316 @@ const DEVICE_SIZES: Record<DeviceSize, { width?: string; height?: string; maxHei
   responsive: { width: '100%', height: '100%' }
 };
 
+/**
+ * Link handling and the element selector, injected into every preview page. With a
+ * `scopePath` the page is served from real URLs by the service worker; without one, links
+ * are routed through the host since srcdoc pages can't navigate on their own.
+ */
+function previewPageScript(currentPath: string, scopePath: string | null): string {
+  return `
+  <script>
+    (function() {
+      const isInIframe = window !== window.parent;
+      const scopePath = ${JSON.stringify(scopePath)};
+
+      // Pages served from real URLs navigate on their own, so report where they went
+      if (scopePath !== null && isInIframe) {
+        const reportLocation = function() {
+          const pathname = window.location.pathname;
+          const path = pathname.indexOf(scopePath) === 0 ? pathname.slice(scopePath.length) || '/' : pathname;
+          window.parent.postMessage({ type: 'location', path: path + window.location.search }, '*');
+        };
+        ['pushState', 'replaceState'].forEach(function(method) {
+          const original = history[method];
+          history[method] = function() {
+            const result = original.apply(this, arguments);
+            reportLocation();
+            return result;
+          };
+        });
+        window.addEventListener('popstate', reportLocation);
+        reportLocation();
+      }
+
+      function resolveInternalPath(href) {
+        let path = href;
+        if (!path.startsWith('/')) {
+          const currentPath = ${JSON.stringify(currentPath)};
+          const currentDir = currentPath.substring(0, currentPath.lastIndexOf('/'));
+          path = currentDir + '/' + path;
+        }
+
+        if (path.endsWith('.html')) {
+          path = path.slice(0, -5);
+        }
+        if (path === '/index') {
+          path = '/';
+        }
+        return path;
+      }
+
+      document.addEventListener('click', function(e) {
+        const target = e.target && e.target.closest ? e.target.closest('a') : null;
+        if (target && target.getAttribute) {
+          const href = target.getAttribute('href');
+
+          if (!href) {
+            return;
+          }
+
+          if (href.startsWith('#')) {
+            e.preventDefault();
+            const targetId = href.substring(1);
+            const targetElement = document.getElementById(targetId);
+            if (targetElement) {
+              targetElement.scrollIntoView({ behavior: 'smooth', block: 'start' });
+            }
+            return;
+          }
+
+          const isExternal = href.startsWith('http://') || href.startsWith('https://') || href.startsWith('//');
+          if (!isExternal) {
+            if (scopePath !== null) {
+              // Real URLs: let the browser navigate, but keep root-relative links in the project
+              if (href.charAt(0) === '/' && !e.defaultPrevented && (!target.target || target.target === '_self')) {
+                e.preventDefault();
+                window.location.assign(scopePath + href);
+              }
+            } else if (isInIframe) {
+              e.preventDefault();
+              window.parent.postMessage({
+                type: 'navigate',
+                path: resolveInternalPath(href)
+              }, '*');
+            }
+          } else {
+            e.preventDefault();
+            window.open(href, '_blank');
+          }
+        }
+      });
+
+      const selectorState = {
+        active: false,
+        overlay: null,
+        lastTarget: null,
+        previousCursor: ''
+      };
+
+      function isElement(node) {
+        return node && node.nodeType === 1;
+      }
+
+      function ensureOverlay() {
+        if (selectorState.overlay) {
+          return selectorState.overlay;
+        }
+        const overlay = document.createElement('div');
+        overlay.style.position = 'absolute';
+        overlay.style.pointerEvents = 'none';
+        overlay.style.border = '2px solid rgba(99, 102, 241, 0.95)';
+        overlay.style.background = 'rgba(99, 102, 241, 0.08)';
+        overlay.style.boxShadow = '0 0 0 4px rgba(99, 102, 241, 0.32), 0 20px 40px rgba(15, 23, 42, 0.28)';
+        overlay.style.borderRadius = '12px';
+        overlay.style.zIndex = '2147483647';
+        overlay.style.transition = 'top 0.12s ease-out, left 0.12s ease-out, width 0.12s ease-out, height 0.12s ease-out';
+        overlay.style.willChange = 'top, left, width, height';
+        selectorState.overlay = overlay;
+        document.body.appendChild(overlay);
+        return overlay;
+      }
+
+      function positionOverlay(target) {
+        if (!isElement(target)) {
+          return;
+        }
+        const overlay = ensureOverlay();
+        const rect = target.getBoundingClientRect();
+        overlay.style.top = (rect.top + window.scrollY) + 'px';
+        overlay.style.left = (rect.left + window.scrollX) + 'px';
+        overlay.style.width = Math.max(rect.width, 1) + 'px';
+        overlay.style.height = Math.max(rect.height, 1) + 'px';
+        overlay.style.opacity = '1';
+      }
+
+      function clearOverlay() {
+        if (selectorState.overlay && selectorState.overlay.parentElement) {
+          selectorState.overlay.parentElement.removeChild(selectorState.overlay);
+        }
+        selectorState.overlay = null;
+      }
+
+      function buildDomPath(element) {
+        if (!isElement(element)) {
+          return '';
+        }
+        const segments = [];
+        let current = element;
+        while (current && current.nodeType === 1) {
+          let segment = current.tagName.toLowerCase();
+          if (current.id) {
+            segment += '#' + current.id;
+            segments.unshift(segment);
+            break;
+          }
+          const parent = current.parentElement;
+          if (parent) {
+            const siblings = parent.children;
+            let index = 0;
+            for (let i = 0; i < siblings.length; i++) {
+              if (siblings[i].tagName === current.tagName) {
+                index++;
+              }
+              if (siblings[i] === current) {
+                if (index > 1) {
+                  segment += ':nth-of-type(' + index + ')';
+                } else {
+                  const hasSame = Array.from(siblings).some(function(child, childIndex) {
+                    return childIndex !== i && child.tagName === current.tagName;
+                  });
+                  if (hasSame) {
+                    segment += ':nth-of-type(' + index + ')';
+                  }
+                }
+                break;
+              }
+            }
+          }
+          segments.unshift(segment);
+          current = parent;
+        }
+        return segments.join(' > ');
+      }
+
+      function gatherAttributes(element) {
+        const attributes = {};
+        if (!isElement(element) || !element.attributes) {
+          return attributes;
+        }
+        const maxAttributes = 25;
+        for (let i = 0; i < element.attributes.length && i < maxAttributes; i++) {
+          const attr = element.attributes[i];
+          if (!attr) continue;
+          const name = attr.name;
+          if (!name || name === 'style' || name.startsWith('on')) {
+            continue;
+          }
+          attributes[name] = attr.value;
+        }
+        return attributes;
+      }
+
+      function handleMouseMove(event) {
+        if (!selectorState.active) {
+          return;
+        }
+        const target = isElement(event.target) ? event.target : (event.target && event.target.parentElement);
+        if (!isElement(target) || target === selectorState.lastTarget) {
+          return;
+        }
+        selectorState.lastTarget = target;
+        positionOverlay(target);
+      }
+
+      function handleClick(event) {
+        if (!selectorState.active) {
+          return;
+        }
+        event.preventDefault();
+        event.stopPropagation();
+        if (typeof event.stopImmediatePropagation === 'function') {
+          event.stopImmediatePropagation();
+        }
+        const target = isElement(event.target) ? event.target : (event.target && event.target.parentElement);
+        if (!isElement(target)) {
+          disableSelector(false);
+          return;
+        }
+        const payload = {
+          domPath: buildDomPath(target),
+          tagName: target.tagName.toLowerCase(),
+          attributes: gatherAttributes(target),
+          outerHTML: target.outerHTML || ''
+        };
+        if (isInIframe) {
+          window.parent.postMessage({ type: 'selector-selection', payload: payload }, '*');
+        }
+        disableSelector(false);
+      }
+
+      function handleContextMenu(event) {
+        if (!selectorState.active) {
+          return;
+        }
+        event.preventDefault();
+        event.stopPropagation();
+      }
+
+      function handleKeyDown(event) {
+        if (!selectorState.active) {
+          return;
+        }
+        if (event.key === 'Escape') {
+          event.preventDefault();
+          disableSelector(true);
+        }
+      }
+
+      function enableSelector() {
+        if (selectorState.active) {
+          return;
+        }
+        selectorState.active = true;
+        selectorState.previousCursor = document.body.style.cursor;
+        const overlay = ensureOverlay();
+        overlay.style.opacity = '0';
+        document.body.style.cursor = 'crosshair';
+        document.addEventListener('mousemove', handleMouseMove, true);
+        document.addEventListener('click', handleClick, true);
+        document.addEventListener('contextmenu', handleContextMenu, true);
+        document.addEventListener('keydown', handleKeyDown, true);
+      }
+
+      function disableSelector(notifyCancel) {
+        if (!selectorState.active) {
+          return;
+        }
+        selectorState.active = false;
+        selectorState.lastTarget = null;
+        if (selectorState.overlay) {
+          selectorState.overlay.style.opacity = '0';
+          window.setTimeout(clearOverlay, 120);
+        } else {
+          clearOverlay();
+        }
+        document.body.style.cursor = selectorState.previousCursor || '';
+        document.removeEventListener('mousemove', handleMouseMove, true);
+        document.removeEventListener('click', handleClick, true);
+        document.removeEventListener('contextmenu', handleContextMenu, true);
+        document.removeEventListener('keydown', handleKeyDown, true);
+        if (notifyCancel && isInIframe) {
+          window.parent.postMessage({ type: 'selector-cancelled' }, '*');
+        }
+      }
+
+      window.addEventListener('message', function(event) {
+        const data = event.data;
+        if (!data || typeof data !== 'object') {
+          return;
+        }
+        if (data.type === 'selector-toggle') {
+          if (data.active) {
+            enableSelector();
+          } else {
+            disableSelector(false);
+          }
+        }
+      });
+    })();
+  </script>
+`;
+}
+
 const MultipagePreviewComponent = forwardRef<MultipagePreviewHandle, MultipagePreviewProps>(({
   projectId,
   refreshTrigger,
@@ -64,6 +394,12 @@ const MultipagePreviewComponent = forwardRef<MultipagePreviewHandle, MultipagePr
   const [historyIndex, setHistoryIndex] = useState(0);
   const [iframeReady, setIframeReady] = useState(false);
   const [selectorActive, setSelectorActive] = useState(false);
+  const [previewMode, setPreviewMode] = useState<PreviewMode>(() => {
+    if (typeof window !== 'undefined') {
+      return localStorage.getItem('osw-studio-preview-mode') === 'service-worker' ? 'service-worker' : 'blob';
+    }
+    return 'blob';
+  });
   const crosshairButtonStyle = useMemo(() => {
     if (selectorActive) {
       return { backgroundColor: 'var(--button-preview-active)', color: 'white' };
@@ -79,17 +415,47 @@ const MultipagePreviewComponent = forwardRef<MultipagePreviewHandle, MultipagePr
   const activePathRef = useRef<string>('/');
   const pendingLoadPath = useRef<string | null>(null);
   const selectorActiveRef = useRef(false);
+  const frameLoadingRef = useRef(false);
+  const loadPageRef = useRef<(path: string) => void>(() => {});
+  // Blob and document URLs of the loaded page mapped back to project paths, for console output
+  const sourcePathsRef = useRef<Map<string, string>>(new Map());
+  // Whether the current build is served by the preview service worker
+  const servedRef = useRef(false);
 
   // Expose captureScreenshot method via ref
-  useImperativeHandle(ref, () => ({
-    captureScreenshot: async () => {
-      if (!iframeRef.current || !iframeReady) {
-        logger.warn('Cannot capture screenshot: iframe not ready');
-        return null;
+  useImperativeHandle(ref, () => {
+    const waitForSettledPreview = async () => {
+      const deadline = Date.now() + CAPTURE_SETTLE_TIMEOUT;
+      const busy = () => compilingRef.current || compileTimeoutRef.current !== null || frameLoadingRef.current;
+      while (busy() && Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, 100));
       }
-      return await captureIframeScreenshot(iframeRef.current);
-    }
-  }), [iframeReady]);
+      await new Promise(resolve => setTimeout(resolve, CAPTURE_RENDER_DELAY));
+    };
+
+    return {
+      captureScreenshot: async ({ path, width = 640, height = 360 }: PreviewCaptureOptions = {}) => {
+        if (!iframeRef.current || !iframeReady) {
+          logger.warn('Cannot capture screenshot: iframe not ready');
+          return null;
+        }
+        // A rebuild after recent file changes reloads the page, so let it finish first
+        await waitForSettledPreview();
+        if (path) {
+          const normalizedPath = path.startsWith('/') ? path : `/${path}`;
+          if (normalizedPath !== activePathRef.current) {
+            loadPageRef.current(normalizedPath);
+            await waitForSettledPreview();
+          }
+        }
+        if (!iframeRef.current) {
+          return null;
+        }
+        // Capture at desktop width with the output's aspect ratio
+        return await captureIframeScreenshot(iframeRef.current, 1280, Math.round(1280 * height / width), width, height);
+      }
+    };
+  }, [iframeReady]);
 
   const postMessageToIframe = useCallback((message: PreviewHostMessage) => {
     if (!iframeRef.current || !iframeRef.current.contentWindow) {
@@ -153,13 +519,17 @@ const MultipagePreviewComponent = forwardRef<MultipagePreviewHandle, MultipagePr
       return;
     }
     const handleLoad = () => {
+      frameLoadingRef.current = false;
+      previewConsole.markSettled(projectId);
       postMessageToIframe({ type: 'selector-toggle', active: selectorActiveRef.current });
     };
     iframe.addEventListener('load', handleLoad);
     return () => {
       iframe.removeEventListener('load', handleLoad);
     };
-  }, [iframeReady, postMessageToIframe]);
+  }, [iframeReady, postMessageToIframe, projectId]);
+
+  useEffect(() => previewConsole.attach(projectId), [projectId]);
 
   useEffect(() => {
     activePathRef.current = activePath;
@@ -198,30 +568,44 @@ const MultipagePreviewComponent = forwardRef<MultipagePreviewHandle, MultipagePr
       
       const server = new VirtualServer(vfs, projectId);
       serverRef.current = server;
+
+      let served = false;
+      if (previewMode === 'service-worker') {
+        served = await previewServiceWorker.register();
+        if (!served) {
+          toast.error('Service workers are unavailable here (they need HTTPS or localhost); switched back to the blob preview');
+          setPreviewMode('blob');
+        }
+      }
+      servedRef.current = served;
       
-      const compiled = await server.compileProject();
+      const compiled = served ? await server.compileForServing() : await server.compileProject();
       setCompiledProject(compiled);
       compiledProjectRef.current = compiled;
 
       let pathToLoad = currentPath;
       if (!pathToLoad) {
-        pathToLoad = compiled.blobUrls.has('/index.html') ? '/' : 
+        pathToLoad = compiled.routes.some(route => route.path === '/') ? '/' : 
                      compiled.entryPoint || 
                      (compiled.routes.length > 0 ? compiled.routes[0].path : '/');
       }
       
       loadPage(pathToLoad, compiled);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to compile project');
+      const message = err instanceof Error ? err.message : 'Failed to compile project';
+      setError(message);
       logger.error('Compilation error:', err);
+      previewConsole.add(projectId, { level: 'error', kind: 'error', message: `Build failed: ${message}` });
+      previewConsole.markSettled(projectId);
     } finally {
       if (showLoading) {
         setLoading(false);
       }
     }
-  }, [projectId]);
+  }, [previewMode, projectId]);
 
   const compileAndLoad = useCallback((preserveCurrentPath: boolean = false, showLoading: boolean = true) => {
+    previewConsole.markPending(projectId);
     if (compilingRef.current) {
       const pending = pendingCompileOptionsRef.current;
       pendingCompileOptionsRef.current = {
@@ -246,9 +630,10 @@ const MultipagePreviewComponent = forwardRef<MultipagePreviewHandle, MultipagePr
     };
 
     void run(preserveCurrentPath, showLoading);
-  }, [compileAndLoadInternal]);
+  }, [compileAndLoadInternal, projectId]);
 
   const scheduleCompile = useCallback((preserveCurrentPath = false, showLoading = false) => {
+    previewConsole.markPending(projectId);
     const pending = scheduledCompileOptionsRef.current;
     scheduledCompileOptionsRef.current = {
       preserve: (pending?.preserve ?? false) || preserveCurrentPath,
@@ -267,7 +652,7 @@ const MultipagePreviewComponent = forwardRef<MultipagePreviewHandle, MultipagePr
         compileAndLoad(options.preserve, options.showLoading);
       }
     }, 150);
-  }, [compileAndLoad]);
+  }, [compileAndLoad, projectId]);
 
 
   useEffect(() => {
@@ -295,7 +680,78 @@ const MultipagePreviewComponent = forwardRef<MultipagePreviewHandle, MultipagePr
   }, [projectId, scheduleCompile]);
 
 
-  const loadPage = (path: string, compiled?: CompiledProject) => {
+  const beginConsoleLoad = (page: string, diagnostics: CompileDiagnostic[]) => {
+    previewConsole.beginLoad(projectId, page);
+    for (const diagnostic of diagnostics) {
+      const warning = diagnostic.severity === 'warning';
+      previewConsole.add(projectId, {
+        level: warning ? 'warn' : 'error',
+        kind: 'error',
+        message: warning ? diagnostic.message : `Compile error: ${diagnostic.message}`,
+        source: diagnostic.path,
+        line: diagnostic.line,
+        column: diagnostic.column
+      });
+    }
+  };
+
+  const recordNavigation = (path: string) => {
+    setActivePath(path);
+    activePathRef.current = path;
+    
+    setHistoryIndex(currentIndex => {
+      setNavigationHistory(currentHistory => {
+        const newHistory = [...currentHistory.slice(0, currentIndex + 1), path];
+        return newHistory;
+      });
+      return currentIndex + 1;
+    });
+  };
+
+  // Requests from the preview service worker; pages get the same scripts as srcdoc pages
+  const servePreviewRequest: PreviewRequestHandler = async (path, { navigate }) => {
+    const server = serverRef.current;
+    if (!server) {
+      return { status: 503, content: 'The preview is not ready yet', mimeType: 'text/plain' };
+    }
+
+    const served = await server.serve(path, { navigate });
+    if (!navigate) {
+      return served;
+    }
+
+    const page = path.split(/[?#]/)[0] || '/';
+    beginConsoleLoad(page, compiledProjectRef.current?.diagnostics ?? []);
+    if (served.status === 404) {
+      previewConsole.add(projectId, { level: 'error', kind: 'network', message: `Page not found: ${page}` });
+    }
+    if (served.mimeType !== 'text/html' || typeof served.content !== 'string') {
+      return served;
+    }
+
+    const script = previewPageScript(page, previewServiceWorker.scopeUrl(projectId));
+    const content = served.content.includes('</body>')
+      ? served.content.replace('</body>', script + '</body>')
+      : served.content + script;
+    return { ...served, content: injectConsoleBridge(content) };
+  };
+  const servePreviewRequestRef = useRef(servePreviewRequest);
+  servePreviewRequestRef.current = servePreviewRequest;
+
+  useEffect(() => {
+    if (previewMode !== 'service-worker') {
+      return;
+    }
+    return previewServiceWorker.serve(projectId, (path, options) => servePreviewRequestRef.current(path, options));
+  }, [previewMode, projectId]);
+
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      localStorage.setItem('osw-studio-preview-mode', previewMode);
+    }
+  }, [previewMode]);
+
+  const loadPage = (path: string, compiled?: CompiledProject, redirectCount = 0) => {
     const projectToUse = compiled || compiledProjectRef.current || compiledProject;
     
     if (!projectToUse) {
@@ -318,21 +774,50 @@ const MultipagePreviewComponent = forwardRef<MultipagePreviewHandle, MultipagePr
     if (!normalizedPath.startsWith('/')) {
       normalizedPath = '/' + normalizedPath;
     }
-    
-    const route = projectToUse.routes.find(r => r.path === normalizedPath);
-    let filePath: string;
-    if (route) {
-      filePath = route.file;
-    } else if (normalizedPath === '/') {
-      filePath = '/index.html';
-    } else {
-      filePath = normalizedPath + '.html';
+
+    if (servedRef.current) {
+      // The service worker resolves the page; the console restarts when it is requested
+      sourcePathsRef.current = new Map([[window.location.origin + previewServiceWorker.scopeUrl(projectId), '']]);
+      frameLoadingRef.current = true;
+      iframeRef.current.removeAttribute('srcdoc');
+      iframeRef.current.src = previewServiceWorker.previewUrl(projectId, normalizedPath);
+      recordNavigation(normalizedPath);
+      return;
     }
+    normalizedPath = normalizedPath.split(/[?#]/)[0];
     
+    // Routes first, then the files a static host would try for the URL
+    const findPage = (pagePath: string) => {
+      const route = projectToUse.routes.find(r => r.path === pagePath);
+      const candidates = route ? [route.file] : pageCandidates(pagePath);
+      return candidates.find(candidate => projectToUse.files.some(f => f.path === candidate && f.mimeType === 'text/html')) ?? null;
+    };
+    const resolution = resolveRoute(normalizedPath, projectToUse.config, findPage, { navigate: true });
+
+    if (resolution.type === 'redirect') {
+      const internal = resolution.location.startsWith('/') && !resolution.location.startsWith('//');
+      if (internal && redirectCount < MAX_REDIRECTS) {
+        loadPage(resolution.location, compiled, redirectCount + 1);
+      } else {
+        previewConsole.add(projectId, {
+          level: internal ? 'error' : 'warn',
+          kind: 'network',
+          message: internal
+            ? `Too many redirects from ${path}`
+            : `${path} redirects to ${resolution.location}, which the preview does not open`
+        });
+        previewConsole.markSettled(projectId);
+      }
+      return;
+    }
+
+    const filePath = resolution.type === 'file' ? resolution.path : null;
     const htmlFile = projectToUse.files.find(f => f.path === filePath);
     
     if (!htmlFile) {
       setError(`Page not found: ${path}`);
+      previewConsole.add(projectId, { level: 'error', kind: 'error', message: `Page not found: ${path}` });
+      previewConsole.markSettled(projectId);
       const indexFile = projectToUse.files.find(f => f.path === '/index.html' || f.path === 'index.html');
       if (indexFile && path !== '/') {
         loadPage('/', compiled);
@@ -361,7 +846,7 @@ const MultipagePreviewComponent = forwardRef<MultipagePreviewHandle, MultipagePr
     
     // Replace JavaScript sources
     processedHtml = processedHtml.replace(/src="([^"]+)"/g, (match, src) => {
-      if (!src.endsWith('.js') || src.startsWith('http') || src.startsWith('//')) {
+      if (!/\.(m?js|jsx|tsx?)$/.test(src) || src.startsWith('http') || src.startsWith('//')) {
         return match;
       }
       
@@ -380,302 +865,32 @@ const MultipagePreviewComponent = forwardRef<MultipagePreviewHandle, MultipagePr
       return blobUrl ? `src="${blobUrl}"` : match;
     });
 
-    const navigationScript = `
-      <script>
-        (function() {
-          const isInIframe = window !== window.parent;
-
-          function resolveInternalPath(href) {
-            let path = href;
-            if (!path.startsWith('/')) {
-              const currentPath = '${normalizedPath}';
-              const currentDir = currentPath.substring(0, currentPath.lastIndexOf('/'));
-              path = currentDir + '/' + path;
-            }
-
-            if (path.endsWith('.html')) {
-              path = path.slice(0, -5);
-            }
-            if (path === '/index') {
-              path = '/';
-            }
-            return path;
-          }
-
-          document.addEventListener('click', function(e) {
-            const target = e.target && e.target.closest ? e.target.closest('a') : null;
-            if (target && target.getAttribute) {
-              const href = target.getAttribute('href');
-
-              if (!href) {
-                return;
-              }
-
-              if (href.startsWith('#')) {
-                e.preventDefault();
-                const targetId = href.substring(1);
-                const targetElement = document.getElementById(targetId);
-                if (targetElement) {
-                  targetElement.scrollIntoView({ behavior: 'smooth', block: 'start' });
-                }
-                return;
-              }
-
-              const isExternal = href.startsWith('http://') || href.startsWith('https://') || href.startsWith('//');
-              if (!isExternal) {
-                if (isInIframe) {
-                  e.preventDefault();
-                  window.parent.postMessage({
-                    type: 'navigate',
-                    path: resolveInternalPath(href)
-                  }, '*');
-                }
-              } else {
-                e.preventDefault();
-                window.open(href, '_blank');
-              }
-            }
-          });
-
-          const selectorState = {
-            active: false,
-            overlay: null,
-            lastTarget: null,
-            previousCursor: ''
-          };
-
-          function isElement(node) {
-            return node && node.nodeType === 1;
-          }
-
-          function ensureOverlay() {
-            if (selectorState.overlay) {
-              return selectorState.overlay;
-            }
-            const overlay = document.createElement('div');
-            overlay.style.position = 'absolute';
-            overlay.style.pointerEvents = 'none';
-            overlay.style.border = '2px solid rgba(99, 102, 241, 0.95)';
-            overlay.style.background = 'rgba(99, 102, 241, 0.08)';
-            overlay.style.boxShadow = '0 0 0 4px rgba(99, 102, 241, 0.32), 0 20px 40px rgba(15, 23, 42, 0.28)';
-            overlay.style.borderRadius = '12px';
-            overlay.style.zIndex = '2147483647';
-            overlay.style.transition = 'top 0.12s ease-out, left 0.12s ease-out, width 0.12s ease-out, height 0.12s ease-out';
-            overlay.style.willChange = 'top, left, width, height';
-            selectorState.overlay = overlay;
-            document.body.appendChild(overlay);
-            return overlay;
-          }
-
-          function positionOverlay(target) {
-            if (!isElement(target)) {
-              return;
-            }
-            const overlay = ensureOverlay();
-            const rect = target.getBoundingClientRect();
-            overlay.style.top = (rect.top + window.scrollY) + 'px';
-            overlay.style.left = (rect.left + window.scrollX) + 'px';
-            overlay.style.width = Math.max(rect.width, 1) + 'px';
-            overlay.style.height = Math.max(rect.height, 1) + 'px';
-            overlay.style.opacity = '1';
-          }
-
-          function clearOverlay() {
-            if (selectorState.overlay && selectorState.overlay.parentElement) {
-              selectorState.overlay.parentElement.removeChild(selectorState.overlay);
-            }
-            selectorState.overlay = null;
-          }
-
-          function buildDomPath(element) {
-            if (!isElement(element)) {
-              return '';
-            }
-            const segments = [];
-            let current = element;
-            while (current && current.nodeType === 1) {
-              let segment = current.tagName.toLowerCase();
-              if (current.id) {
-                segment += '#' + current.id;
-                segments.unshift(segment);
-                break;
-              }
-              const parent = current.parentElement;
-              if (parent) {
-                const siblings = parent.children;
-                let index = 0;
-                for (let i = 0; i < siblings.length; i++) {
-                  if (siblings[i].tagName === current.tagName) {
-                    index++;
-                  }
-                  if (siblings[i] === current) {
-                    if (index > 1) {
-                      segment += ':nth-of-type(' + index + ')';
-                    } else {
-                      const hasSame = Array.from(siblings).some(function(child, childIndex) {
-                        return childIndex !== i && child.tagName === current.tagName;
-                      });
-                      if (hasSame) {
-                        segment += ':nth-of-type(' + index + ')';
-                      }
-                    }
-                    break;
-                  }
-                }
-              }
-              segments.unshift(segment);
-              current = parent;
-            }
-            return segments.join(' > ');
-          }
-
-          function gatherAttributes(element) {
-            const attributes = {};
-            if (!isElement(element) || !element.attributes) {
-              return attributes;
-            }
-            const maxAttributes = 25;
-            for (let i = 0; i < element.attributes.length && i < maxAttributes; i++) {
-              const attr = element.attributes[i];
-              if (!attr) continue;
-              const name = attr.name;
-              if (!name || name === 'style' || name.startsWith('on')) {
-                continue;
-              }
-              attributes[name] = attr.value;
-            }
-            return attributes;
-          }
-
-          function handleMouseMove(event) {
-            if (!selectorState.active) {
-              return;
-            }
-            const target = isElement(event.target) ? event.target : (event.target && event.target.parentElement);
-            if (!isElement(target) || target === selectorState.lastTarget) {
-              return;
-            }
-            selectorState.lastTarget = target;
-            positionOverlay(target);
-          }
-
-          function handleClick(event) {
-            if (!selectorState.active) {
-              return;
-            }
-            event.preventDefault();
-            event.stopPropagation();
-            if (typeof event.stopImmediatePropagation === 'function') {
-              event.stopImmediatePropagation();
-            }
-            const target = isElement(event.target) ? event.target : (event.target && event.target.parentElement);
-            if (!isElement(target)) {
-              disableSelector(false);
-              return;
-            }
-            const payload = {
-              domPath: buildDomPath(target),
-              tagName: target.tagName.toLowerCase(),
-              attributes: gatherAttributes(target),
-              outerHTML: target.outerHTML || ''
-            };
-            if (isInIframe) {
-              window.parent.postMessage({ type: 'selector-selection', payload: payload }, '*');
-            }
-            disableSelector(false);
-          }
-
-          function handleContextMenu(event) {
-            if (!selectorState.active) {
-              return;
-            }
-            event.preventDefault();
-            event.stopPropagation();
-          }
-
-          function handleKeyDown(event) {
-            if (!selectorState.active) {
-              return;
-            }
-            if (event.key === 'Escape') {
-              event.preventDefault();
-              disableSelector(true);
-            }
-          }
-
-          function enableSelector() {
-            if (selectorState.active) {
-              return;
-            }
-            selectorState.active = true;
-            selectorState.previousCursor = document.body.style.cursor;
-            const overlay = ensureOverlay();
-            overlay.style.opacity = '0';
-            document.body.style.cursor = 'crosshair';
-            document.addEventListener('mousemove', handleMouseMove, true);
-            document.addEventListener('click', handleClick, true);
-            document.addEventListener('contextmenu', handleContextMenu, true);
-            document.addEventListener('keydown', handleKeyDown, true);
-          }
-
-          function disableSelector(notifyCancel) {
-            if (!selectorState.active) {
-              return;
-            }
-            selectorState.active = false;
-            selectorState.lastTarget = null;
-            if (selectorState.overlay) {
-              selectorState.overlay.style.opacity = '0';
-              window.setTimeout(clearOverlay, 120);
-            } else {
-              clearOverlay();
-            }
-            document.body.style.cursor = selectorState.previousCursor || '';
-            document.removeEventListener('mousemove', handleMouseMove, true);
-            document.removeEventListener('click', handleClick, true);
-            document.removeEventListener('contextmenu', handleContextMenu, true);
-            document.removeEventListener('keydown', handleKeyDown, true);
-            if (notifyCancel && isInIframe) {
-              window.parent.postMessage({ type: 'selector-cancelled' }, '*');
-            }
-          }
-
-          window.addEventListener('message', function(event) {
-            const data = event.data;
-            if (!data || typeof data !== 'object') {
-              return;
-            }
-            if (data.type === 'selector-toggle') {
-              if (data.active) {
-                enableSelector();
-              } else {
-                disableSelector(false);
-              }
-            }
-          });
-        })();
-      </script>
-    `;
+    const navigationScript = previewPageScript(normalizedPath, null);
     
     if (processedHtml.includes('</body>')) {
       processedHtml = processedHtml.replace('</body>', navigationScript + '</body>');
     } else {
       processedHtml += navigationScript;
     }
+    processedHtml = injectConsoleBridge(processedHtml);
 
+    const sourcePaths = new Map<string, string>([['about:srcdoc', htmlFile.path]]);
+    for (const [vfsPath, blobUrl] of projectToUse.blobUrls) {
+      sourcePaths.set(blobUrl, vfsPath);
+    }
+    sourcePathsRef.current = sourcePaths;
+    beginConsoleLoad(normalizedPath, projectToUse.diagnostics);
+    if (resolution.type === 'file' && resolution.status === 404) {
+      previewConsole.add(projectId, { level: 'error', kind: 'network', message: `Page not found: ${normalizedPath}` });
+    }
+
+    frameLoadingRef.current = true;
     iframeRef.current.srcdoc = processedHtml;
-    setActivePath(normalizedPath);
-    activePathRef.current = normalizedPath;
-    
-    setHistoryIndex(currentIndex => {
-      setNavigationHistory(currentHistory => {
-        const newHistory = [...currentHistory.slice(0, currentIndex + 1), normalizedPath];
-        return newHistory;
-      });
-      return currentIndex + 1;
-    });
+    recordNavigation(normalizedPath);
   };
 
+  loadPageRef.current = loadPage;
+
   const handleNavigation = useCallback((path: string) => {
     loadPage(path);
   }, [compiledProject]);
@@ -717,6 +932,13 @@ const MultipagePreviewComponent = forwardRef<MultipagePreviewHandle, MultipagePr
         return;
       }
 
+      if (data.type === 'location' && data.path && event.source === iframeRef.current?.contentWindow) {
+        if (data.path !== activePathRef.current) {
+          recordNavigation(data.path);
+        }
+        return;
+      }
+
       if (data.type === 'selector-selection' && data.payload) {
         setSelectorActive(false);
         onFocusSelection?.(data.payload);
@@ -725,6 +947,11 @@ const MultipagePreviewComponent = forwardRef<MultipagePreviewHandle, MultipagePr
 
       if (data.type === 'selector-cancelled') {
         setSelectorActive(false);
+        return;
+      }
+
+      if (data.type === 'console' && data.entry && event.source === iframeRef.current?.contentWindow) {
+        previewConsole.add(projectId, mapPreviewSources(data.entry, sourcePathsRef.current));
       }
     };
 
@@ -732,7 +959,7 @@ const MultipagePreviewComponent = forwardRef<MultipagePreviewHandle, MultipagePr
     return () => {
       window.removeEventListener('message', handleMessage);
     };
-  }, [handleNavigation, onFocusSelection]);
+  }, [handleNavigation, onFocusSelection, projectId]);
 
   useEffect(() => {
     return () => {
@@ -769,6 +996,7 @@ const MultipagePreviewComponent = forwardRef<MultipagePreviewHandle, MultipagePr
             </Button>
           </div>
         </div>
+        <PreviewConsole projectId={projectId} />
       </div>
     );
   }
@@ -813,6 +1041,16 @@ const MultipagePreviewComponent = forwardRef<MultipagePreviewHandle, MultipagePr
           >
             <RefreshCw className="h-3 w-3" />
           </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-5 w-5"
+            onClick={() => setPreviewMode(mode => (mode === 'service-worker' ? 'blob' : 'service-worker'))}
+            style={previewMode === 'service-worker' ? { backgroundColor: 'var(--button-preview-active)', color: 'white' } : undefined}
+            title={previewMode === 'service-worker' ? 'Serving from real URLs; switch to the blob preview' : 'Serve the preview from real URLs'}
+          >
+            <Server className="h-3 w-3" />
+          </Button>
           <Button
             size="icon"
             variant="ghost"
@@ -881,6 +1119,16 @@ const MultipagePreviewComponent = forwardRef<MultipagePreviewHandle, MultipagePr
           >
             <RefreshCw className="h-3 w-3" />
           </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-5 w-5"
+            onClick={() => setPreviewMode(mode => (mode === 'service-worker' ? 'blob' : 'service-worker'))}
+            style={previewMode === 'service-worker' ? { backgroundColor: 'var(--button-preview-active)', color: 'white' } : undefined}
+            title={previewMode === 'service-worker' ? 'Serving from real URLs; switch to the blob preview' : 'Serve the preview from real URLs'}
+          >
+            <Server className="h-3 w-3" />
+          </Button>
           <Button
             size="icon"
             variant="ghost"
@@ -989,6 +1237,8 @@ const MultipagePreviewComponent = forwardRef<MultipagePreviewHandle, MultipagePr
           />
         </div>
       </div>
+
+      <PreviewConsole projectId={projectId} />
     </div>
   );
 });
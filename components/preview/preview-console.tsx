@@ -0,0 +1,171 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronRight, ChevronUp, Info, Terminal, Trash2, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { previewConsole } from '@/lib/preview/console';
+import { PreviewConsoleEntry } from '@/lib/preview/types';
+import { cn } from '@/lib/utils';
+
+type ConsoleFilter = 'all' | 'error' | 'warn';
+
+const FILTERS: { value: ConsoleFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'error', label: 'Errors' },
+  { value: 'warn', label: 'Warnings' }
+];
+
+function entryLocation(entry: PreviewConsoleEntry): string | null {
+  if (!entry.source) return null;
+  const file = entry.source.startsWith('/') ? entry.source : entry.source.split('/').pop() || entry.source;
+  return entry.line ? `${file}:${entry.line}` : file;
+}
+
+function ConsoleRow({ entry }: { entry: PreviewConsoleEntry }) {
+  const [expanded, setExpanded] = useState(false);
+  const location = entryLocation(entry);
+  const Icon = entry.level === 'error' ? XCircle : entry.level === 'warn' ? AlertTriangle : Info;
+
+  return (
+    <div
+      className={cn(
+        'border-b border-border/50 px-2 py-1 font-mono text-[11px] leading-4',
+        entry.level === 'error' && 'bg-destructive/5 text-destructive',
+        entry.level === 'warn' && 'bg-yellow-500/5 text-yellow-700 dark:text-yellow-400'
+      )}
+    >
+      <div
+        className={cn('flex items-start gap-1.5', entry.stack && 'cursor-pointer')}
+        onClick={() => entry.stack && setExpanded(prev => !prev)}
+      >
+        {entry.stack ? (
+          expanded ? <ChevronDown className="mt-0.5 h-3 w-3 shrink-0" /> : <ChevronRight className="mt-0.5 h-3 w-3 shrink-0" />
+        ) : (
+          <Icon className={cn('mt-0.5 h-3 w-3 shrink-0', entry.level !== 'error' && entry.level !== 'warn' && 'text-muted-foreground')} />
+        )}
+        {entry.kind === 'network' && (
+          <span className="shrink-0 rounded bg-muted px-1 text-[10px] text-muted-foreground">network</span>
+        )}
+        <span className={cn('flex-1 whitespace-pre-wrap break-words', entry.level !== 'error' && entry.level !== 'warn' && 'text-foreground')}>
+          {entry.message}
+        </span>
+        {entry.count > 1 && (
+          <span className="shrink-0 rounded-full bg-muted px-1.5 text-[10px] text-muted-foreground">{entry.count}</span>
+        )}
+        {location && (
+          <span className="shrink-0 text-muted-foreground" title={entry.source}>{location}</span>
+        )}
+      </div>
+      {expanded && entry.stack && (
+        <pre className="mt-1 ml-4 whitespace-pre-wrap break-words text-muted-foreground">{entry.stack}</pre>
+      )}
+    </div>
+  );
+}
+
+interface PreviewConsoleProps {
+  projectId: string;
+}
+
+/**
+ * Collapsible console under the preview with the page's logs, errors and failed requests
+ */
+export function PreviewConsole({ projectId }: PreviewConsoleProps) {
+  const [entries, setEntries] = useState<PreviewConsoleEntry[]>(() => previewConsole.getEntries(projectId));
+  const [open, setOpen] = useState(false);
+  const [filter, setFilter] = useState<ConsoleFilter>('all');
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    setEntries(previewConsole.getEntries(projectId));
+    return previewConsole.subscribe(changedProjectId => {
+      if (changedProjectId === projectId) {
+        setEntries(previewConsole.getEntries(projectId));
+      }
+    });
+  }, [projectId]);
+
+  const counts = useMemo(() => ({
+    error: entries.filter(entry => entry.level === 'error').reduce((sum, entry) => sum + entry.count, 0),
+    warn: entries.filter(entry => entry.level === 'warn').reduce((sum, entry) => sum + entry.count, 0)
+  }), [entries]);
+
+  const visible = useMemo(
+    () => (filter === 'all' ? entries : entries.filter(entry => entry.level === filter)),
+    [entries, filter]
+  );
+
+  useEffect(() => {
+    if (open && listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [open, visible]);
+
+  return (
+    <div className="border-t bg-background">
+      <div className="flex items-center gap-2 px-2 py-1">
+        <button
+          type="button"
+          onClick={() => setOpen(prev => !prev)}
+          className="flex flex-1 items-center gap-1.5 text-xs font-medium text-muted-foreground hover:text-foreground"
+          aria-expanded={open}
+        >
+          <Terminal className="h-3 w-3" />
+          Console
+          {counts.error > 0 && (
+            <span className="flex items-center gap-0.5 text-destructive">
+              <XCircle className="h-3 w-3" />
+              {counts.error}
+            </span>
+          )}
+          {counts.warn > 0 && (
+            <span className="flex items-center gap-0.5 text-yellow-600 dark:text-yellow-400">
+              <AlertTriangle className="h-3 w-3" />
+              {counts.warn}
+            </span>
+          )}
+          {open ? <ChevronDown className="ml-auto h-3 w-3" /> : <ChevronUp className="ml-auto h-3 w-3" />}
+        </button>
+        {open && (
+          <>
+            <div className="flex items-center gap-0.5">
+              {FILTERS.map(option => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setFilter(option.value)}
+                  className={cn(
+                    'rounded px-1.5 py-0.5 text-[11px]',
+                    filter === option.value ? 'bg-muted text-foreground' : 'text-muted-foreground hover:text-foreground'
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-5 w-5"
+              onClick={() => previewConsole.clear(projectId)}
+              title="Clear console"
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </>
+        )}
+      </div>
+      {open && (
+        <div ref={listRef} className="max-h-48 overflow-auto border-t">
+          {visible.length === 0 ? (
+            <p className="px-2 py-3 text-center text-xs text-muted-foreground">
+              {entries.length === 0 ? 'No console output' : 'Nothing matches this filter'}
+            </p>
+          ) : (
+            visible.map(entry => <ConsoleRow key={entry.id} entry={entry} />)
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -64,6 +64,11 @@ import { GuidedTourOverlay } from '@/components/guided-tour/overlay';
 import { configManager } from '@/lib/config/storage';
 import { TemplateExportDialog } from '@/components/templates/template-export-dialog';
 import { TemplateManager } from '@/components/template-manager';
+import { NamedSavesDialog } from '@/components/named-saves';
+import { CheckpointHistoryDialog } from '@/components/checkpoint-history';
+import { checkpointManager } from '@/lib/vfs/checkpoint';
+import { saveManager } from '@/lib/vfs/save-manager';
+import { gitService } from '@/lib/vfs/git-service';
 
 interface ProjectManagerProps {
   onProjectSelect: (project: Project) => void;
@@ -99,6 +104,8 @@ export function ProjectManager({ onProjectSelect }: ProjectManagerProps) {
   const [previewProject, setPreviewProject] = useState<Project | null>(null);
   const [aboutModalOpen, setAboutModalOpen] = useState(false);
   const [templateExportProject, setTemplateExportProject] = useState<Project | null>(null);
+  const [savesProject, setSavesProject] = useState<Project | null>(null);
+  const [compareSave, setCompareSave] = useState<{ project: Project; checkpointId: string } | null>(null);
   const [currentView, setCurrentView] = useState<PageView>('projects');
   const { state: tourState, setProjectList, start: startTour } = useGuidedTour();
   const tourStep = tourState.currentStep?.id;
@@ -366,18 +373,60 @@ export function ProjectManager({ onProjectSelect }: ProjectManagerProps) {
       toast.success('Project exported as ZIP');
     } catch (error) {
       logger.error('Failed to export project as ZIP:', error);
-      toast.error('Failed to export project as ZIP');
+      toast.error('Failed to export project as ZIP', {
+        description: error instanceof Error ? error.message : undefined
+      });
+    }
+  };
+
+  const exportProjectAsGit = async (project: Project) => {
+    try {
+      const blob = await gitService.exportProjectAsGitZip(project.id);
+      const url = URL.createObjectURL(blob);
+
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${project.name.replace(/\s+/g, '-')}-git.zip`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      toast.success('Project exported as git repository');
+    } catch (error) {
+      logger.error('Failed to export project as git repository:', error);
+      toast.error('Failed to export project as git repository');
+    }
+  };
+
+  const importGitRepository = async (file: File) => {
+    try {
+      const { project, commitCount, skippedFiles } = await gitService.importRepositoryZip(file);
+      toast.success(`Imported ${project.name} with ${commitCount} commit${commitCount === 1 ? '' : 's'}`);
+      if (skippedFiles.length > 0) {
+        toast.info(`Skipped ${skippedFiles.length} unsupported file${skippedFiles.length === 1 ? '' : 's'}`);
+      }
+      await reloadProjects();
+      onProjectSelect(project);
+    } catch (error) {
+      logger.error('Failed to import git repository:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to import git repository');
     }
   };
 
   const importProject = async () => {
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = '.json';
+    input.accept = '.json,.zip';
     
     input.onchange = async (e) => {
       const file = (e.target as HTMLInputElement).files?.[0];
       if (!file) return;
+
+      if (file.name.toLowerCase().endsWith('.zip')) {
+        await importGitRepository(file);
+        return;
+      }
       
       try {
         const text = await file.text();
@@ -681,9 +730,11 @@ export function ProjectManager({ onProjectSelect }: ProjectManagerProps) {
                           onDelete={deleteProject}
                           onExport={exportProject}
                           onExportZip={exportProjectAsZip}
+                          onExportGit={exportProjectAsGit}
                           onDuplicate={duplicateProject}
                           onPreview={setPreviewProject}
                           onExportAsTemplate={setTemplateExportProject}
+                          onManageSaves={setSavesProject}
                           onUpdate={(updatedProject) => {
                             setProjects(projects.map(p =>
                               p.id === updatedProject.id ? updatedProject : p
@@ -867,6 +918,70 @@ export function ProjectManager({ onProjectSelect }: ProjectManagerProps) {
         }}
       />
 
+      {/* Named Saves */}
+      {savesProject && (
+        <NamedSavesDialog
+          projectId={savesProject.id}
+          projectName={savesProject.name}
+          open={!!savesProject}
+          onOpenChange={(open) => {
+            if (!open) setSavesProject(null);
+          }}
+          savedCheckpointId={savesProject.lastSavedCheckpointId}
+          onCompare={(checkpoint) => {
+            setCompareSave({ project: savesProject, checkpointId: checkpoint.id });
+            setSavesProject(null);
+          }}
+          onRestore={async (checkpoint) => {
+            const restored = await saveManager.restoreSave(savesProject.id, checkpoint.id);
+            if (restored) {
+              toast.success(`Restored "${checkpoint.name}"`);
+              setSavesProject(await vfs.getProject(savesProject.id));
+              await reloadProjects();
+            } else {
+              toast.error('Failed to restore save');
+            }
+          }}
+          onDeleted={async () => {
+            setSavesProject(await vfs.getProject(savesProject.id));
+            await reloadProjects();
+          }}
+        />
+      )}
+
+      {compareSave && (
+        <CheckpointHistoryDialog
+          projectId={compareSave.project.id}
+          open={!!compareSave}
+          onOpenChange={(open) => {
+            if (!open) setCompareSave(null);
+          }}
+          savedCheckpointId={compareSave.project.lastSavedCheckpointId}
+          initialCheckpointId={compareSave.checkpointId}
+          onRestoreCheckpoint={async (checkpointId, description) => {
+            const restored = await saveManager.restoreSave(compareSave.project.id, checkpointId);
+            if (restored) {
+              toast.success(`Restored to: ${description}`);
+              await reloadProjects();
+            } else {
+              toast.error('Failed to restore checkpoint');
+            }
+          }}
+          onRestorePaths={async (checkpointId, paths, description) => {
+            try {
+              const changedCount = await checkpointManager.restorePaths(checkpointId, paths);
+              if (changedCount > 0) {
+                saveManager.markDirty(compareSave.project.id);
+              }
+              toast.success(`Restored ${description}`);
+            } catch (error) {
+              logger.error('Failed to restore paths', error);
+              toast.error('Failed to restore files');
+            }
+          }}
+        />
+      )}
+
       {/* About Modal */}
       <AboutModal
         open={aboutModalOpen}
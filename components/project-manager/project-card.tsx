@@ -23,7 +23,9 @@ import {
   FolderOpen,
   HardDrive,
   DollarSign,
-  FileBox
+  FileBox,
+  Bookmark,
+  GitBranch
 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import {
@@ -42,10 +44,12 @@ interface ProjectCardProps {
   onDelete: (project: Project) => void;
   onExport: (project: Project) => void;
   onExportZip: (project: Project) => void;
+  onExportGit?: (project: Project) => void;
   onDuplicate: (project: Project) => void;
   onPreview: (project: Project) => void;
   onUpdate: (project: Project) => void;
   onExportAsTemplate?: (project: Project) => void;
+  onManageSaves?: (project: Project) => void;
   viewMode?: 'grid' | 'list';
   forceMenuOpen?: boolean;
   highlightExport?: boolean;
@@ -64,10 +68,12 @@ export function ProjectCard({
   onDelete,
   onExport,
   onExportZip,
+  onExportGit,
   onDuplicate,
   onPreview,
   onUpdate,
   onExportAsTemplate,
+  onManageSaves,
   viewMode = 'grid',
   forceMenuOpen = false,
   highlightExport = false,
@@ -318,6 +324,15 @@ export function ProjectCard({
                   <Copy className="mr-2 h-4 w-4" />
                   Duplicate
                 </DropdownMenuItem>
+                {onManageSaves && (
+                  <DropdownMenuItem onClick={(e) => {
+                    e.stopPropagation();
+                    onManageSaves(project);
+                  }}>
+                    <Bookmark className="mr-2 h-4 w-4" />
+                    Saved Versions
+                  </DropdownMenuItem>
+                )}
                 <DropdownMenuSeparator />
                 <DropdownMenuItem onClick={(e) => {
                   e.stopPropagation();
@@ -326,6 +341,15 @@ export function ProjectCard({
                   <Package className="mr-2 h-4 w-4" />
                   Export as ZIP
                 </DropdownMenuItem>
+                {onExportGit && (
+                  <DropdownMenuItem onClick={(e) => {
+                    e.stopPropagation();
+                    onExportGit(project);
+                  }}>
+                    <GitBranch className="mr-2 h-4 w-4" />
+                    Export as Git Repository
+                  </DropdownMenuItem>
+                )}
                 <DropdownMenuItem
                   onClick={(e) => {
                     e.stopPropagation();
@@ -458,6 +482,15 @@ export function ProjectCard({
                 <Copy className="mr-2 h-4 w-4" />
                 Duplicate
               </DropdownMenuItem>
+              {onManageSaves && (
+                <DropdownMenuItem onClick={(e) => {
+                  e.stopPropagation();
+                  onManageSaves(project);
+                }}>
+                  <Bookmark className="mr-2 h-4 w-4" />
+                  Saved Versions
+                </DropdownMenuItem>
+              )}
               <DropdownMenuSeparator />
               <DropdownMenuItem onClick={(e) => {
                 e.stopPropagation();
@@ -466,6 +499,15 @@ export function ProjectCard({
                 <Package className="mr-2 h-4 w-4" />
                 Export as ZIP
               </DropdownMenuItem>
+              {onExportGit && (
+                <DropdownMenuItem onClick={(e) => {
+                  e.stopPropagation();
+                  onExportGit(project);
+                }}>
+                  <GitBranch className="mr-2 h-4 w-4" />
+                  Export as Git Repository
+                </DropdownMenuItem>
+              )}
               <DropdownMenuItem
                 onClick={(e) => {
                   e.stopPropagation();
@@ -0,0 +1,335 @@
+'use client';
+
+import React, { useState } from 'react';
+import { configManager } from '@/lib/config/storage';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown, Edit2, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  CustomProviderDefinition,
+  CustomProviderId,
+  ProviderAuthStyle,
+  ProviderId,
+  ProviderModel
+} from '@/lib/llm/providers/types';
+import { createCustomProviderId } from '@/lib/llm/providers/registry';
+
+interface CustomProvidersManagerProps {
+  selectedProvider: ProviderId;
+  onChange: (savedProviderId?: CustomProviderId) => void;
+}
+
+interface ProviderForm {
+  name: string;
+  baseUrl: string;
+  authStyle: ProviderAuthStyle;
+  authHeaderName: string;
+  extraHeaders: string;
+  models: string;
+  modelsEndpoint: string;
+  supportsFunctions: boolean;
+}
+
+const EMPTY_FORM: ProviderForm = {
+  name: '',
+  baseUrl: '',
+  authStyle: 'bearer',
+  authHeaderName: '',
+  extraHeaders: '',
+  models: '',
+  modelsEndpoint: '',
+  supportsFunctions: true
+};
+
+function toForm(definition: CustomProviderDefinition): ProviderForm {
+  return {
+    name: definition.name,
+    baseUrl: definition.baseUrl,
+    authStyle: definition.authStyle,
+    authHeaderName: definition.authHeaderName || '',
+    extraHeaders: Object.entries(definition.extraHeaders || {})
+      .map(([header, value]) => `${header}: ${value}`)
+      .join('\n'),
+    models: (definition.models || [])
+      .map(model => model.pricing
+        ? `${model.id} | ${model.pricing.input} | ${model.pricing.output}`
+        : model.id)
+      .join('\n'),
+    modelsEndpoint: definition.modelsEndpoint || '',
+    supportsFunctions: definition.supportsFunctions
+  };
+}
+
+/**
+ * One "Header: value" per line
+ */
+function parseHeaders(value: string): Record<string, string> | undefined {
+  const headers: Record<string, string> = {};
+  for (const line of value.split('\n')) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+    const header = line.slice(0, separator).trim();
+    if (header) {
+      headers[header] = line.slice(separator + 1).trim();
+    }
+  }
+  return Object.keys(headers).length > 0 ? headers : undefined;
+}
+
+/**
+ * One "model-id | input $/1M | output $/1M" per line; prices are optional
+ */
+function parseModels(value: string, supportsFunctions: boolean): ProviderModel[] {
+  const models: ProviderModel[] = [];
+  for (const line of value.split('\n')) {
+    const [id, input, output] = line.split('|').map(part => part.trim());
+    if (!id) continue;
+
+    const model: ProviderModel = {
+      id,
+      name: id.split('/').pop() || id,
+      contextLength: 32000,
+      supportsFunctions
+    };
+    const inputPrice = Number(input);
+    const outputPrice = Number(output);
+    if (input && output && Number.isFinite(inputPrice) && Number.isFinite(outputPrice)) {
+      model.pricing = { input: inputPrice, output: outputPrice };
+    }
+    models.push(model);
+  }
+  return models;
+}
+
+export function CustomProvidersManager({ selectedProvider, onChange }: CustomProvidersManagerProps) {
+  const [open, setOpen] = useState(selectedProvider.startsWith('custom:'));
+  const [providers, setProviders] = useState<CustomProviderDefinition[]>(() => configManager.getCustomProviders());
+  const [editingId, setEditingId] = useState<CustomProviderId | 'new' | null>(null);
+  const [form, setForm] = useState<ProviderForm>(EMPTY_FORM);
+
+  const updateForm = <K extends keyof ProviderForm>(key: K, value: ProviderForm[K]) => {
+    setForm(prev => ({ ...prev, [key]: value }));
+  };
+
+  const startEditing = (definition?: CustomProviderDefinition) => {
+    setEditingId(definition?.id ?? 'new');
+    setForm(definition ? toForm(definition) : EMPTY_FORM);
+  };
+
+  const handleSave = () => {
+    const name = form.name.trim();
+    const baseUrl = form.baseUrl.trim();
+    if (!name) {
+      toast.error('Enter a provider name');
+      return;
+    }
+    if (!/^https?:\/\//i.test(baseUrl)) {
+      toast.error('Base URL must start with http:// or https://');
+      return;
+    }
+    if (form.authStyle === 'header' && !form.authHeaderName.trim()) {
+      toast.error('Enter the header name used for the API key');
+      return;
+    }
+
+    let id: CustomProviderId;
+    if (editingId && editingId !== 'new') {
+      id = editingId;
+    } else {
+      const baseId = createCustomProviderId(name);
+      id = baseId;
+      for (let suffix = 2; providers.some(provider => provider.id === id); suffix++) {
+        id = `${baseId}-${suffix}`;
+      }
+    }
+
+    const definition: CustomProviderDefinition = {
+      id,
+      name,
+      baseUrl: baseUrl.replace(/\/+$/, ''),
+      authStyle: form.authStyle,
+      authHeaderName: form.authStyle === 'header' ? form.authHeaderName.trim() : undefined,
+      extraHeaders: parseHeaders(form.extraHeaders),
+      models: parseModels(form.models, form.supportsFunctions),
+      modelsEndpoint: form.modelsEndpoint.trim() || undefined,
+      supportsFunctions: form.supportsFunctions
+    };
+
+    configManager.saveCustomProvider(definition);
+    setProviders(configManager.getCustomProviders());
+    setEditingId(null);
+    toast.success(`Saved ${name}`);
+    onChange(id);
+  };
+
+  const handleDelete = (definition: CustomProviderDefinition) => {
+    if (!confirm(`Delete the provider "${definition.name}"? Its API key and model settings will be removed.`)) {
+      return;
+    }
+    configManager.deleteCustomProvider(definition.id);
+    setProviders(configManager.getCustomProviders());
+    if (editingId === definition.id) {
+      setEditingId(null);
+    }
+    onChange();
+  };
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="border rounded-md">
+      <CollapsibleTrigger className="flex w-full items-center justify-between px-3 py-2 text-sm font-medium">
+        Custom providers{providers.length > 0 ? ` (${providers.length})` : ''}
+        <ChevronDown className={`h-4 w-4 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="px-3 pb-3 space-y-3">
+        <p className="text-xs text-muted-foreground">
+          Connect any OpenAI-compatible endpoint, such as a self-hosted gateway or another hosted API.
+          Requests go through the studio server, which only calls hosts listed in its
+          CUSTOM_PROVIDER_ALLOWED_HOSTS setting.
+        </p>
+
+        {providers.map(provider => (
+          <div key={provider.id} className="flex items-center gap-2 text-sm">
+            <div className="flex-1 min-w-0">
+              <div className="font-medium truncate">{provider.name}</div>
+              <div className="text-xs text-muted-foreground truncate">{provider.baseUrl}</div>
+            </div>
+            <Button size="icon" variant="ghost" className="h-7 w-7" title="Edit" onClick={() => startEditing(provider)}>
+              <Edit2 className="h-3.5 w-3.5" />
+            </Button>
+            <Button size="icon" variant="ghost" className="h-7 w-7 text-destructive" title="Delete" onClick={() => handleDelete(provider)}>
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        ))}
+
+        {editingId ? (
+          <div className="space-y-3 border-t pt-3">
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div>
+                <Label htmlFor="custom-provider-name">Name</Label>
+                <Input
+                  id="custom-provider-name"
+                  value={form.name}
+                  onChange={(e) => updateForm('name', e.target.value)}
+                  placeholder="My Gateway"
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="custom-provider-url">Base URL</Label>
+                <Input
+                  id="custom-provider-url"
+                  value={form.baseUrl}
+                  onChange={(e) => updateForm('baseUrl', e.target.value)}
+                  placeholder="https://example.com/v1"
+                  className="mt-1"
+                />
+              </div>
+            </div>
+
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div>
+                <Label>API key header</Label>
+                <Select value={form.authStyle} onValueChange={(value) => updateForm('authStyle', value as ProviderAuthStyle)}>
+                  <SelectTrigger className="w-full mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="bearer">Authorization: Bearer</SelectItem>
+                    <SelectItem value="header">Custom header</SelectItem>
+                    <SelectItem value="none">No API key</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {form.authStyle === 'header' && (
+                <div>
+                  <Label htmlFor="custom-provider-header">Header name</Label>
+                  <Input
+                    id="custom-provider-header"
+                    value={form.authHeaderName}
+                    onChange={(e) => updateForm('authHeaderName', e.target.value)}
+                    placeholder="api-key"
+                    className="mt-1"
+                  />
+                </div>
+              )}
+            </div>
+
+            <div>
+              <Label htmlFor="custom-provider-headers">Extra headers</Label>
+              <Textarea
+                id="custom-provider-headers"
+                value={form.extraHeaders}
+                onChange={(e) => updateForm('extraHeaders', e.target.value)}
+                placeholder={'X-Org-Id: my-org'}
+                className="mt-1 min-h-[60px] font-mono text-xs"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="custom-provider-models">Models</Label>
+              <Textarea
+                id="custom-provider-models"
+                value={form.models}
+                onChange={(e) => updateForm('models', e.target.value)}
+                placeholder={'model-id | input $/1M | output $/1M'}
+                className="mt-1 min-h-[60px] font-mono text-xs"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                One model per line; prices are optional. Leave empty to discover models from the endpoint.
+              </p>
+            </div>
+
+            <div>
+              <Label htmlFor="custom-provider-discovery">Model discovery endpoint</Label>
+              <Input
+                id="custom-provider-discovery"
+                value={form.modelsEndpoint}
+                onChange={(e) => updateForm('modelsEndpoint', e.target.value)}
+                placeholder="/models"
+                className="mt-1"
+              />
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="custom-provider-functions"
+                checked={form.supportsFunctions}
+                onCheckedChange={(checked) => updateForm('supportsFunctions', checked === true)}
+              />
+              <label htmlFor="custom-provider-functions" className="text-sm cursor-pointer">
+                Supports function calling
+              </label>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleSave}>
+                Save provider
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button size="sm" variant="outline" onClick={() => startEditing()}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add provider
+          </Button>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,137 @@
+'use client';
+
+import React, { useState } from 'react';
+import { configManager, ModelRole, ModelRoute } from '@/lib/config/storage';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown } from 'lucide-react';
+import { ProviderId } from '@/lib/llm/providers/types';
+import { getAllProviders, getProvider } from '@/lib/llm/providers/registry';
+
+const DEFAULT_ROUTE = 'default';
+
+const ROLES: Array<{ role: ModelRole; label: string; description: string }> = [
+  { role: 'chat', label: 'Chat', description: 'Exploring and answering questions in chat mode' },
+  { role: 'code', label: 'Code', description: 'Writing and editing files in code mode' },
+  { role: 'planner', label: 'Planner', description: 'Breaking large builds into tasks (defaults to the code route)' },
+  { role: 'evaluation', label: 'Evaluation', description: 'Reviewing whether a task is finished instead of the coding model' },
+  { role: 'summarization', label: 'Summarization', description: 'Summarizing messages removed to fit the context window' }
+];
+
+/**
+ * Models known for a provider without fetching: the discovered model cache, then the built-in list
+ */
+function knownModels(provider: ProviderId): string[] {
+  const cached = configManager.getCachedModels(provider)?.models;
+  try {
+    return (cached ?? getProvider(provider).models ?? []).map(model => model.id);
+  } catch {
+    return [];
+  }
+}
+
+export function ModelRoutingSettings() {
+  const [open, setOpen] = useState(false);
+  const [routes, setRoutes] = useState<Partial<Record<ModelRole, ModelRoute>>>(
+    () => configManager.getSettings().modelRoutes || {}
+  );
+  const providers = getAllProviders();
+
+  const updateRoute = (role: ModelRole, route: ModelRoute | null) => {
+    configManager.setModelRoute(role, route);
+    setRoutes(prev => {
+      const next = { ...prev };
+      if (route) {
+        next[role] = route;
+      } else {
+        delete next[role];
+      }
+      return next;
+    });
+  };
+
+  const handleProviderChange = (role: ModelRole, value: string) => {
+    if (value === DEFAULT_ROUTE) {
+      updateRoute(role, null);
+      return;
+    }
+    const provider = value as ProviderId;
+    const current = routes[role];
+    const model = current?.provider === provider
+      ? current.model
+      : configManager.getProviderModel(provider) || knownModels(provider)[0] || '';
+    updateRoute(role, { provider, model });
+  };
+
+  const routedCount = Object.values(routes).filter(route => route?.model).length;
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="border rounded-md">
+      <CollapsibleTrigger className="flex w-full items-center justify-between px-3 py-2 text-sm font-medium">
+        Model routing{routedCount > 0 ? ` (${routedCount})` : ''}
+        <ChevronDown className={`h-4 w-4 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="px-3 pb-3 space-y-4">
+        <p className="text-xs text-muted-foreground">
+          Send parts of a run to a different provider and model, e.g. a local model for evaluation and a
+          strong cloud model for code. Roles left on Default use the selection above. Costs are tracked per role.
+          Project thumbnails are screenshots of the preview and titles are entered by hand, so neither calls a model.
+        </p>
+
+        {ROLES.map(({ role, label, description }) => {
+          const route = routes[role];
+          const listId = `model-route-${role}-models`;
+          return (
+            <div key={role} className="space-y-2">
+              <div>
+                <Label>{label}</Label>
+                <p className="text-xs text-muted-foreground">{description}</p>
+              </div>
+              <div className="grid gap-2 sm:grid-cols-2">
+                <Select
+                  value={route?.provider ?? DEFAULT_ROUTE}
+                  onValueChange={(value) => handleProviderChange(role, value)}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="max-h-[300px]">
+                    <SelectItem value={DEFAULT_ROUTE}>Default</SelectItem>
+                    {providers.map(provider => (
+                      <SelectItem key={provider.id} value={provider.id}>
+                        {provider.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {route && (
+                  <>
+                    <Input
+                      value={route.model}
+                      onChange={(e) => updateRoute(role, { provider: route.provider, model: e.target.value.trim() })}
+                      placeholder="Model ID"
+                      list={listId}
+                    />
+                    <datalist id={listId}>
+                      {knownModels(route.provider).map(model => (
+                        <option key={model} value={model} />
+                      ))}
+                    </datalist>
+                  </>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
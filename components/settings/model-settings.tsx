@@ -19,6 +19,8 @@ import {
 } from '@/components/ui/select';
 import { ProviderId } from '@/lib/llm/providers/types';
 import { getAllProviders, getProvider } from '@/lib/llm/providers/registry';
+import { CustomProvidersManager } from './custom-providers';
+import { ModelRoutingSettings } from './model-routing';
 
 interface ModelSettingsPanelProps {
   onClose?: () => void;
@@ -34,6 +36,8 @@ export function ModelSettingsPanel({ onClose, onModelChange }: ModelSettingsPane
   const [validatingKey, setValidatingKey] = useState(false);
   const [keyValid, setKeyValid] = useState<boolean | null>(null);
   const [currentApiKey, setCurrentApiKey] = useState('');
+  // Bumped when custom providers change so the provider list and model selectors reload
+  const [providersVersion, setProvidersVersion] = useState(0);
   const [useSeparateChatModel, setUseSeparateChatModel] = useState<boolean>(() => {
     if (typeof window !== 'undefined') {
       const stored = localStorage.getItem(`osw-studio-use-separate-chat-model-${configManager.getSelectedProvider()}`);
@@ -125,6 +129,16 @@ export function ModelSettingsPanel({ onClose, onModelChange }: ModelSettingsPane
     }
   };
 
+  const handleCustomProvidersChange = (savedProviderId?: ProviderId) => {
+    setProvidersVersion(version => version + 1);
+    if (savedProviderId) {
+      handleProviderChange(savedProviderId);
+    } else {
+      // The selected provider may have been deleted
+      handleProviderChange(configManager.getSelectedProvider());
+    }
+  };
+
   const providerConfig = getProvider(selectedProvider);
 
   return (
@@ -168,6 +182,11 @@ export function ModelSettingsPanel({ onClose, onModelChange }: ModelSettingsPane
           </Select>
         </div>
 
+        <CustomProvidersManager
+          selectedProvider={selectedProvider}
+          onChange={handleCustomProvidersChange}
+        />
+
         {/* API Key (required for cloud providers, optional for local) */}
         {(providerConfig.apiKeyRequired || providerConfig.isLocal) && (
           <div>
@@ -259,6 +278,7 @@ export function ModelSettingsPanel({ onClose, onModelChange }: ModelSettingsPane
         <div className="space-y-3">
           <Label className="text-sm font-medium">Code Mode Model</Label>
           <ModelSelector
+            key={`code-${selectedProvider}-${providersVersion}`}
             provider={selectedProvider}
             onChange={(modelId) => {
               if (typeof window !== 'undefined') {
@@ -297,6 +317,7 @@ export function ModelSettingsPanel({ onClose, onModelChange }: ModelSettingsPane
           <div className="space-y-3 pt-2">
             <Label className="text-sm font-medium">Chat Mode Model</Label>
             <ModelSelector
+              key={`chat-${selectedProvider}-${providersVersion}`}
               provider={selectedProvider}
               onChange={(modelId) => {
                 if (typeof window !== 'undefined') {
@@ -308,6 +329,8 @@ export function ModelSettingsPanel({ onClose, onModelChange }: ModelSettingsPane
             />
           </div>
         )}
+
+        <ModelRoutingSettings key={providersVersion} />
       </div>
 
       {/* Actions */}
@@ -10,15 +10,19 @@ import { MultipagePreview, MultipagePreviewHandle } from '@/components/preview/m
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
-import { ArrowLeft, Send, Loader2, RotateCcw, MessageSquare, FolderTree, Code2, Eye, ChevronDown, ChevronUp, Settings, Trash2, Save, Info, X } from 'lucide-react';
+import { ArrowLeft, Send, Loader2, RotateCcw, MessageSquare, FolderTree, Code2, Eye, ChevronDown, ChevronUp, Settings, Trash2, Save, Info, X, History, Bookmark, ListChecks, ImagePlus } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { AppHeader, HeaderAction } from '@/components/ui/app-header';
 import { Orchestrator } from '@/lib/llm/orchestrator';
-import { configManager } from '@/lib/config/storage';
+import { PlannedBuild, PlannedTask, TaskPlan } from '@/lib/llm/planned-build';
+import { ScreenshotCapture } from '@/lib/llm/screenshot-tool';
+import { readImageAttachment } from '@/lib/utils/image-attachment';
+import { configManager, CostLimitStatus } from '@/lib/config/storage';
 import { useCostSettings } from '@/lib/hooks/use-cost-settings';
 import { getProvider } from '@/lib/llm/providers/registry';
 import { toast } from 'sonner';
 import { conversationState } from '@/lib/llm/conversation-state';
+import { ContextUsage } from '@/lib/llm/context-window';
 import { ConversationConverter } from '@/lib/llm/conversation-converter-simple';
 import { buildShellSystemPrompt } from '@/lib/llm/system-prompt';
 import {
@@ -34,8 +38,11 @@ import {
 } from '@/components/ui/tooltip';
 
 import { checkpointManager } from '@/lib/vfs/checkpoint';
-import { saveManager } from '@/lib/vfs/save-manager';
+import { saveManager, NamedSaveOptions } from '@/lib/vfs/save-manager';
+import { CheckpointHistoryDialog } from '@/components/checkpoint-history';
+import { NamedSavesDialog } from '@/components/named-saves';
 import { TaskProgressDisplay, TaskStep } from '@/components/task-progress';
+import { ContextMeter } from '@/components/context-meter';
 import { AssistantMessage } from '@/components/assistant-message';
 import { MarkdownRenderer } from '@/components/markdown-renderer';
 import {
@@ -66,6 +73,8 @@ interface Message {
   id: string;
   role: 'user' | 'assistant';
   content: string;
+  /** Data URLs of images attached to a user message */
+  images?: string[];
   checkpointId?: string;
   isTask?: boolean;
   taskSteps?: TaskStep[];
@@ -94,6 +103,18 @@ interface WorkspaceProps {
 
 type FocusTarget = FocusContextPayload & { timestamp: number };
 
+const BUDGET_RESUME_PROMPT = 'Continue the previous task from where you stopped.';
+const MAX_ATTACHMENTS = 4;
+
+function toTaskStep(task: PlannedTask): TaskStep {
+  return {
+    id: task.id,
+    description: task.title,
+    status: task.status,
+    error: task.error
+  };
+}
+
 /**
  * Helper function to safely clone a message for state updates.
  * Deep clones toolMessages array to prevent mutation issues.
@@ -108,8 +129,9 @@ function cloneMessageForUpdate(message: Message): Message {
 export function Workspace({ project, onBack }: WorkspaceProps) {
   const [refreshTrigger, setRefreshTrigger] = useState(0);
   const [prompt, setPrompt] = useState('');
+  const [attachments, setAttachments] = useState<string[]>([]);
   const [generating, setGenerating] = useState(false);
-  const [currentOrchestrator, setCurrentOrchestrator] = useState<Orchestrator | null>(null);
+  const [currentOrchestrator, setCurrentOrchestrator] = useState<Orchestrator | PlannedBuild | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
   const [activeMobilePanel, setActiveMobilePanel] = useState<'assistant' | 'files' | 'editor' | 'preview'>('preview');
   const [isDirty, setIsDirty] = useState(false);
@@ -123,6 +145,12 @@ export function Workspace({ project, onBack }: WorkspaceProps) {
     }
     return false;
   });
+  const [planMode, setPlanMode] = useState<boolean>(() => {
+    if (typeof window !== 'undefined') {
+      return localStorage.getItem('osw-studio-plan-mode') === 'true';
+    }
+    return false;
+  });
   const lastFocusSignatureRef = useRef<{ signature: string; timestamp: number } | null>(null);
   const currentAssistantIdx = useRef<number | null>(null);
   const idCounterRef = useRef(0);
@@ -174,6 +202,11 @@ export function Workspace({ project, onBack }: WorkspaceProps) {
   const [showDesktopSettings, setShowDesktopSettings] = useState(false);
   const [showMobileSettings, setShowMobileSettings] = useState(false);
   const [projectCost, setProjectCost] = useState(0);
+  const [budgetHalt, setBudgetHalt] = useState<{ status: CostLimitStatus; checkpointId?: string } | null>(null);
+  const [contextUsage, setContextUsage] = useState<ContextUsage | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [historyCheckpointId, setHistoryCheckpointId] = useState<string | null>(null);
+  const [showNamedSaves, setShowNamedSaves] = useState(false);
   const { state: tourState, start: startTour, setWorkspaceHandler } = useGuidedTour();
   const tourStep = tourState.currentStep?.id;
   const tourRunning = tourState.status === 'running';
@@ -329,6 +362,106 @@ export function Workspace({ project, onBack }: WorkspaceProps) {
     </div>
   ) : null;
 
+  const budgetHaltHint = budgetHalt && !generating ? (
+    <div
+      id="budget-halt-hint"
+      className="rounded-md border border-dashed border-destructive/50 bg-destructive/5 px-3 py-2 text-xs text-muted-foreground shadow-sm"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-2 text-foreground">
+        <div className="flex items-center gap-2">
+          <span className="font-medium text-xs uppercase tracking-wide text-destructive">budget exceeded</span>
+          <span className="text-[10px] uppercase tracking-wide text-muted-foreground">run paused</span>
+        </div>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-6 px-2 text-xs"
+          onClick={() => setBudgetHalt(null)}
+          title="Dismiss"
+        >
+          Dismiss
+        </Button>
+      </div>
+      <p className="mt-2 leading-snug">
+        {budgetHalt.status.message}. Raise the {budgetHalt.status.scope === 'daily' ? 'daily' : 'project'} limit in settings and resume, or continue once without the limit.
+      </p>
+      <div className="mt-2 flex flex-wrap gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-6 px-2 text-xs"
+          onClick={() => handleGenerate({ prompt: BUDGET_RESUME_PROMPT })}
+        >
+          Resume
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-6 px-2 text-xs"
+          onClick={() => handleGenerate({ prompt: BUDGET_RESUME_PROMPT, ignoreBudget: true })}
+        >
+          Continue once over limit
+        </Button>
+      </div>
+    </div>
+  ) : null;
+
+  const addAttachments = async (files: File[]) => {
+    const images = files.filter(file => file.type.startsWith('image/'));
+    if (images.length === 0) return;
+    const room = MAX_ATTACHMENTS - attachments.length;
+    if (images.length > room) {
+      toast.warning(`Up to ${MAX_ATTACHMENTS} images can be attached to a message`);
+    }
+    const added: string[] = [];
+    for (const file of images.slice(0, Math.max(0, room))) {
+      try {
+        added.push(await readImageAttachment(file));
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : `Failed to attach ${file.name}`);
+      }
+    }
+    setAttachments(prev => [...prev, ...added].slice(0, MAX_ATTACHMENTS));
+  };
+
+  const handleAttachClick = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = 'image/*';
+    input.multiple = true;
+    input.onchange = (e) => {
+      void addAttachments(Array.from((e.target as HTMLInputElement).files || []));
+    };
+    input.click();
+  };
+
+  const handlePromptPaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files).filter(file => file.type.startsWith('image/'));
+    if (files.length > 0) {
+      e.preventDefault();
+      void addAttachments(files);
+    }
+  };
+
+  const attachmentsHint = attachments.length > 0 ? (
+    <div id="attachments-hint" className="flex flex-wrap gap-2">
+      {attachments.map((url, index) => (
+        <div key={index} className="relative h-14 w-14 overflow-hidden rounded-md border border-border bg-muted">
+          <img src={url} alt={`Attachment ${index + 1}`} className="h-full w-full object-cover" />
+          <button
+            type="button"
+            onClick={() => setAttachments(prev => prev.filter((_, i) => i !== index))}
+            className="absolute right-0.5 top-0.5 rounded-full bg-background/90 p-0.5"
+            title="Remove image"
+            disabled={generating}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      ))}
+    </div>
+  ) : null;
+
   useEffect(() => {
     setIsDirty(saveManager.isDirty(project.id));
     const unsubscribe = saveManager.subscribe(({ projectId, dirty }) => {
@@ -346,6 +479,12 @@ export function Workspace({ project, onBack }: WorkspaceProps) {
     }
   }, [chatMode]);
 
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      localStorage.setItem('osw-studio-plan-mode', String(planMode));
+    }
+  }, [planMode]);
+
   useEffect(() => {
     let isMounted = true;
 
@@ -638,7 +777,7 @@ export function Workspace({ project, onBack }: WorkspaceProps) {
     window.dispatchEvent(new CustomEvent('filesChanged'));
   }, []);
 
-  const handleSave = useCallback(async () => {
+  const handleSave = useCallback(async (options: NamedSaveOptions = {}) => {
     if (saveInProgress) {
       return;
     }
@@ -664,7 +803,7 @@ export function Workspace({ project, onBack }: WorkspaceProps) {
         }
       }
 
-      const checkpoint = await saveManager.save(project.id);
+      const checkpoint = await saveManager.save(project.id, undefined, options);
       const latestProject = await vfs.getProject(project.id);
 
       // Update project with preview image if captured
@@ -681,11 +820,11 @@ export function Workspace({ project, onBack }: WorkspaceProps) {
         type: 'manual_save' as const,
         timestamp,
         checkpointId: checkpoint.id,
-        description: 'Manual save'
+        description: checkpoint.name ? `Saved as "${checkpoint.name}"` : 'Manual save'
       };
       await conversationState.recordConversationBreak(project.id, breakInfo);
       await conversationState.addBreakContextMessage(project.id, breakInfo);
-      toast.success('Project saved');
+      toast.success(checkpoint.name ? `Saved as "${checkpoint.name}"` : 'Project saved');
     } catch (error) {
       logger.error('Failed to save project', error);
       toast.error('Failed to save project');
@@ -773,6 +912,33 @@ export function Workspace({ project, onBack }: WorkspaceProps) {
     }
   }, [handleFilesChange, messages, project.id]);
 
+  const handleRestorePaths = useCallback(async (checkpointId: string, paths: string[], description: string) => {
+    try {
+      const changedCount = await saveManager.runWithSuppressedDirty(project.id, () =>
+        checkpointManager.restorePaths(checkpointId, paths)
+      );
+      if (changedCount === 0) {
+        toast.info(`${description} already matches the checkpoint`);
+        return;
+      }
+
+      saveManager.markDirty(project.id);
+      handleFilesChange();
+      toast.success(`Restored ${description} (${changedCount} file${changedCount === 1 ? '' : 's'})`);
+
+      // Let the LLM know which files changed underneath it
+      await conversationState.addBreakContextMessage(project.id, {
+        type: 'partial_restore',
+        timestamp: new Date().toISOString(),
+        checkpointId,
+        description: paths.join(', ')
+      });
+    } catch (error) {
+      logger.error('Error restoring files from checkpoint:', error);
+      toast.error('Failed to restore from checkpoint');
+    }
+  }, [handleFilesChange, project.id]);
+
   const handleRetry = useCallback(async (checkpointId: string, messageIndex: number) => {
     try {
       // First check if checkpoint exists
@@ -860,12 +1026,12 @@ export function Workspace({ project, onBack }: WorkspaceProps) {
   }, [messages, handleFilesChange, project.id]);
 
   
-  const handleGenerate = async () => {
+  const handleGenerate = async (overrides?: { prompt?: string; ignoreBudget?: boolean }) => {
     if (isTourLockingInput) {
       return;
     }
 
-    const trimmedPrompt = prompt.trim();
+    const trimmedPrompt = (overrides?.prompt ?? prompt).trim();
 
     if (!trimmedPrompt) {
       toast.error('Please enter a prompt');
@@ -875,15 +1041,17 @@ export function Workspace({ project, onBack }: WorkspaceProps) {
     const currentProvider = configManager.getSelectedProvider();
     const providerConfig = getProvider(currentProvider);
     const apiKey = configManager.getApiKey();
+    // A routed mode runs on its own provider; the orchestrator checks that one
+    const modeRoute = configManager.getModelRoute(chatMode ? 'chat' : 'code');
     
     // Only require API key for providers that need it
-    if (providerConfig.apiKeyRequired && !apiKey) {
+    if (!modeRoute && providerConfig.apiKeyRequired && !apiKey) {
       toast.error(`Please set your ${providerConfig.name} API key in settings`);
       return;
     }
     
     // For local providers, check if they have models available
-    if (providerConfig.isLocal) {
+    if (!modeRoute && providerConfig.isLocal) {
       const currentModel = configManager.getProviderModel(currentProvider);
       if (!currentModel) {
         toast.error(`No model selected for ${providerConfig.name}. Please select a model in settings.`);
@@ -918,11 +1086,19 @@ export function Workspace({ project, onBack }: WorkspaceProps) {
     isUserScrolling.current = false;
 
     setGenerating(true);
+    setBudgetHalt(null);
     const messageContent = focusContext 
       ? `${formatFocusContextBlock(focusContext)}\n\n${trimmedPrompt}`
       : trimmedPrompt;
 
-    const userMessage = { id: makeId(), role: 'user' as const, content: messageContent } as Message;
+    // Resume prompts continue earlier work; attachments wait for the next real prompt
+    const images = overrides?.prompt ? [] : attachments;
+    const userMessage = {
+      id: makeId(),
+      role: 'user' as const,
+      content: messageContent,
+      ...(images.length > 0 && { images })
+    } as Message;
     setMessages(prev => [...prev, userMessage]);
 
     try {
@@ -986,278 +1162,354 @@ export function Workspace({ project, onBack }: WorkspaceProps) {
         }
       );
 
-      const orchestrator = new Orchestrator(
-        project.id,
-        conversationForOrchestrator,
-        (message, step) => {
-          if (message === 'assistant_delta' && ((step as any)?.text || (step as any)?.snapshot)) {
-            const deltaText = (step as any).text as string | undefined;
-            const snapshot = (step as any).snapshot as string | undefined;
-            setMessages(prev => {
-              let { arr, idx } = ensureStreamingAssistant([...prev]);
-              if (idx < 0 || idx >= arr.length || !arr[idx]) {
-                logger.error('[assistant_delta] Invalid index or missing message:', { idx, arrayLength: arr.length });
-                return prev; // Don't update if index is invalid
-              }
-              const base = arr[idx];
-              const msg = cloneMessageForUpdate(base) as any;
-              let tms = msg.toolMessages as ToolMessageItem[];
+      let planMessageId: string | null = null;
+      const handleProgress = (message: string, step?: unknown) => {
+        if (message === 'assistant_delta' && ((step as any)?.text || (step as any)?.snapshot)) {
+          const deltaText = (step as any).text as string | undefined;
+          const snapshot = (step as any).snapshot as string | undefined;
+          setMessages(prev => {
+            let { arr, idx } = ensureStreamingAssistant([...prev]);
+            if (idx < 0 || idx >= arr.length || !arr[idx]) {
+              logger.error('[assistant_delta] Invalid index or missing message:', { idx, arrayLength: arr.length });
+              return prev; // Don't update if index is invalid
+            }
+            const base = arr[idx];
+            const msg = cloneMessageForUpdate(base) as any;
+            let tms = msg.toolMessages as ToolMessageItem[];
 
-              // Remove thinking indicator when content starts arriving
-              tms = tms.filter(item => item.type !== 'thinking');
+            // Remove thinking indicator when content starts arriving
+            tms = tms.filter(item => item.type !== 'thinking');
 
-              // Check if we need to create a new message item or continue existing one
-              // If there are tools after the last message, we're starting a new response
-              const lastMessageIdx = tms.findLastIndex(t => t.type === 'message');
-              const hasToolsAfterLastMessage = lastMessageIdx >= 0 &&
-                tms.slice(lastMessageIdx + 1).some(t => t.type === 'tool');
+            // Check if we need to create a new message item or continue existing one
+            // If there are tools after the last message, we're starting a new response
+            const lastMessageIdx = tms.findLastIndex(t => t.type === 'message');
+            const hasToolsAfterLastMessage = lastMessageIdx >= 0 &&
+              tms.slice(lastMessageIdx + 1).some(t => t.type === 'tool');
 
-              if (tms.length === 0 || tms[tms.length - 1].type !== 'message' || hasToolsAfterLastMessage) {
-                tms.push({ id: makeId(), type: 'message', content: '' });
-              }
+            if (tms.length === 0 || tms[tms.length - 1].type !== 'message' || hasToolsAfterLastMessage) {
+              tms.push({ id: makeId(), type: 'message', content: '' });
+            }
 
-              const current = tms[tms.length - 1];
-              const updatedMessage = { ...current };
-              if (snapshot !== undefined) {
-                updatedMessage.content = snapshot;
-              } else if (deltaText) {
-                updatedMessage.content = (updatedMessage.content || '') + deltaText;
-              }
-              tms[tms.length - 1] = updatedMessage;
+            const current = tms[tms.length - 1];
+            const updatedMessage = { ...current };
+            if (snapshot !== undefined) {
+              updatedMessage.content = snapshot;
+            } else if (deltaText) {
+              updatedMessage.content = (updatedMessage.content || '') + deltaText;
+            }
+            tms[tms.length - 1] = updatedMessage;
 
-              msg.toolMessages = tms;
-              arr[idx] = msg;
-              return arr;
-            });
-          }
-          if (message === 'toolCalls' && (step as any)?.toolCalls) {
-            const calls = (step as any).toolCalls as any[];
-            logger.debug(`[Workspace] Received ${calls.length} tool calls`, {
-              calls: calls.map(c => ({
-                id: c.id,
-                name: c.function?.name,
-                hasArgs: !!c.function?.arguments,
-                argsLength: c.function?.arguments?.length
-              }))
-            });
-            setMessages(prev => {
-              let { arr, idx } = ensureStreamingAssistant([...prev]);
-              const base = arr[idx];
-              const msg = cloneMessageForUpdate(base) as any;
-              let tms = msg.toolMessages as ToolMessageItem[];
-
-              // Remove thinking indicator when tools start arriving
-              tms = tms.filter(item => item.type !== 'thinking');
-              for (let i = 0; i < calls.length; i++) {
-                const c = calls[i];
-                const toolId = c.id || makeId(); // Use API tool ID if available
-                const name = c.function?.name || c.name || '';
-
-                // Check if this tool already exists (from early notification)
-                const existingToolIndex = tms.findIndex(t => t.type === 'tool' && t.id === toolId);
-
-                if (existingToolIndex >= 0) {
-                  // Update existing tool with complete parameters
-                  let parameters;
-                  try {
-                    parameters = c.function ? JSON.parse(c.function.arguments || '{}') : c.parameters;
-                  } catch {
-                    parameters = c.function ? { arguments: c.function.arguments } : c.parameters;
-                  }
-                  tms[existingToolIndex] = {
-                    ...tms[existingToolIndex],
-                    name: name || tms[existingToolIndex].name,
-                    parameters: parameters,
-                  };
-                } else {
-                  // Add new tool
-                  let parameters;
-                  try {
-                    parameters = c.function ? JSON.parse(c.function.arguments || '{}') : c.parameters;
-                  } catch {
-                    parameters = c.function ? { arguments: c.function.arguments } : c.parameters;
-                  }
-                  tms.push({
-                    id: toolId,
-                    type: 'tool',
-                    name: name,
-                    parameters: parameters,
-                    status: 'pending',
-                    result: null
-                  } as ToolMessageItem);
+            msg.toolMessages = tms;
+            arr[idx] = msg;
+            return arr;
+          });
+        }
+        if (message === 'toolCalls' && (step as any)?.toolCalls) {
+          const calls = (step as any).toolCalls as any[];
+          logger.debug(`[Workspace] Received ${calls.length} tool calls`, {
+            calls: calls.map(c => ({
+              id: c.id,
+              name: c.function?.name,
+              hasArgs: !!c.function?.arguments,
+              argsLength: c.function?.arguments?.length
+            }))
+          });
+          setMessages(prev => {
+            let { arr, idx } = ensureStreamingAssistant([...prev]);
+            const base = arr[idx];
+            const msg = cloneMessageForUpdate(base) as any;
+            let tms = msg.toolMessages as ToolMessageItem[];
+
+            // Remove thinking indicator when tools start arriving
+            tms = tms.filter(item => item.type !== 'thinking');
+            for (let i = 0; i < calls.length; i++) {
+              const c = calls[i];
+              const toolId = c.id || makeId(); // Use API tool ID if available
+              const name = c.function?.name || c.name || '';
+
+              // Check if this tool already exists (from early notification)
+              const existingToolIndex = tms.findIndex(t => t.type === 'tool' && t.id === toolId);
+
+              if (existingToolIndex >= 0) {
+                // Update existing tool with complete parameters
+                let parameters;
+                try {
+                  parameters = c.function ? JSON.parse(c.function.arguments || '{}') : c.parameters;
+                } catch {
+                  parameters = c.function ? { arguments: c.function.arguments } : c.parameters;
                 }
+                tms[existingToolIndex] = {
+                  ...tms[existingToolIndex],
+                  name: name || tms[existingToolIndex].name,
+                  parameters: parameters,
+                };
+              } else {
+                // Add new tool
+                let parameters;
+                try {
+                  parameters = c.function ? JSON.parse(c.function.arguments || '{}') : c.parameters;
+                } catch {
+                  parameters = c.function ? { arguments: c.function.arguments } : c.parameters;
+                }
+                tms.push({
+                  id: toolId,
+                  type: 'tool',
+                  name: name,
+                  parameters: parameters,
+                  status: 'pending',
+                  result: null
+                } as ToolMessageItem);
               }
-              msg.toolMessages = tms;
-              arr[idx] = msg;
-              return arr;
-            });
-          }
-          if (message === 'tool_param_delta' && (step as any)?.toolId) {
-            const { toolId, partialArguments } = step as any;
-            logger.debug(`[Workspace] Received tool_param_delta for ${toolId}`, {
-              argsLength: partialArguments?.length,
-              preview: partialArguments?.substring(0, 100)
-            });
-            setMessages(prev => {
-              let { arr, idx } = ensureStreamingAssistant([...prev]);
-              const base = arr[idx];
-              const msg = cloneMessageForUpdate(base) as any;
-              const tms = msg.toolMessages as ToolMessageItem[];
-
-              // Find the tool by ID and update its parameters
-              for (let i = tms.length - 1; i >= 0; i--) {
-                if (tms[i].type === 'tool' && tms[i].id === toolId) {
-                  // Try to parse partial JSON, show raw if incomplete
-                  let parsedParams;
-                  try {
-                    parsedParams = JSON.parse(partialArguments);
-                  } catch {
-                    // JSON is incomplete, store raw for now
-                    parsedParams = { _partial: partialArguments };
-                  }
-                  tms[i] = { ...tms[i], parameters: parsedParams };
-                  break;
+            }
+            msg.toolMessages = tms;
+            arr[idx] = msg;
+            return arr;
+          });
+        }
+        if (message === 'tool_param_delta' && (step as any)?.toolId) {
+          const { toolId, partialArguments } = step as any;
+          logger.debug(`[Workspace] Received tool_param_delta for ${toolId}`, {
+            argsLength: partialArguments?.length,
+            preview: partialArguments?.substring(0, 100)
+          });
+          setMessages(prev => {
+            let { arr, idx } = ensureStreamingAssistant([...prev]);
+            const base = arr[idx];
+            const msg = cloneMessageForUpdate(base) as any;
+            const tms = msg.toolMessages as ToolMessageItem[];
+
+            // Find the tool by ID and update its parameters
+            for (let i = tms.length - 1; i >= 0; i--) {
+              if (tms[i].type === 'tool' && tms[i].id === toolId) {
+                // Try to parse partial JSON, show raw if incomplete
+                let parsedParams;
+                try {
+                  parsedParams = JSON.parse(partialArguments);
+                } catch {
+                  // JSON is incomplete, store raw for now
+                  parsedParams = { _partial: partialArguments };
                 }
+                tms[i] = { ...tms[i], parameters: parsedParams };
+                break;
               }
+            }
 
-              arr[idx] = msg;
-              return arr;
-            });
-          }
-          if (message === 'usage' && (step as any)?.usage) {
-            setMessages(prev => {
-              if (currentAssistantIdx.current == null) return prev;
-              const arr = [...prev];
-              const base = arr[currentAssistantIdx.current];
-              arr[currentAssistantIdx.current] = {
-                ...base,
-                cost: (step as any).totalCost,
-                usage: (step as any).usage,
-              } as any;
-              return arr;
-            });
-          }
-          if (message === 'retry' && (step as any)?.reason) {
-            const { reason, attempt, maxAttempts } = step as any;
-            logger.debug(`[Workspace] Received retry notification: ${reason} (${attempt}/${maxAttempts})`);
-            setMessages(prev => {
-              let { arr, idx } = ensureStreamingAssistant([...prev]);
-              const base = arr[idx];
-              const msg = cloneMessageForUpdate(base) as any;
-              (msg.toolMessages as ToolMessageItem[]).push({
-                id: makeId(),
-                type: 'divider',
-                title: `⚠️ ${reason} (Retry ${attempt}/${maxAttempts})`
-              });
-              arr[idx] = msg;
-              return arr;
-            });
-          }
-          if (message === 'thinking') {
-            logger.debug(`[Workspace] Received thinking notification`);
-            setMessages(prev => {
-              let { arr, idx } = ensureStreamingAssistant([...prev]);
-              const base = arr[idx];
-              const msg = cloneMessageForUpdate(base) as any;
-              const tms = msg.toolMessages as ToolMessageItem[];
-
-              // Remove any existing thinking indicator first
-              const filtered = tms.filter(item => item.type !== 'thinking');
-
-              // Add new thinking indicator at the end
-              filtered.push({
+            arr[idx] = msg;
+            return arr;
+          });
+        }
+        if (message === 'usage' && (step as any)?.usage) {
+          setMessages(prev => {
+            if (currentAssistantIdx.current == null) return prev;
+            const arr = [...prev];
+            const base = arr[currentAssistantIdx.current];
+            arr[currentAssistantIdx.current] = {
+              ...base,
+              cost: (step as any).totalCost,
+              usage: (step as any).usage,
+            } as any;
+            return arr;
+          });
+        }
+        if (message === 'context_usage' && step) {
+          setContextUsage(step as ContextUsage);
+        }
+        if (message === 'task_plan' && (step as any)?.plan) {
+          const plan = (step as any).plan as TaskPlan;
+          const id = makeId();
+          planMessageId = id;
+          setMessages(prev => [
+            ...prev,
+            {
+              id,
+              role: 'assistant',
+              content: '',
+              isTask: true,
+              taskTitle: `Plan: ${plan.goal.length > 60 ? `${plan.goal.substring(0, 57)}...` : plan.goal}`,
+              taskSteps: plan.tasks.map(toTaskStep)
+            }
+          ]);
+        }
+        if (message === 'task_update' && (step as any)?.task) {
+          const task = (step as any).task as PlannedTask;
+          setMessages(prev => {
+            const arr = prev.map(msg => (msg.id === planMessageId && msg.taskSteps
+              ? {
+                  ...msg,
+                  taskSteps: msg.taskSteps.map(taskStep => (taskStep.id === task.id ? toTaskStep(task) : taskStep)),
+                  checkpointId: task.checkpointId ?? msg.checkpointId
+                }
+              : msg));
+
+            if (task.status === 'in_progress') {
+              // Each task streams into its own bubble so tool indices start fresh
+              arr.push({
                 id: makeId(),
-                type: 'thinking' as any
+                role: 'assistant',
+                content: '',
+                toolMessages: [{ id: makeId(), type: 'divider', title: `▶ ${task.title}` }]
               });
-
-              msg.toolMessages = filtered;
-              arr[idx] = msg;
-              return arr;
+              currentAssistantIdx.current = arr.length - 1;
+            } else if (currentAssistantIdx.current != null && arr[currentAssistantIdx.current] && task.checkpointId) {
+              arr[currentAssistantIdx.current] = { ...arr[currentAssistantIdx.current], checkpointId: task.checkpointId };
+            }
+            return arr;
+          });
+        }
+        if ((message === 'budget_warning' || message === 'budget_exceeded') && (step as any)?.message) {
+          const status = step as CostLimitStatus;
+          setMessages(prev => {
+            let { arr, idx } = ensureStreamingAssistant([...prev]);
+            const base = arr[idx];
+            const msg = cloneMessageForUpdate(base) as any;
+            (msg.toolMessages as ToolMessageItem[]).push({
+              id: makeId(),
+              type: 'divider',
+              title: `${message === 'budget_exceeded' ? '⛔ Budget exceeded' : '⚠️ Budget warning'}: ${status.message}`
             });
-          }
-          if (message === 'evaluation' && (step as any)?.summary) {
-            const summary = (step as any).summary as string;
-            setMessages(prev => {
-              let { arr, idx } = ensureStreamingAssistant([...prev]);
-              const base = arr[idx];
-              const msg = cloneMessageForUpdate(base) as any;
-              (msg.toolMessages as ToolMessageItem[]).push({ id: makeId(), type: 'message', content: summary });
-              arr[idx] = msg;
-              return arr;
+            arr[idx] = msg;
+            return arr;
+          });
+        }
+        if (message === 'retry' && (step as any)?.reason) {
+          const { reason, attempt, maxAttempts } = step as any;
+          logger.debug(`[Workspace] Received retry notification: ${reason} (${attempt}/${maxAttempts})`);
+          setMessages(prev => {
+            let { arr, idx } = ensureStreamingAssistant([...prev]);
+            const base = arr[idx];
+            const msg = cloneMessageForUpdate(base) as any;
+            (msg.toolMessages as ToolMessageItem[]).push({
+              id: makeId(),
+              type: 'divider',
+              title: `⚠️ ${reason} (Retry ${attempt}/${maxAttempts})`
             });
-          }
-          if (message === 'divider') {
-            setMessages(prev => {
-              let { arr, idx } = ensureStreamingAssistant([...prev]);
-              const base = arr[idx];
-              const msg = cloneMessageForUpdate(base) as any;
-              (msg.toolMessages as ToolMessageItem[]).push({ id: makeId(), type: 'divider', title: (step as any)?.title || 'Section' });
-              arr[idx] = msg;
-              return arr;
+            arr[idx] = msg;
+            return arr;
+          });
+        }
+        if (message === 'thinking') {
+          logger.debug(`[Workspace] Received thinking notification`);
+          setMessages(prev => {
+            let { arr, idx } = ensureStreamingAssistant([...prev]);
+            const base = arr[idx];
+            const msg = cloneMessageForUpdate(base) as any;
+            const tms = msg.toolMessages as ToolMessageItem[];
+
+            // Remove any existing thinking indicator first
+            const filtered = tms.filter(item => item.type !== 'thinking');
+
+            // Add new thinking indicator at the end
+            filtered.push({
+              id: makeId(),
+              type: 'thinking' as any
             });
-          }
-          if (message === 'tool_result' && step) {
-            const { toolIndex, result } = step as any;
-            logger.debug(`[Workspace] Received tool result for tool ${toolIndex}`, { resultPreview: typeof result === 'string' ? result.substring(0, 100) : result });
-            setMessages(prev => {
-              let { arr, idx } = ensureStreamingAssistant([...prev]);
-              const base = arr[idx];
-              const msg = cloneMessageForUpdate(base) as any;
-              const tms = msg.toolMessages as ToolMessageItem[];
-
-              // Find the Nth tool (where N = toolIndex) and update its result
-              let toolCount = 0;
-              for (let i = 0; i < tms.length; i++) {
-                if (tms[i].type === 'tool') {
-                  if (toolCount === toolIndex) {
-                    tms[i] = { ...tms[i], result: result };
-                    break;
-                  }
-                  toolCount++;
+
+            msg.toolMessages = filtered;
+            arr[idx] = msg;
+            return arr;
+          });
+        }
+        if (message === 'evaluation' && (step as any)?.summary) {
+          const summary = (step as any).summary as string;
+          setMessages(prev => {
+            let { arr, idx } = ensureStreamingAssistant([...prev]);
+            const base = arr[idx];
+            const msg = cloneMessageForUpdate(base) as any;
+            (msg.toolMessages as ToolMessageItem[]).push({ id: makeId(), type: 'message', content: summary });
+            arr[idx] = msg;
+            return arr;
+          });
+        }
+        if (message === 'divider') {
+          setMessages(prev => {
+            let { arr, idx } = ensureStreamingAssistant([...prev]);
+            const base = arr[idx];
+            const msg = cloneMessageForUpdate(base) as any;
+            (msg.toolMessages as ToolMessageItem[]).push({ id: makeId(), type: 'divider', title: (step as any)?.title || 'Section' });
+            arr[idx] = msg;
+            return arr;
+          });
+        }
+        if (message === 'tool_result' && step) {
+          const { toolIndex, result } = step as any;
+          logger.debug(`[Workspace] Received tool result for tool ${toolIndex}`, { resultPreview: typeof result === 'string' ? result.substring(0, 100) : result });
+          setMessages(prev => {
+            let { arr, idx } = ensureStreamingAssistant([...prev]);
+            const base = arr[idx];
+            const msg = cloneMessageForUpdate(base) as any;
+            const tms = msg.toolMessages as ToolMessageItem[];
+
+            // Find the Nth tool (where N = toolIndex) and update its result
+            let toolCount = 0;
+            for (let i = 0; i < tms.length; i++) {
+              if (tms[i].type === 'tool') {
+                if (toolCount === toolIndex) {
+                  tms[i] = { ...tms[i], result: result };
+                  break;
                 }
+                toolCount++;
               }
+            }
 
-              arr[idx] = msg;
-              return arr;
-            });
-          }
-          if (message === 'tool_status' && step) {
-            const { toolIndex, status, result, error } = step as any;
-            setMessages(prev => {
-              let { arr, idx } = ensureStreamingAssistant([...prev]);
-              const base = arr[idx];
-              const msg = cloneMessageForUpdate(base) as any;
-              const tms = msg.toolMessages as ToolMessageItem[];
-
-              // Find the Nth tool (where N = toolIndex) and update its status
-              let toolCount = 0;
-              for (let i = 0; i < tms.length; i++) {
-                if (tms[i].type === 'tool') {
-                  if (toolCount === toolIndex) {
-                    tms[i] = {
-                      ...tms[i],
-                      status: status,
-                      result: result || error || tms[i].result
-                    };
-                    break;
-                  }
-                  toolCount++;
+            arr[idx] = msg;
+            return arr;
+          });
+        }
+        if (message === 'tool_status' && step) {
+          const { toolIndex, status, result, error } = step as any;
+          setMessages(prev => {
+            let { arr, idx } = ensureStreamingAssistant([...prev]);
+            const base = arr[idx];
+            const msg = cloneMessageForUpdate(base) as any;
+            const tms = msg.toolMessages as ToolMessageItem[];
+
+            // Find the Nth tool (where N = toolIndex) and update its status
+            let toolCount = 0;
+            for (let i = 0; i < tms.length; i++) {
+              if (tms[i].type === 'tool') {
+                if (toolCount === toolIndex) {
+                  tms[i] = {
+                    ...tms[i],
+                    status: status,
+                    result: result || error || tms[i].result
+                  };
+                  break;
                 }
+                toolCount++;
               }
+            }
 
-              msg.toolMessages = tms;
-              arr[idx] = msg;
-              return arr;
-            });
-          }
-        },
-        { chatMode, model: modelToUse }
-      );
+            msg.toolMessages = tms;
+            arr[idx] = msg;
+            return arr;
+          });
+        }
+      };
+
+      // Lets vision models look at the live preview
+      const capturePreview: ScreenshotCapture = async (path) => previewRef.current
+        ? previewRef.current.captureScreenshot({ path, width: 1024, height: 640 })
+        : null;
+
+      // Planned builds split the work into tasks, each run by its own orchestrator
+      const orchestrator = planMode && !chatMode
+        ? new PlannedBuild(project.id, conversationForOrchestrator, handleProgress, {
+            model: modelToUse,
+            ignoreBudget: overrides?.ignoreBudget,
+            resume: trimmedPrompt === BUDGET_RESUME_PROMPT,
+            captureScreenshot: capturePreview
+          })
+        : new Orchestrator(project.id, conversationForOrchestrator, handleProgress, {
+            chatMode,
+            model: modelToUse,
+            ignoreBudget: overrides?.ignoreBudget,
+            captureScreenshot: capturePreview
+          });
 
         // Store orchestrator reference for stop functionality
         setCurrentOrchestrator(orchestrator);
 
-        const result = await orchestrator.execute(messageContent);
+        const result = await orchestrator.execute(messageContent, images);
 
         logger.debug('[Workspace] Orchestrator result:', {
           success: result.success,
@@ -1281,7 +1533,16 @@ export function Workspace({ project, onBack }: WorkspaceProps) {
           return arr;
         });
 
-        if (result.success) {
+        if (result.budgetExceeded) {
+          // Run was halted by the budget guard - keep it resumable instead of treating it as an error
+          handleFilesChange();
+          setBudgetHalt({ status: result.budgetExceeded, checkpointId: result.checkpointId });
+          toast.warning('Generation paused: cost limit reached', {
+            description: result.budgetExceeded.message,
+            duration: 5000,
+            position: 'bottom-center'
+          });
+        } else if (result.success) {
           handleFilesChange();
         } else {
           // Handle failure case - show error and persist in message
@@ -1330,6 +1591,9 @@ export function Workspace({ project, onBack }: WorkspaceProps) {
         await conversationState.updateConversation(project.id, orchestratorMessages);
         
         setPrompt('');
+        if (images.length > 0) {
+          setAttachments([]);
+        }
     } catch (error) {
       logger.error('Generation error:', error);
 
@@ -1397,11 +1661,30 @@ export function Workspace({ project, onBack }: WorkspaceProps) {
     id: 'save',
     label: saveInProgress ? 'Saving…' : isDirty ? 'Save' : 'Saved',
     icon: Save,
-    onClick: handleSave,
+    onClick: () => handleSave(),
     variant: isDirty ? 'default' : 'outline',
     disabled: !isDirty || saveInProgress
   });
 
+  headerActions.push({
+    id: 'history',
+    label: 'History',
+    icon: History,
+    onClick: () => {
+      setHistoryCheckpointId(null);
+      setShowHistory(true);
+    },
+    variant: 'outline'
+  });
+
+  headerActions.push({
+    id: 'saves',
+    label: 'Versions',
+    icon: Bookmark,
+    onClick: () => setShowNamedSaves(true),
+    variant: 'outline'
+  });
+
   if (initialCheckpointId) {
     headerActions.push({
       id: 'discard',
@@ -1660,6 +1943,7 @@ export function Workspace({ project, onBack }: WorkspaceProps) {
                             
                             // Clear UI state first
                             setMessages([]);
+                            setContextUsage(null);
                             
                             // Clear persistent conversation state
                             await conversationState.clearConversation(project.id);
@@ -1772,6 +2056,18 @@ export function Workspace({ project, onBack }: WorkspaceProps) {
                                   </p>
                                 </div>
                                 <MarkdownRenderer content={msg.content} />
+                                {msg.images && msg.images.length > 0 && (
+                                  <div className="mt-2 flex flex-wrap gap-2">
+                                    {msg.images.map((image, imageIndex) => (
+                                      <img
+                                        key={imageIndex}
+                                        src={image}
+                                        alt={`Attachment ${imageIndex + 1}`}
+                                        className="max-h-32 max-w-[12rem] rounded-md border border-border object-contain"
+                                      />
+                                    ))}
+                                  </div>
+                                )}
                               </div>
                             );
                           })
@@ -1783,12 +2079,15 @@ export function Workspace({ project, onBack }: WorkspaceProps) {
                       {/* Input */}
                       <div className="p-3 space-y-2">
                         {focusContextHint}
+                        {budgetHaltHint}
+                        {attachmentsHint}
                         {/* Input Area */}
                         <div className="bg-card border border-border rounded-lg shadow-sm overflow-hidden">
                           <div className="relative flex bg-card rounded-lg transition-all">
                             <Textarea
                               value={prompt}
                               onChange={(e) => setPrompt(e.target.value)}
+                              onPaste={handlePromptPaste}
                               onKeyDown={(e) => {
                                 if (isTourLockingInput) {
                                   return;
@@ -1807,7 +2106,7 @@ export function Workspace({ project, onBack }: WorkspaceProps) {
                               <Tooltip>
                                 <TooltipTrigger asChild>
                                   <Button
-                                    onClick={generating ? handleStop : handleGenerate}
+                                    onClick={generating ? handleStop : () => handleGenerate()}
                                     disabled={isTourLockingInput ? !generating : (!generating && !prompt.trim())}
                                     size="sm"
                                     className="flex items-center gap-2"
@@ -1837,6 +2136,23 @@ export function Workspace({ project, onBack }: WorkspaceProps) {
                                   </div>
                                 </TooltipContent>
                               </Tooltip>
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={handleAttachClick}
+                                    disabled={generating || attachments.length >= MAX_ATTACHMENTS}
+                                    className="flex items-center gap-2"
+                                  >
+                                    <ImagePlus className="h-4 w-4" />
+                                    Image
+                                  </Button>
+                                </TooltipTrigger>
+                                <TooltipContent side="left">
+                                  <p className="text-xs">Attach images or paste them into the prompt</p>
+                                </TooltipContent>
+                              </Tooltip>
                               {prompt.length > 0 && (
                                 <div className="px-3 py-1.5 bg-muted text-muted-foreground rounded-md text-xs text-center">
                                   {prompt.length} chars
@@ -1872,6 +2188,28 @@ export function Workspace({ project, onBack }: WorkspaceProps) {
                                   />
                                 </PopoverContent>
                               </Popover>
+                              {contextUsage && <ContextMeter usage={contextUsage} />}
+
+                              {/* Planned build toggle (code mode only) */}
+                              {!chatMode && (
+                                <Tooltip>
+                                  <TooltipTrigger asChild>
+                                    <Button
+                                      variant={planMode ? 'default' : 'outline'}
+                                      size="sm"
+                                      className="h-7 text-xs px-2"
+                                      aria-pressed={planMode}
+                                      onClick={() => setPlanMode(!planMode)}
+                                    >
+                                      <ListChecks className="h-3 w-3 mr-1" />
+                                      Plan
+                                    </Button>
+                                  </TooltipTrigger>
+                                  <TooltipContent side="top">
+                                    <p className="text-xs">Plan first, then build each task with its own focused agent (for multi-page sites)</p>
+                                  </TooltipContent>
+                                </Tooltip>
+                              )}
 
                               {/* Chat/Code toggle */}
                               <Tooltip>
@@ -2003,6 +2341,7 @@ export function Workspace({ project, onBack }: WorkspaceProps) {
                     onClick={async () => {
                       logger.debug(`[Workspace] Clearing chat - UI has ${messages.length} messages`);
                       setMessages([]);
+                      setContextUsage(null);
                       await conversationState.clearConversation(project.id);
                     }}
                     className="h-5 w-5 p-0"
@@ -2096,6 +2435,18 @@ export function Workspace({ project, onBack }: WorkspaceProps) {
                           </p>
                         </div>
                         <MarkdownRenderer content={msg.content} />
+                        {msg.images && msg.images.length > 0 && (
+                          <div className="mt-2 flex flex-wrap gap-2">
+                            {msg.images.map((image, imageIndex) => (
+                              <img
+                                key={imageIndex}
+                                src={image}
+                                alt={`Attachment ${imageIndex + 1}`}
+                                className="max-h-32 max-w-[12rem] rounded-md border border-border object-contain"
+                              />
+                            ))}
+                          </div>
+                        )}
                       </div>
                     );
                   })}
@@ -2105,11 +2456,14 @@ export function Workspace({ project, onBack }: WorkspaceProps) {
                 {/* Input */}
                 <div className="p-3 space-y-2">
                   {focusContextHint}
+                  {budgetHaltHint}
+                  {attachmentsHint}
                   <div className="bg-card border border-border rounded-lg shadow-sm overflow-hidden">
                     <div className="relative flex bg-card rounded-lg transition-all">
                       <Textarea
                         value={prompt}
                         onChange={(e) => setPrompt(e.target.value)}
+                        onPaste={handlePromptPaste}
                         onKeyDown={(e) => {
                           if (isTourLockingInput) {
                             return;
@@ -2126,7 +2480,7 @@ export function Workspace({ project, onBack }: WorkspaceProps) {
                       />
                       <div className="flex flex-col p-2 gap-2">
                         <Button
-                          onClick={generating ? handleStop : handleGenerate}
+                          onClick={generating ? handleStop : () => handleGenerate()}
                           disabled={isTourLockingInput ? !generating : (!generating && !prompt.trim())}
                           size="sm"
                           className="flex items-center gap-2"
@@ -2143,6 +2497,16 @@ export function Workspace({ project, onBack }: WorkspaceProps) {
                             </>
                           )}
                         </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={handleAttachClick}
+                          disabled={generating || attachments.length >= MAX_ATTACHMENTS}
+                          className="flex items-center gap-2"
+                        >
+                          <ImagePlus className="h-4 w-4" />
+                          Image
+                        </Button>
                       </div>
                     </div>
                     
@@ -2172,6 +2536,28 @@ export function Workspace({ project, onBack }: WorkspaceProps) {
                             />
                           </PopoverContent>
                         </Popover>
+                        {contextUsage && <ContextMeter usage={contextUsage} />}
+
+                        {/* Planned build toggle (code mode only) */}
+                        {!chatMode && (
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Button
+                                variant={planMode ? 'default' : 'outline'}
+                                size="sm"
+                                className="h-7 text-xs px-2"
+                                aria-pressed={planMode}
+                                onClick={() => setPlanMode(!planMode)}
+                              >
+                                <ListChecks className="h-3 w-3 mr-1" />
+                                Plan
+                              </Button>
+                            </TooltipTrigger>
+                            <TooltipContent side="top">
+                              <p className="text-xs">Plan first, then build each task with its own focused agent (for multi-page sites)</p>
+                            </TooltipContent>
+                          </Tooltip>
+                        )}
 
                         {/* Chat/Code toggle */}
                         <Tooltip>
@@ -2312,6 +2698,36 @@ export function Workspace({ project, onBack }: WorkspaceProps) {
           </div>
         </div>
       </div>
+      <CheckpointHistoryDialog
+        projectId={project.id}
+        open={showHistory}
+        onOpenChange={setShowHistory}
+        savedCheckpointId={initialCheckpointId}
+        initialCheckpointId={historyCheckpointId}
+        onRestoreCheckpoint={handleRestoreCheckpoint}
+        onRestorePaths={handleRestorePaths}
+      />
+      <NamedSavesDialog
+        projectId={project.id}
+        open={showNamedSaves}
+        onOpenChange={setShowNamedSaves}
+        savedCheckpointId={initialCheckpointId}
+        onSave={(options) => handleSave(options)}
+        onCompare={(checkpoint) => {
+          setShowNamedSaves(false);
+          setHistoryCheckpointId(checkpoint.id);
+          setShowHistory(true);
+        }}
+        onRestore={async (checkpoint) => {
+          await handleRestoreCheckpoint(checkpoint.id, checkpoint.name || checkpoint.description);
+        }}
+        onDeleted={(checkpoint) => {
+          if (checkpoint.id === initialCheckpointId) {
+            setInitialCheckpointId(null);
+            setLastSavedAt(null);
+          }
+        }}
+      />
       <GuidedTourOverlay location="workspace" />
       <GuidedTourOverlay location="settings" />
     </TooltipProvider>
@@ -1,5 +1,5 @@
 
-import { ProviderId, ProviderModel } from '@/lib/llm/providers/types';
+import { ProviderId, ProviderModel, CustomProviderDefinition, CustomProviderId } from '@/lib/llm/providers/types';
 import { UsageInfo } from '@/lib/llm/types';
 
 export interface SessionCost {
@@ -24,6 +24,18 @@ export interface CostSettings {
   warningThreshold?: number;
 }
 
+export type CostLimitScope = 'daily' | 'project';
+
+export interface CostLimitStatus {
+  warning: boolean;
+  exceeded: boolean;
+  scope?: CostLimitScope;
+  spent?: number;
+  limit?: number;
+  percentUsed?: number;
+  message?: string;
+}
+
 export interface ModelCacheEntry {
   models: ProviderModel[];
   timestamp: string;
@@ -36,6 +48,16 @@ export interface ProviderPricingEntry {
   reasoning?: number;
 }
 
+/**
+ * Parts of a run that can be routed to their own provider and model
+ */
+export type ModelRole = 'chat' | 'code' | 'planner' | 'evaluation' | 'summarization';
+
+export interface ModelRoute {
+  provider: ProviderId;
+  model: string;
+}
+
 export interface AppSettings {
   openRouterApiKey?: string;
   defaultModel?: string;
@@ -54,6 +76,8 @@ export interface AppSettings {
   hasSeenGuidedTour?: boolean;
   modelCache?: Partial<Record<ProviderId, ModelCacheEntry>>;
   modelPricing?: Partial<Record<ProviderId, Record<string, ProviderPricingEntry>>>;
+  customProviders?: CustomProviderDefinition[];
+  modelRoutes?: Partial<Record<ModelRole, ModelRoute>>;
 }
 
 class ConfigManager {
@@ -130,7 +154,11 @@ class ConfigManager {
   }
 
   getSelectedProvider(): ProviderId {
-    return this.getSettings().selectedProvider || 'openrouter';
+    const provider = this.getSettings().selectedProvider || 'openrouter';
+    if (provider.startsWith('custom:') && !this.getCustomProvider(provider as CustomProviderId)) {
+      return 'openrouter';
+    }
+    return provider;
   }
 
   setSelectedProvider(provider: ProviderId): void {
@@ -181,6 +209,26 @@ class ConfigManager {
     }
   }
 
+  /**
+   * Provider and model routed to a role, or null when the role uses the default selection
+   */
+  getModelRoute(role: ModelRole): ModelRoute | null {
+    const route = this.getSettings().modelRoutes?.[role];
+    if (!route?.provider || !route.model) return null;
+    if (route.provider.startsWith('custom:') && !this.getCustomProvider(route.provider as CustomProviderId)) return null;
+    return route;
+  }
+
+  setModelRoute(role: ModelRole, route: ModelRoute | null): void {
+    const modelRoutes = { ...this.getSettings().modelRoutes };
+    if (route) {
+      modelRoutes[role] = route;
+    } else {
+      delete modelRoutes[role];
+    }
+    this.setSetting('modelRoutes', modelRoutes);
+  }
+
   getModelPricing(provider: ProviderId, model: string): ProviderPricingEntry | null {
     const settings = this.getSettings();
     const providerPricing = settings.modelPricing?.[provider];
@@ -249,7 +297,41 @@ class ConfigManager {
     this.setSetting('modelPricing', modelPricing);
   }
 
+  getCustomProviders(): CustomProviderDefinition[] {
+    return this.getSettings().customProviders || [];
+  }
+
+  getCustomProvider(id: CustomProviderId): CustomProviderDefinition | null {
+    return this.getCustomProviders().find(provider => provider.id === id) || null;
+  }
+
+  saveCustomProvider(definition: CustomProviderDefinition): void {
+    const providers = this.getCustomProviders().filter(provider => provider.id !== definition.id);
+    providers.push(definition);
+    this.setSetting('customProviders', providers);
+    // Model list or endpoint may have changed
+    this.clearModelCache(definition.id);
+  }
+
+  deleteCustomProvider(id: CustomProviderId): void {
+    const settings = this.getSettings();
+    settings.customProviders = (settings.customProviders || []).filter(provider => provider.id !== id);
+    delete settings.providerKeys?.[id];
+    delete settings.providerModels?.[id];
+    delete settings.modelCache?.[id];
+    delete settings.modelPricing?.[id];
+    if (settings.selectedProvider === id) {
+      settings.selectedProvider = 'openrouter';
+    }
+    if (typeof window !== 'undefined') {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(settings));
+    }
+  }
+
   private getProviderDefaultModel(provider: ProviderId): string {
+    if (provider.startsWith('custom:')) {
+      return this.getCustomProvider(provider as CustomProviderId)?.models?.[0]?.id || '';
+    }
     switch (provider) {
       case 'openrouter':
         return 'deepseek/deepseek-chat';
@@ -326,7 +408,8 @@ class ConfigManager {
 
   updateSessionCost(usage: UsageInfo, cost: number): void {
     let session = this.getCurrentSession();
-    if (!session) {
+    // Sessions roll over at midnight so the daily limit tracks calendar-day spend
+    if (!session || !this.isSameDay(session.startTime, new Date())) {
       session = this.startNewSession();
     }
 
@@ -413,33 +496,59 @@ class ConfigManager {
     });
   }
 
-  checkCostLimits(): { warning: boolean; exceeded: boolean; message?: string } {
+  checkCostLimits(projectCost?: number): CostLimitStatus {
     const settings = this.getCostSettings();
     const session = this.getCurrentSession();
-    
-    if (!session || !settings.dailyLimit) {
-      return { warning: false, exceeded: false };
-    }
-
-    const percentUsed = (session.totalCost / settings.dailyLimit) * 100;
-    
-    if (percentUsed >= 100) {
-      return {
-        warning: false,
-        exceeded: true,
-        message: `Daily limit of $${settings.dailyLimit.toFixed(2)} exceeded`
-      };
-    }
-
-    if (settings.warningThreshold && percentUsed >= settings.warningThreshold) {
-      return {
-        warning: true,
-        exceeded: false,
-        message: `${percentUsed.toFixed(0)}% of daily limit used ($${session.totalCost.toFixed(2)} of $${settings.dailyLimit.toFixed(2)})`
-      };
-    }
-
-    return { warning: false, exceeded: false };
+    const threshold = settings.warningThreshold ?? 80;
+    const sessionCost = session && this.isSameDay(session.startTime, new Date()) ? session.totalCost : 0;
+
+    const checks: Array<{ scope: CostLimitScope; spent: number; limit?: number }> = [
+      { scope: 'project', spent: projectCost ?? 0, limit: projectCost === undefined ? undefined : settings.projectLimit },
+      { scope: 'daily', spent: sessionCost, limit: settings.dailyLimit }
+    ];
+
+    let warningStatus: CostLimitStatus | null = null;
+
+    for (const { scope, spent, limit } of checks) {
+      if (!limit || limit <= 0) {
+        continue;
+      }
+
+      const label = scope === 'daily' ? 'Daily' : 'Project';
+      const percentUsed = (spent / limit) * 100;
+
+      if (percentUsed >= 100) {
+        return {
+          warning: false,
+          exceeded: true,
+          scope,
+          spent,
+          limit,
+          percentUsed,
+          message: `${label} limit of $${limit.toFixed(2)} exceeded ($${spent.toFixed(2)} spent)`
+        };
+      }
+
+      if (!warningStatus && threshold > 0 && percentUsed >= threshold) {
+        warningStatus = {
+          warning: true,
+          exceeded: false,
+          scope,
+          spent,
+          limit,
+          percentUsed,
+          message: `${percentUsed.toFixed(0)}% of ${label.toLowerCase()} limit used ($${spent.toFixed(2)} of $${limit.toFixed(2)})`
+        };
+      }
+    }
+
+    return warningStatus ?? { warning: false, exceeded: false };
+  }
+
+  private isSameDay(a: Date, b: Date): boolean {
+    return a.getFullYear() === b.getFullYear() &&
+      a.getMonth() === b.getMonth() &&
+      a.getDate() === b.getDate();
   }
 
   // Model cache management
@@ -0,0 +1,338 @@
+/**
+ * Context Window Management
+ * Estimates the token footprint of orchestrator messages and compacts the conversation
+ * sent to the model so long sessions fit the selected model's context length
+ */
+
+import { configManager } from '@/lib/config/storage';
+import { getProvider } from '@/lib/llm/providers/registry';
+import { ProviderConfig, ProviderId, ProviderModel } from '@/lib/llm/providers/types';
+import { listScriptCommands, parseShellScript } from '@/lib/vfs/shell-parser';
+import { contentImages, contentText } from './message-content';
+import type { OrchestratorMessage } from './orchestrator';
+import { resolveDiffPath } from './string-patch';
+import { ToolCall, ToolDefinition } from './types';
+import { parseUnifiedDiff } from './unified-diff';
+
+// Code and JSON tokenize denser than prose, so this overestimates slightly for English text
+const CHARS_PER_TOKEN = 3.5;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Providers bill images by resolution; a screenshot or mockup at ~1024px is about this much
+const IMAGE_TOKENS = 1100;
+
+const DEFAULT_CONTEXT_LENGTH = 32000;
+// Local servers usually run with a small context unless the user raised it
+const DEFAULT_LOCAL_CONTEXT_LENGTH = 8192;
+const DEFAULT_OUTPUT_RESERVE = 4096;
+// Headroom for estimation error
+const SAFETY_MARGIN = 0.9;
+
+const READ_COMMANDS = new Set(['cat', 'head', 'tail', 'nl', 'sed']);
+const STALE_READ_MIN_CHARS = 200;
+const TRUNCATE_ABOVE_CHARS = 1500;
+const TRUNCATED_HEAD_CHARS = 800;
+const TRUNCATED_TAIL_CHARS = 300;
+// Tool results of the most recent assistant turns are never truncated
+const PROTECTED_TOOL_TURNS = 2;
+
+export interface ContextWindow {
+  contextLength: number;
+  /** Tokens taken by the tool definitions sent with every request */
+  toolTokens: number;
+  /** Tokens available to the conversation after reserving output and tool definitions */
+  budget: number;
+}
+
+export interface CompactionStats {
+  staleReads: number;
+  truncatedOutputs: number;
+  droppedMessages: number;
+}
+
+export interface CompactionResult extends CompactionStats {
+  messages: OrchestratorMessage[];
+  originalTokens: number;
+  estimatedTokens: number;
+  /** Messages removed from the conversation, oldest first */
+  dropped: OrchestratorMessage[];
+  /** Position of the note standing in for the dropped messages */
+  noteIndex?: number;
+}
+
+/**
+ * Payload of the orchestrator's `context_usage` progress event
+ */
+export interface ContextUsage {
+  usedTokens: number;
+  contextLength: number;
+  /** True when usedTokens is the provider-reported prompt size rather than an estimate */
+  measured: boolean;
+  compaction?: CompactionStats;
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateMessageTokens(message: OrchestratorMessage): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS + estimateTokens(contentText(message.content)) +
+    contentImages(message.content).length * IMAGE_TOKENS;
+  for (const toolCall of message.tool_calls || []) {
+    tokens += MESSAGE_OVERHEAD_TOKENS +
+      estimateTokens(toolCall.function?.name || '') +
+      estimateTokens(toolCall.function?.arguments || '');
+  }
+  return tokens;
+}
+
+export function estimateConversationTokens(messages: OrchestratorMessage[]): number {
+  return messages.reduce((total, message) => total + estimateMessageTokens(message), 0);
+}
+
+function findProviderConfig(provider: ProviderId): ProviderConfig | undefined {
+  try {
+    return getProvider(provider);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Model metadata from the discovered model cache, falling back to the provider's built-in list
+ */
+export function findModelInfo(provider: ProviderId, model: string): ProviderModel | undefined {
+  const cached = configManager.getCachedModels(provider)?.models.find(m => m.id === model);
+  return cached ?? findProviderConfig(provider)?.models?.find(m => m.id === model);
+}
+
+export function getContextWindow(provider: ProviderId, model: string, tools: ToolDefinition[]): ContextWindow {
+  const info = findModelInfo(provider, model);
+  const contextLength = info?.contextLength ||
+    (findProviderConfig(provider)?.isLocal ? DEFAULT_LOCAL_CONTEXT_LENGTH : DEFAULT_CONTEXT_LENGTH);
+  const outputReserve = Math.min(info?.maxTokens || DEFAULT_OUTPUT_RESERVE, Math.floor(contextLength / 4));
+  const toolTokens = tools.length > 0 ? estimateTokens(JSON.stringify(tools)) : 0;
+
+  return {
+    contextLength,
+    toolTokens,
+    budget: Math.max(0, Math.floor((contextLength - outputReserve) * SAFETY_MARGIN) - toolTokens)
+  };
+}
+
+function normalizePath(path: string): string {
+  return ('/' + path.trim().replace(/^\.\//, '')).replace(/\/+/g, '/');
+}
+
+/**
+ * Files a tool call reads and writes, as far as can be told from its arguments
+ */
+function fileAccessOf(
+  toolCall: ToolCall,
+  commandWritesFiles: (argv: string[]) => boolean
+): { reads: string[]; writes: string[] } {
+  const access = { reads: [] as string[], writes: [] as string[] };
+
+  let args: any;
+  try {
+    args = JSON.parse(toolCall.function?.arguments || '{}');
+  } catch {
+    return access;
+  }
+
+  if (toolCall.function?.name === 'json_patch' && typeof args?.file_path === 'string') {
+    access.writes.push(normalizePath(args.file_path));
+    for (const op of Array.isArray(args.operations) ? args.operations : []) {
+      if (op?.type !== 'apply_diff' || typeof op.diff !== 'string') continue;
+      for (const file of parseUnifiedDiff(op.diff)) {
+        for (const path of [resolveDiffPath(file.oldPath), resolveDiffPath(file.newPath)]) {
+          if (path) access.writes.push(path);
+        }
+      }
+    }
+    return access;
+  }
+
+  if (toolCall.function?.name !== 'shell' || (typeof args?.cmd !== 'string' && !Array.isArray(args?.cmd))) {
+    return access;
+  }
+
+  let commands;
+  try {
+    commands = listScriptCommands(parseShellScript(args.cmd));
+  } catch {
+    return access;
+  }
+
+  for (const command of commands) {
+    for (const redirect of command.redirects) {
+      if (redirect.op === '>' || redirect.op === '>>') access.writes.push(normalizePath(redirect.target));
+    }
+
+    const [program, ...rest] = command.argv;
+    const operands = rest.filter(arg => !arg.startsWith('-'));
+    if (commandWritesFiles(command.argv)) {
+      // sed's first operand is the script
+      access.writes.push(...(program === 'sed' ? operands.slice(1) : operands).map(normalizePath));
+    } else if (program === 'cat') {
+      access.reads.push(...operands.map(normalizePath));
+    } else if (READ_COMMANDS.has(program) && operands.length > 0) {
+      access.reads.push(normalizePath(operands[operands.length - 1]));
+    }
+  }
+  return access;
+}
+
+/**
+ * Replace file reads whose every file was modified later in the conversation
+ */
+function replaceStaleReads(
+  messages: OrchestratorMessage[],
+  commandWritesFiles: (argv: string[]) => boolean
+): number {
+  const reads: Array<{ index: number; paths: string[]; sequence: number }> = [];
+  const lastWrite = new Map<string, number>();
+  let pending = new Map<string, { paths: string[]; sequence: number }>();
+  let sequence = 0;
+
+  // Tool call ids are only unique within one assistant message on some local servers
+  messages.forEach((message, index) => {
+    if (message.role === 'assistant') {
+      pending = new Map();
+      for (const toolCall of message.tool_calls || []) {
+        sequence++;
+        const access = fileAccessOf(toolCall, commandWritesFiles);
+        if (access.reads.length > 0) pending.set(toolCall.id, { paths: access.reads, sequence });
+        for (const path of access.writes) lastWrite.set(path, sequence);
+      }
+    } else if (message.role === 'tool' && message.tool_call_id) {
+      const read = pending.get(message.tool_call_id);
+      if (read) reads.push({ index, ...read });
+    }
+  });
+
+  let replaced = 0;
+  for (const read of reads) {
+    const message = messages[read.index];
+    if (typeof message.content !== 'string' || message.content.length < STALE_READ_MIN_CHARS) continue;
+    if (!read.paths.every(path => (lastWrite.get(path) ?? 0) > read.sequence)) continue;
+    messages[read.index] = {
+      ...message,
+      content: `[${read.paths.join(', ')}: file read, since modified. Read it again if you need the current content.]`
+    };
+    replaced++;
+  }
+  return replaced;
+}
+
+function truncateOutput(content: string): string {
+  const omitted = content.slice(TRUNCATED_HEAD_CHARS, content.length - TRUNCATED_TAIL_CHARS);
+  const omittedLines = omitted.split('\n').length;
+  return `${content.slice(0, TRUNCATED_HEAD_CHARS)}\n[... ${omittedLines} lines omitted to save context ...]\n${content.slice(-TRUNCATED_TAIL_CHARS)}`;
+}
+
+/**
+ * Fit a conversation into `budget` tokens. Nothing changes while it already fits; otherwise, in order:
+ * stale file reads are replaced with a note, long tool outputs outside the most recent turns are cut
+ * to their head and tail (oldest first), then whole exchanges before the latest user message are
+ * dropped, and finally earlier exchanges of the current run. An assistant message is always dropped
+ * together with its tool results. System messages at the start, the latest user message and the most
+ * recent exchange are always kept.
+ * `noteReserve` keeps room for a summary to be added to the note later.
+ * The input array is not modified.
+ */
+export function compactConversation(
+  conversation: OrchestratorMessage[],
+  budget: number,
+  commandWritesFiles: (argv: string[]) => boolean,
+  noteReserve = 0
+): CompactionResult {
+  const originalTokens = estimateConversationTokens(conversation);
+  const result: CompactionResult = {
+    messages: conversation,
+    originalTokens,
+    estimatedTokens: originalTokens,
+    staleReads: 0,
+    truncatedOutputs: 0,
+    droppedMessages: 0,
+    dropped: []
+  };
+  if (originalTokens <= budget) {
+    return result;
+  }
+
+  let messages = [...conversation];
+  result.staleReads = replaceStaleReads(messages, commandWritesFiles);
+  let tokens = estimateConversationTokens(messages);
+
+  if (tokens > budget) {
+    const toolTurns = messages
+      .map((message, index) => (message.role === 'assistant' && message.tool_calls?.length ? index : -1))
+      .filter(index => index !== -1);
+    const protectedFrom = toolTurns.length > PROTECTED_TOOL_TURNS
+      ? toolTurns[toolTurns.length - PROTECTED_TOOL_TURNS]
+      : 0;
+
+    for (let i = 0; i < protectedFrom && tokens > budget; i++) {
+      const message = messages[i];
+      if (message.role !== 'tool' || typeof message.content !== 'string' || message.content.length <= TRUNCATE_ABOVE_CHARS) continue;
+      const truncated = { ...message, content: truncateOutput(message.content) };
+      tokens += estimateMessageTokens(truncated) - estimateMessageTokens(message);
+      messages[i] = truncated;
+      result.truncatedOutputs++;
+    }
+  }
+
+  if (tokens > budget) {
+    let leading = 0;
+    while (leading < messages.length && messages[leading].role === 'system') leading++;
+    const lastUser = messages.map(message => message.role).lastIndexOf('user');
+    const runStart = Math.max(lastUser + 1, leading);
+    // The exchange the model is about to act on is never dropped
+    let lastExchange = messages.length - 1;
+    while (lastExchange > runStart && messages[lastExchange].role === 'tool') lastExchange--;
+
+    // Drop whole exchanges so tool results never lose their assistant message
+    const dropExchanges = (start: number, end: number): number => {
+      let cut = start;
+      while (cut < end) {
+        const note = estimateMessageTokens({ role: 'system', content: contextNote(result.droppedMessages) }) + noteReserve;
+        if (result.droppedMessages > 0 && tokens + note <= budget) break;
+        let next = cut + 1;
+        while (next < messages.length && messages[next].role === 'tool') next++;
+        if (next > end) break;
+        tokens -= estimateConversationTokens(messages.slice(cut, next));
+        result.droppedMessages += next - cut;
+        cut = next;
+      }
+      return cut;
+    };
+
+    const historyCut = dropExchanges(leading, lastUser);
+    // Earlier steps of the current run go once everything before the request has
+    const runCut = historyCut >= lastUser ? dropExchanges(runStart, lastExchange) : runStart;
+
+    if (result.droppedMessages > 0) {
+      const note: OrchestratorMessage = { role: 'system', content: contextNote(result.droppedMessages) };
+      const request = messages.slice(historyCut, runStart);
+      result.dropped = [...messages.slice(leading, historyCut), ...messages.slice(runStart, runCut)];
+      if (runCut > runStart) {
+        // The note takes the place of the removed steps, after the request they belong to
+        result.noteIndex = leading + request.length;
+        messages = [...messages.slice(0, leading), ...request, note, ...messages.slice(runCut)];
+      } else {
+        result.noteIndex = leading;
+        messages = [...messages.slice(0, leading), note, ...messages.slice(historyCut)];
+      }
+      tokens += estimateMessageTokens(note);
+    }
+  }
+
+  result.messages = messages;
+  result.estimatedTokens = tokens;
+  return result;
+}
+
+export function contextNote(droppedMessages: number, summary?: string): string {
+  const note = `[Context: ${droppedMessages} earlier messages were removed to fit the model's context window]`;
+  return summary ? `${note}\nSummary of the removed messages:\n${summary}` : note;
+}
@@ -5,6 +5,7 @@
 
 import { logger } from '@/lib/utils';
 import { OrchestratorMessage } from './orchestrator';
+import { buildContent, contentImages, contentText } from './message-content';
 
 // UI Message type (from workspace)
 export interface UIMessage {
@@ -13,6 +14,8 @@ export interface UIMessage {
   content: string;
   checkpointId?: string;
   isTask?: boolean;
+  /** Data URLs of images attached to a user message */
+  images?: string[];
   [key: string]: any; // Allow additional properties
 }
 
@@ -47,7 +50,7 @@ export class ConversationConverter {
       if (uiMessage.role === 'user') {
         orchestratorMessages.push({
           role: 'user',
-          content: uiMessage.content || ''
+          content: buildContent(uiMessage.content || '', uiMessage.images)
         });
       } else if (uiMessage.role === 'assistant') {
         const assistantMsg: OrchestratorMessage = {
@@ -120,7 +123,7 @@ export class ConversationConverter {
           
           // Combine thinking content with main content
           if (thinkingContent.length > 0) {
-            const combinedContent = [assistantMsg.content, ...thinkingContent].filter(c => c && c.trim()).join('\n\n');
+            const combinedContent = [uiMessage.content, ...thinkingContent].filter(c => c && c.trim()).join('\n\n');
             assistantMsg.content = combinedContent;
           }
         }
@@ -175,16 +178,18 @@ export class ConversationConverter {
       }
       
       if (message.role === 'user') {
+        const images = contentImages(message.content).map(part => part.image_url.url);
         uiMessages.push({
           id: createStableId('user'),
           role: 'user',
-          content: message.content
+          content: contentText(message.content),
+          ...(images.length > 0 && { images })
         });
       } else if (message.role === 'assistant') {
         const assistantMessage: Partial<UIMessage> = {
           id: createStableId('assistant'),
           role: 'assistant',
-          content: message.content || ''
+          content: contentText(message.content)
         };
         
         // Restore metadata from ui_metadata if present
@@ -230,11 +235,12 @@ export class ConversationConverter {
           const toolMessages: ToolMessageItem[] = [];
           
           // Add any leading text content as a message item
-          if (message.content && message.content.trim()) {
+          const text = contentText(message.content);
+          if (text.trim()) {
             toolMessages.push({
               id: createStableId('msg'),
               type: 'message',
-              content: message.content
+              content: text
             });
           }
           
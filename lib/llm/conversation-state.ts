@@ -1,10 +1,12 @@
 /**
  * Conversation State Management
- * Handles conversation persistence and state management with IndexedDB
+ * Handles conversation persistence and state management through the VFS storage backend
  */
 
 import { logger } from '@/lib/utils';
 import { OrchestratorMessage } from './orchestrator';
+import { TaskPlan } from './planned-build';
+import type { VFSStorageBackend } from '@/lib/vfs';
 
 export interface ConversationState {
   id: string;
@@ -12,10 +14,11 @@ export interface ConversationState {
   messages: OrchestratorMessage[];
   lastUpdated: string;
   version: number;
+  plan?: TaskPlan;
 }
 
 export interface ConversationBreak {
-  type: 'checkpoint_restore' | 'retry' | 'clear' | 'page_refresh' | 'manual_save';
+  type: 'checkpoint_restore' | 'partial_restore' | 'retry' | 'clear' | 'page_refresh' | 'manual_save';
   timestamp: string;
   checkpointId?: string;
   description?: string;
@@ -29,12 +32,12 @@ interface StoredConversationState {
   lastUpdated: string;
   version: number;
   breaks: ConversationBreak[];
+  plan?: TaskPlan;
 }
 
 export class ConversationStateManager {
   private conversations: Map<string, ConversationState> = new Map();
   private conversationBreaks: Map<string, ConversationBreak[]> = new Map();
-  private storeName = 'conversations';
   private isInitialized = false;
 
   /**
@@ -50,11 +53,11 @@ export class ConversationStateManager {
   }
 
   /**
-   * Get shared database connection from VFS
+   * Storage backend shared with the VFS
    */
-  private async getDB(): Promise<IDBDatabase> {
+  private async getStorage(): Promise<VFSStorageBackend> {
     const { vfs } = await import('@/lib/vfs');
-    return (vfs as any).db.getDatabase();
+    return vfs.getBackend();
   }
 
   /**
@@ -65,52 +68,40 @@ export class ConversationStateManager {
   }
 
   /**
-   * Load conversation from IndexedDB
+   * Load conversation from storage
    */
   private async loadConversationFromDB(projectId: string): Promise<ConversationState | null> {
     await this.initDB();
-    const db = await this.getDB();
-
-    const conversationId = this.getConversationId(projectId);
-
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction([this.storeName], 'readonly');
-      const store = transaction.objectStore(this.storeName);
-      const request = store.get(conversationId);
-
-      request.onsuccess = () => {
-        const stored = request.result as StoredConversationState;
-        if (stored) {
-          const conversation: ConversationState = {
-            id: stored.id,
-            projectId: stored.projectId,
-            messages: stored.messages || [],
-            lastUpdated: stored.lastUpdated,
-            version: stored.version || 1
-          };
-
-          // Load conversation breaks
-          this.conversationBreaks.set(projectId, stored.breaks || []);
-
-          resolve(conversation);
-        } else {
-          resolve(null);
-        }
-      };
-
-      request.onerror = () => {
-        logger.error('Failed to load conversation from DB');
-        reject(request.error);
-      };
-    });
+    const storage = await this.getStorage();
+
+    let stored: StoredConversationState | null;
+    try {
+      stored = await storage.getRecord<StoredConversationState>('conversations', this.getConversationId(projectId));
+    } catch (error) {
+      logger.error('Failed to load conversation from DB');
+      throw error;
+    }
+    if (!stored) return null;
+
+    // Load conversation breaks
+    this.conversationBreaks.set(projectId, stored.breaks || []);
+
+    return {
+      id: stored.id,
+      projectId: stored.projectId,
+      messages: stored.messages || [],
+      lastUpdated: stored.lastUpdated,
+      version: stored.version || 1,
+      plan: stored.plan
+    };
   }
 
   /**
-   * Save conversation to IndexedDB
+   * Save conversation to storage
    */
   private async saveConversationToDB(conversation: ConversationState): Promise<void> {
     await this.initDB();
-    const db = await this.getDB();
+    const storage = await this.getStorage();
 
     const breaks = this.conversationBreaks.get(conversation.projectId) || [];
 
@@ -120,42 +111,31 @@ export class ConversationStateManager {
       messages: conversation.messages,
       lastUpdated: conversation.lastUpdated,
       version: conversation.version,
-      breaks
+      breaks,
+      plan: conversation.plan
     };
 
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction([this.storeName], 'readwrite');
-      const store = transaction.objectStore(this.storeName);
-      const request = store.put(storedConversation);
-
-      request.onsuccess = () => resolve();
-      request.onerror = () => {
-        logger.error('Failed to save conversation to DB');
-        reject(request.error);
-      };
-    });
+    try {
+      await storage.putRecords('conversations', [storedConversation]);
+    } catch (error) {
+      logger.error('Failed to save conversation to DB');
+      throw error;
+    }
   }
 
   /**
-   * Delete conversation from IndexedDB
+   * Delete conversation from storage
    */
   private async deleteConversationFromDB(projectId: string): Promise<void> {
     await this.initDB();
-    const db = await this.getDB();
-
-    const conversationId = this.getConversationId(projectId);
+    const storage = await this.getStorage();
 
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction([this.storeName], 'readwrite');
-      const store = transaction.objectStore(this.storeName);
-      const request = store.delete(conversationId);
-
-      request.onsuccess = () => resolve();
-      request.onerror = () => {
-        logger.error('Failed to delete conversation from DB');
-        reject(request.error);
-      };
-    });
+    try {
+      await storage.deleteRecords('conversations', [this.getConversationId(projectId)]);
+    } catch (error) {
+      logger.error('Failed to delete conversation from DB');
+      throw error;
+    }
   }
 
   /**
@@ -165,7 +145,7 @@ export class ConversationStateManager {
     let conversation = this.conversations.get(projectId);
     
     if (!conversation) {
-      // Try to load from IndexedDB
+      // Try to load from storage
       const loaded = await this.loadConversationFromDB(projectId);
       
       if (loaded) {
@@ -203,6 +183,28 @@ export class ConversationStateManager {
     logger.debug(`[ConversationState] Updated conversation for project ${projectId} with ${messages.length} messages`);
   }
 
+  /**
+   * Task plan of the latest planned build, if any
+   */
+  async getTaskPlan(projectId: string): Promise<TaskPlan | null> {
+    const conversation = await this.getConversation(projectId);
+    return conversation.plan ?? null;
+  }
+
+  /**
+   * Persist a planned build's task list (and its progress) alongside the conversation
+   */
+  async saveTaskPlan(projectId: string, plan: TaskPlan): Promise<void> {
+    const conversation = await this.getConversation(projectId);
+    conversation.plan = plan;
+    conversation.lastUpdated = new Date().toISOString();
+
+    this.conversations.set(projectId, conversation);
+    await this.saveConversationToDB(conversation);
+
+    logger.debug(`[ConversationState] Saved task plan for project ${projectId} with ${plan.tasks.length} tasks`);
+  }
+
   /**
    * Clear conversation for a project
    */
@@ -217,6 +219,7 @@ export class ConversationStateManager {
     });
 
     conversation.messages = [];
+    conversation.plan = undefined;
     conversation.lastUpdated = new Date().toISOString();
     conversation.version += 1;
     
@@ -268,6 +271,9 @@ export class ConversationStateManager {
       case 'checkpoint_restore':
         contextMessage = `[Context: Project was restored to checkpoint "${breakInfo.description || 'previous state'}" at ${new Date(breakInfo.timestamp).toLocaleTimeString()}]`;
         break;
+      case 'partial_restore':
+        contextMessage = `[Context: ${breakInfo.description || 'Files'} restored from a checkpoint at ${new Date(breakInfo.timestamp).toLocaleTimeString()}; all other files are unchanged]`;
+        break;
       case 'retry':
         contextMessage = `[Context: Retrying previous request after restoring to checkpoint at ${new Date(breakInfo.timestamp).toLocaleTimeString()}]`;
         break;
@@ -4,6 +4,7 @@
  */
 
 import { ProviderId } from './providers/types';
+import { isCustomProviderId } from './providers/registry';
 import { UsageInfo } from './types';
 import { configManager, type ProviderPricingEntry } from '@/lib/config/storage';
 import { logger } from '@/lib/utils';
@@ -173,7 +174,8 @@ export class CostCalculator {
       }
     }
     
-    if (provider === 'ollama' || provider === 'lmstudio') {
+    // Local runtimes are free; custom endpoints are only priced when the user says so
+    if (provider === 'ollama' || provider === 'lmstudio' || isCustomProviderId(provider)) {
       return { input: 0, output: 0 };
     }
     
@@ -181,7 +183,12 @@ export class CostCalculator {
   }
 
   private static getDynamicPricing(provider: string, model: string): ProviderPricingEntry | null {
-    if (!this.isKnownProvider(provider)) {
+    if (isCustomProviderId(provider)) {
+      const definedPricing = configManager.getCustomProvider(provider)?.models?.find(m => m.id === model)?.pricing;
+      if (definedPricing) {
+        return definedPricing;
+      }
+    } else if (!this.isKnownProvider(provider)) {
       return null;
     }
 
@@ -0,0 +1,73 @@
+import postcss, { AtRule, Rule } from 'postcss';
+import { EntityRange } from './types';
+
+function normalizeSelector(selector: string): string {
+  return selector
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+    .replace(/\s*([>+~,])\s*/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Turn `.card:hover {` or `@media (max-width: 600px) {` into the text postcss reports for the node
+ */
+function parseCssSelector(selector: string): { atRule?: { name: string; params: string }; selector?: string } | null {
+  const trimmed = selector.trim().replace(/\s*\{\s*$/, '');
+  if (!trimmed || /[;}]/.test(trimmed)) return null;
+
+  if (trimmed.startsWith('@')) {
+    const match = /^@([\w-]+)\s*(.*)$/.exec(trimmed);
+    return match ? { atRule: { name: match[1].toLowerCase(), params: normalizeSelector(match[2]) } } : null;
+  }
+  return { selector: normalizeSelector(trimmed) };
+}
+
+/**
+ * Rules whose full selector (or one selector of a list) matches, and at-rules by name and params.
+ * Returns null when the selector is not CSS or the stylesheet does not parse.
+ */
+export function findCssRules(source: string, selector: string): EntityRange[] | null {
+  const wanted = parseCssSelector(selector);
+  if (!wanted) return null;
+
+  let root;
+  try {
+    root = postcss.parse(source);
+  } catch {
+    return null;
+  }
+
+  const exact: EntityRange[] = [];
+  const partial: EntityRange[] = [];
+
+  const toRange = (node: Rule | AtRule, kind: 'css_rule' | 'css_at_rule', name: string): EntityRange | null => {
+    const start = node.source?.start?.offset;
+    const end = node.source?.end?.offset;
+    if (start === undefined || end === undefined) return null;
+    return { start, end, kind, name };
+  };
+
+  root.walk(node => {
+    if (node.type === 'rule' && wanted.selector) {
+      const rule = node as Rule;
+      const full = normalizeSelector(rule.selector);
+      if (full === wanted.selector) {
+        const range = toRange(rule, 'css_rule', rule.selector);
+        if (range) exact.push(range);
+      } else if (rule.selectors.map(normalizeSelector).includes(wanted.selector)) {
+        const range = toRange(rule, 'css_rule', rule.selector);
+        if (range) partial.push(range);
+      }
+    } else if (node.type === 'atrule' && wanted.atRule) {
+      const atRule = node as AtRule;
+      if (atRule.name.toLowerCase() === wanted.atRule.name &&
+          (!wanted.atRule.params || normalizeSelector(atRule.params) === wanted.atRule.params)) {
+        const range = toRange(atRule, 'css_at_rule', `@${atRule.name} ${atRule.params}`.trim());
+        if (range) exact.push(range);
+      }
+    }
+  });
+
+  return exact.length > 0 ? exact : partial;
+}
@@ -0,0 +1,274 @@
+import { EntityRange } from './types';
+
+export interface HtmlElement {
+  tagName: string;
+  attrs: Map<string, string>;
+  start: number;
+  /** Offset just past the start tag's `>` */
+  openEnd: number;
+  /** Offset just past the end tag, or where the element was implicitly closed */
+  end: number;
+  /** Offset of the end tag's `<`, when the element has one */
+  closeStart?: number;
+  /** Source text of the start tag */
+  openTag: string;
+}
+
+interface StartTagToken {
+  tagName: string;
+  attrs: Map<string, string>;
+  end: number;
+  selfClosing: boolean;
+}
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr'
+]);
+
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title']);
+
+const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'details', 'div', 'dl', 'fieldset', 'figcaption', 'figure',
+  'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'main', 'nav', 'ol', 'p', 'pre',
+  'section', 'table', 'ul'
+]);
+
+/**
+ * Start tags that implicitly close an open element of the given name
+ */
+const IMPLICIT_CLOSERS: Record<string, Set<string>> = {
+  p: BLOCK_ELEMENTS,
+  li: new Set(['li']),
+  dt: new Set(['dt', 'dd']),
+  dd: new Set(['dt', 'dd']),
+  option: new Set(['option', 'optgroup']),
+  tr: new Set(['tr', 'tbody', 'tfoot']),
+  td: new Set(['td', 'th', 'tr', 'tbody', 'tfoot']),
+  th: new Set(['td', 'th', 'tr', 'tbody', 'tfoot'])
+};
+
+/**
+ * Read a start tag beginning at `<`. Attribute values may contain `>` inside quotes.
+ */
+function readStartTag(source: string, start: number): StartTagToken | null {
+  const nameMatch = /^<([a-zA-Z][\w:-]*)/.exec(source.slice(start, start + 64));
+  if (!nameMatch) return null;
+
+  const attrs = new Map<string, string>();
+  let pos = start + nameMatch[0].length;
+
+  while (pos < source.length) {
+    while (pos < source.length && /\s/.test(source[pos])) pos++;
+    if (source[pos] === '>') {
+      return { tagName: nameMatch[1].toLowerCase(), attrs, end: pos + 1, selfClosing: false };
+    }
+    if (source.startsWith('/>', pos)) {
+      return { tagName: nameMatch[1].toLowerCase(), attrs, end: pos + 2, selfClosing: true };
+    }
+    if (source[pos] === '/') {
+      pos++;
+      continue;
+    }
+
+    const attrMatch = /^[^\s"'>\/=]+/.exec(source.slice(pos, pos + 256));
+    if (!attrMatch) {
+      pos++;
+      continue;
+    }
+    const name = attrMatch[0].toLowerCase();
+    pos += attrMatch[0].length;
+    while (pos < source.length && /\s/.test(source[pos])) pos++;
+
+    let value = '';
+    if (source[pos] === '=') {
+      pos++;
+      while (pos < source.length && /\s/.test(source[pos])) pos++;
+      const quote = source[pos];
+      if (quote === '"' || quote === "'") {
+        const close = source.indexOf(quote, pos + 1);
+        const valueEnd = close === -1 ? source.length : close;
+        value = source.slice(pos + 1, valueEnd);
+        pos = valueEnd + 1;
+      } else {
+        const unquoted = /^[^\s>]*/.exec(source.slice(pos))![0];
+        value = unquoted;
+        pos += unquoted.length;
+      }
+    }
+    if (!attrs.has(name)) attrs.set(name, value);
+  }
+
+  return null;
+}
+
+/**
+ * Tokenize HTML into elements with exact source ranges.
+ * Handles comments, doctype, quoted attributes, void and raw-text elements and the common implied end tags.
+ */
+export function parseHtmlElements(source: string): HtmlElement[] {
+  const elements: HtmlElement[] = [];
+  const stack: HtmlElement[] = [];
+  let pos = 0;
+
+  const closeTop = (end: number, closeStart?: number) => {
+    const element = stack.pop()!;
+    element.end = end;
+    element.closeStart = closeStart;
+  };
+
+  while (pos < source.length) {
+    const lt = source.indexOf('<', pos);
+    if (lt === -1) break;
+
+    if (source.startsWith('<!--', lt)) {
+      const close = source.indexOf('-->', lt + 4);
+      pos = close === -1 ? source.length : close + 3;
+      continue;
+    }
+
+    if (source[lt + 1] === '!' || source[lt + 1] === '?') {
+      const close = source.indexOf('>', lt);
+      pos = close === -1 ? source.length : close + 1;
+      continue;
+    }
+
+    if (source[lt + 1] === '/') {
+      const endMatch = /^<\/([a-zA-Z][\w:-]*)\s*>/.exec(source.slice(lt, lt + 128));
+      if (!endMatch) {
+        pos = lt + 2;
+        continue;
+      }
+      const tagName = endMatch[1].toLowerCase();
+      const depth = stack.map(element => element.tagName).lastIndexOf(tagName);
+      if (depth !== -1) {
+        // Anything still open inside ends where this end tag starts
+        while (stack.length > depth + 1) closeTop(trimmedEnd(source, lt));
+        closeTop(lt + endMatch[0].length, lt);
+      }
+      pos = lt + endMatch[0].length;
+      continue;
+    }
+
+    const tag = readStartTag(source, lt);
+    if (!tag) {
+      pos = lt + 1;
+      continue;
+    }
+
+    const closers = stack.length > 0 ? IMPLICIT_CLOSERS[stack[stack.length - 1].tagName] : undefined;
+    if (closers?.has(tag.tagName)) {
+      closeTop(trimmedEnd(source, lt));
+    }
+
+    const element: HtmlElement = {
+      tagName: tag.tagName,
+      attrs: tag.attrs,
+      start: lt,
+      openEnd: tag.end,
+      end: tag.end,
+      openTag: source.slice(lt, tag.end)
+    };
+    elements.push(element);
+    pos = tag.end;
+
+    if (tag.selfClosing || VOID_ELEMENTS.has(tag.tagName)) {
+      continue;
+    }
+
+    if (RAW_TEXT_ELEMENTS.has(tag.tagName)) {
+      const closePattern = new RegExp(`</${tag.tagName}\\s*>`, 'i');
+      const closeMatch = closePattern.exec(source.slice(tag.end));
+      if (closeMatch) {
+        element.closeStart = tag.end + closeMatch.index;
+        element.end = element.closeStart + closeMatch[0].length;
+        pos = element.end;
+      } else {
+        element.end = source.length;
+        pos = source.length;
+      }
+      continue;
+    }
+
+    stack.push(element);
+  }
+
+  while (stack.length > 0) closeTop(trimmedEnd(source, source.length));
+  return elements;
+}
+
+function trimmedEnd(source: string, end: number): number {
+  while (end > 0 && /\s/.test(source[end - 1])) end--;
+  return end;
+}
+
+function classList(value: string | undefined): string[] {
+  return (value || '').split(/\s+/).filter(Boolean);
+}
+
+function normalizeTag(text: string): string {
+  return text.replace(/\s+/g, ' ').replace(/\s*(\/?>)$/, '$1').trim();
+}
+
+/**
+ * Parse a selector such as `<section id="pricing">` or `<button class="btn primary"` into a start tag
+ */
+export function parseHtmlSelector(selector: string): StartTagToken | null {
+  const trimmed = selector.trim();
+  if (!trimmed.startsWith('<') || trimmed.startsWith('</')) return null;
+  const complete = /\/?>$/.test(trimmed) ? trimmed : `${trimmed}>`;
+  return readStartTag(complete, 0);
+}
+
+/**
+ * Elements whose tag matches the selector and which carry every attribute it names.
+ * Classes match as a subset; if several match, those whose start tag is textually identical win.
+ */
+export function findHtmlElements(source: string, selector: string): EntityRange[] | null {
+  const wanted = parseHtmlSelector(selector);
+  if (!wanted) return null;
+
+  const candidates = parseHtmlElements(source).filter(element => {
+    if (element.tagName !== wanted.tagName) return false;
+    for (const [name, value] of wanted.attrs) {
+      if (!element.attrs.has(name)) return false;
+      if (name === 'class') {
+        const classes = classList(element.attrs.get(name));
+        if (!classList(value).every(cls => classes.includes(cls))) return false;
+      } else if (value && element.attrs.get(name) !== value) {
+        return false;
+      }
+    }
+    return true;
+  });
+
+  const exact = candidates.filter(element => normalizeTag(element.openTag).startsWith(normalizeTag(selector.trim()).replace(/>$/, '')));
+  const chosen = candidates.length > 1 && exact.length > 0 ? exact : candidates;
+
+  return chosen.map(element => ({
+    start: element.start,
+    end: element.end,
+    kind: 'html_element' as const,
+    name: normalizeTag(element.openTag)
+  }));
+}
+
+/**
+ * Inline `<style>` and `<script>` bodies, so CSS and JS selectors work inside HTML files
+ */
+export function findEmbeddedBlocks(source: string): Array<{ language: 'css' | 'javascript'; start: number; end: number }> {
+  const blocks: Array<{ language: 'css' | 'javascript'; start: number; end: number }> = [];
+  for (const element of parseHtmlElements(source)) {
+    if (element.tagName !== 'style' && element.tagName !== 'script') continue;
+    if (element.tagName === 'script') {
+      const type = (element.attrs.get('type') || '').toLowerCase();
+      if (element.attrs.has('src') || (type && !/(javascript|module|jsx|babel)/.test(type))) continue;
+    }
+    // An unclosed block runs to the end of the file
+    blocks.push({
+      language: element.tagName === 'style' ? 'css' : 'javascript',
+      start: element.openEnd,
+      end: element.closeStart ?? element.end
+    });
+  }
+  return blocks;
+}
@@ -0,0 +1,84 @@
+import { lineNumberAt } from '../string-match';
+import { findCssRules } from './css';
+import { findEmbeddedBlocks, findHtmlElements } from './html';
+import { findJavaScriptEntities } from './javascript';
+import { EntityRange, EntityResolution } from './types';
+
+export type { EntityKind, EntityRange, EntityResolution } from './types';
+
+type Language = 'html' | 'css' | 'javascript';
+
+const LANGUAGE_BY_EXTENSION: Record<string, Language> = {
+  html: 'html',
+  htm: 'html',
+  css: 'css',
+  js: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  jsx: 'javascript',
+  ts: 'javascript',
+  tsx: 'javascript'
+};
+
+function languageFor(filePath: string, entityType?: string): Language | null {
+  const extension = filePath.split('.').pop()?.toLowerCase() || '';
+  const language = LANGUAGE_BY_EXTENSION[extension];
+  if (language) return language;
+  if (entityType === 'css_rule') return 'css';
+  if (entityType === 'html_element') return 'html';
+  return null;
+}
+
+function findInLanguage(language: Language, source: string, selector: string, entityType?: string): EntityRange[] | null {
+  switch (language) {
+    case 'css':
+      return findCssRules(source, selector);
+    case 'javascript':
+      return findJavaScriptEntities(source, selector, entityType);
+    case 'html': {
+      if (selector.trim().startsWith('<')) {
+        return findHtmlElements(source, selector);
+      }
+
+      // CSS selectors and function names inside <style>/<script> blocks
+      let results: EntityRange[] | null = null;
+      for (const block of findEmbeddedBlocks(source)) {
+        const found = findInLanguage(block.language, source.slice(block.start, block.end), selector, entityType);
+        if (!found) continue;
+        results = [...(results || []), ...found.map(range => ({ ...range, start: range.start + block.start, end: range.end + block.start }))];
+      }
+      return results;
+    }
+  }
+}
+
+/**
+ * Resolve a replace_entity selector to the exact source range of one node, using an HTML tokenizer,
+ * postcss or acorn depending on the file. Selectors may be an opening tag (`<section id="pricing">`),
+ * a CSS selector or at-rule (`.card:hover`, `@media (max-width: 600px)`) or a declaration
+ * (`function calculateTotal(`, `const ContactForm = () => {`, `handleClick`).
+ */
+export function resolveEntity(content: string, filePath: string, selector: string, entityType?: string): EntityResolution {
+  const language = languageFor(filePath, entityType);
+  if (!language) {
+    return { status: 'unsupported', reason: `no parser for ${filePath}` };
+  }
+
+  const ranges = findInLanguage(language, content, selector, entityType);
+  if (!ranges) {
+    return { status: 'unsupported', reason: 'selector not recognised or file did not parse' };
+  }
+
+  const shortSelector = selector.length > 100 ? `${selector.substring(0, 97)}...` : selector;
+  if (ranges.length === 0) {
+    return { status: 'not_found', error: `Selector not found: "${shortSelector}"` };
+  }
+  if (ranges.length > 1) {
+    const lines = ranges.map(range => lineNumberAt(content, range.start)).join(', ');
+    return {
+      status: 'ambiguous',
+      error: `Selector "${shortSelector}" matches ${ranges.length} entities (lines ${lines}). Add a distinguishing attribute or use a more specific selector.`
+    };
+  }
+  return { status: 'found', range: ranges[0] };
+}
@@ -0,0 +1,216 @@
+import { Parser, Node, Options } from 'acorn';
+import jsx from 'acorn-jsx';
+import { parseHtmlSelector } from './html';
+import { EntityKind, EntityRange } from './types';
+
+const JSXParser = Parser.extend(jsx());
+
+const PARSE_OPTIONS: Options = {
+  ecmaVersion: 'latest',
+  allowHashBang: true,
+  allowReturnOutsideFunction: true,
+  allowAwaitOutsideFunction: true,
+  allowImportExportEverywhere: true
+};
+
+const CONTROL_KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'with', 'return', 'typeof', 'new']);
+
+type JsSelector =
+  | { name: string; keyword?: 'function' | 'class' | 'variable' }
+  | { jsxTag: string; attrs: Map<string, string> };
+
+interface Candidate extends EntityRange {
+  depth: number;
+  isFunction: boolean;
+  attrs?: Map<string, string>;
+}
+
+type AnyNode = Node & Record<string, any>;
+
+function parseJsSelector(selector: string): JsSelector | null {
+  const trimmed = selector.trim();
+
+  if (trimmed.startsWith('<')) {
+    const tag = parseHtmlSelector(trimmed);
+    if (!tag) return null;
+    const attrs = new Map([...tag.attrs].map(([name, value]) => [name === 'classname' ? 'class' : name, value]));
+    return { jsxTag: tag.tagName, attrs };
+  }
+
+  const patterns: Array<[RegExp, 'function' | 'class' | 'variable' | undefined]> = [
+    [/^(?:export\s+)?(?:default\s+)?(?:async\s+)?function\s*\*?\s*([A-Za-z_$][\w$]*)/, 'function'],
+    [/^(?:export\s+)?(?:default\s+)?class\s+([A-Za-z_$][\w$]*)/, 'class'],
+    [/^(?:export\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)/, 'variable'],
+    [/^(?:static\s+)?(?:async\s+)?(?:get\s+|set\s+)?\*?\s*([A-Za-z_$][\w$]*)\s*\(/, undefined],
+    [/^(?:[A-Za-z_$][\w$]*\.)*([A-Za-z_$][\w$]*)\s*[:=]/, undefined],
+    [/^(?:[A-Za-z_$][\w$]*\.)*([A-Za-z_$][\w$]*)$/, undefined]
+  ];
+
+  for (const [pattern, keyword] of patterns) {
+    const match = pattern.exec(trimmed);
+    if (match && !CONTROL_KEYWORDS.has(match[1])) {
+      return { name: match[1], keyword };
+    }
+  }
+  return null;
+}
+
+function parseJavaScript(source: string): AnyNode | null {
+  for (const sourceType of ['module', 'script'] as const) {
+    try {
+      return JSXParser.parse(source, { ...PARSE_OPTIONS, sourceType }) as AnyNode;
+    } catch {
+      // Try the next source type; sloppy-mode scripts fail as modules
+    }
+  }
+  return null;
+}
+
+function isFunctionNode(node: AnyNode | null | undefined): boolean {
+  return !!node && (node.type === 'FunctionExpression' || node.type === 'ArrowFunctionExpression');
+}
+
+function keyName(key: AnyNode | null | undefined): string | null {
+  if (!key) return null;
+  if (key.type === 'Identifier' || key.type === 'PrivateIdentifier') return key.name;
+  if (key.type === 'Literal' && typeof key.value === 'string') return key.value;
+  return null;
+}
+
+function jsxName(name: AnyNode): string {
+  if (name.type === 'JSXIdentifier') return name.name;
+  if (name.type === 'JSXMemberExpression') return `${jsxName(name.object)}.${jsxName(name.property)}`;
+  if (name.type === 'JSXNamespacedName') return `${name.namespace.name}:${name.name.name}`;
+  return '';
+}
+
+function jsxAttributes(opening: AnyNode): Map<string, string> {
+  const attrs = new Map<string, string>();
+  for (const attr of opening.attributes || []) {
+    if (attr.type !== 'JSXAttribute') continue;
+    const name = jsxName(attr.name).toLowerCase();
+    const value = attr.value?.type === 'Literal' ? String(attr.value.value) : '';
+    attrs.set(name === 'classname' ? 'class' : name, value);
+  }
+  return attrs;
+}
+
+/**
+ * Every named declaration and JSX element, with export wrappers folded into the range
+ */
+function collectCandidates(program: AnyNode): Candidate[] {
+  const candidates: Candidate[] = [];
+
+  const add = (node: AnyNode, parent: AnyNode | null, kind: EntityKind, name: string, depth: number, isFunction: boolean) => {
+    const wrapper = parent && (parent.type === 'ExportNamedDeclaration' || parent.type === 'ExportDefaultDeclaration') ? parent : node;
+    candidates.push({ start: wrapper.start, end: wrapper.end, kind, name, depth, isFunction });
+  };
+
+  const visit = (node: AnyNode, parent: AnyNode | null, depth: number) => {
+    switch (node.type) {
+      case 'FunctionDeclaration':
+        if (node.id) add(node, parent, 'function', node.id.name, depth, true);
+        break;
+      case 'ClassDeclaration':
+        if (node.id) add(node, parent, 'class', node.id.name, depth, false);
+        break;
+      case 'VariableDeclaration':
+        for (const declarator of node.declarations) {
+          if (declarator.id?.type !== 'Identifier') continue;
+          const target = node.declarations.length === 1 ? node : declarator;
+          add(target, target === node ? parent : null, 'variable', declarator.id.name, depth, isFunctionNode(declarator.init));
+        }
+        break;
+      case 'MethodDefinition':
+      case 'PropertyDefinition': {
+        const name = keyName(node.key);
+        if (name) add(node, null, 'method', name, depth, node.type === 'MethodDefinition' || isFunctionNode(node.value));
+        break;
+      }
+      case 'Property': {
+        const name = keyName(node.key);
+        if (name && (node.method || isFunctionNode(node.value))) add(node, null, 'method', name, depth, true);
+        break;
+      }
+      case 'ExpressionStatement': {
+        const expression = node.expression;
+        if (expression?.type === 'AssignmentExpression' && isFunctionNode(expression.right)) {
+          const left = expression.left;
+          const name = left.type === 'Identifier' ? left.name : left.type === 'MemberExpression' ? keyName(left.property) : null;
+          if (name) add(node, null, 'function', name, depth, true);
+        }
+        break;
+      }
+      case 'JSXElement':
+        candidates.push({
+          start: node.start,
+          end: node.end,
+          kind: 'jsx_element',
+          name: jsxName(node.openingElement.name),
+          depth,
+          isFunction: false,
+          attrs: jsxAttributes(node.openingElement)
+        });
+        break;
+    }
+
+    for (const value of Object.values(node)) {
+      if (Array.isArray(value)) {
+        for (const child of value) {
+          if (child && typeof child.type === 'string') visit(child, node, depth + 1);
+        }
+      } else if (value && typeof value === 'object' && typeof (value as AnyNode).type === 'string') {
+        visit(value as AnyNode, node, depth + 1);
+      }
+    }
+  };
+
+  visit(program, null, 0);
+  return candidates;
+}
+
+/**
+ * Declarations (functions, classes, variables, methods) or JSX elements named by the selector.
+ * The shallowest matches win, so a top-level `render` beats a nested one.
+ * Returns null when the selector names nothing or the source does not parse (e.g. TypeScript).
+ */
+export function findJavaScriptEntities(
+  source: string,
+  selector: string,
+  entityType?: string
+): EntityRange[] | null {
+  const wanted = parseJsSelector(selector);
+  if (!wanted) return null;
+  const program = parseJavaScript(source);
+  if (!program) return null;
+
+  const wantsFunction = entityType === 'function' || entityType === 'react_component' ||
+    ('keyword' in wanted && wanted.keyword === 'function');
+
+  const matches = collectCandidates(program).filter(candidate => {
+    if ('jsxTag' in wanted) {
+      if (candidate.kind !== 'jsx_element' || candidate.name.toLowerCase() !== wanted.jsxTag) return false;
+      const attrs = candidate.attrs!;
+      return [...wanted.attrs].every(([name, value]) => {
+        if (!attrs.has(name)) return false;
+        if (name === 'class') {
+          const classes = attrs.get(name)!.split(/\s+/);
+          return value.split(/\s+/).filter(Boolean).every(cls => classes.includes(cls));
+        }
+        return !value || attrs.get(name) === value;
+      });
+    }
+
+    if (candidate.kind === 'jsx_element' || candidate.name !== wanted.name) return false;
+    if (wantsFunction) return candidate.isFunction || candidate.kind === 'function';
+    if (wanted.keyword === 'class' || entityType === 'class') return candidate.kind === 'class';
+    if (wanted.keyword === 'variable') return candidate.kind === 'variable';
+    return true;
+  });
+
+  if (matches.length === 0) return [];
+  const shallowest = Math.min(...matches.map(match => match.depth));
+  return matches
+    .filter(match => match.depth === shallowest)
+    .map(({ start, end, kind, name }) => ({ start, end, kind, name }));
+}
@@ -0,0 +1,25 @@
+export type EntityKind =
+  | 'html_element'
+  | 'css_rule'
+  | 'css_at_rule'
+  | 'function'
+  | 'class'
+  | 'variable'
+  | 'method'
+  | 'jsx_element';
+
+export interface EntityRange {
+  start: number;
+  end: number;
+  kind: EntityKind;
+  name: string;
+}
+
+/**
+ * `unsupported` means the selector could not be interpreted or the source did not parse;
+ * callers fall back to the text-based boundary heuristics
+ */
+export type EntityResolution =
+  | { status: 'found'; range: EntityRange }
+  | { status: 'not_found' | 'ambiguous'; error: string }
+  | { status: 'unsupported'; reason: string };
@@ -0,0 +1,55 @@
+/**
+ * Helpers for message content that may carry image parts next to text
+ */
+
+import { ImageContentPart, MessageContent, MessageContentPart } from './types';
+
+/**
+ * Text of a message; image parts are left out
+ */
+export function contentText(content: MessageContent | null | undefined): string {
+  if (!content) return '';
+  if (typeof content === 'string') return content;
+  return content
+    .filter((part): part is Extract<MessageContentPart, { type: 'text' }> => part.type === 'text')
+    .map(part => part.text)
+    .join('\n');
+}
+
+export function contentImages(content: MessageContent | null | undefined): ImageContentPart[] {
+  if (!content || typeof content === 'string') return [];
+  return content.filter((part): part is ImageContentPart => part.type === 'image_url');
+}
+
+/**
+ * Content with images after the text, or plain text when there are none
+ */
+export function buildContent(text: string, imageUrls: string[] = []): MessageContent {
+  if (imageUrls.length === 0) return text;
+  const parts: MessageContentPart[] = text ? [{ type: 'text', text }] : [];
+  for (const url of imageUrls) {
+    parts.push({ type: 'image_url', image_url: { url } });
+  }
+  return parts;
+}
+
+/**
+ * Messages with their images replaced by a note, for models without image input
+ */
+export function withoutImages<T extends { content: MessageContent }>(messages: T[]): T[] {
+  return messages.map(message => {
+    const count = contentImages(message.content).length;
+    if (count === 0) return message;
+    const note = `[${count === 1 ? 'An image was' : `${count} images were`} attached here, but the current model cannot view images]`;
+    const text = contentText(message.content);
+    return { ...message, content: text ? `${text}\n${note}` : note };
+  });
+}
+
+/**
+ * Split a base64 data URL into its media type and payload
+ */
+export function parseDataUrl(url: string): { mediaType: string; data: string } | null {
+  const match = /^data:([^;,]+);base64,([\s\S]*)$/.exec(url);
+  return match ? { mediaType: match[1], data: match[2] } : null;
+}
@@ -3,19 +3,37 @@
  * Manages LLM communication, tool execution, checkpointing, and cost tracking
  */
 
-import { vfs, VirtualFileSystem, VirtualFile } from '@/lib/vfs';
+import { vfs, VirtualFile } from '@/lib/vfs';
 import { checkpointManager, Checkpoint } from '@/lib/vfs/checkpoint';
 import { saveManager } from '@/lib/vfs/save-manager';
-import { configManager } from '@/lib/config/storage';
-import { getProvider } from '@/lib/llm/providers/registry';
+import { configManager, CostLimitStatus, ModelRole } from '@/lib/config/storage';
+import { getProvider, isCustomProviderId } from '@/lib/llm/providers/registry';
+import { decodeProviderStream, getProviderAdapter } from '@/lib/llm/providers/adapters';
+import { ProviderId } from '@/lib/llm/providers/types';
 import { CostCalculator } from './cost-calculator';
-import { ToolDefinition, UsageInfo, ToolCall } from './types';
+import { ToolDefinition, UsageInfo, ToolCall, MessageContent } from './types';
 import { GenerationAPIService, GenerationUsage } from './generation-api';
 import { SHELL_TOOL_DEF, JSON_PATCH_TOOL_DEF } from './shell-tool';
 import { EVALUATION_TOOL_DEF } from './evaluation-tool';
-import { buildShellSystemPrompt } from './system-prompt';
+import { parsePlanArguments, PlanTaskDraft, SUBMIT_PLAN_TOOL_DEF } from './plan-tool';
+import { buildPlanningPrompt, buildShellSystemPrompt } from './system-prompt';
 import { vfsShell } from '@/lib/vfs/cli-shell';
+import { listScriptCommands, parseShellScript, scriptHasOutputRedirect, ShellScript } from '@/lib/vfs/shell-parser';
 import { execStringPatch } from './string-patch';
+import { buildContent, contentImages, contentText, withoutImages } from './message-content';
+import { SCREENSHOT_TOOL_DEF, ScreenshotCapture } from './screenshot-tool';
+import { PREVIEW_LOGS_TOOL_DEF, PreviewLogsLevel, formatPreviewLogs } from './preview-logs-tool';
+import { previewConsole } from '@/lib/preview/console';
+import { classifyToolCall, toolCallsConflict, ToolCallAccess } from './tool-scheduling';
+import {
+  CompactionStats,
+  compactConversation,
+  contextNote,
+  ContextUsage,
+  estimateMessageTokens,
+  findModelInfo,
+  getContextWindow
+} from './context-window';
 import { logger } from '@/lib/utils';
 import { toast } from 'sonner';
 import { registerOpenRouterPricingFromApi, registerPricingFromProviderModels } from './pricing-cache';
@@ -23,63 +41,40 @@ import { fetchAvailableModels } from './models-api';
 
 const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
+// Shell commands that modify the VFS (blocked in chat mode, trigger checkpoints)
+const WRITE_COMMANDS = ['mkdir', 'rm', 'rmdir', 'mv', 'cp', 'touch'];
+
+// Model families that take images, for providers that don't report it
+const VISION_MODEL_PATTERN = /gpt-4o|gpt-4\.1|gpt-5|claude|gemini|vision|-vl\b|llava|pixtral|gemma-?3|llama-4/i;
+
+// Summaries of messages dropped by context compaction
+const SUMMARY_MAX_TOKENS = 300;
+const SUMMARY_INPUT_CHARS = 12000;
+const SUMMARY_MESSAGE_CHARS = 600;
+
 /**
- * Parse a shell command string into an array of arguments
- * Handles quoted arguments and basic shell escaping
+ * Check whether a single command writes files (write commands and in-place sed edits)
  */
-function parseShellCommand(cmdStr: string): string[] {
-  const args: string[] = [];
-  let current = '';
-  let inQuotes = false;
-  let quoteChar = '';
-  let escaped = false;
-
-  for (let i = 0; i < cmdStr.length; i++) {
-    const char = cmdStr[i];
-    
-    if (escaped) {
-      current += char;
-      escaped = false;
-      continue;
-    }
-    
-    if (char === '\\') {
-      escaped = true;
-      continue;
-    }
-    
-    if (inQuotes) {
-      if (char === quoteChar) {
-        inQuotes = false;
-        quoteChar = '';
-      } else {
-        current += char;
-      }
-    } else {
-      if (char === '"' || char === "'") {
-        inQuotes = true;
-        quoteChar = char;
-      } else if (char === ' ' || char === '\t') {
-        if (current.length > 0) {
-          args.push(current);
-          current = '';
-        }
-      } else {
-        current += char;
-      }
-    }
-  }
-  
-  if (current.length > 0) {
-    args.push(current);
+function commandWritesFiles(argv: string[]): boolean {
+  if (WRITE_COMMANDS.includes(argv[0])) return true;
+  return argv[0] === 'sed' && argv.slice(1).some(arg => /^-[nEr]*i/.test(arg) || arg.startsWith('--in-place'));
+}
+
+/**
+ * Parse a shell tool command (string or argv array) into a script, or null when it is malformed
+ */
+function tryParseShellScript(cmd: unknown): ShellScript | null {
+  if (typeof cmd !== 'string' && !Array.isArray(cmd)) return null;
+  try {
+    return parseShellScript(cmd);
+  } catch {
+    return null;
   }
-  
-  return args;
 }
 
 export interface OrchestratorMessage {
   role: 'system' | 'user' | 'assistant' | 'tool';
-  content: string;
+  content: MessageContent;
   tool_calls?: ToolCall[];
   tool_call_id?: string;
   // UI metadata for session recovery
@@ -111,6 +106,9 @@ export interface OrchestratorResult {
   conversation: OrchestratorMessage[];
   totalCost?: number;
   usageInfo?: UsageInfo;
+  budgetExceeded?: CostLimitStatus;
+  /** Task list submitted by a planning run */
+  plan?: PlanTaskDraft[];
 }
 
 export class Orchestrator {
@@ -143,25 +141,46 @@ export class Orchestrator {
   private evaluationRequested = false;
   private evaluationReceived = false;
   private lastIterationHadWrite = false;
+  // Set by any call of the running tool batch that changed files
+  private batchHadWrite = false;
   private lastCheckpointId: string | null = null;
   private recentCatReads = new Map<string, number>();
   private pricingEnsured = new Set<string>();
   private chatMode: boolean;
+  private planning: boolean;
+  private submittedPlan: PlanTaskDraft[] | null = null;
   private model?: string;
   private globalToolIndex = 0;
   private lastToolCallSignature: string | null = null;
+  private ignoreBudget: boolean;
+  private budgetWarningShown = false;
+  private droppedSummary: { count: number; summary: string } | null = null;
+  private captureScreenshot?: ScreenshotCapture;
+  private imageWarningShown = false;
 
   constructor(
     projectId: string,
     existingConversation?: OrchestratorMessage[],
     onProgress?: (message: string, step?: unknown) => void,
-    options?: { chatMode?: boolean; model?: string }
+    options?: {
+      chatMode?: boolean;
+      model?: string;
+      ignoreBudget?: boolean;
+      planning?: boolean;
+      maxIterations?: number;
+      captureScreenshot?: ScreenshotCapture;
+    }
   ) {
     this.projectId = projectId;
     this.onProgress = onProgress;
     this.conversation = existingConversation || [];
-    this.chatMode = options?.chatMode ?? false;
+    // Planning runs explore read-only, so they get chat mode's write protection
+    this.planning = options?.planning ?? false;
+    this.chatMode = (options?.chatMode ?? false) || this.planning;
+    this.maxIterations = options?.maxIterations ?? this.maxIterations;
     this.model = options?.model;
+    this.ignoreBudget = options?.ignoreBudget ?? false;
+    this.captureScreenshot = options?.captureScreenshot;
   }
 
   /**
@@ -203,14 +222,24 @@ export class Orchestrator {
   }
   
   /**
-   * Get provider configuration
+   * Role of this run's main loop
    */
-  private getProviderConfig() {
-    const provider = configManager.getSelectedProvider();
+  private getRole(): ModelRole {
+    if (this.planning) return 'planner';
+    return this.chatMode ? 'chat' : 'code';
+  }
+
+  /**
+   * Get provider configuration for a role: its route from settings, otherwise the selected provider
+   */
+  private getProviderConfig(role: ModelRole = this.getRole()) {
+    // The planner falls back to the coding route before the default selection
+    const route = configManager.getModelRoute(role) ?? (role === 'planner' ? configManager.getModelRoute('code') : null);
+    const provider = route?.provider ?? configManager.getSelectedProvider();
     const providerConfig = getProvider(provider);
     const apiKey = configManager.getProviderApiKey(provider);
-    // Use this.model if set (for chat/code mode separation), otherwise fall back to default
-    const model = this.model || configManager.getProviderModel(provider) || undefined;
+    // A route wins; then this.model (for chat/code mode separation); then the provider default
+    const model = route?.model || this.model || configManager.getProviderModel(provider) || undefined;
 
     // Only require API key for providers that need it
     if (providerConfig.apiKeyRequired && !apiKey) {
@@ -225,6 +254,44 @@ export class Orchestrator {
     };
   }
   
+  /**
+   * Check daily and project cost limits before spending on another LLM call.
+   * Emits a one-time warning at the configured threshold and returns the
+   * limit status when a limit has been exceeded.
+   */
+  private async checkBudget(): Promise<CostLimitStatus | null> {
+    if (this.ignoreBudget) {
+      return null;
+    }
+
+    let projectCost: number | undefined;
+    if (!this.projectId.startsWith('test-')) {
+      try {
+        const project = await vfs.getProject(this.projectId);
+        projectCost = project.costTracking?.totalCost ?? 0;
+      } catch (error) {
+        logger.warn('[Orchestrator] Failed to read project cost for budget check', error);
+      }
+    }
+
+    const status = configManager.checkCostLimits(projectCost);
+
+    if (status.exceeded) {
+      return status;
+    }
+
+    if (status.warning && !this.budgetWarningShown) {
+      this.budgetWarningShown = true;
+      logger.warn(`[Orchestrator] Budget warning: ${status.message}`);
+      this.onProgress?.('budget_warning', status);
+      toast.warning('Approaching cost limit', {
+        description: status.message
+      });
+    }
+
+    return null;
+  }
+
   /**
    * Handle retry notifications
    */
@@ -246,7 +313,7 @@ export class Orchestrator {
     provider: string,
     apiKey: string,
     model: string,
-    options?: { suppressAssistantDelta?: boolean; toolChoice?: 'auto' | 'required' | 'any'; maxTokens?: number; enableEarlyToolCallNotification?: boolean }
+    options?: { suppressAssistantDelta?: boolean; toolChoice?: 'auto' | 'required' | 'any'; maxTokens?: number; enableEarlyToolCallNotification?: boolean; role?: ModelRole }
   ): Promise<StreamResponse> {
     await this.ensurePricing(provider, model);
 
@@ -268,7 +335,8 @@ export class Orchestrator {
       tools,
       // Only include tool_choice if tools are provided
       ...(tools && tools.length > 0 && { tool_choice: options?.toolChoice || 'auto' }),
-      max_tokens: options?.maxTokens
+      max_tokens: options?.maxTokens,
+      ...(isCustomProviderId(provider) && { customProvider: configManager.getCustomProvider(provider) })
     };
     
     logger.debug(`[Orchestrator] Making API request to ${provider} with ${tools?.length || 0} tools, model: ${model}`, {
@@ -300,258 +368,109 @@ export class Orchestrator {
       throw new Error(errorMessage);
     }
 
-    return this.parseStreamingResponse(response, provider, options?.suppressAssistantDelta === true);
+    return this.parseStreamingResponse(
+      response,
+      provider,
+      model,
+      options?.role ?? this.getRole(),
+      options?.suppressAssistantDelta === true
+    );
   }
   
   /**
-   * Parse streaming response from LLM
+   * Extract a `{"tool_calls": [...]}` block written into the message content
    */
-  private async parseStreamingResponse(response: Response, provider: string, suppressAssistantDelta = false): Promise<StreamResponse> {
-    const reader = response.body?.getReader();
-    if (!reader) throw new Error('No response stream');
-    
-    const decoder = new TextDecoder();
-    let buffer = '';
+  private extractJsonToolCalls(content: string): { toolCalls: ToolCall[]; content: string } | null {
+    if (!content.includes('"tool_calls"')) {
+      return null;
+    }
+
+    // Prefer a fenced block; otherwise take everything between the outermost braces
+    const fenced = content.match(/```(?:json)?\s*(\{[\s\S]*?"tool_calls"[\s\S]*?\})\s*```/);
+    const bare = content.slice(content.indexOf('{'), content.lastIndexOf('}') + 1);
+    const candidates = fenced ? [{ json: fenced[1], raw: fenced[0] }] : bare ? [{ json: bare, raw: bare }] : [];
+
+    for (const { json, raw } of candidates) {
+      try {
+        const parsed = JSON.parse(json);
+        if (!Array.isArray(parsed.tool_calls)) continue;
+
+        const toolCalls: ToolCall[] = parsed.tool_calls
+          .filter((call: any) => call?.function?.name)
+          .map((call: any, index: number) => ({
+            id: call.id || `json_call_${index + 1}`,
+            type: 'function',
+            function: {
+              name: call.function.name,
+              arguments: typeof call.function.arguments === 'string'
+                ? call.function.arguments
+                : JSON.stringify(call.function.arguments ?? {})
+            }
+          }));
+        if (toolCalls.length === 0) continue;
+
+        return { toolCalls, content: content.replace(raw, '').trim() };
+      } catch (error) {
+        logger.debug('Failed to parse JSON tool_calls block:', error);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Parse streaming response from LLM; usage is costed against `model` and attributed to `role`
+   */
+  private async parseStreamingResponse(
+    response: Response,
+    provider: string,
+    model: string,
+    role: ModelRole,
+    suppressAssistantDelta = false
+  ): Promise<StreamResponse> {
+    if (!response.body) throw new Error('No response stream');
+
     let content = '';
     const toolCallsById: Record<string, ToolCall> = {};
-    let currentToolCall: Partial<ToolCall> | null = null;
-    let toolCallBuffer = '';
+    const announcedToolCalls = new Set<string>();
     let usageInfo: UsageInfo | undefined;
     
     const DEBUG_TOOL_STREAM = process.env.NEXT_PUBLIC_DEBUG_TOOL_STREAM === '1';
     
-    // For Anthropic: track partial JSON building
-    const anthropicToolBuffers: Record<string, string> = {};
-    const contentBlockIndexToToolId: Record<number, string> = {};
-    
     try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-        
-        for (const line of lines) {
-          // Skip SSE comments (lines starting with ':')
-          if (line.startsWith(':')) {
-            continue;
-          }
-
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6);
-            if (data === '[DONE]') {
-              if (currentToolCall && toolCallBuffer && currentToolCall.function && currentToolCall.id) {
-                currentToolCall.function.arguments = toolCallBuffer;
-                toolCallsById[currentToolCall.id] = currentToolCall as ToolCall;
-              }
-              break;
-            }
-            
-            try {
-              const json = JSON.parse(data);
-              
-              if (provider === 'anthropic') {
-                // Handle Anthropic streaming format
-                if (json.type === 'content_block_delta' && json.delta?.text_delta?.text) {
-                  const piece = json.delta.text_delta.text as string;
-                  content += piece;
-                  // Stream snapshot of full content (preferred) and the latest piece
-                  if (!suppressAssistantDelta) this.onProgress?.('assistant_delta', { text: piece, snapshot: content });
-                } else if (json.type === 'content_block_start' && json.content_block?.type === 'tool_use') {
-                  const toolCall = {
-                    id: json.content_block.id,
-                    type: 'function' as const,
-                    function: {
-                      name: json.content_block.name,
-                      arguments: ''
-                    }
-                  };
-                  toolCallsById[json.content_block.id] = toolCall;
-                  anthropicToolBuffers[json.content_block.id] = '';
-                  contentBlockIndexToToolId[json.index] = json.content_block.id;
-
-                  // Emit early notification for this tool call
-                  if (!suppressAssistantDelta) {
-                    this.onProgress?.('toolCalls', { toolCalls: [toolCall] });
-                  }
-                } else if (json.type === 'content_block_delta' && json.delta?.type === 'input_json_delta') {
-                  const contentBlockIndex = json.index;
-                  const toolId = contentBlockIndexToToolId[contentBlockIndex];
-
-                  if (toolId && json.delta.partial_json) {
-                    anthropicToolBuffers[toolId] += json.delta.partial_json;
-
-                    // Update the tool call with partial parameters
-                    if (!suppressAssistantDelta && toolCallsById[toolId]) {
-                      toolCallsById[toolId].function.arguments = anthropicToolBuffers[toolId];
-                      this.onProgress?.('tool_param_delta', {
-                        toolId,
-                        partialArguments: anthropicToolBuffers[toolId]
-                      });
-                    }
-                  }
-                } else if (json.type === 'content_block_stop') {
-                  const contentBlockIndex = json.index;
-                  const toolId = contentBlockIndexToToolId[contentBlockIndex];
-                  
-                  if (toolId && anthropicToolBuffers[toolId]) {
-                    try {
-                      const completeJson = anthropicToolBuffers[toolId];
-                      JSON.parse(completeJson); // Validate
-                      toolCallsById[toolId].function.arguments = completeJson;
-                    } catch (error) {
-                      logger.error('Invalid JSON for tool parameters:', anthropicToolBuffers[toolId], error);
-                      toolCallsById[toolId].function.arguments = '{}';
-                    }
-                  }
-                }
-              } else {
-                // Handle OpenAI/OpenRouter streaming format
-                const delta = json.choices?.[0]?.delta;
-                const finishReason = json.choices?.[0]?.finish_reason;
-
-                // Check for finish_reason to detect completion
-                if (finishReason === 'stop' || finishReason === 'tool_calls') {
-                  // Stream completed - finalize any pending tool calls
-                  if (currentToolCall && toolCallBuffer && currentToolCall.function && currentToolCall.id) {
-                    currentToolCall.function.arguments = toolCallBuffer;
-                    toolCallsById[currentToolCall.id] = currentToolCall as ToolCall;
-                    currentToolCall = null;
-                    toolCallBuffer = '';
-                  }
-                  // Don't break - continue processing for usage info
-                  // The stream ends with [DONE], not finish_reason
-                }
-
-                // Check for reasoning field (some models output their thinking here)
-                if (delta?.reasoning && !delta?.content && !delta?.tool_calls) {
-                  // Some models output their tool calls as JSON in the reasoning field
-                  // We'll accumulate it and try to parse it as a tool call
-                  const reasoningPiece = String(delta.reasoning);
-                  content += reasoningPiece;
-                  if (!suppressAssistantDelta) this.onProgress?.('assistant_delta', { text: reasoningPiece, snapshot: content });
-                }
-                
-                if (delta?.content) {
-                  const piece = String(delta.content);
-                  content += piece;
-                  // Stream snapshot of full content (preferred) and the latest piece
-                  if (!suppressAssistantDelta) this.onProgress?.('assistant_delta', { text: piece, snapshot: content });
-                }
-                
-                if (delta?.tool_calls) {
-                  for (const tc of delta.tool_calls) {
-                    if (tc.index !== undefined) {
-                      const key = `idx_${tc.index}`;
-                      const isNewTool = !toolCallsById[key];
-
-                      if (isNewTool) {
-                        toolCallsById[key] = {
-                          id: tc.id || `tool_${tc.index}`,
-                          type: 'function' as const,
-                          function: { name: '', arguments: '' }
-                        };
-                      }
-
-                      if (tc.function?.name) {
-                        toolCallsById[key].function.name = tc.function.name;
-
-                        // Emit early notification when we first see the tool name
-                        if (isNewTool && !suppressAssistantDelta) {
-                          this.onProgress?.('toolCalls', { toolCalls: [toolCallsById[key]] });
-                        }
-                      }
-
-                      if (tc.function?.arguments) {
-                        const argFragment = tc.function.arguments;
-                        toolCallsById[key].function.arguments += argFragment;
-
-                        // Stream parameter updates
-                        if (!suppressAssistantDelta) {
-                          this.onProgress?.('tool_param_delta', {
-                            toolId: toolCallsById[key].id,
-                            partialArguments: toolCallsById[key].function.arguments
-                          });
-                        }
-                      }
-                    } else if (tc.id) {
-                      if (currentToolCall && toolCallBuffer && currentToolCall.function && currentToolCall.id) {
-                        currentToolCall.function.arguments = toolCallBuffer;
-                        toolCallsById[currentToolCall.id] = currentToolCall as ToolCall;
-                      }
-                      currentToolCall = {
-                        id: tc.id,
-                        type: 'function' as const,
-                        function: {
-                          name: tc.function?.name || '',
-                          arguments: ''
-                        }
-                      };
-                      toolCallBuffer = tc.function?.arguments || '';
-
-                      // Emit early notification for new tool call
-                      if (!suppressAssistantDelta && currentToolCall.function?.name) {
-                        this.onProgress?.('toolCalls', { toolCalls: [currentToolCall as ToolCall] });
-                      }
-                    } else if (tc.function?.arguments) {
-                      const argFragment = tc.function.arguments;
-                      toolCallBuffer += argFragment;
-
-                      // Stream parameter updates for current tool call
-                      if (!suppressAssistantDelta && currentToolCall) {
-                        this.onProgress?.('tool_param_delta', {
-                          toolId: currentToolCall.id,
-                          partialArguments: toolCallBuffer
-                        });
-                      }
-                    }
-                    
-                    if (tc.function?.name && currentToolCall && currentToolCall.function) {
-                      currentToolCall.function.name = tc.function.name;
-                    }
-                  }
-                }
-              }
-              
-              // Parse usage info
-              if (json.usage) {
-                usageInfo = {
-                  promptTokens: json.usage.prompt_tokens || 0,
-                  completionTokens: json.usage.completion_tokens || 0,
-                  totalTokens: json.usage.total_tokens || 0,
-                  cachedTokens: json.usage.cached_tokens,
-                  model: this.getProviderConfig().model,
-                  provider
-                };
-              }
-              
-              if (json.x_groq?.usage) {
-                usageInfo = {
-                  promptTokens: json.x_groq.usage.prompt_tokens || 0,
-                  completionTokens: json.x_groq.usage.completion_tokens || 0,
-                  totalTokens: json.x_groq.usage.total_tokens || 0,
-                  model: this.getProviderConfig().model,
-                  provider
-                };
-              }
-            } catch (error) {
-              if (data && data.length > 10 && !data.includes('[DONE]')) {
-                logger.warn('[Orchestrator] Parse error in streaming response:', error, 'Data snippet:', data.substring(0, 200));
-              }
+      for await (const chunk of decodeProviderStream(getProviderAdapter(provider as ProviderId), response.body)) {
+        if (chunk.type === 'content' || chunk.type === 'reasoning') {
+          // Reasoning is kept too: some models write their tool calls as JSON there
+          const piece = chunk.content || '';
+          content += piece;
+          // Stream snapshot of full content (preferred) and the latest piece
+          if (!suppressAssistantDelta) this.onProgress?.('assistant_delta', { text: piece, snapshot: content });
+        } else if (chunk.type === 'tool_call_delta' && chunk.toolCall && !suppressAssistantDelta) {
+          const toolCall = chunk.toolCall;
+          if (!announcedToolCalls.has(toolCall.id)) {
+            // Emit early notification when we first see the tool name
+            if (toolCall.function.name) {
+              announcedToolCalls.add(toolCall.id);
+              this.onProgress?.('toolCalls', { toolCalls: [toolCall] });
             }
+          } else if (toolCall.function.arguments) {
+            // Stream parameter updates
+            this.onProgress?.('tool_param_delta', {
+              toolId: toolCall.id,
+              partialArguments: toolCall.function.arguments
+            });
           }
+        } else if (chunk.type === 'tool_call' && chunk.toolCall) {
+          toolCallsById[chunk.toolCall.id] = chunk.toolCall;
+        } else if (chunk.type === 'usage' && chunk.usage) {
+          usageInfo = {
+            ...chunk.usage,
+            model,
+            provider
+          };
         }
       }
     } catch (error) {
       logger.error('Error reading stream:', error);
-      if (Object.keys(toolCallsById).length > 0) {
-        if (currentToolCall && toolCallBuffer && currentToolCall.function && currentToolCall.id) {
-          currentToolCall.function.arguments = toolCallBuffer;
-          toolCallsById[currentToolCall.id] = currentToolCall as ToolCall;
-        }
-      }
     }
     
     // Check if content contains a JSON tool call (for models that don't support function calling)
@@ -614,6 +533,15 @@ export class Orchestrator {
         }
       }
       
+      // JSON tool-call format requested by /api/generate when native tool calling is unavailable
+      const fallbackCalls = this.extractJsonToolCalls(processedContent);
+      if (fallbackCalls) {
+        for (const toolCall of fallbackCalls.toolCalls) {
+          toolCallsById[toolCall.id] = toolCall;
+        }
+        processedContent = fallbackCalls.content;
+      }
+
       // Try to find JSON objects in the content
       const patterns = [
         /\{[^{}]*"cmd"\s*:\s*\[[^\]]*\][^{}]*\}/,  // Standard JSON with cmd
@@ -621,50 +549,53 @@ export class Orchestrator {
         /\{.*?"cmd".*?\}/  // Most permissive
       ];
       
-      for (const pattern of patterns) {
-        const jsonMatch = processedContent.match(pattern);
-        if (jsonMatch) {
-          logger.debug(`[Orchestrator] Found JSON match with pattern`, { 
-            pattern: pattern.toString(), 
-            jsonPreview: jsonMatch[0].substring(0, 200) 
-          });
-          try {
-            const jsonStr = jsonMatch[0];
-            const parsed = JSON.parse(jsonStr);
-            if (parsed.cmd && Array.isArray(parsed.cmd)) {
-              // Fix common command mistakes
-              let cmd = parsed.cmd;
-              // Convert bash -lc or bash -c to direct command
-              if (cmd[0] === 'bash' && cmd[1] && cmd[1].startsWith('-')) {
-                // Extract the actual command from bash -c "command"
-                if (cmd[2]) {
-                  // Parse the bash command string
-                  const bashCmd = cmd[2].trim();
-                  // Split it into proper command array
-                  cmd = bashCmd.split(/\s+/);
-                  parsed.cmd = cmd;
+      if (Object.keys(toolCallsById).length === 0) {
+        for (const pattern of patterns) {
+          const jsonMatch = processedContent.match(pattern);
+          if (jsonMatch) {
+            logger.debug(`[Orchestrator] Found JSON match with pattern`, { 
+              pattern: pattern.toString(), 
+              jsonPreview: jsonMatch[0].substring(0, 200) 
+            });
+            try {
+              const jsonStr = jsonMatch[0];
+              const parsed = JSON.parse(jsonStr);
+              if (parsed.cmd && Array.isArray(parsed.cmd)) {
+                // Fix common command mistakes
+                let cmd = parsed.cmd;
+                // Convert bash -lc or bash -c to direct command
+                if (cmd[0] === 'bash' && cmd[1] && cmd[1].startsWith('-')) {
+                  // Extract the actual command from bash -c "command"
+                  if (cmd[2]) {
+                    // Parse the bash command string
+                    const bashCmd = cmd[2].trim();
+                    // Split it into proper command array
+                    cmd = bashCmd.split(/\s+/);
+                    parsed.cmd = cmd;
+                  }
                 }
-              }
               
-              // Convert to a tool call (only if we didn't already create one from reasoning format)
-              if (!toolCallsById['manual_1']) {
-                toolCallsById['manual_1'] = {
-                  id: 'manual_1', 
-                  type: 'function',
-                  function: {
-                    name: 'shell',
-                    arguments: JSON.stringify(parsed)
-                  }
-                };
+                // Convert to a tool call (only if we didn't already create one from reasoning format)
+                if (!toolCallsById['manual_1']) {
+                  toolCallsById['manual_1'] = {
+                    id: 'manual_1', 
+                    type: 'function',
+                    function: {
+                      name: 'shell',
+                      arguments: JSON.stringify(parsed)
+                    }
+                  };
+                }
+                // Remove the JSON from content but keep any other text
+                processedContent = processedContent.replace(jsonStr, '').trim();
+                break;
               }
-              // Remove the JSON from content but keep any other text
-              processedContent = processedContent.replace(jsonStr, '').trim();
-              break;
+            } catch (error) {
+              logger.debug('Failed to parse potential tool JSON:', error);
             }
-          } catch (error) {
-            logger.debug('Failed to parse potential tool JSON:', error);
           }
         }
+      
       }
       
       // Update content with the processed version
@@ -716,8 +647,7 @@ export class Orchestrator {
     
     // Update cost tracking if we have usage info
     if (usageInfo && provider) {
-      const providerConfig = this.getProviderConfig();
-      const providerModel = providerConfig.model;
+      const providerModel = model;
 
       if (!usageInfo.provider) {
         usageInfo.provider = provider;
@@ -743,6 +673,7 @@ export class Orchestrator {
         vfs.updateProjectCost(this.projectId, {
           cost,
           provider: usageInfo.provider || provider || 'unknown',
+          role,
           tokenUsage: {
             input: usageInfo.promptTokens,
             output: usageInfo.completionTokens
@@ -752,7 +683,7 @@ export class Orchestrator {
         }).catch(err => logger.error('Failed to update project cost:', err));
       }
       
-      this.onProgress?.('usage', { usage: usageInfo, totalCost: this.totalCost });
+      this.onProgress?.('usage', { usage: usageInfo, totalCost: this.totalCost, role });
       
       // For OpenRouter, queue generation API call for accurate cost tracking
       if ((provider === 'openrouter' || provider.includes('openrouter')) && usageInfo.generationId && usageInfo.isEstimated !== false) {
@@ -785,6 +716,7 @@ export class Orchestrator {
                   vfs.applyProjectCostDelta(this.projectId, {
                     costDelta: costDifference,
                     provider: providerKey,
+                    role,
                     sessionId
                   }).catch(err => logger.error('Failed to apply corrected project cost:', err));
                 }
@@ -859,19 +791,33 @@ export class Orchestrator {
   /**
    * Get available tools (filtered by chat mode)
    */
-  private getAvailableTools(): ToolDefinition[] {
+  private getAvailableTools(vision = false): ToolDefinition[] {
+    if (this.planning) {
+      return [SHELL_TOOL_DEF, SUBMIT_PLAN_TOOL_DEF];
+    }
+    // Screenshots need a preview to capture and a model that can look at them
+    const screenshot = vision && this.captureScreenshot ? [SCREENSHOT_TOOL_DEF] : [];
+    // Runtime logs come from the open preview
+    const previewLogs = previewConsole.isAttached(this.projectId) ? [PREVIEW_LOGS_TOOL_DEF] : [];
     if (this.chatMode) {
-      // Chat mode: only shell tool (read-only commands)
-      return [SHELL_TOOL_DEF];
+      // Chat mode: only read-only tools
+      return [SHELL_TOOL_DEF, ...screenshot, ...previewLogs];
     }
     // Code mode: all tools
-    return [SHELL_TOOL_DEF, JSON_PATCH_TOOL_DEF, EVALUATION_TOOL_DEF];
+    return [SHELL_TOOL_DEF, JSON_PATCH_TOOL_DEF, EVALUATION_TOOL_DEF, ...screenshot, ...previewLogs];
+  }
+
+  /**
+   * Whether a model takes image input: the provider's model metadata first, then its family
+   */
+  private supportsVision(provider: ProviderId, model: string): boolean {
+    return findModelInfo(provider, model)?.supportsVision ?? VISION_MODEL_PATTERN.test(model);
   }
   
   /**
    * Execute task
    */
-  async execute(userPrompt: string): Promise<OrchestratorResult> {
+  async execute(userPrompt: string, images: string[] = []): Promise<OrchestratorResult> {
     logger.info(`[Orchestrator] Starting execution with prompt`, { promptPreview: userPrompt.substring(0, 100) });
 
     // Reset state for new execution
@@ -898,18 +844,24 @@ export class Orchestrator {
 
       let systemPrompt = buildShellSystemPrompt(fileTree, this.chatMode);
 
-      // Initialize conversation with system prompt if empty
-      if (this.conversation.length === 0) {
+      if (this.planning) {
+        // Earlier turns stay as context, but the planner gets its own instructions
+        this.conversation = [
+          { role: 'system', content: buildPlanningPrompt(fileTree) },
+          ...this.conversation.filter(message => message.role !== 'system')
+        ];
+      } else if (this.conversation.length === 0) {
+        // Initialize conversation with system prompt if empty
         this.conversation.push({
           role: 'system',
           content: systemPrompt
         });
       }
 
-      // Add user prompt to conversation
+      // Add user prompt (and any attached images) to conversation
       this.conversation.push({
         role: 'user',
-        content: userPrompt
+        content: buildContent(userPrompt, images)
       });
 
       // Main execution loop
@@ -935,21 +887,88 @@ export class Orchestrator {
           stepsCompleted: this.stepsCompleted
         });
 
+        // Hard stop before spending more once a cost limit has been reached
+        const budgetStatus = await this.checkBudget();
+        if (budgetStatus) {
+          logger.warn(`[Orchestrator] Budget exceeded: ${budgetStatus.message}`);
+          await this.recordAutoCheckpoint(`Budget exceeded: ${userPrompt.substring(0, 60)}`);
+          this.onProgress?.('budget_exceeded', budgetStatus);
+          return {
+            success: false,
+            summary: `Budget exceeded: ${budgetStatus.message}`,
+            stepsCompleted: this.stepsCompleted,
+            checkpointId: this.lastCheckpointId ?? undefined,
+            conversation: this.conversation,
+            totalCost: this.totalCost,
+            usageInfo: this.totalUsage,
+            budgetExceeded: budgetStatus
+          };
+        }
+
         const { provider, apiKey, model } = this.getProviderConfig();
-        const tools = this.getAvailableTools();
+        const vision = this.supportsVision(provider, model);
+        const tools = this.getAvailableTools(vision);
 
         // Notify UI that we're waiting for LLM response
         this.onProgress?.('thinking', {});
 
+        // Fit the conversation into the model's context window; this.conversation keeps the full history
+        const contextWindow = getContextWindow(provider, model, tools);
+        const summarize = configManager.getModelRoute('summarization') !== null;
+        const compacted = compactConversation(
+          this.conversation,
+          contextWindow.budget,
+          commandWritesFiles,
+          summarize ? SUMMARY_MAX_TOKENS : 0
+        );
+        if (summarize && compacted.noteIndex !== undefined) {
+          const summary = await this.summarizeDroppedMessages(compacted.dropped);
+          if (summary) {
+            const note: OrchestratorMessage = { role: 'system', content: contextNote(compacted.droppedMessages, summary) };
+            compacted.estimatedTokens += estimateMessageTokens(note) - estimateMessageTokens(compacted.messages[compacted.noteIndex]);
+            compacted.messages[compacted.noteIndex] = note;
+          }
+        }
+        const compaction: CompactionStats = {
+          staleReads: compacted.staleReads,
+          truncatedOutputs: compacted.truncatedOutputs,
+          droppedMessages: compacted.droppedMessages
+        };
+        if (compacted.estimatedTokens < compacted.originalTokens) {
+          logger.info(`[Orchestrator] Compacted context from ~${compacted.originalTokens} to ~${compacted.estimatedTokens} tokens`, compaction);
+        }
+        const contextUsage: ContextUsage = {
+          usedTokens: compacted.estimatedTokens + contextWindow.toolTokens,
+          contextLength: contextWindow.contextLength,
+          measured: false,
+          compaction
+        };
+        this.onProgress?.('context_usage', contextUsage);
+
+        let outgoing = compacted.messages;
+        if (!vision && outgoing.some(message => contentImages(message.content).length > 0)) {
+          outgoing = withoutImages(outgoing);
+          if (!this.imageWarningShown) {
+            this.imageWarningShown = true;
+            toast.warning('The selected model does not accept images', {
+              description: 'Attached images were replaced with a note. Choose a vision model to send them.'
+            });
+          }
+        }
+
         // Call LLM with conversation and tools
         const response = await this.streamLLMResponse(
-          this.conversation,
+          outgoing,
           tools,
           provider,
           apiKey,
           model
         );
 
+        if (response.usage?.promptTokens) {
+          this.onProgress?.('context_usage', { ...contextUsage, usedTokens: response.usage.promptTokens, measured: true });
+        }
+
 
         logger.debug(`[Orchestrator] Iteration ${iterations + 1} - Response`, {
           hasContent: !!response.content,
@@ -960,6 +979,22 @@ export class Orchestrator {
         if (!response.toolCalls || response.toolCalls.length === 0) {
           logger.debug(`[Orchestrator] No tool calls in response`);
 
+          // Planning ends with submit_plan; nudge the model towards it a couple of times
+          if (this.planning) {
+            if (response.content?.trim()) {
+              this.conversation.push({ role: 'assistant', content: response.content });
+            }
+            if (this.noToolCallRetries < 2) {
+              this.noToolCallRetries++;
+              this.conversation.push({
+                role: 'user',
+                content: 'Please submit the task list with the submit_plan tool.'
+              });
+              continue;
+            }
+            break;
+          }
+
           if (response.content && response.content.trim()) {
             // Add assistant's response to conversation
             this.conversation.push({
@@ -970,11 +1005,7 @@ export class Orchestrator {
             // If meaningful work done (3+ steps), request evaluation (only in code mode)
             if (!this.chatMode && this.stepsCompleted >= 3 && !this.evaluationRequested && !this.evaluationReceived) {
               logger.debug(`[Orchestrator] Requesting evaluation after ${this.stepsCompleted} steps`);
-              this.evaluationRequested = true;
-              this.conversation.push({
-                role: 'user',
-                content: 'Please use the evaluation tool to assess if the task has been completed successfully. Include progress_summary, remaining_work, and any blockers.'
-              });
+              if (await this.requestEvaluation(userPrompt)) break;
               continue; // Give LLM one more iteration to evaluate
             }
 
@@ -1021,11 +1052,7 @@ export class Orchestrator {
           if (!this.chatMode && !this.evaluationRequested && !this.evaluationReceived) {
             // Request evaluation regardless of steps - let evaluation tool assess completion
             logger.debug(`[Orchestrator] No tool calls after ${this.stepsCompleted} steps, requesting evaluation`);
-            this.evaluationRequested = true;
-            this.conversation.push({
-              role: 'user',
-              content: 'Please use the evaluation tool to assess if the task has been completed successfully. Include progress_summary, remaining_work, and any blockers.'
-            });
+            if (await this.requestEvaluation(userPrompt)) break;
             continue;
           }
 
@@ -1113,6 +1140,11 @@ export class Orchestrator {
           }
         }
 
+        if (this.submittedPlan) {
+          logger.info(`[Orchestrator] Plan submitted with ${this.submittedPlan.length} tasks`);
+          break;
+        }
+
         // Check if task is complete
         if (this.taskComplete || this.stepsCompleted >= 50) {
           logger.info(`[Orchestrator] Breaking: taskComplete=${this.taskComplete}, steps=${this.stepsCompleted}`);
@@ -1127,13 +1159,14 @@ export class Orchestrator {
       await this.recordAutoCheckpoint(`After completion: ${userPrompt.substring(0, 60)}`);
 
       return {
-        success: this.accumulatedToolCalls.length > 0,
+        success: this.planning ? this.submittedPlan !== null : this.accumulatedToolCalls.length > 0,
         summary,
         stepsCompleted: this.stepsCompleted,
         checkpointId: this.lastCheckpointId ?? undefined,
         conversation: this.conversation,
         totalCost: this.totalCost,
-        usageInfo: this.totalUsage
+        usageInfo: this.totalUsage,
+        plan: this.submittedPlan ?? undefined
       };
 
     } catch (error) {
@@ -1230,33 +1263,70 @@ export class Orchestrator {
   }
 
   /**
-   * Execute tool calls and update progress
+   * Execute tool calls and update progress.
+   * Indices and loop detection follow call order so the UI numbering stays stable; execution
+   * itself is scheduled by toolCallsConflict, so read-only calls and writes to different files
+   * run concurrently. One auto checkpoint covers all writes of the batch.
+   * Results are returned in call order.
    */
   private async executeToolCalls(toolCalls: ToolCall[], iteration: number): Promise<OrchestratorMessage[]> {
-    const toolResults: OrchestratorMessage[] = [];
+    const resultsByCall: OrchestratorMessage[][] = toolCalls.map(() => []);
+    const scheduled: Array<{ access: ToolCallAccess; done: Promise<void> }> = [];
+    this.batchHadWrite = false;
 
     for (let i = 0; i < toolCalls.length; i++) {
-      // Check if generation was stopped
-      if (this.stopped) {
-        logger.info('[Orchestrator] Tool execution stopped by user request');
-        break;
-      }
-
       const toolCall = toolCalls[i];
-      const toolName = toolCall.function?.name;
-      const toolId = toolCall.id;
 
       // Use global tool index that accumulates across all LLM calls in this execution
       const currentToolIndex = this.globalToolIndex;
       this.globalToolIndex++;
 
-      // Check for consecutive duplicate tool calls (loop detection)
-      const currentSignature = this.getToolCallSignature(toolCall);
-      if (this.lastToolCallSignature === currentSignature) {
-        // Loop detected - inject intervention message
-        logger.warn(`[Orchestrator] Loop detected: consecutive duplicate tool call - ${currentSignature}`);
+      const intervention = this.detectToolCallLoop(toolCall, currentToolIndex);
+      if (intervention) {
+        resultsByCall[i] = [intervention];
+        continue;
+      }
 
-        const interventionMessage = `❌ Loop detected: You just called this exact same command twice in a row.
+      const access = classifyToolCall(toolCall, call => this.isWriteOperation(call));
+      const dependencies = scheduled
+        .filter(previous => toolCallsConflict(previous.access, access))
+        .map(previous => previous.done);
+
+      const done = Promise.all(dependencies).then(async () => {
+        // Check if generation was stopped
+        if (this.stopped) {
+          logger.info('[Orchestrator] Tool execution stopped by user request');
+          return;
+        }
+        resultsByCall[i] = await this.executeToolCall(toolCall, currentToolIndex);
+      });
+      scheduled.push({ access, done });
+    }
+
+    await Promise.all(scheduled.map(call => call.done));
+    this.lastIterationHadWrite = this.batchHadWrite;
+    if (this.batchHadWrite) {
+      try {
+        await this.recordAutoCheckpoint(`After step ${this.stepsCompleted}`);
+      } catch (error) {
+        logger.error('[Orchestrator] Failed to checkpoint tool batch', error);
+      }
+    }
+    return resultsByCall.flat();
+  }
+
+  /**
+   * Check for consecutive duplicate tool calls. Returns the intervention message to send instead of executing.
+   */
+  private detectToolCallLoop(toolCall: ToolCall, currentToolIndex: number): OrchestratorMessage | null {
+    const toolName = toolCall.function?.name;
+    // Check for consecutive duplicate tool calls (loop detection)
+    const currentSignature = this.getToolCallSignature(toolCall);
+    if (this.lastToolCallSignature === currentSignature) {
+      // Loop detected - inject intervention message
+      logger.warn(`[Orchestrator] Loop detected: consecutive duplicate tool call - ${currentSignature}`);
+
+      const interventionMessage = `❌ Loop detected: You just called this exact same command twice in a row.
 
 This suggests you may be stuck. The previous call likely failed or didn't produce the expected result.
 
@@ -1270,53 +1340,63 @@ This suggests you may be stuck. The previous call likely failed or didn't produc
 
 Please try a different approach instead of repeating the same command.`;
 
-        toolResults.push({
-          role: 'tool',
-          tool_call_id: toolId,
-          content: interventionMessage
-        });
+      const intervention: OrchestratorMessage = {
+        role: 'tool',
+        tool_call_id: toolCall.id,
+        content: interventionMessage
+      };
 
-        // Update tool status to failed
-        this.onProgress?.('tool_status', {
-          toolIndex: currentToolIndex,
-          status: 'failed',
-          error: 'Loop detected - duplicate tool call'
-        });
+      // Update tool status to failed
+      this.onProgress?.('tool_status', {
+        toolIndex: currentToolIndex,
+        status: 'failed',
+        error: 'Loop detected - duplicate tool call'
+      });
 
-        // Reset tracking so next call is fresh
-        this.lastToolCallSignature = null;
+      // Reset tracking so next call is fresh
+      this.lastToolCallSignature = null;
 
-        // Skip executing this duplicate call
-        continue;
-      }
+      // Skip executing this duplicate call
+      return intervention;
+    }
 
-      // Update last tool call signature
-      this.lastToolCallSignature = currentSignature;
+    // Update last tool call signature
+    this.lastToolCallSignature = currentSignature;
+    return null;
+  }
 
-      // Update tool status to executing
-      this.onProgress?.('tool_status', {
-        toolIndex: currentToolIndex,
-        status: 'executing'
-      });
-      
-      if (toolName === 'shell') {
+  /**
+   * Execute a single tool call, reporting status and results through onProgress
+   */
+  private async executeToolCall(toolCall: ToolCall, currentToolIndex: number): Promise<OrchestratorMessage[]> {
+    const toolResults: OrchestratorMessage[] = [];
+    const toolName = toolCall.function?.name;
+    const toolId = toolCall.id;
+
+    // Update tool status to executing
+    this.onProgress?.('tool_status', {
+      toolIndex: currentToolIndex,
+      status: 'executing'
+    });
+    
+    if (toolName === 'shell') {
+      try {
+        // Parse arguments
+        let args;
         try {
-          // Parse arguments
-          let args;
-          try {
-            args = JSON.parse(toolCall.function.arguments);
-          } catch {
-            throw new Error(`Malformed tool call - invalid JSON in arguments.
+          args = JSON.parse(toolCall.function.arguments);
+        } catch {
+          throw new Error(`Malformed tool call - invalid JSON in arguments.
 
 The arguments must be valid JSON. Common issues:
 ❌ Trailing commas: {"cmd": ["ls", "/"]}
 ❌ Unescaped quotes: {"cmd": ["echo", "Hello "World""]}
 ❌ Missing quotes: {cmd: ["ls", "/"]}
 ✅ Correct: {"cmd": ["ls", "/"]}`);
-          }
-          
-          if (!args.cmd) {
-            throw new Error(`Malformed tool call - cmd parameter is required.
+        }
+        
+        if (!args.cmd) {
+          throw new Error(`Malformed tool call - cmd parameter is required.
 
 ✅ Natural format: {"cmd": "ls -la /"}
 ✅ Array format: {"cmd": ["ls", "-la", "/"]}
@@ -1326,17 +1406,10 @@ Examples:
 - {"cmd": ["rg", "-C", "5", "pattern", "/"]} - Search with context
 - {"cmd": "head -n 50 /app.js"} - Sample file start
 - {"cmd": ["tree", "-L", "2", "/"]} - Show directory structure`);
-          }
-          
-          // Convert cmd to array format if it's a string
-          let cmdArray: string[];
-          if (typeof args.cmd === 'string') {
-            cmdArray = parseShellCommand(args.cmd);
-            logger.debug(`[Orchestrator] Converted string command "${args.cmd}" to array:`, cmdArray);
-          } else if (Array.isArray(args.cmd)) {
-            cmdArray = args.cmd;
-          } else {
-            throw new Error(`Malformed tool call - cmd must be string or array.
+        }
+        
+        if (typeof args.cmd !== 'string' && !Array.isArray(args.cmd)) {
+          throw new Error(`Malformed tool call - cmd must be string or array.
 
 ✅ Natural format: {"cmd": "ls -la /"}
 ✅ Array format: {"cmd": ["ls", "-la", "/"]}
@@ -1346,175 +1419,176 @@ Examples:
 - {"cmd": ["cat", "/index.html"]} - Array format
 - {"cmd": "ls -la /"} - Natural format  
 - {"cmd": ["ls", "-la", "/"]} - Array format`);
-          }
-          
-          // Execute tool command
-          logger.debug(`[Orchestrator] Executing shell command: ${cmdArray[0]}`);
-          logger.debug(`[Orchestrator] Routing to executeShellCommand`);
-          const result = await this.executeShellCommand(cmdArray);
-          logger.debug(`[Orchestrator] Command result length:`, result?.length);
-          
-          toolResults.push({
-            role: 'tool',
-            tool_call_id: toolId,
-            content: result
-          });
-          
-          this.stepsCompleted++;
-          
-          // Check if patch failed based on result content
-          const isFailure = result.startsWith('❌');
-          
-          // Update tool status
-          this.onProgress?.('tool_status', {
-            toolIndex: currentToolIndex,
-            status: isFailure ? 'failed' : 'completed',
-            result: result
-          });
-
-          // Send tool result as progress event
-          logger.debug(`[Orchestrator] Sending tool result for tool ${currentToolIndex}`, { resultPreview: result.substring(0, 100) });
-          this.onProgress?.('tool_result', {
-            toolIndex: currentToolIndex,
-            toolId: toolId,
-            result: result
-          });
-          
-          // Check if this was a write operation
-          const isWriteOp = this.isWriteOperation(args.cmd);
-          const isStructureOp = this.isFileStructureOperation(args.cmd);
-          
-          if (isWriteOp) {
-            this.lastIterationHadWrite = true;
-            // Create checkpoint after write operations
-            await this.recordAutoCheckpoint(`After step ${this.stepsCompleted}`);
-          } else {
-            this.lastIterationHadWrite = false;
-          }
-          
-          // Trigger file explorer refresh for operations that alter file structure
-          if (isStructureOp) {
-            this.triggerFileExplorerRefresh();
-          }
-          
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : String(error);
-          toolResults.push({
-            role: 'tool',
-            tool_call_id: toolId,
-            content: `Error: ${errorMessage}`
-          });
-          
-          // Update tool status to failed
-          this.onProgress?.('tool_status', {
-            toolIndex: currentToolIndex,
-            status: 'failed',
-            error: errorMessage
-          });
         }
-      } else if (toolName === 'json_patch') {
-        // Handle json_patch tool calls
-        try {
-          const args = JSON.parse(toolCall.function.arguments);
-          logger.debug(`[Orchestrator] Executing json_patch call for ${args.file_path}`);
-          
-          const vfs = new VirtualFileSystem();
-          await vfs.init();
-          
-          const result = await execStringPatch(vfs, this.projectId, args.file_path, args.operations);
-          logger.debug(`[Orchestrator] String patch result:`, result);
-          
-          // Format result message
-          let resultMessage = result.summary;
-          if (result.warnings && result.warnings.length > 0) {
-            resultMessage += '\n\nWarnings:\n' + result.warnings.map(w => `• ${w}`).join('\n');
-          }
-          
-          toolResults.push({
-            role: 'tool',
-            tool_call_id: toolId,
-            content: resultMessage
-          });
-          
-          this.stepsCompleted++;
-
-          // Update tool status
-          this.onProgress?.('tool_status', {
-            toolIndex: currentToolIndex,
-            status: result.applied ? 'completed' : 'failed',
-            result: resultMessage
-          });
-          
-          // Send tool result to UI
-          this.onProgress?.('tool_result', {
-            toolIndex: currentToolIndex,
-            toolId: toolId,
-            result: resultMessage
-          });
-          
-          // Create checkpoint after successful patch operations
-          if (result.applied) {
-            await this.recordAutoCheckpoint(`After step ${this.stepsCompleted}`);
-            this.triggerFileExplorerRefresh();
-          }
+        
+        // Execute tool command (strings are parsed by the shell, so pipes and redirection work)
+        logger.debug(`[Orchestrator] Executing shell command:`, args.cmd);
+        logger.debug(`[Orchestrator] Routing to executeShellCommand`);
+        const result = await this.executeShellCommand(args.cmd);
+        logger.debug(`[Orchestrator] Command result length:`, result?.length);
+        
+        toolResults.push({
+          role: 'tool',
+          tool_call_id: toolId,
+          content: result
+        });
+        
+        this.stepsCompleted++;
+        
+        // Check if patch failed based on result content
+        const isFailure = result.startsWith('❌');
+        
+        // Update tool status
+        this.onProgress?.('tool_status', {
+          toolIndex: currentToolIndex,
+          status: isFailure ? 'failed' : 'completed',
+          result: result
+        });
 
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : String(error);
-          toolResults.push({
-            role: 'tool',
-            tool_call_id: toolId,
-            content: `Error: ${errorMessage}`
-          });
-
-          // Update tool status to failed
-          this.onProgress?.('tool_status', {
-            toolIndex: currentToolIndex,
-            status: 'failed',
-            error: errorMessage
-          });
+        // Send tool result as progress event
+        logger.debug(`[Orchestrator] Sending tool result for tool ${currentToolIndex}`, { resultPreview: result.substring(0, 100) });
+        this.onProgress?.('tool_result', {
+          toolIndex: currentToolIndex,
+          toolId: toolId,
+          result: result
+        });
+        
+        // Check if this was a write operation
+        const isWriteOp = this.isWriteOperation(args.cmd);
+        const isStructureOp = this.isFileStructureOperation(args.cmd);
+        
+        if (isWriteOp) {
+          // Checkpointed once the whole batch has finished
+          this.batchHadWrite = true;
         }
-      } else if (toolName === 'evaluation') {
-        // Handle evaluation tool (for self-assessment)
-        try {
-          const args = JSON.parse(toolCall.function.arguments);
-          logger.debug(`[Orchestrator] Processing evaluation:`, args);
-
-          // Set flag that evaluation was received
-          this.evaluationReceived = true;
-          this.evaluationRequested = false; // Reset request flag
-
-          // Store evaluation result
-          this.evaluationResult = {
-            goalAchieved: args.goal_achieved,
-            reasoning: args.reasoning,
-            progressSummary: args.progress_summary,
-            remainingWork: args.remaining_work,
-            blockers: args.blockers,
-            shouldContinue: args.should_continue
-          };
+        
+        // Trigger file explorer refresh for operations that alter file structure
+        if (isStructureOp) {
+          this.triggerFileExplorerRefresh();
+        }
+        
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        toolResults.push({
+          role: 'tool',
+          tool_call_id: toolId,
+          content: `Error: ${errorMessage}`
+        });
+        
+        // Update tool status to failed
+        this.onProgress?.('tool_status', {
+          toolIndex: currentToolIndex,
+          status: 'failed',
+          error: errorMessage
+        });
+      }
+    } else if (toolName === 'json_patch') {
+      // Handle json_patch tool calls
+      try {
+        const args = JSON.parse(toolCall.function.arguments);
+        logger.debug(`[Orchestrator] Executing json_patch call for ${args.file_path}`);
+        
+        await vfs.init();
+        
+        const result = await execStringPatch(vfs, this.projectId, args.file_path, args.operations);
+        logger.debug(`[Orchestrator] String patch result:`, result);
+        
+        // Format result message
+        let resultMessage = result.summary;
+        if (result.hunks && result.hunks.length > 0) {
+          resultMessage += '\n\nHunks:\n' + result.hunks.map(hunk =>
+            `${hunk.applied ? '✓' : '✗'} ${hunk.file} ${hunk.header}${hunk.detail ? ` (${hunk.detail})` : ''}`
+          ).join('\n');
+        }
+        if (result.warnings && result.warnings.length > 0) {
+          resultMessage += '\n\nWarnings:\n' + result.warnings.map(w => `• ${w}`).join('\n');
+        }
+        
+        toolResults.push({
+          role: 'tool',
+          tool_call_id: toolId,
+          content: resultMessage
+        });
+        
+        this.stepsCompleted++;
 
-          // Mark task as complete if evaluation indicates so
-          if (args.goal_achieved === true) {
-            logger.info(`[Orchestrator] Task marked complete by evaluation`);
-            this.taskComplete = true;
-          }
+        // Update tool status
+        this.onProgress?.('tool_status', {
+          toolIndex: currentToolIndex,
+          status: result.applied ? 'completed' : 'failed',
+          result: resultMessage
+        });
+        
+        // Send tool result to UI
+        this.onProgress?.('tool_result', {
+          toolIndex: currentToolIndex,
+          toolId: toolId,
+          result: resultMessage
+        });
+        
+        // Checkpoint successful patches once the whole batch has finished
+        if (result.applied) {
+          this.batchHadWrite = true;
+          this.triggerFileExplorerRefresh();
+        }
 
-          toolResults.push({
-            role: 'tool',
-            tool_call_id: toolId,
-            content: JSON.stringify(args)
-          });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        toolResults.push({
+          role: 'tool',
+          tool_call_id: toolId,
+          content: `Error: ${errorMessage}`
+        });
 
-          // Update tool status to completed
-          this.onProgress?.('tool_status', {
-            toolIndex: currentToolIndex,
-            status: 'completed',
-            result: JSON.stringify(args)
-          });
+        // Update tool status to failed
+        this.onProgress?.('tool_status', {
+          toolIndex: currentToolIndex,
+          status: 'failed',
+          error: errorMessage
+        });
+      }
+    } else if (toolName === 'evaluation') {
+      // Handle evaluation tool (for self-assessment)
+      try {
+        const args = JSON.parse(toolCall.function.arguments);
+        logger.debug(`[Orchestrator] Processing evaluation:`, args);
+
+        // Set flag that evaluation was received
+        this.evaluationReceived = true;
+        this.evaluationRequested = false; // Reset request flag
+
+        // Store evaluation result
+        this.evaluationResult = {
+          goalAchieved: args.goal_achieved,
+          reasoning: args.reasoning,
+          progressSummary: args.progress_summary,
+          remainingWork: args.remaining_work,
+          blockers: args.blockers,
+          shouldContinue: args.should_continue
+        };
+
+        // Mark task as complete if evaluation indicates so
+        if (args.goal_achieved === true) {
+          logger.info(`[Orchestrator] Task marked complete by evaluation`);
+          this.taskComplete = true;
+        }
 
-        } catch (error) {
-          const parseError = error instanceof Error ? error.message : String(error);
-          const errorMessage = `Error parsing evaluation: ${parseError}
+        toolResults.push({
+          role: 'tool',
+          tool_call_id: toolId,
+          content: JSON.stringify(args)
+        });
+
+        // Update tool status to completed
+        this.onProgress?.('tool_status', {
+          toolIndex: currentToolIndex,
+          status: 'completed',
+          result: JSON.stringify(args)
+        });
+
+      } catch (error) {
+        const parseError = error instanceof Error ? error.message : String(error);
+        const errorMessage = `Error parsing evaluation: ${parseError}
 
 ✅ Correct format:
 {
@@ -1536,22 +1610,136 @@ Required fields:
 Optional field:
 • blockers (array of strings) - Current blockers preventing progress`;
 
-          toolResults.push({
-            role: 'tool',
-            tool_call_id: toolId,
-            content: `Error: ${errorMessage}`
-          });
-
-          // Update tool status to failed
-          this.onProgress?.('tool_status', {
-            toolIndex: currentToolIndex,
-            status: 'failed',
-            error: errorMessage
-          });
+        toolResults.push({
+          role: 'tool',
+          tool_call_id: toolId,
+          content: `Error: ${errorMessage}`
+        });
+
+        // Update tool status to failed
+        this.onProgress?.('tool_status', {
+          toolIndex: currentToolIndex,
+          status: 'failed',
+          error: errorMessage
+        });
+      }
+    } else if (toolName === 'screenshot' && this.captureScreenshot) {
+      try {
+        let args;
+        try {
+          args = JSON.parse(toolCall.function.arguments || '{}');
+        } catch {
+          throw new Error('Malformed tool call - invalid JSON in arguments.');
+        }
+        const path = typeof args?.path === 'string' && args.path.trim() ? args.path.trim() : undefined;
+        const image = await this.captureScreenshot(path);
+        if (!image) {
+          throw new Error('The preview could not be captured. It may be closed or the page failed to load.');
         }
-      } else {
-        // Unknown tool name
-        const errorMessage = `Unknown tool: ${toolName}
+
+        const result = `Screenshot of ${path || 'the current preview page'}`;
+        toolResults.push({
+          role: 'tool',
+          tool_call_id: toolId,
+          content: buildContent(result, [image])
+        });
+        this.onProgress?.('tool_status', {
+          toolIndex: currentToolIndex,
+          status: 'completed',
+          result
+        });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        toolResults.push({
+          role: 'tool',
+          tool_call_id: toolId,
+          content: `Error: ${errorMessage}`
+        });
+        this.onProgress?.('tool_status', {
+          toolIndex: currentToolIndex,
+          status: 'failed',
+          error: errorMessage
+        });
+      }
+    } else if (toolName === 'preview_logs' && !this.planning && previewConsole.isAttached(this.projectId)) {
+      try {
+        let args;
+        try {
+          args = JSON.parse(toolCall.function.arguments || '{}');
+        } catch {
+          throw new Error('Malformed tool call - invalid JSON in arguments.');
+        }
+        const level: PreviewLogsLevel = args?.level === 'warn' || args?.level === 'all' ? args.level : 'error';
+        const limit = typeof args?.limit === 'number' ? args.limit : undefined;
+
+        // Let a rebuild from this turn's edits load before reading
+        await previewConsole.waitForSettled(this.projectId);
+        const result = formatPreviewLogs(
+          previewConsole.getEntries(this.projectId),
+          previewConsole.getPage(this.projectId),
+          level,
+          limit
+        );
+        toolResults.push({
+          role: 'tool',
+          tool_call_id: toolId,
+          content: result
+        });
+        this.onProgress?.('tool_status', {
+          toolIndex: currentToolIndex,
+          status: 'completed',
+          result
+        });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        toolResults.push({
+          role: 'tool',
+          tool_call_id: toolId,
+          content: `Error: ${errorMessage}`
+        });
+        this.onProgress?.('tool_status', {
+          toolIndex: currentToolIndex,
+          status: 'failed',
+          error: errorMessage
+        });
+      }
+    } else if (toolName === 'submit_plan' && this.planning) {
+      try {
+        let args;
+        try {
+          args = JSON.parse(toolCall.function.arguments);
+        } catch {
+          throw new Error('Malformed tool call - invalid JSON in arguments.');
+        }
+        this.submittedPlan = parsePlanArguments(args);
+
+        const result = `Plan recorded with ${this.submittedPlan.length} tasks.`;
+        toolResults.push({
+          role: 'tool',
+          tool_call_id: toolId,
+          content: result
+        });
+        this.onProgress?.('tool_status', {
+          toolIndex: currentToolIndex,
+          status: 'completed',
+          result
+        });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        toolResults.push({
+          role: 'tool',
+          tool_call_id: toolId,
+          content: `Error: ${errorMessage}`
+        });
+        this.onProgress?.('tool_status', {
+          toolIndex: currentToolIndex,
+          status: 'failed',
+          error: errorMessage
+        });
+      }
+    } else {
+      // Unknown tool name
+      const errorMessage = `Unknown tool: ${toolName}
 
 Available tools are: shell, json_patch, evaluation
 
@@ -1567,22 +1755,21 @@ Available tools are: shell, json_patch, evaluation
 Common mistakes:
 ❌ Wrong tool name: "shell<|channel|>analysis", "functions.shell", "command"
 ❌ Typos: "shelll", "json-patch", "evaluate"`;
-        logger.warn(`[Orchestrator] ${errorMessage}`);
-        toolResults.push({
-          role: 'tool',
-          tool_call_id: toolId,
-          content: `Error: ${errorMessage}`
-        });
-        
-        // Update tool status to failed
-        this.onProgress?.('tool_status', {
-          toolIndex: currentToolIndex, 
-          status: 'failed',
-          error: errorMessage
-        });
-      }
+      logger.warn(`[Orchestrator] ${errorMessage}`);
+      toolResults.push({
+        role: 'tool',
+        tool_call_id: toolId,
+        content: `Error: ${errorMessage}`
+      });
+      
+      // Update tool status to failed
+      this.onProgress?.('tool_status', {
+        toolIndex: currentToolIndex, 
+        status: 'failed',
+        error: errorMessage
+      });
     }
-    
+
     return toolResults;
   }
 
@@ -1601,14 +1788,21 @@ Common mistakes:
   /**
    * Execute shell command
    */
-  private async executeShellCommand(cmd: string[]): Promise<string> {
+  private async executeShellCommand(cmd: string | string[]): Promise<string> {
+    // Malformed commands fall through so the shell can report the syntax error
+    const script = tryParseShellScript(cmd);
+    const commands = script ? listScriptCommands(script) : [];
+
     // Block write operations in chat mode
-    if (this.chatMode && cmd.length > 0 && this.isWriteOperation(cmd)) {
-      return `Error: Write operations are disabled in chat mode. "${cmd[0]}" is not allowed.
+    if (this.chatMode && script && this.isWriteOperation(cmd)) {
+      const blocked = scriptHasOutputRedirect(script)
+        ? 'Output redirection (> or >>)'
+        : `"${commands.find(c => commandWritesFiles(c.argv))?.argv.slice(0, 2).join(' ')}"`;
+      return `Error: Write operations are disabled in chat mode. ${blocked} is not allowed.
 
 Switch to CODE mode to make file changes.
 
-Read-only commands available: ls, tree, cat, head, tail, grep, rg, find`;
+Read-only commands available: ls, tree, cat, head, tail, grep, rg, find, wc, sort, uniq, cut, sed (without -i), nl, awk (pipes allowed)`;
     }
 
     try {
@@ -1619,9 +1813,11 @@ Read-only commands available: ls, tree, cat, head, tail, grep, rg, find`;
           ? result.stdout
           : 'Command succeeded with no output';
 
-        const program = cmd && cmd.length > 0 ? cmd[0] : undefined;
+        // Read hints only apply to a single, unpiped command
+        const single = commands.length === 1 && commands[0].redirects.length === 0 ? commands[0].argv : [];
+        const program = single.length > 0 ? single[0] : undefined;
         if (program === 'cat') {
-          const targetPath = cmd.length > 1 ? cmd[1] : undefined;
+          const targetPath = single.length > 1 ? single[1] : undefined;
           if (targetPath) {
             const now = Date.now();
             const lastSeen = this.recentCatReads.get(targetPath);
@@ -1641,8 +1837,8 @@ ${output}`;
           }
         } else if (program === 'nl') {
           let targetPath: string | undefined;
-          for (let i = cmd.length - 1; i >= 1; i--) {
-            const arg = cmd[i];
+          for (let i = single.length - 1; i >= 1; i--) {
+            const arg = single[i];
             if (!arg.startsWith('-')) {
               targetPath = arg;
               break;
@@ -1665,24 +1861,27 @@ ${output}`;
   }
   
   /**
-   * Check if a command is a write operation
+   * Check if a command is a write operation (any command in a pipeline or list, or output redirection)
    */
-  private isWriteOperation(cmd: string[]): boolean {
-    if (!cmd || cmd.length === 0) return false;
-    
-    const writeCommands = ['mkdir', 'rm', 'rmdir', 'mv', 'cp'];
-    return writeCommands.includes(cmd[0]);
+  private isWriteOperation(cmd: string | string[]): boolean {
+    const script = tryParseShellScript(cmd);
+    if (!script) return false;
+
+    return scriptHasOutputRedirect(script) ||
+      listScriptCommands(script).some(c => commandWritesFiles(c.argv));
   }
   
   /**
    * Check if a command alters file names or locations (needs file explorer refresh)
    */
-  private isFileStructureOperation(cmd: string[]): boolean {
-    if (!cmd || cmd.length === 0) return false;
+  private isFileStructureOperation(cmd: string | string[]): boolean {
+    const script = tryParseShellScript(cmd);
+    if (!script) return false;
 
     // Commands that change file structure (names, locations, create/delete)
-    const structureCommands = ['mv', 'rm', 'rmdir', 'cp', 'mkdir', 'touch', 'echo'];
-    return structureCommands.includes(cmd[0]);
+    const structureCommands = ['mv', 'rm', 'rmdir', 'cp', 'mkdir', 'touch'];
+    return scriptHasOutputRedirect(script) ||
+      listScriptCommands(script).some(c => structureCommands.includes(c.argv[0]) || commandWritesFiles(c.argv));
   }
   
   /**
@@ -1800,8 +1999,9 @@ ${output}`;
       // Use the last substantial assistant message as the summary
       const assistantContents: string[] = [];
       for (const msg of this.conversation) {
-        if (msg.role === 'assistant' && msg.content && msg.content.trim().length > 50) {
-          assistantContents.push(msg.content.trim());
+        const text = msg.role === 'assistant' ? contentText(msg.content).trim() : '';
+        if (text.length > 50) {
+          assistantContents.push(text);
         }
       }
 
@@ -1879,23 +2079,25 @@ ${output}`;
       } else if (toolCall.function?.name === 'shell') {
         try {
           const args = JSON.parse(toolCall.function.arguments);
-          const cmd = Array.isArray(args.cmd) ? args.cmd : [];
+          const script = tryParseShellScript(args.cmd);
+          if (!script) continue;
 
-          // Track file creation commands
-          if (cmd[0] === 'touch' && cmd[1]) {
-            files.add(cmd[1]);
-          }
-          if (cmd[0] === 'mkdir' && cmd.includes('-p')) {
-            const dirPath = cmd[cmd.length - 1];
-            if (dirPath && dirPath.startsWith('/')) {
-              files.add(dirPath + '/');
+          for (const { argv: cmd, redirects } of listScriptCommands(script)) {
+            // Track file creation commands
+            if (cmd[0] === 'touch') {
+              cmd.slice(1).filter(arg => !arg.startsWith('-')).forEach(path => files.add(path));
             }
-          }
-          // Track echo > file (file creation)
-          if (cmd[0] === 'echo' && cmd.includes('>')) {
-            const redirectIndex = cmd.indexOf('>');
-            if (redirectIndex > 0 && cmd[redirectIndex + 1]) {
-              files.add(cmd[redirectIndex + 1]);
+            if (cmd[0] === 'mkdir' && cmd.includes('-p')) {
+              const dirPath = cmd[cmd.length - 1];
+              if (dirPath && dirPath.startsWith('/')) {
+                files.add(dirPath + '/');
+              }
+            }
+            // Track > and >> redirection targets (file creation)
+            for (const redirect of redirects) {
+              if ((redirect.op === '>' || redirect.op === '>>') && redirect.target !== '/dev/null') {
+                files.add(redirect.target);
+              }
             }
           }
         } catch {}
@@ -1930,7 +2132,98 @@ ${output}`;
   }
   
   /**
-   * Perform task evaluation
+   * Summarise messages dropped by compaction with the summarization model. Only messages dropped
+   * since the last call are sent, together with the summary so far.
+   */
+  private async summarizeDroppedMessages(dropped: OrchestratorMessage[]): Promise<string | null> {
+    const previous = this.droppedSummary && this.droppedSummary.count <= dropped.length ? this.droppedSummary : null;
+    if (previous?.count === dropped.length) {
+      return previous.summary;
+    }
+    // Summaries are paid calls too; over the limit the plain note has to do
+    if (await this.checkBudget()) {
+      return previous?.summary ?? null;
+    }
+
+    const transcript = dropped.slice(previous?.count ?? 0).map(message => {
+      const calls = (message.tool_calls || [])
+        .map(toolCall => `${toolCall.function?.name}(${(toolCall.function?.arguments || '').substring(0, 200)})`)
+        .join(', ');
+      return `${message.role}${calls ? ` [${calls}]` : ''}: ${contentText(message.content).substring(0, SUMMARY_MESSAGE_CHARS)}`;
+    }).join('\n').slice(-SUMMARY_INPUT_CHARS);
+
+    try {
+      const { provider, apiKey, model } = this.getProviderConfig('summarization');
+      const response = await this.streamLLMResponse(
+        [
+          {
+            role: 'system',
+            content: 'You condense the earlier part of a website-building session so the work can continue without it. Keep the user\'s requirements, decisions, files created or changed and open problems. Reply with the summary only, in at most 150 words.'
+          },
+          {
+            role: 'user',
+            content: `${previous ? `Summary so far:\n${previous.summary}\n\n` : ''}Messages to add:\n${transcript}`
+          }
+        ],
+        [],
+        provider,
+        apiKey,
+        model,
+        { suppressAssistantDelta: true, maxTokens: SUMMARY_MAX_TOKENS, role: 'summarization' }
+      );
+      const summary = response.content?.trim();
+      if (!summary) {
+        return previous?.summary ?? null;
+      }
+      this.droppedSummary = { count: dropped.length, summary };
+      return summary;
+    } catch (error) {
+      logger.warn('[Orchestrator] Failed to summarise dropped messages', error);
+      return previous?.summary ?? null;
+    }
+  }
+
+  /**
+   * Ask whether the task is done. With an evaluation model routed in settings, that model reviews
+   * the work; otherwise the coding model is asked to call the evaluation tool.
+   * Returns true when the run should stop.
+   */
+  private async requestEvaluation(userPrompt: string): Promise<boolean> {
+    this.evaluationRequested = true;
+
+    if (configManager.getModelRoute('evaluation')) {
+      // The review is a paid call like any other; over the limit, the loop's own budget check
+      // ends the run on the next iteration
+      if (await this.checkBudget()) {
+        return false;
+      }
+      try {
+        const review = await this.performEvaluation(userPrompt);
+        this.evaluationResult = review;
+        this.onProgress?.('evaluation', { summary: `${review.goalAchieved ? '✓' : '✗'} Review: ${review.reasoning}` });
+        if (review.goalAchieved || !review.shouldContinue) {
+          this.taskComplete = review.goalAchieved;
+          return true;
+        }
+        this.conversation.push({
+          role: 'user',
+          content: `A review found the task is not finished yet: ${review.reasoning}\n\nPlease continue with the remaining work.`
+        });
+        return false;
+      } catch (error) {
+        logger.warn('[Orchestrator] Evaluation model failed, falling back to self-evaluation', error);
+      }
+    }
+
+    this.conversation.push({
+      role: 'user',
+      content: 'Please use the evaluation tool to assess if the task has been completed successfully. Include progress_summary, remaining_work, and any blockers.'
+    });
+    return false;
+  }
+
+  /**
+   * Perform task evaluation with the evaluation model
    */
   private async performEvaluation(userPrompt: string): Promise<{ goalAchieved: boolean; reasoning: string; shouldContinue: boolean }> {
     // Build evaluation prompt
@@ -1942,7 +2235,7 @@ Steps completed: ${this.stepsCompleted}
 Last operation had write: ${this.lastIterationHadWrite}
 
 Recent conversation context:
-${this.conversation.slice(-5).map(msg => `${msg.role}: ${msg.content?.substring(0, 200)}...`).join('\n')}
+${this.conversation.slice(-5).map(msg => `${msg.role}: ${contentText(msg.content).substring(0, 200)}...`).join('\n')}
 
 CRITICAL: You MUST respond with ONLY valid JSON in this exact format:
 {
@@ -1953,7 +2246,7 @@ CRITICAL: You MUST respond with ONLY valid JSON in this exact format:
 
 DO NOT include any other text, explanations, or formatting outside the JSON object.`;
 
-    const { provider, apiKey, model } = this.getProviderConfig();
+    const { provider, apiKey, model } = this.getProviderConfig('evaluation');
     
     const evalResponse = await this.streamLLMResponse(
       [
@@ -1964,11 +2257,12 @@ DO NOT include any other text, explanations, or formatting outside the JSON obje
       provider,
       apiKey,
       model,
-      { suppressAssistantDelta: true, maxTokens: 200 }
+      { suppressAssistantDelta: true, maxTokens: 400, role: 'evaluation' }
     );
     
     try {
-      const result = JSON.parse(evalResponse.content || '{}');
+      // Small models often wrap the JSON in a code fence or a sentence
+      const result = JSON.parse(evalResponse.content?.match(/\{[\s\S]*\}/)?.[0] || '{}');
       return {
         goalAchieved: result.goal_achieved === true,
         reasoning: result.reasoning || 'No reasoning provided',
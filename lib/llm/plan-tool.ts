@@ -0,0 +1,69 @@
+import { ToolDefinition } from './types';
+
+export const SUBMIT_PLAN_TOOL_DEF: ToolDefinition = {
+  name: 'submit_plan',
+  description: 'Submit the ordered task list for the build. Each task is executed separately by a focused agent that only sees the overall goal, the plan and its own task, so descriptions must be self-contained.',
+  parameters: {
+    type: 'object',
+    properties: {
+      tasks: {
+        type: 'array',
+        description: 'Ordered tasks, typically 2-8. Put shared foundations (layout, styles, scripts) first.',
+        items: {
+          type: 'object',
+          properties: {
+            title: {
+              type: 'string',
+              description: 'Short imperative title (e.g., "Build the pricing page")'
+            },
+            description: {
+              type: 'string',
+              description: 'What to build and how it connects to the rest of the site: sections, content, shared classes or scripts to reuse'
+            },
+            files: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Files the task creates or edits (e.g., ["/pricing.html", "/styles.css"])'
+            }
+          },
+          required: ['title', 'description']
+        }
+      }
+    },
+    required: ['tasks']
+  }
+};
+
+export interface PlanTaskDraft {
+  title: string;
+  description: string;
+  files: string[];
+}
+
+const MAX_PLAN_TASKS = 12;
+
+/**
+ * Validate submit_plan arguments, throwing an error the model can act on
+ */
+export function parsePlanArguments(args: any): PlanTaskDraft[] {
+  if (!Array.isArray(args?.tasks) || args.tasks.length === 0) {
+    throw new Error('tasks must be a non-empty array of {"title", "description", "files"} objects');
+  }
+  if (args.tasks.length > MAX_PLAN_TASKS) {
+    throw new Error(`Too many tasks (${args.tasks.length}). Merge related work into at most ${MAX_PLAN_TASKS} tasks.`);
+  }
+
+  return args.tasks.map((task: any, index: number) => {
+    if (typeof task?.title !== 'string' || !task.title.trim()) {
+      throw new Error(`Task ${index + 1} is missing a title`);
+    }
+    if (typeof task.description !== 'string' || !task.description.trim()) {
+      throw new Error(`Task ${index + 1} ("${task.title}") is missing a description`);
+    }
+    return {
+      title: task.title.trim(),
+      description: task.description.trim(),
+      files: Array.isArray(task.files) ? task.files.filter((file: unknown): file is string => typeof file === 'string') : []
+    };
+  });
+}
@@ -0,0 +1,296 @@
+/**
+ * Planned Build - planner/executor mode for large builds
+ * A read-only planning run produces a task list, then each task runs as its own
+ * orchestrator with a fresh, trimmed context and a checkpoint when it finishes
+ */
+
+import { logger } from '@/lib/utils';
+import { conversationState } from './conversation-state';
+import { buildContent } from './message-content';
+import { Orchestrator, OrchestratorMessage, OrchestratorResult } from './orchestrator';
+import { PlanTaskDraft } from './plan-tool';
+import { ScreenshotCapture } from './screenshot-tool';
+import { UsageInfo } from './types';
+
+export type PlannedTaskStatus = 'pending' | 'in_progress' | 'success' | 'failed' | 'skipped';
+
+export interface PlannedTask {
+  id: string;
+  title: string;
+  description: string;
+  files: string[];
+  status: PlannedTaskStatus;
+  /** Executor's closing summary, trimmed */
+  summary?: string;
+  error?: string;
+  checkpointId?: string;
+}
+
+export interface TaskPlan {
+  id: string;
+  goal: string;
+  tasks: PlannedTask[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface PlannedBuildOptions {
+  model?: string;
+  ignoreBudget?: boolean;
+  resume?: boolean;
+  captureScreenshot?: ScreenshotCapture;
+}
+
+const PLANNER_MAX_ITERATIONS = 15;
+const EXECUTOR_MAX_ITERATIONS = 40;
+const TASK_SUMMARY_CHARS = 400;
+
+function createPlan(goal: string, drafts: PlanTaskDraft[]): TaskPlan {
+  const now = new Date().toISOString();
+  const planId = `plan_${Date.now()}`;
+  return {
+    id: planId,
+    goal,
+    tasks: drafts.map((draft, index) => ({
+      id: `${planId}_${index + 1}`,
+      title: draft.title,
+      description: draft.description,
+      files: draft.files,
+      status: 'pending'
+    })),
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+function trimSummary(summary: string): string {
+  const trimmed = summary.trim();
+  return trimmed.length > TASK_SUMMARY_CHARS ? `${trimmed.substring(0, TASK_SUMMARY_CHARS - 3)}...` : trimmed;
+}
+
+/**
+ * The only context an executor gets: the goal, the plan with what earlier tasks did, and its own task
+ */
+function buildTaskPrompt(plan: TaskPlan, task: PlannedTask): string {
+  const index = plan.tasks.indexOf(task);
+  const planLines = plan.tasks.map((other, i) => {
+    const marker = other === task ? '→' : other.status === 'success' ? '✓' : other.status === 'failed' ? '✗' : '·';
+    const line = `${marker} ${i + 1}. ${other.title}${other === task ? ' (this task)' : ''}`;
+    return other.summary && other !== task ? `${line}\n    Result: ${other.summary.replace(/\s*\n\s*/g, ' ')}` : line;
+  });
+
+  return `Task ${index + 1} of ${plan.tasks.length}: ${task.title}
+
+${task.description}
+${task.files.length > 0 ? `\nFiles: ${task.files.join(', ')}\n` : ''}
+This task is one step of a larger plan; only do this task; the other tasks are handled separately.
+Reuse what earlier tasks created rather than redoing it.
+
+Overall goal: ${plan.goal}
+
+Plan:
+${planLines.join('\n')}`;
+}
+
+export class PlannedBuild {
+  private projectId: string;
+  private existingConversation: OrchestratorMessage[];
+  private onProgress?: (message: string, step?: unknown) => void;
+  private options: PlannedBuildOptions;
+  private current: Orchestrator | null = null;
+  private stopped = false;
+  private totalCost = 0;
+  private totalUsage: UsageInfo = {
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    cost: 0
+  };
+  private stepsCompleted = 0;
+
+  constructor(
+    projectId: string,
+    existingConversation?: OrchestratorMessage[],
+    onProgress?: (message: string, step?: unknown) => void,
+    options?: PlannedBuildOptions
+  ) {
+    this.projectId = projectId;
+    this.existingConversation = existingConversation || [];
+    this.onProgress = onProgress;
+    this.options = options || {};
+  }
+
+  /**
+   * Stop the running sub-agent and skip the remaining tasks
+   */
+  stop(): void {
+    this.stopped = true;
+    this.current?.stop();
+    logger.info('[PlannedBuild] Stopped by user');
+  }
+
+  /**
+   * Plan the goal (or pick up the stored plan when resuming) and run its open tasks in order.
+   * Attached images go to the planner and to every task, since they usually show what to build.
+   */
+  async execute(goal: string, images: string[] = []): Promise<OrchestratorResult> {
+    let plan = this.options.resume ? await this.loadOpenPlan() : null;
+
+    if (!plan) {
+      const planner = new Orchestrator(this.projectId, [...this.existingConversation], this.forwardProgress, {
+        planning: true,
+        model: this.options.model,
+        ignoreBudget: this.options.ignoreBudget,
+        maxIterations: PLANNER_MAX_ITERATIONS
+      });
+      this.current = planner;
+      const planResult = await planner.execute(goal, images);
+      this.addUsage(planResult);
+
+      if (planResult.budgetExceeded || !planResult.plan) {
+        return this.finish(goal, images, null, {
+          success: false,
+          summary: planResult.budgetExceeded
+            ? planResult.summary
+            : `Planning failed: ${planResult.success ? 'no task list was submitted' : planResult.summary}`,
+          checkpointId: planResult.checkpointId,
+          budgetExceeded: planResult.budgetExceeded
+        });
+      }
+      plan = createPlan(goal, planResult.plan);
+    }
+
+    await this.savePlan(plan);
+    this.onProgress?.('task_plan', { plan });
+
+    let checkpointId: string | undefined;
+    for (const task of plan.tasks) {
+      if (task.status === 'success' || task.status === 'skipped') continue;
+      if (this.stopped) break;
+
+      task.status = 'in_progress';
+      task.error = undefined;
+      await this.updateTask(plan, task);
+
+      const executor = new Orchestrator(this.projectId, [], this.forwardProgress, {
+        model: this.options.model,
+        ignoreBudget: this.options.ignoreBudget,
+        maxIterations: EXECUTOR_MAX_ITERATIONS,
+        captureScreenshot: this.options.captureScreenshot
+      });
+      this.current = executor;
+      const result = await executor.execute(buildTaskPrompt(plan, task), images);
+      this.addUsage(result);
+      this.stepsCompleted += result.stepsCompleted ?? 0;
+      checkpointId = result.checkpointId ?? checkpointId;
+
+      task.checkpointId = result.checkpointId;
+      task.summary = trimSummary(result.summary);
+      if (result.budgetExceeded) {
+        // Leave the task open so a resume picks it up again
+        task.status = 'pending';
+        await this.updateTask(plan, task);
+        return this.finish(goal, images, plan, {
+          success: false,
+          summary: result.summary,
+          checkpointId,
+          budgetExceeded: result.budgetExceeded
+        });
+      }
+
+      if (this.stopped) {
+        task.status = 'pending';
+      } else {
+        task.status = result.success ? 'success' : 'failed';
+        task.error = result.success ? undefined : task.summary;
+      }
+      await this.updateTask(plan, task);
+    }
+
+    const done = plan.tasks.filter(task => task.status === 'success').length;
+    const failed = plan.tasks.filter(task => task.status === 'failed');
+    let summary = `Completed ${done} of ${plan.tasks.length} planned tasks.`;
+    if (failed.length > 0) {
+      summary += `\n\nFailed:\n${failed.map(task => `• ${task.title}`).join('\n')}`;
+    }
+    if (this.stopped) {
+      summary = `Planned build stopped by user. ${summary}`;
+    }
+
+    return this.finish(goal, images, plan, {
+      success: done > 0,
+      summary,
+      checkpointId
+    });
+  }
+
+  /**
+   * Sub-agent progress goes straight to the UI; the running cost covers all sub-agents
+   */
+  private forwardProgress = (message: string, step?: unknown) => {
+    if (message === 'usage' && step && typeof step === 'object') {
+      const usageStep = step as { totalCost?: number };
+      this.onProgress?.(message, { ...usageStep, totalCost: this.totalCost + (usageStep.totalCost ?? 0) });
+      return;
+    }
+    this.onProgress?.(message, step);
+  };
+
+  private addUsage(result: OrchestratorResult) {
+    this.totalCost += result.totalCost ?? 0;
+    if (result.usageInfo) {
+      this.totalUsage.promptTokens += result.usageInfo.promptTokens;
+      this.totalUsage.completionTokens += result.usageInfo.completionTokens;
+      this.totalUsage.totalTokens += result.usageInfo.totalTokens;
+      this.totalUsage.cost = this.totalCost;
+    }
+  }
+
+  private async loadOpenPlan(): Promise<TaskPlan | null> {
+    try {
+      const plan = await conversationState.getTaskPlan(this.projectId);
+      return plan && plan.tasks.some(task => task.status !== 'success' && task.status !== 'skipped') ? plan : null;
+    } catch (error) {
+      logger.warn('[PlannedBuild] Failed to load stored plan', error);
+      return null;
+    }
+  }
+
+  private async savePlan(plan: TaskPlan) {
+    plan.updatedAt = new Date().toISOString();
+    try {
+      await conversationState.saveTaskPlan(this.projectId, plan);
+    } catch (error) {
+      logger.warn('[PlannedBuild] Failed to persist plan', error);
+    }
+  }
+
+  private async updateTask(plan: TaskPlan, task: PlannedTask) {
+    await this.savePlan(plan);
+    this.onProgress?.('task_update', { planId: plan.id, task: { ...task } });
+  }
+
+  /**
+   * Merge the run into one result; the conversation gets the plan outcome instead of every sub-agent transcript
+   */
+  private finish(
+    goal: string,
+    images: string[],
+    plan: TaskPlan | null,
+    outcome: Pick<OrchestratorResult, 'success' | 'summary' | 'checkpointId' | 'budgetExceeded'>
+  ): OrchestratorResult {
+    const taskLines = plan?.tasks.map(task => `${task.status === 'success' ? '✓' : task.status === 'failed' ? '✗' : '·'} ${task.title}`) ?? [];
+
+    return {
+      ...outcome,
+      stepsCompleted: this.stepsCompleted,
+      conversation: [
+        ...this.existingConversation,
+        { role: 'user', content: buildContent(goal, images) },
+        { role: 'assistant', content: [outcome.summary, ...taskLines].join('\n') }
+      ],
+      totalCost: this.totalCost,
+      usageInfo: this.totalUsage
+    };
+  }
+}
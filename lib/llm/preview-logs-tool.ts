@@ -0,0 +1,78 @@
+import { ToolDefinition } from './types';
+import { PreviewConsoleEntry, PreviewLogLevel } from '@/lib/preview/types';
+
+export const PREVIEW_LOGS_TOOL_DEF: ToolDefinition = {
+  name: 'preview_logs',
+  description: 'Read the live preview console: uncaught JavaScript errors, unhandled promise rejections, failed requests and console output, with the project file and line they came from. The preview reloads after file changes, so call this after your edits to check that the page runs without errors.',
+  parameters: {
+    type: 'object',
+    properties: {
+      level: {
+        type: 'string',
+        enum: ['error', 'warn', 'all'],
+        description: 'Lowest level to include: "error" (default) for errors and failed requests, "warn" to add warnings, "all" to add console.log output.'
+      },
+      limit: {
+        type: 'number',
+        description: 'Number of most recent entries to return (default 20, max 100).'
+      }
+    }
+  }
+};
+
+export type PreviewLogsLevel = 'error' | 'warn' | 'all';
+
+const INCLUDED_LEVELS: Record<PreviewLogsLevel, PreviewLogLevel[]> = {
+  error: ['error'],
+  warn: ['error', 'warn'],
+  all: ['error', 'warn', 'info', 'log']
+};
+
+const STACK_LINES = 6;
+
+function location(entry: PreviewConsoleEntry): string {
+  if (!entry.source) return '';
+  const position = entry.line ? `:${entry.line}${entry.column ? `:${entry.column}` : ''}` : '';
+  return ` (${entry.source}${position})`;
+}
+
+/**
+ * Plain-text console listing for the model, most recent entries last
+ */
+export function formatPreviewLogs(
+  entries: PreviewConsoleEntry[],
+  page: string | null,
+  level: PreviewLogsLevel = 'error',
+  limit = 20
+): string {
+  const included = entries.filter(entry => INCLUDED_LEVELS[level].includes(entry.level));
+  const shown = included.slice(-Math.min(Math.max(1, Math.floor(limit)), 100));
+  const where = page ? ` for ${page}` : '';
+
+  if (shown.length === 0) {
+    const what = level === 'error' ? 'errors' : level === 'warn' ? 'errors or warnings' : 'output';
+    return `No ${what} in the preview console${where}.`;
+  }
+
+  const lines = [
+    `Preview console${where}: ${included.length} ${included.length === 1 ? 'entry' : 'entries'}` +
+      (shown.length < included.length ? `, showing the last ${shown.length}` : '')
+  ];
+  for (const entry of shown) {
+    const tag = entry.kind === 'network' ? 'network' : entry.kind === 'rejection' ? 'rejection' : entry.level;
+    const repeated = entry.count > 1 ? ` (×${entry.count})` : '';
+    lines.push(`[${tag}] ${entry.message}${location(entry)}${repeated}`);
+    if (entry.stack) {
+      const frames = entry.stack
+        .split('\n')
+        .map(frame => frame.trim())
+        // Frames only; the first line of a stack repeats the message
+        .filter(frame => frame.startsWith('at ') || frame.includes('@'))
+        .slice(0, STACK_LINES);
+      for (const frame of frames) {
+        lines.push(`    ${frame}`);
+      }
+    }
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,238 @@
+import { LLMMessage, MessageContent, StreamChunk, ToolCall, UsageInfo } from '../../types';
+import { contentText, parseDataUrl } from '../../message-content';
+import { ProviderAdapter, ProviderRequest, ProviderRequestOptions, StreamDecoder, NormalizedProviderError } from './types';
+import { finalChunks, normalizeProviderError, snapshotToolCall } from './shared';
+import { logger } from '@/lib/utils';
+
+const ANTHROPIC_MESSAGES_URL = 'https://api.anthropic.com/v1/messages';
+
+/**
+ * Text stays a string; image parts become base64 (or URL) image blocks
+ */
+function toAnthropicContent(content: MessageContent): string | any[] {
+  if (typeof content === 'string') return content;
+  return content.map(part => {
+    if (part.type === 'text') {
+      return { type: 'text', text: part.text };
+    }
+    const image = parseDataUrl(part.image_url.url);
+    return image
+      ? { type: 'image', source: { type: 'base64', media_type: image.mediaType, data: image.data } }
+      : { type: 'image', source: { type: 'url', url: part.image_url.url } };
+  });
+}
+
+/**
+ * Anthropic takes the system prompt separately, tool results as user `tool_result` blocks
+ * and assistant tool calls as `tool_use` blocks
+ */
+export function toAnthropicMessages(chatMessages: LLMMessage[]): { system: string; messages: any[] } {
+  const systemMessage = chatMessages.find(msg => msg.role === 'system');
+  const system = contentText(systemMessage?.content);
+
+  const processedMessages: any[] = [];
+  let currentUserMessage: any = null;
+
+  for (const msg of chatMessages) {
+    if (msg.role === 'system') {
+      continue;
+    } else if (msg.role === 'tool') {
+      if (currentUserMessage && currentUserMessage.role === 'user') {
+        if (!Array.isArray(currentUserMessage.content)) {
+          currentUserMessage = {
+            ...currentUserMessage,
+            content: [{ type: 'text', text: currentUserMessage.content }]
+          };
+        }
+        currentUserMessage.content.push({
+          type: 'tool_result',
+          tool_use_id: msg.tool_call_id,
+          content: toAnthropicContent(msg.content)
+        });
+      } else {
+        currentUserMessage = {
+          role: 'user',
+          content: [{
+            type: 'tool_result',
+            tool_use_id: msg.tool_call_id,
+            content: toAnthropicContent(msg.content)
+          }]
+        };
+      }
+    } else {
+      if (currentUserMessage && currentUserMessage.role === 'user') {
+        processedMessages.push(currentUserMessage);
+      }
+
+      if (msg.role === 'assistant' && msg.tool_calls) {
+        const content = [];
+        if (msg.content) {
+          content.push({ type: 'text', text: contentText(msg.content) });
+        }
+        for (const toolCall of msg.tool_calls) {
+          content.push({
+            type: 'tool_use',
+            id: toolCall.id,
+            name: toolCall.function.name,
+            input: JSON.parse(toolCall.function.arguments || '{}')
+          });
+        }
+
+        currentUserMessage = {
+          role: 'assistant',
+          content: content
+        };
+      } else {
+        // Ensure non-empty content for Anthropic
+        const messageContent = msg.content || '';
+        if (!messageContent && msg.role === 'assistant') {
+          // Skip empty assistant messages (Anthropic rejects them)
+          currentUserMessage = null;
+        } else {
+          currentUserMessage = { ...msg, content: toAnthropicContent(messageContent) };
+        }
+      }
+
+      if (msg.role !== 'user' && currentUserMessage) {
+        processedMessages.push(currentUserMessage);
+        currentUserMessage = null;
+      }
+    }
+  }
+
+  if (currentUserMessage && currentUserMessage.role === 'user') {
+    processedMessages.push(currentUserMessage);
+  }
+
+  return { system, messages: processedMessages };
+}
+
+function toAnthropicToolChoice(toolChoice: unknown): Record<string, unknown> {
+  if (toolChoice && typeof toolChoice === 'object') {
+    return toolChoice as Record<string, unknown>;
+  } else if (toolChoice === 'any' || toolChoice === 'required') {
+    return { type: 'any' };
+  } else if (typeof toolChoice === 'string' && toolChoice !== 'auto') {
+    return { type: 'tool', name: toolChoice };
+  }
+  return { type: 'auto' };
+}
+
+class AnthropicStreamDecoder implements StreamDecoder {
+  private toolCalls: ToolCall[] = [];
+  private toolCallsByBlock = new Map<number, ToolCall>();
+  private usage: Partial<UsageInfo> | null = null;
+  private finished = false;
+
+  constructor(private adapter: AnthropicAdapter) {}
+
+  decode(data: string): StreamChunk[] {
+    const event = JSON.parse(data);
+    if (event.type === 'error') {
+      throw new Error(`Anthropic stream error: ${event.error?.message || 'unknown error'}`);
+    }
+
+    const usage = this.adapter.extractUsage(event);
+    if (usage) {
+      // input tokens arrive with message_start, output tokens with message_delta
+      this.usage = { ...this.usage, ...usage };
+    }
+
+    const chunks: StreamChunk[] = [];
+    if (event.type === 'content_block_start' && event.content_block?.type === 'tool_use') {
+      const toolCall: ToolCall = {
+        id: event.content_block.id,
+        type: 'function',
+        function: { name: event.content_block.name, arguments: '' }
+      };
+      this.toolCalls.push(toolCall);
+      this.toolCallsByBlock.set(event.index, toolCall);
+      chunks.push({ type: 'tool_call_delta', toolCall: snapshotToolCall(toolCall) });
+    } else if (event.type === 'content_block_delta') {
+      if (event.delta?.type === 'text_delta' && event.delta.text) {
+        chunks.push({ type: 'content', content: event.delta.text });
+      } else if (event.delta?.type === 'input_json_delta' && event.delta.partial_json) {
+        const toolCall = this.toolCallsByBlock.get(event.index);
+        if (toolCall) {
+          toolCall.function.arguments += event.delta.partial_json;
+          chunks.push({ type: 'tool_call_delta', toolCall: snapshotToolCall(toolCall) });
+        }
+      }
+    } else if (event.type === 'content_block_stop') {
+      const toolCall = this.toolCallsByBlock.get(event.index);
+      if (toolCall) {
+        try {
+          JSON.parse(toolCall.function.arguments || '{}');
+          toolCall.function.arguments ||= '{}';
+        } catch (error) {
+          logger.error('Invalid JSON for tool parameters:', toolCall.function.arguments, error);
+          toolCall.function.arguments = '{}';
+        }
+      }
+    }
+    return chunks;
+  }
+
+  finish(): StreamChunk[] {
+    if (this.finished) return [];
+    this.finished = true;
+    return finalChunks(this.toolCalls, this.usage);
+  }
+}
+
+export class AnthropicAdapter implements ProviderAdapter {
+  buildRequest({ config, model, messages, tools, toolChoice, maxTokens, temperature, apiKey }: ProviderRequestOptions): ProviderRequest {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'x-api-key': apiKey || '',
+      'anthropic-version': '2023-06-01'
+    };
+    if (config.supportsFunctions) {
+      headers['anthropic-beta'] = 'tools-2024-04-04';
+    }
+
+    const { system, messages: anthropicMessages } = toAnthropicMessages(messages);
+    const body: Record<string, unknown> = {
+      model,
+      messages: anthropicMessages,
+      stream: true,
+      max_tokens: maxTokens || 4096,
+      temperature: temperature ?? 0.7
+    };
+    if (system) {
+      body.system = system;
+    }
+    if (tools && tools.length > 0) {
+      body.tools = tools.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.parameters
+      }));
+      body.tool_choice = toAnthropicToolChoice(toolChoice);
+    }
+
+    return { url: ANTHROPIC_MESSAGES_URL, headers, body };
+  }
+
+  createDecoder(): StreamDecoder {
+    return new AnthropicStreamDecoder(this);
+  }
+
+  extractUsage(event: unknown): Partial<UsageInfo> | null {
+    const json = event as { type?: string; message?: { usage?: Record<string, number> }; usage?: Record<string, number> };
+    if (json?.type === 'message_start' && json.message?.usage) {
+      return {
+        promptTokens: json.message.usage.input_tokens || 0,
+        cachedTokens: json.message.usage.cache_read_input_tokens
+      };
+    }
+    if (json?.type === 'message_delta' && json.usage) {
+      return { completionTokens: json.usage.output_tokens || 0 };
+    }
+    return null;
+  }
+
+  normalizeError(status: number, body: string, headers?: Headers): NormalizedProviderError {
+    return normalizeProviderError(status, body, headers);
+  }
+}
@@ -0,0 +1,311 @@
+/**
+ * Native Gemini adapter: `streamGenerateContent` requests built from OpenAI-style messages,
+ * with `functionCall`/`functionResponse` parts mapped to and from `ToolCall`s and tool messages.
+ */
+
+import { LLMMessage, MessageContent, StreamChunk, ToolCall, ToolDefinition, UsageInfo } from '../../types';
+import { contentImages, contentText, parseDataUrl } from '../../message-content';
+import { ProviderAdapter, ProviderRequest, ProviderRequestOptions, StreamDecoder, NormalizedProviderError } from './types';
+import { finalChunks, normalizeProviderError, snapshotToolCall } from './shared';
+
+const GEMINI_API_BASE = 'https://generativelanguage.googleapis.com/v1beta';
+
+// OpenAPI schema subset accepted by functionDeclarations.parameters
+const SUPPORTED_SCHEMA_KEYS = new Set([
+  'type', 'format', 'title', 'description', 'nullable', 'enum', 'properties', 'required',
+  'items', 'minItems', 'maxItems', 'minimum', 'maximum', 'minLength', 'maxLength', 'pattern', 'anyOf'
+]);
+
+export interface GeminiPart {
+  text?: string;
+  thought?: boolean;
+  inlineData?: { mimeType: string; data: string };
+  functionCall?: { id?: string; name: string; args?: Record<string, unknown> };
+  functionResponse?: { id?: string; name: string; response: Record<string, unknown> };
+}
+
+export interface GeminiContent {
+  role: 'user' | 'model';
+  parts: GeminiPart[];
+}
+
+export interface GeminiRequest {
+  contents: GeminiContent[];
+  systemInstruction?: { parts: GeminiPart[] };
+  tools?: Array<{ functionDeclarations: Array<{ name: string; description: string; parameters?: unknown }> }>;
+  toolConfig?: { functionCallingConfig: { mode: 'AUTO' | 'ANY' | 'NONE'; allowedFunctionNames?: string[] } };
+  generationConfig?: { temperature?: number; maxOutputTokens?: number };
+}
+
+export interface GeminiRequestOptions {
+  messages: LLMMessage[];
+  tools?: ToolDefinition[];
+  toolChoice?: unknown;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+interface GeminiStreamChunk {
+  candidates?: Array<{
+    content?: { parts?: GeminiPart[] };
+    finishReason?: string;
+  }>;
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    thoughtsTokenCount?: number;
+    totalTokenCount?: number;
+    cachedContentTokenCount?: number;
+  };
+  error?: { message?: string };
+}
+
+export function getGeminiStreamUrl(model: string): string {
+  const modelId = model.replace(/^models\//, '');
+  return `${GEMINI_API_BASE}/models/${encodeURIComponent(modelId)}:streamGenerateContent?alt=sse`;
+}
+
+/**
+ * Reduce a JSON schema to the fields Gemini accepts (it rejects e.g. additionalProperties)
+ */
+export function toGeminiSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) {
+    return schema.map(toGeminiSchema);
+  }
+  if (!schema || typeof schema !== 'object') {
+    return schema;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema as Record<string, unknown>)) {
+    if (!SUPPORTED_SCHEMA_KEYS.has(key)) continue;
+
+    if (key === 'type' && Array.isArray(value)) {
+      // ['string', 'null'] → type: 'string', nullable: true
+      const types = value.filter(type => type !== 'null');
+      result.type = types[0] ?? 'string';
+      if (types.length < value.length) result.nullable = true;
+    } else if (key === 'properties' && value && typeof value === 'object') {
+      result.properties = Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).map(([name, property]) => [name, toGeminiSchema(property)])
+      );
+    } else if (key === 'items' || key === 'anyOf') {
+      result[key] = toGeminiSchema(value);
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+function parseToolArguments(args: string): Record<string, unknown> {
+  if (!args) return {};
+  try {
+    const parsed = JSON.parse(args);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : { value: parsed };
+  } catch {
+    return { raw: args };
+  }
+}
+
+function toToolResponse(content: string): Record<string, unknown> {
+  // functionResponse.response must be an object
+  try {
+    const parsed = JSON.parse(content);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return parsed;
+    }
+  } catch {
+    // plain text output
+  }
+  return { output: content };
+}
+
+/**
+ * Image parts as inline data; Gemini can't fetch arbitrary URLs, so those are named in text
+ */
+function toImageParts(content: MessageContent): GeminiPart[] {
+  return contentImages(content).map(part => {
+    const image = parseDataUrl(part.image_url.url);
+    return image ? { inlineData: { mimeType: image.mediaType, data: image.data } } : { text: `[Image: ${part.image_url.url}]` };
+  });
+}
+
+function toFunctionCallingConfig(toolChoice: unknown, tools: ToolDefinition[]): NonNullable<GeminiRequest['toolConfig']>['functionCallingConfig'] {
+  if (toolChoice === 'none') {
+    return { mode: 'NONE' };
+  }
+  if (toolChoice === 'required' || toolChoice === 'any') {
+    return { mode: 'ANY' };
+  }
+  const forcedName = typeof toolChoice === 'string' && toolChoice !== 'auto'
+    ? toolChoice
+    : (toolChoice as { function?: { name?: string }; name?: string } | undefined)?.function?.name
+      ?? (toolChoice as { name?: string } | undefined)?.name;
+  if (forcedName && tools.some(tool => tool.name === forcedName)) {
+    return { mode: 'ANY', allowedFunctionNames: [forcedName] };
+  }
+  return { mode: 'AUTO' };
+}
+
+/**
+ * Convert chat messages and tool definitions into a Gemini request body
+ */
+export function buildGeminiRequest({ messages, tools, toolChoice, maxTokens, temperature }: GeminiRequestOptions): GeminiRequest {
+  const systemText: string[] = [];
+  const contents: GeminiContent[] = [];
+  const toolNamesById = new Map<string, string>();
+
+  const push = (role: GeminiContent['role'], parts: GeminiPart[]) => {
+    if (parts.length === 0) return;
+    // Gemini expects alternating turns, so merge consecutive parts from the same side
+    const last = contents[contents.length - 1];
+    if (last && last.role === role) {
+      last.parts.push(...parts);
+    } else {
+      contents.push({ role, parts });
+    }
+  };
+
+  for (const message of messages) {
+    if (message.role === 'system') {
+      const text = contentText(message.content);
+      if (text) systemText.push(text);
+      continue;
+    }
+
+    if (message.role === 'assistant') {
+      const parts: GeminiPart[] = [];
+      const text = contentText(message.content);
+      if (text) {
+        parts.push({ text });
+      }
+      for (const toolCall of message.tool_calls || []) {
+        toolNamesById.set(toolCall.id, toolCall.function.name);
+        parts.push({
+          functionCall: {
+            name: toolCall.function.name,
+            args: parseToolArguments(toolCall.function.arguments)
+          }
+        });
+      }
+      push('model', parts);
+      continue;
+    }
+
+    if (message.role === 'tool') {
+      const name = (message.tool_call_id && toolNamesById.get(message.tool_call_id)) || 'tool';
+      push('user', [
+        { functionResponse: { name, response: toToolResponse(contentText(message.content)) } },
+        ...toImageParts(message.content)
+      ]);
+      continue;
+    }
+
+    const text = contentText(message.content);
+    push('user', [...(text ? [{ text }] : []), ...toImageParts(message.content)]);
+  }
+
+  const request: GeminiRequest = { contents };
+
+  if (systemText.length > 0) {
+    request.systemInstruction = { parts: [{ text: systemText.join('\n\n') }] };
+  }
+
+  if (tools && tools.length > 0) {
+    request.tools = [{
+      functionDeclarations: tools.map(tool => ({
+        name: tool.name,
+        description: tool.description || '',
+        ...(tool.parameters && Object.keys(tool.parameters.properties || {}).length > 0
+          ? { parameters: toGeminiSchema(tool.parameters) }
+          : {})
+      }))
+    }];
+    request.toolConfig = { functionCallingConfig: toFunctionCallingConfig(toolChoice, tools) };
+  }
+
+  request.generationConfig = {
+    ...(temperature !== undefined && { temperature }),
+    ...(maxTokens !== undefined && { maxOutputTokens: maxTokens })
+  };
+
+  return request;
+}
+
+class GeminiStreamDecoder implements StreamDecoder {
+  private readonly callPrefix = `call_${Date.now().toString(36)}`;
+  private toolCalls: ToolCall[] = [];
+  private usage: Partial<UsageInfo> | null = null;
+  private finished = false;
+
+  constructor(private adapter: GeminiAdapter) {}
+
+  decode(data: string): StreamChunk[] {
+    const event = JSON.parse(data) as GeminiStreamChunk;
+    if (event.error) {
+      throw new Error(`Gemini stream error: ${event.error.message || 'unknown error'}`);
+    }
+    this.usage = this.adapter.extractUsage(event) ?? this.usage;
+
+    const chunks: StreamChunk[] = [];
+    for (const part of event.candidates?.[0]?.content?.parts || []) {
+      if (part.functionCall) {
+        // Gemini sends each call complete in a single part
+        const toolCall: ToolCall = {
+          id: part.functionCall.id || `${this.callPrefix}_${this.toolCalls.length}`,
+          type: 'function',
+          function: {
+            name: part.functionCall.name,
+            arguments: JSON.stringify(part.functionCall.args ?? {})
+          }
+        };
+        this.toolCalls.push(toolCall);
+        chunks.push({ type: 'tool_call_delta', toolCall: snapshotToolCall(toolCall) });
+      } else if (part.text && !part.thought) {
+        chunks.push({ type: 'content', content: part.text });
+      }
+    }
+    return chunks;
+  }
+
+  finish(): StreamChunk[] {
+    if (this.finished) return [];
+    this.finished = true;
+    return finalChunks(this.toolCalls, this.usage);
+  }
+}
+
+export class GeminiAdapter implements ProviderAdapter {
+  buildRequest({ model, messages, tools, toolChoice, maxTokens, temperature, apiKey }: ProviderRequestOptions): ProviderRequest {
+    return {
+      url: getGeminiStreamUrl(model),
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': apiKey || ''
+      },
+      body: { ...buildGeminiRequest({ messages, tools, toolChoice, maxTokens, temperature }) }
+    };
+  }
+
+  createDecoder(): StreamDecoder {
+    return new GeminiStreamDecoder(this);
+  }
+
+  extractUsage(event: unknown): Partial<UsageInfo> | null {
+    const usage = (event as GeminiStreamChunk)?.usageMetadata;
+    if (!usage) return null;
+    // Thinking tokens are billed as output
+    const completionTokens = (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0);
+    return {
+      promptTokens: usage.promptTokenCount || 0,
+      completionTokens,
+      totalTokens: usage.totalTokenCount || (usage.promptTokenCount || 0) + completionTokens,
+      cachedTokens: usage.cachedContentTokenCount
+    };
+  }
+
+  normalizeError(status: number, body: string, headers?: Headers): NormalizedProviderError {
+    return normalizeProviderError(status, body, headers);
+  }
+}
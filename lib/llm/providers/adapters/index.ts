@@ -0,0 +1,58 @@
+import { StreamChunk } from '../../types';
+import { BuiltInProviderId, ProviderId } from '../types';
+import { isCustomProviderId } from '../registry';
+import { ProviderAdapter } from './types';
+import { OpenAICompatibleAdapter } from './openai';
+import { AnthropicAdapter } from './anthropic';
+import { GeminiAdapter } from './gemini';
+import { readSSEData } from './sse';
+
+export type { ProviderAdapter, ProviderRequest, ProviderRequestOptions, StreamDecoder, NormalizedProviderError } from './types';
+export { readSSEData } from './sse';
+
+const openAICompatible = new OpenAICompatibleAdapter();
+
+const adapters: Record<BuiltInProviderId, ProviderAdapter> = {
+  openrouter: new OpenAICompatibleAdapter({ sendAttribution: true }),
+  openai: new OpenAICompatibleAdapter({
+    useMaxCompletionTokens: true,
+    temperatureFor: (model, requested) => model.includes('gpt-5-nano') ? 1 : requested
+  }),
+  anthropic: new AnthropicAdapter(),
+  groq: openAICompatible,
+  gemini: new GeminiAdapter(),
+  ollama: openAICompatible,
+  lmstudio: openAICompatible,
+  sambanova: openAICompatible
+};
+
+export function getProviderAdapter(provider: ProviderId): ProviderAdapter {
+  if (isCustomProviderId(provider)) {
+    return openAICompatible;
+  }
+  return adapters[provider] ?? openAICompatible;
+}
+
+/**
+ * Decode a provider's SSE response body into stream chunks, ending with `done`.
+ * Read errors are rethrown after the chunks decoded so far (and any completed tool calls) are delivered.
+ */
+export async function* decodeProviderStream(
+  adapter: ProviderAdapter,
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<StreamChunk> {
+  const decoder = adapter.createDecoder();
+  let streamError: unknown = null;
+  try {
+    for await (const data of readSSEData(body)) {
+      yield* decoder.decode(data);
+    }
+  } catch (error) {
+    streamError = error;
+  }
+
+  yield* decoder.finish();
+  if (streamError) {
+    throw streamError;
+  }
+}
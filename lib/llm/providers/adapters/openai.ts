@@ -0,0 +1,197 @@
+import { LLMMessage, StreamChunk, ToolCall, UsageInfo } from '../../types';
+import { buildContent, contentImages, contentText } from '../../message-content';
+import { buildProviderAuthHeaders } from '../registry';
+import { ProviderAdapter, ProviderRequest, ProviderRequestOptions, StreamDecoder, NormalizedProviderError } from './types';
+import { finalChunks, normalizeProviderError, snapshotToolCall } from './shared';
+import { logger } from '@/lib/utils';
+
+interface OpenAICompatibleOptions {
+  /** Send `max_completion_tokens` instead of `max_tokens` (OpenAI) */
+  useMaxCompletionTokens?: boolean;
+  /** Send the app attribution headers (OpenRouter) */
+  sendAttribution?: boolean;
+  /** Override the requested temperature for models that only accept fixed values */
+  temperatureFor?: (model: string, requested: number) => number;
+}
+
+interface OpenAIToolCallDelta {
+  index?: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+/**
+ * Tool messages only take text, so images returned by tools follow the tool results as a user message
+ */
+export function toOpenAIMessages(messages: LLMMessage[]): LLMMessage[] {
+  const result: LLMMessage[] = [];
+  let pendingImages: string[] = [];
+
+  const flushImages = () => {
+    if (pendingImages.length === 0) return;
+    result.push({ role: 'user', content: buildContent('Images returned by the tool calls above:', pendingImages) });
+    pendingImages = [];
+  };
+
+  for (const message of messages) {
+    if (message.role === 'tool' && typeof message.content !== 'string') {
+      pendingImages.push(...contentImages(message.content).map(part => part.image_url.url));
+      result.push({ ...message, content: contentText(message.content) });
+      continue;
+    }
+    if (message.role !== 'tool') {
+      flushImages();
+    }
+    result.push(message);
+  }
+  flushImages();
+  return result;
+}
+
+class OpenAIStreamDecoder implements StreamDecoder {
+  private toolCalls: ToolCall[] = [];
+  private toolCallsByKey = new Map<string, ToolCall>();
+  private usage: Partial<UsageInfo> | null = null;
+  private finished = false;
+
+  constructor(private adapter: OpenAICompatibleAdapter) {}
+
+  decode(data: string): StreamChunk[] {
+    if (data === '[DONE]') return [];
+
+    let json;
+    try {
+      json = JSON.parse(data);
+    } catch (error) {
+      if (data.length > 10) {
+        logger.warn('[OpenAIAdapter] Parse error in streaming response:', error, 'Data snippet:', data.substring(0, 200));
+      }
+      return [];
+    }
+
+    this.usage = this.adapter.extractUsage(json) ?? this.usage;
+
+    const chunks: StreamChunk[] = [];
+    const delta = json.choices?.[0]?.delta;
+    if (!delta) return chunks;
+
+    // Some models put their thinking (or JSON tool calls) in a separate reasoning field
+    if (delta.reasoning && !delta.content && !delta.tool_calls) {
+      chunks.push({ type: 'reasoning', content: String(delta.reasoning) });
+    }
+
+    if (delta.content) {
+      chunks.push({ type: 'content', content: String(delta.content) });
+    }
+
+    for (const tc of (delta.tool_calls || []) as OpenAIToolCallDelta[]) {
+      const toolCall = this.resolveToolCall(tc);
+      if (!toolCall) continue;
+
+      if (tc.function?.name) {
+        toolCall.function.name = tc.function.name;
+      }
+      if (tc.function?.arguments) {
+        toolCall.function.arguments += tc.function.arguments;
+      }
+      chunks.push({ type: 'tool_call_delta', toolCall: snapshotToolCall(toolCall) });
+    }
+
+    return chunks;
+  }
+
+  finish(): StreamChunk[] {
+    if (this.finished) return [];
+    this.finished = true;
+    return finalChunks(this.toolCalls, this.usage);
+  }
+
+  /**
+   * Most providers index their tool call deltas; a few only send the id on the first
+   * fragment and append argument text to the most recent call after that
+   */
+  private resolveToolCall(tc: OpenAIToolCallDelta): ToolCall | undefined {
+    const key = tc.index !== undefined ? `idx_${tc.index}` : tc.id;
+    if (!key) {
+      return this.toolCalls[this.toolCalls.length - 1];
+    }
+
+    let toolCall = this.toolCallsByKey.get(key);
+    if (!toolCall) {
+      toolCall = {
+        id: tc.id || `tool_${tc.index}`,
+        type: 'function',
+        function: { name: '', arguments: '' }
+      };
+      this.toolCallsByKey.set(key, toolCall);
+      this.toolCalls.push(toolCall);
+    }
+    return toolCall;
+  }
+}
+
+/**
+ * Chat Completions API, shared by every OpenAI-compatible provider including custom ones
+ */
+export class OpenAICompatibleAdapter implements ProviderAdapter {
+  constructor(private options: OpenAICompatibleOptions = {}) {}
+
+  buildRequest({ config, model, messages, tools, toolChoice, maxTokens, temperature, apiKey, referer }: ProviderRequestOptions): ProviderRequest {
+    const baseUrl = config.baseUrl || 'https://openrouter.ai/api/v1';
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...buildProviderAuthHeaders(config, apiKey)
+    };
+
+    if (this.options.sendAttribution) {
+      headers['HTTP-Referer'] = referer || 'http://localhost:3000';
+      headers['X-Title'] = 'OSW-Studio';
+    }
+
+    const requestedTemperature = temperature ?? 0.7;
+    const body: Record<string, unknown> = {
+      model,
+      messages: toOpenAIMessages(messages),
+      stream: true,
+      temperature: this.options.temperatureFor?.(model, requestedTemperature) ?? requestedTemperature
+    };
+
+    if (tools && tools.length > 0) {
+      body.tools = tools.map(tool => ({
+        type: 'function',
+        function: tool
+      }));
+      body.tool_choice = toolChoice || 'auto';
+    }
+
+    body[this.options.useMaxCompletionTokens ? 'max_completion_tokens' : 'max_tokens'] = maxTokens || 4096;
+
+    return { url: `${baseUrl}/chat/completions`, headers, body };
+  }
+
+  createDecoder(): StreamDecoder {
+    return new OpenAIStreamDecoder(this);
+  }
+
+  extractUsage(event: unknown): Partial<UsageInfo> | null {
+    const json = event as { usage?: Record<string, number>; x_groq?: { usage?: Record<string, number> } };
+    // Groq reports usage under x_groq on the final chunk
+    const usage = json?.usage || json?.x_groq?.usage;
+    if (!usage) return null;
+    return {
+      promptTokens: usage.prompt_tokens || 0,
+      completionTokens: usage.completion_tokens || 0,
+      totalTokens: usage.total_tokens || 0,
+      cachedTokens: usage.cached_tokens
+    };
+  }
+
+  normalizeError(status: number, body: string, headers?: Headers): NormalizedProviderError {
+    const error = normalizeProviderError(status, body, headers);
+    // Ollama answers this way for models without function calling
+    if (error.message.includes('does not support tools')) {
+      error.toolsUnsupported = true;
+    }
+    return error;
+  }
+}
@@ -0,0 +1,62 @@
+import { StreamChunk, ToolCall, UsageInfo } from '../../types';
+import { NormalizedProviderError } from './types';
+
+/**
+ * Pull the readable message out of a provider error body
+ */
+export function extractErrorMessage(body: string): string {
+  try {
+    const parsed = JSON.parse(body);
+    // Gemini wraps errors in an array
+    const error = Array.isArray(parsed) ? parsed[0]?.error : parsed.error;
+    if (error?.message) {
+      // Extract the inner message: "Key limit exceeded. Manage it using..."
+      return error.message;
+    } else if (typeof error === 'string') {
+      return error;
+    }
+  } catch {
+    // Not JSON, use raw text as-is
+  }
+  return body;
+}
+
+export function normalizeProviderError(status: number, body: string, headers?: Headers): NormalizedProviderError {
+  const rateLimitHeaders: Record<string, string> = {};
+  if (status === 429 && headers) {
+    for (const name of ['Retry-After', 'X-RateLimit-Reset', 'X-RateLimit-Remaining']) {
+      const value = headers.get(name);
+      if (value) rateLimitHeaders[name] = value;
+    }
+  }
+  return { message: extractErrorMessage(body), status, headers: rateLimitHeaders };
+}
+
+/**
+ * Copy of a call still being streamed, so consumers never see later mutations
+ */
+export function snapshotToolCall(toolCall: ToolCall): ToolCall {
+  return { ...toolCall, function: { ...toolCall.function } };
+}
+
+/**
+ * Chunks emitted when a stream ends: each completed call, then usage, then `done`
+ */
+export function finalChunks(toolCalls: ToolCall[], usage: Partial<UsageInfo> | null): StreamChunk[] {
+  const chunks: StreamChunk[] = toolCalls.map(toolCall => ({ type: 'tool_call', toolCall }));
+  if (usage && (usage.promptTokens || usage.completionTokens || usage.totalTokens)) {
+    const promptTokens = usage.promptTokens || 0;
+    const completionTokens = usage.completionTokens || 0;
+    chunks.push({
+      type: 'usage',
+      usage: {
+        ...usage,
+        promptTokens,
+        completionTokens,
+        totalTokens: usage.totalTokens || promptTokens + completionTokens
+      }
+    });
+  }
+  chunks.push({ type: 'done' });
+  return chunks;
+}
@@ -0,0 +1,45 @@
+import { LLMMessage, StreamChunk, ToolDefinition, UsageInfo } from '../../types';
+import { ProviderConfig } from '../types';
+
+export interface ProviderRequestOptions {
+  config: ProviderConfig;
+  model: string;
+  messages: LLMMessage[];
+  tools?: ToolDefinition[];
+  toolChoice?: unknown;
+  maxTokens?: number;
+  temperature?: number;
+  apiKey?: string;
+  /** Origin reported to providers that attribute traffic (OpenRouter) */
+  referer?: string;
+}
+
+export interface ProviderRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+}
+
+export interface NormalizedProviderError {
+  message: string;
+  status: number;
+  /** Rate-limit headers worth passing back to the client */
+  headers: Record<string, string>;
+  /** The model rejected native tool definitions; retry with the JSON fallback prompt */
+  toolsUnsupported?: boolean;
+}
+
+export interface StreamDecoder {
+  /** Decode one SSE `data:` payload into chunks */
+  decode(data: string): StreamChunk[];
+  /** Flush completed tool calls, usage and `done` once the stream has ended. Safe to call twice. */
+  finish(): StreamChunk[];
+}
+
+export interface ProviderAdapter {
+  buildRequest(options: ProviderRequestOptions): ProviderRequest;
+  createDecoder(): StreamDecoder;
+  /** Token counts carried by a single decoded stream event, if any */
+  extractUsage(event: unknown): Partial<UsageInfo> | null;
+  normalizeError(status: number, body: string, headers?: Headers): NormalizedProviderError;
+}
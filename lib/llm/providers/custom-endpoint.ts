@@ -0,0 +1,98 @@
+import { CustomProviderDefinition } from './types';
+
+/**
+ * Server-side checks for custom provider endpoints. The API routes receive the endpoint from
+ * the browser, so unchecked they would fetch any URL with any headers on a client's behalf.
+ *
+ * Hosts are opt-in via CUSTOM_PROVIDER_ALLOWED_HOSTS, a comma-separated list of hostnames,
+ * `host:port` pairs or `*.domain` patterns; `*` allows any host.
+ */
+
+export const ALLOWED_HOSTS_ENV = 'CUSTOM_PROVIDER_ALLOWED_HOSTS';
+
+// Headers that control the connection or carry the server's own credentials
+const BLOCKED_HEADERS = new Set([
+  'host', 'connection', 'keep-alive', 'upgrade', 'te', 'trailer', 'transfer-encoding',
+  'content-length', 'expect', 'cookie', 'proxy-authorization', 'proxy-connection', 'forwarded'
+]);
+
+const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+function allowedHosts(): string[] {
+  return (process.env[ALLOWED_HOSTS_ENV] || '')
+    .split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function isAllowedHost(url: URL, allowed: string[]): boolean {
+  const hostname = url.hostname.toLowerCase();
+  const host = url.host.toLowerCase();
+  return allowed.some(entry => {
+    if (entry === '*') return true;
+    if (entry.startsWith('*.')) return hostname.endsWith(entry.slice(1));
+    return entry === hostname || entry === host;
+  });
+}
+
+function checkUrl(value: string, label: string, allowed: string[]): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return `${label} is not a valid URL: ${value}`;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return `${label} must use http or https`;
+  }
+  if (url.username || url.password) {
+    return `${label} must not contain credentials; use the API key or extra headers instead`;
+  }
+  if (!isAllowedHost(url, allowed)) {
+    return `Custom provider host ${url.host} is not allowed. Add it to ${ALLOWED_HOSTS_ENV} on the server to use it.`;
+  }
+  return null;
+}
+
+function checkHeaderName(name: string): string | null {
+  if (!HEADER_NAME_PATTERN.test(name)) {
+    return `Invalid header name: ${name}`;
+  }
+  if (BLOCKED_HEADERS.has(name.toLowerCase())) {
+    return `Header ${name} can't be set on a custom provider`;
+  }
+  return null;
+}
+
+/**
+ * Reason the routes must not call a client-supplied custom provider, or null when it's allowed
+ */
+export function checkCustomProviderEndpoint(definition: CustomProviderDefinition): string | null {
+  const allowed = allowedHosts();
+  const baseUrlError = checkUrl(String(definition.baseUrl).trim(), 'Base URL', allowed);
+  if (baseUrlError) return baseUrlError;
+
+  const modelsEndpoint = typeof definition.modelsEndpoint === 'string' ? definition.modelsEndpoint.trim() : '';
+  if (modelsEndpoint && /^[a-z][a-z0-9+.-]*:/i.test(modelsEndpoint)) {
+    const modelsError = checkUrl(modelsEndpoint, 'Models endpoint', allowed);
+    if (modelsError) return modelsError;
+  }
+
+  if (definition.authStyle === 'header' && definition.authHeaderName) {
+    const authError = checkHeaderName(definition.authHeaderName);
+    if (authError) return authError;
+  }
+
+  const extraHeaders: unknown = definition.extraHeaders ?? {};
+  if (typeof extraHeaders !== 'object' || extraHeaders === null || Array.isArray(extraHeaders)) {
+    return 'Extra headers must be an object of header names to values';
+  }
+  for (const [name, value] of Object.entries(extraHeaders)) {
+    const headerError = checkHeaderName(name);
+    if (headerError) return headerError;
+    if (typeof value !== 'string' || /[\r\n]/.test(value)) {
+      return `Header ${name} must be a single-line string`;
+    }
+  }
+  return null;
+}
@@ -1,5 +1,15 @@
 
-import { ProviderId, ProviderConfig, ProviderModel } from './types';
+import {
+  ProviderId,
+  BuiltInProviderId,
+  CustomProviderId,
+  CustomProviderDefinition,
+  ProviderConfig,
+  ProviderModel
+} from './types';
+import { configManager } from '@/lib/config/storage';
+
+const CUSTOM_PROVIDER_PREFIX = 'custom:';
 
 
 
@@ -39,7 +49,7 @@ const geminiModels: ProviderModel[] = [
 
 
 
-export const providers: Record<ProviderId, ProviderConfig> = {
+export const providers: Record<BuiltInProviderId, ProviderConfig> = {
   openrouter: {
     id: 'openrouter',
     name: 'OpenRouter',
@@ -136,10 +146,86 @@ export const providers: Record<ProviderId, ProviderConfig> = {
   },
 };
 
-export function getProvider(id: ProviderId): ProviderConfig {
+export function isCustomProviderId(id: string): id is CustomProviderId {
+  return id.startsWith(CUSTOM_PROVIDER_PREFIX);
+}
+
+export function createCustomProviderId(name: string): CustomProviderId {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${CUSTOM_PROVIDER_PREFIX}${slug || 'provider'}`;
+}
+
+/**
+ * Build a provider config from a user-defined OpenAI-compatible endpoint
+ */
+export function customProviderToConfig(definition: CustomProviderDefinition): ProviderConfig {
+  const baseUrl = definition.baseUrl.trim().replace(/\/+$/, '');
+  const models = definition.models?.length ? definition.models : undefined;
+
+  return {
+    id: definition.id,
+    name: definition.name,
+    description: `Custom OpenAI-compatible endpoint (${baseUrl})`,
+    apiKeyRequired: definition.authStyle !== 'none',
+    apiKeyPlaceholder: 'API key',
+    baseUrl,
+    customHeaders: definition.extraHeaders,
+    models,
+    supportsModelDiscovery: !!definition.modelsEndpoint || !models,
+    supportsFunctions: definition.supportsFunctions,
+    supportsStreaming: true,
+    isCustom: true,
+    authStyle: definition.authStyle,
+    authHeaderName: definition.authHeaderName,
+    modelsEndpoint: definition.modelsEndpoint,
+    defaultModel: models?.[0]?.id
+  };
+}
+
+/**
+ * Resolve a provider config. Custom providers are looked up in settings unless the
+ * definition is passed in (API routes receive it from the client).
+ */
+export function getProvider(id: ProviderId, customProvider?: CustomProviderDefinition | null): ProviderConfig {
+  if (isCustomProviderId(id)) {
+    const definition = customProvider ?? configManager.getCustomProvider(id);
+    if (!definition) {
+      throw new Error(`Unknown provider: ${id}`);
+    }
+    return customProviderToConfig(definition);
+  }
   return providers[id];
 }
 
 export function getAllProviders(): ProviderConfig[] {
-  return Object.values(providers);
-}
\ No newline at end of file
+  return [
+    ...Object.values(providers),
+    ...configManager.getCustomProviders().map(customProviderToConfig)
+  ];
+}
+
+/**
+ * Auth and extra headers for OpenAI-compatible requests
+ */
+export function buildProviderAuthHeaders(config: ProviderConfig, apiKey?: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (apiKey && config.authStyle !== 'none') {
+    if (config.authStyle === 'header' && config.authHeaderName) {
+      headers[config.authHeaderName] = apiKey;
+    } else {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+  }
+  return { ...headers, ...config.customHeaders };
+}
+
+/**
+ * URL used for model discovery (`modelsEndpoint` may be absolute or relative to the base URL)
+ */
+export function getModelsUrl(config: ProviderConfig): string {
+  const endpoint = config.modelsEndpoint?.trim();
+  if (endpoint && /^https?:\/\//i.test(endpoint)) {
+    return endpoint;
+  }
+  return `${config.baseUrl}/${(endpoint || 'models').replace(/^\/+/, '')}`;
+}
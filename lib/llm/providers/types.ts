@@ -2,7 +2,7 @@
  * Provider-specific types and interfaces
  */
 
-export type ProviderId = 
+export type BuiltInProviderId = 
   | 'openrouter'
   | 'openai'
   | 'anthropic'
@@ -12,6 +12,16 @@ export type ProviderId =
   | 'lmstudio'
   | 'sambanova';
 
+// User-defined OpenAI-compatible providers are namespaced to avoid clashing with built-ins
+export type CustomProviderId = `custom:${string}`;
+
+export type ProviderId = BuiltInProviderId | CustomProviderId;
+
+/**
+ * How the API key is sent: `Authorization: Bearer <key>`, a named header, or not at all
+ */
+export type ProviderAuthStyle = 'bearer' | 'header' | 'none';
+
 export interface ProviderModel {
   id: string;
   name: string;
@@ -42,6 +52,27 @@ export interface ProviderConfig {
   supportsFunctions?: boolean;
   supportsStreaming?: boolean;
   isLocal?: boolean;
+  isCustom?: boolean;
+  authStyle?: ProviderAuthStyle;
+  authHeaderName?: string;
+  modelsEndpoint?: string;
+  defaultModel?: string;
+}
+
+/**
+ * A user-defined OpenAI-compatible endpoint (vLLM, llama.cpp, LiteLLM, ...) persisted in AppSettings
+ */
+export interface CustomProviderDefinition {
+  id: CustomProviderId;
+  name: string;
+  baseUrl: string;
+  authStyle: ProviderAuthStyle;
+  authHeaderName?: string;
+  extraHeaders?: Record<string, string>;
+  models?: ProviderModel[];
+  // Path relative to baseUrl or absolute URL; discovery is skipped when unset and models are listed
+  modelsEndpoint?: string;
+  supportsFunctions: boolean;
 }
 
 export interface ProviderSettings {
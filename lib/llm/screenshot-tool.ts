@@ -0,0 +1,21 @@
+import { ToolDefinition } from './types';
+
+export const SCREENSHOT_TOOL_DEF: ToolDefinition = {
+  name: 'screenshot',
+  description: 'Capture the live preview as an image to check layout, spacing, colors and anything else that is hard to judge from the code. The preview rebuilds after file changes, so call this after your edits.',
+  parameters: {
+    type: 'object',
+    properties: {
+      path: {
+        type: 'string',
+        description: 'Page to capture (e.g., "/about.html"). Defaults to the page currently shown in the preview.'
+      }
+    }
+  }
+};
+
+/**
+ * Takes a screenshot of the live preview, optionally after navigating to `path`.
+ * Resolves to a data URL, or null when the preview can't be captured.
+ */
+export type ScreenshotCapture = (path?: string) => Promise<string | null>;
@@ -10,11 +10,11 @@ export const SHELL_TOOL_DEF: ToolDefinition = {
         oneOf: [
           {
             type: 'string',
-            description: 'Natural command format, e.g., "cat /index.html" or "ls -la /"'
+            description: 'Natural command format with pipes, &&/||/; and redirection, e.g., "cat /index.html" or "rg -n TODO / | head -20"'
           },
           {
             type: 'array',
-            description: 'argv vector format, e.g., ["cat","/index.html"]',
+            description: 'argv vector format, e.g., ["cat","/index.html"]; operators like "|" or ">" may be separate elements',
             items: { type: 'string' }
           }
         ]
@@ -43,24 +43,32 @@ export const JSON_PATCH_TOOL_DEF: ToolDefinition = {
           properties: {
             type: {
               type: 'string',
-              enum: ['update', 'rewrite', 'replace_entity'],
-              description: 'Operation type: "update" for string replacement, "rewrite" for complete file replacement, "replace_entity" for semantic entity replacement'
+              enum: ['update', 'rewrite', 'replace_entity', 'insert_before', 'insert_after', 'delete_entity', 'apply_diff'],
+              description: 'Operation type: "update" for string replacement, "rewrite" for complete file replacement, "replace_entity" for semantic entity replacement, "insert_before"/"insert_after" to add content next to an entity, "delete_entity" to remove one, "apply_diff" for a unified diff'
             },
             oldStr: {
               type: 'string',
-              description: 'For "update": EXACT string to find and replace - copy directly from file content as seen with cat. MUST be unique in file. JSON escaping handled automatically.'
+              description: 'For "update": EXACT string to find and replace - copy directly from file content as seen with cat. MUST be unique in file unless occurrence or replace_all is set. JSON escaping handled automatically.'
             },
             newStr: {
               type: 'string', 
               description: 'For "update": Replacement string'
             },
+            occurrence: {
+              type: 'integer',
+              description: 'For "update": Optional 1-based index of the match to replace when oldStr appears more than once'
+            },
+            replace_all: {
+              type: 'boolean',
+              description: 'For "update": Optional, replace every match of oldStr'
+            },
             content: {
               type: 'string',
-              description: 'For "rewrite": Complete new file content'
+              description: 'For "rewrite": Complete new file content. For "insert_before"/"insert_after": Content to insert next to the entity'
             },
             selector: {
               type: 'string',
-              description: 'For "replace_entity": Opening pattern to identify the entity (e.g., "<div className=\\"contact\\">", "const ContactForm = () => {", "function calculateTotal("). Copy the snippet starting at the first non-space character—do NOT include leading indentation, trailing whitespace, or extra escape characters. Ensure the selector is specific enough to be unique (add distinguishing attributes if necessary).'
+              description: 'For "replace_entity", "insert_before", "insert_after" and "delete_entity": Opening pattern to identify the entity (e.g., "<section id=\\"pricing\\">", ".card:hover", "@media (max-width: 600px)", "const ContactForm = () => {", "function calculateTotal("). HTML, CSS and JavaScript files are parsed, so the exact element, rule or declaration is matched. Copy the snippet starting at the first non-space character—do NOT include leading indentation, trailing whitespace, or extra escape characters. Ensure the selector is specific enough to be unique (add distinguishing attributes if necessary).'
             },
             replacement: {
               type: 'string',
@@ -68,12 +76,16 @@ export const JSON_PATCH_TOOL_DEF: ToolDefinition = {
             },
             entity_type: {
               type: 'string',
-              description: 'For "replace_entity": Optional hint for boundary detection (html_element, react_component, function, css_rule, interface, type)'
+              description: 'For entity operations: Optional hint for boundary detection (html_element, react_component, function, class, css_rule, interface, type)'
+            },
+            diff: {
+              type: 'string',
+              description: 'For "apply_diff": Standard unified diff ("--- a/path", "+++ b/path", "@@ -l,s +l,s @@" hunks). Hunks are located by context lines. A single-file diff applies to file_path; multi-file diffs use their header paths. Use /dev/null as the old path to create a file or as the new path to delete one.'
             }
           },
           required: ['type']
         } as any,
-        description: 'Array of patch operations to apply sequentially. Each "update" operation requires oldStr and newStr. Each "rewrite" operation requires content. Each "replace_entity" operation requires selector and replacement.'
+        description: 'Array of patch operations to apply sequentially. Each "update" operation requires oldStr and newStr. Each "rewrite" operation requires content. Each "replace_entity" operation requires selector and replacement. "insert_before"/"insert_after" require selector and content; "delete_entity" requires selector. Each "apply_diff" operation requires diff.'
       }
     },
     required: ['file_path', 'operations']
@@ -0,0 +1,309 @@
+/**
+ * Tiered text matching for json_patch "update" operations.
+ * Each tier is only tried when the previous one finds nothing:
+ * exact → line endings/trailing whitespace → indentation → bounded fuzzy (line similarity).
+ */
+
+export type MatchTier = 'exact' | 'line_endings' | 'indentation' | 'fuzzy';
+
+export interface TextMatch {
+  start: number;
+  end: number;
+  tier: MatchTier;
+  similarity: number;
+}
+
+export interface MatchCandidate {
+  startLine: number;
+  endLine: number;
+  similarity: number;
+  snippet: string;
+}
+
+const FUZZY_THRESHOLD = 0.9;
+const CANDIDATE_THRESHOLD = 0.4;
+const FUZZY_TIE_MARGIN = 0.01;
+const FUZZY_MAX_SEARCH_LINES = 80;
+const FUZZY_MAX_LINE_COMPARISONS = 200_000;
+
+const TIER_LABELS: Record<MatchTier, string> = {
+  exact: 'exact',
+  line_endings: 'ignoring line endings and trailing whitespace',
+  indentation: 'ignoring indentation',
+  fuzzy: 'fuzzy'
+};
+
+export function describeMatchTier(tier: MatchTier): string {
+  return TIER_LABELS[tier];
+}
+
+/**
+ * Find every non-overlapping match of `search` in `content` using the first tier that succeeds.
+ * Fuzzy matching only returns the best window (or several if they tie).
+ */
+export function findTextMatches(content: string, search: string, options: { allowFuzzy?: boolean } = {}): TextMatch[] {
+  if (!search) return [];
+
+  const exact: TextMatch[] = [];
+  let index = content.indexOf(search);
+  while (index !== -1) {
+    exact.push({ start: index, end: index + search.length, tier: 'exact', similarity: 1 });
+    index = content.indexOf(search, index + search.length);
+  }
+  if (exact.length > 0) return exact;
+
+  const lineEndingMatches = findNormalizedMatches(content, search, 'line_endings');
+  if (lineEndingMatches.length > 0) return lineEndingMatches;
+
+  const indentationMatches = findNormalizedMatches(content, search, 'indentation');
+  if (indentationMatches.length > 0) return indentationMatches;
+
+  if (options.allowFuzzy === false) return [];
+
+  const windows = scanLineWindows(content, search, FUZZY_THRESHOLD);
+  if (windows.length === 0) return [];
+
+  const best = windows[0];
+  const tied = windows.filter(w =>
+    w === best || (best.similarity - w.similarity <= FUZZY_TIE_MARGIN && (w.startLine > best.endLine || w.endLine < best.startLine))
+  );
+  return tied
+    .map(w => ({ start: w.start, end: w.end, tier: 'fuzzy' as const, similarity: w.similarity }))
+    .sort((a, b) => a.start - b.start);
+}
+
+/**
+ * The window of lines most similar to `search`, for telling the model what the file actually contains
+ */
+export function findClosestCandidate(content: string, search: string): MatchCandidate | null {
+  const best = scanLineWindows(content, search, CANDIDATE_THRESHOLD)[0];
+  if (!best) return null;
+
+  const lines = content.split('\n');
+  const snippet = lines
+    .slice(best.startLine - 1, best.endLine)
+    .map((line, i) => `${String(best.startLine + i).padStart(6)}\t${line.replace(/\r$/, '')}`)
+    .join('\n');
+
+  return { startLine: best.startLine, endLine: best.endLine, similarity: best.similarity, snippet };
+}
+
+/**
+ * 1-based line number of a character offset
+ */
+export function lineNumberAt(content: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset && i < content.length; i++) {
+    if (content[i] === '\n') line++;
+  }
+  return line;
+}
+
+/**
+ * Adjust a replacement for a non-exact match: use the file's line endings and
+ * shift its indentation by the difference between the search text and the matched lines
+ */
+export function adaptReplacement(content: string, match: TextMatch, search: string, replacement: string): string {
+  if (match.tier === 'exact') return replacement;
+
+  let adapted = replacement.replace(/\r\n/g, '\n');
+
+  if (match.tier === 'indentation' || match.tier === 'fuzzy') {
+    const lineStart = content.lastIndexOf('\n', match.start - 1) + 1;
+    const startsAtIndent = /^[ \t]*$/.test(content.slice(lineStart, match.start));
+    const matchedLines = content.slice(lineStart, match.end).replace(/\r/g, '').split('\n');
+    const searchLines = trimBlankLines(search.replace(/\r/g, '').split('\n'));
+    const replacementLines = adapted.split('\n');
+
+    if (startsAtIndent) {
+      // The file's own indentation stays in front of the match
+      replacementLines[0] = replacementLines[0].replace(/^[ \t]+/, '');
+    }
+
+    const reference = searchLines.findIndex((line, i) => i > 0 && line.trim() !== '');
+    if (reference !== -1 && matchedLines[reference] !== undefined) {
+      const fileIndent = indentOf(matchedLines[reference]);
+      const searchIndent = indentOf(searchLines[reference]);
+      for (let i = 1; i < replacementLines.length; i++) {
+        replacementLines[i] = shiftIndent(replacementLines[i], searchIndent, fileIndent);
+      }
+    }
+    adapted = replacementLines.join('\n');
+  }
+
+  if (content.includes('\r\n')) {
+    adapted = adapted.replace(/\n/g, '\r\n');
+  }
+  return adapted;
+}
+
+function indentOf(line: string): string {
+  return line.match(/^[ \t]*/)?.[0] ?? '';
+}
+
+/**
+ * Move a line by the same amount that turns `from` indentation into `to`
+ */
+function shiftIndent(line: string, from: string, to: string): string {
+  if (from === to || line.trim() === '') return line;
+  if (to.endsWith(from)) {
+    return to.slice(0, to.length - from.length) + line;
+  }
+  if (from.endsWith(to)) {
+    const excess = from.slice(0, from.length - to.length);
+    return line.startsWith(excess) ? line.slice(excess.length) : line.replace(/^[ \t]+/, '');
+  }
+  // Tabs vs spaces: only lines at or below the reference level can be mapped
+  return line.startsWith(from) ? to + line.slice(from.length) : line;
+}
+
+function trimBlankLines(lines: string[]): string[] {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && lines[start].trim() === '') start++;
+  while (end > start && lines[end - 1].trim() === '') end--;
+  return lines.slice(start, end);
+}
+
+/**
+ * Normalise text while remembering where each kept character came from.
+ * Drops `\r` and trailing whitespace on every line; for `indentation` also leading whitespace.
+ */
+function normalizeWithMap(text: string, tier: 'line_endings' | 'indentation'): { text: string; map: number[] } {
+  const parts: string[] = [];
+  const map: number[] = [];
+  const lines = text.split('\n');
+  let lineStart = 0;
+
+  lines.forEach((line, lineIndex) => {
+    let end = line.length;
+    if (line.endsWith('\r')) end--;
+    while (end > 0 && (line[end - 1] === ' ' || line[end - 1] === '\t')) end--;
+
+    let begin = 0;
+    if (tier === 'indentation') {
+      while (begin < end && (line[begin] === ' ' || line[begin] === '\t')) begin++;
+    }
+
+    parts.push(line.slice(begin, end));
+    for (let i = begin; i < end; i++) map.push(lineStart + i);
+
+    if (lineIndex < lines.length - 1) {
+      parts.push('\n');
+      map.push(lineStart + line.length);
+    }
+    lineStart += line.length + 1;
+  });
+
+  return { text: parts.join(''), map };
+}
+
+function findNormalizedMatches(content: string, search: string, tier: 'line_endings' | 'indentation'): TextMatch[] {
+  const normalizedSearch = normalizeWithMap(search, tier).text;
+  if (!normalizedSearch.trim()) return [];
+
+  const normalizedContent = normalizeWithMap(content, tier);
+  // Without indentation the search could land mid-line; anchor multi-line or indented searches to line starts
+  const anchorToLineStart = tier === 'indentation' && (/^[ \t]/.test(search) || normalizedSearch.includes('\n'));
+
+  const matches: TextMatch[] = [];
+  let index = normalizedContent.text.indexOf(normalizedSearch);
+  while (index !== -1) {
+    if (!anchorToLineStart || index === 0 || normalizedContent.text[index - 1] === '\n') {
+      matches.push({
+        start: normalizedContent.map[index],
+        end: normalizedContent.map[index + normalizedSearch.length - 1] + 1,
+        tier,
+        similarity: 1
+      });
+      index = normalizedContent.text.indexOf(normalizedSearch, index + normalizedSearch.length);
+    } else {
+      index = normalizedContent.text.indexOf(normalizedSearch, index + 1);
+    }
+  }
+  return matches;
+}
+
+interface LineWindow {
+  startLine: number;
+  endLine: number;
+  start: number;
+  end: number;
+  similarity: number;
+}
+
+/**
+ * Compare `search` against every window of the same number of lines, best first.
+ * Bounded by search size and total line comparisons so large files stay cheap.
+ */
+function scanLineWindows(content: string, search: string, minSimilarity: number): LineWindow[] {
+  const searchLines = trimBlankLines(search.replace(/\r/g, '').split('\n')).map(line => line.trim());
+  const n = searchLines.length;
+  if (n === 0 || n > FUZZY_MAX_SEARCH_LINES) return [];
+
+  const rawLines = content.split('\n');
+  if (rawLines.length < n || rawLines.length * n > FUZZY_MAX_LINE_COMPARISONS) return [];
+
+  const contentLines = rawLines.map(line => line.trim());
+  const contentBigrams = contentLines.map(bigrams);
+  const searchBigrams = searchLines.map(bigrams);
+
+  const lineStarts: number[] = [];
+  let offset = 0;
+  for (const line of rawLines) {
+    lineStarts.push(offset);
+    offset += line.length + 1;
+  }
+
+  const windows: LineWindow[] = [];
+  for (let w = 0; w + n <= contentLines.length; w++) {
+    let weighted = 0;
+    let totalWeight = 0;
+    for (let i = 0; i < n; i++) {
+      const a = searchLines[i];
+      const b = contentLines[w + i];
+      const weight = Math.max(a.length, b.length);
+      if (weight === 0) continue;
+      totalWeight += weight;
+      weighted += weight * (a === b ? 1 : diceSimilarity(searchBigrams[i], contentBigrams[w + i], a, b));
+    }
+    if (totalWeight === 0) continue;
+
+    const similarity = weighted / totalWeight;
+    if (similarity < minSimilarity) continue;
+
+    const firstLine = rawLines[w];
+    const lastLine = rawLines[w + n - 1];
+    windows.push({
+      startLine: w + 1,
+      endLine: w + n,
+      start: lineStarts[w] + indentOf(firstLine).length,
+      end: lineStarts[w + n - 1] + lastLine.replace(/\r$/, '').length,
+      similarity
+    });
+  }
+
+  return windows.sort((a, b) => b.similarity - a.similarity || a.start - b.start);
+}
+
+function bigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const pair = text.slice(i, i + 2);
+    counts.set(pair, (counts.get(pair) || 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Sørensen–Dice coefficient over character bigrams
+ */
+function diceSimilarity(a: Map<string, number>, b: Map<string, number>, textA: string, textB: string): number {
+  if (textA.length < 2 || textB.length < 2) return 0;
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+  let common = 0;
+  for (const [pair, count] of smaller) {
+    common += Math.min(count, larger.get(pair) || 0);
+  }
+  return (2 * common) / (textA.length - 1 + textB.length - 1);
+}
@@ -1,15 +1,25 @@
 import { VirtualFileSystem } from '@/lib/vfs';
 import { logger } from '@/lib/utils';
+import { adaptReplacement, describeMatchTier, findClosestCandidate, findTextMatches, lineNumberAt } from './string-match';
+import { applyHunks, HunkResult, parseUnifiedDiff } from './unified-diff';
+import { resolveEntity } from './entities';
 
 export type StringPatchOperation = 
-  | { type: 'update'; oldStr: string; newStr: string }
+  | { type: 'update'; oldStr: string; newStr: string; occurrence?: number; replace_all?: boolean }
   | { type: 'rewrite'; content: string }
-  | { type: 'replace_entity'; selector: string; replacement: string; entity_type?: string };
+  | { type: 'replace_entity'; selector: string; replacement: string; entity_type?: string }
+  | { type: 'insert_before' | 'insert_after'; selector: string; content: string; entity_type?: string }
+  | { type: 'delete_entity'; selector: string; entity_type?: string }
+  | { type: 'apply_diff'; diff: string };
+
+export type StringPatchHunkResult = HunkResult & { file: string };
 
 export type StringPatchResult = {
   applied: boolean;
   summary: string;
   warnings?: string[];
+  /** Per-hunk outcome of apply_diff operations */
+  hunks?: StringPatchHunkResult[];
 };
 
 /**
@@ -79,9 +89,12 @@ Required format:
 }
 
 Operation types:
-• update: Replace exact string (oldStr must be unique in file)
+• update: Replace a string (oldStr must be unique in file, or set occurrence / replace_all)
 • rewrite: Replace entire file content
 • replace_entity: Replace entire code entity (function, class, etc.) by its opening pattern
+• insert_before / insert_after: Insert content next to an entity found the same way
+• delete_entity: Remove an entity found the same way
+• apply_diff: Apply a unified diff (may touch several files, /dev/null creates or deletes)
 
 Examples:
 ✅ Update text: {"file_path": "/index.html", "operations": [{"type": "update", "oldStr": "<title>Old</title>", "newStr": "<title>New</title>"}]}
@@ -100,11 +113,16 @@ Examples:
     // Read current file content (if it exists)
     let currentContent = '';
     let fileExists = true;
+    // A multi-file diff need not touch file_path, which may then be any file (or none)
+    let targetBinary = false;
+    const onlyDiffs = operations.every(op => op?.type === 'apply_diff');
     
     try {
       const file = await vfs.readFile(projectId, normalizedPath);
       if (typeof file.content === 'string') {
         currentContent = file.content;
+      } else if (onlyDiffs) {
+        targetBinary = true;
       } else {
         return {
           applied: false,
@@ -125,67 +143,188 @@ Examples:
     // Apply operations sequentially
     let workingContent = currentContent;
     let operationsApplied = 0;
+    // Whether any operation changed file_path itself, so it has to be written back
+    let targetTouched = false;
+    let targetDeleted = false;
+    const hunks: StringPatchHunkResult[] = [];
+    const otherFilesChanged = new Set<string>();
 
     for (let i = 0; i < operations.length; i++) {
       const op = operations[i];
       
       try {
         if (op.type === 'update') {
-          const { oldStr, newStr } = op;
+          const { oldStr, newStr, occurrence, replace_all } = op;
           
           // Validate required fields
           if (!oldStr) {
             warnings.push(`Operation ${i + 1}: oldStr is required for update operations`);
             continue;
           }
-          
-          // Check if oldStr exists in current content
-          const occurrences = (workingContent.match(new RegExp(escapeRegExp(oldStr), 'g')) || []).length;
-          
-          if (occurrences === 0) {
-            warnings.push(`Operation ${i + 1}: oldStr not found in file. Expected: "${truncateString(oldStr, 100)}"`);
-            continue;
+
+          const updateResult = applyUpdate(workingContent, oldStr, newStr ?? '', { occurrence, replaceAll: replace_all });
+          if (updateResult.note) {
+            warnings.push(`Operation ${i + 1}: ${updateResult.note}`);
           }
-          
-          if (occurrences > 1) {
-            warnings.push(`Operation ${i + 1}: oldStr appears ${occurrences} times in file, must be unique. String: "${truncateString(oldStr, 100)}"`);
+          if (updateResult.content === undefined) {
             continue;
           }
-          
-          // Perform the replacement
-          workingContent = workingContent.replace(oldStr, newStr ?? '');
+
+          workingContent = updateResult.content;
           operationsApplied++;
+          targetTouched = true;
           
         } else if (op.type === 'rewrite') {
           // Complete file rewrite
           workingContent = op.content ?? '';
           operationsApplied++;
+          targetTouched = true;
           
-        } else if (op.type === 'replace_entity') {
-          // Replace entity using semantic boundary detection
-          const { selector, replacement, entity_type } = op;
+        } else if (
+          op.type === 'replace_entity' || op.type === 'insert_before' ||
+          op.type === 'insert_after' || op.type === 'delete_entity'
+        ) {
+          // Entity operations share parser-backed boundary detection
+          const { selector, entity_type } = op;
+          const text = op.type === 'replace_entity' ? op.replacement
+            : op.type === 'delete_entity' ? ''
+            : op.content;
           
           // Validate required fields
           if (!selector) {
-            warnings.push(`Operation ${i + 1}: selector is required for replace_entity operations`);
+            warnings.push(`Operation ${i + 1}: selector is required for ${op.type} operations`);
             continue;
           }
           
-          if (replacement === undefined) {
-            warnings.push(`Operation ${i + 1}: replacement is required for replace_entity operations`);
+          if (text === undefined) {
+            const field = op.type === 'replace_entity' ? 'replacement' : 'content';
+            warnings.push(`Operation ${i + 1}: ${field} is required for ${op.type} operations`);
             continue;
           }
           
-          // Perform entity replacement
-          const entityResult = replaceEntity(workingContent, selector, replacement, entity_type);
-          
-          if (entityResult.success) {
-            workingContent = entityResult.result!;
-            operationsApplied++;
+          const entity = locateEntity(workingContent, normalizedPath, selector, entity_type);
+          if (!entity.success) {
+            warnings.push(`Operation ${i + 1}: ${entity.error}`);
+            continue;
+          }
+
+          const range = { start: entity.start!, end: entity.end! };
+          if (op.type === 'replace_entity') {
+            workingContent = workingContent.substring(0, range.start) + text + workingContent.substring(range.end);
+          } else if (op.type === 'delete_entity') {
+            workingContent = deleteEntityRange(workingContent, range);
           } else {
-            warnings.push(`Operation ${i + 1}: ${entityResult.error}`);
+            workingContent = insertNextToEntity(workingContent, range, text, op.type === 'insert_before' ? 'before' : 'after');
           }
+          operationsApplied++;
+          targetTouched = true;
           
+        } else if (op.type === 'apply_diff') {
+          if (!op.diff) {
+            warnings.push(`Operation ${i + 1}: diff is required for apply_diff operations`);
+            continue;
+          }
+
+          const fileDiffs = parseUnifiedDiff(op.diff);
+          if (fileDiffs.length === 0) {
+            warnings.push(`Operation ${i + 1}: no hunks found. Expected a unified diff with "@@ -a,b +c,d @@" hunk headers`);
+            continue;
+          }
+
+          let diffApplied = false;
+          const firstHunk = hunks.length;
+          for (const fileDiff of fileDiffs) {
+            // A single-file diff always targets file_path, whatever its headers say
+            const { source, destination } = fileDiffs.length === 1
+              ? {
+                  source: fileDiff.oldPath === null ? null : normalizedPath,
+                  destination: fileDiff.newPath === null ? null : normalizedPath
+                }
+              : { source: resolveDiffPath(fileDiff.oldPath), destination: resolveDiffPath(fileDiff.newPath) };
+            const label = destination ?? source ?? normalizedPath;
+            if (targetBinary && (source === normalizedPath || destination === normalizedPath)) {
+              warnings.push(`Operation ${i + 1}: ${normalizedPath} is binary and cannot be patched`);
+              continue;
+            }
+
+            let baseContent = '';
+            if (source === normalizedPath) {
+              if (!fileExists && !targetTouched) {
+                warnings.push(`Operation ${i + 1}: ${source} does not exist; use /dev/null as the old file to create it`);
+                continue;
+              }
+              baseContent = workingContent;
+            } else if (source) {
+              try {
+                const file = await vfs.readFile(projectId, source);
+                if (typeof file.content !== 'string') {
+                  warnings.push(`Operation ${i + 1}: ${source} is binary and cannot be patched`);
+                  continue;
+                }
+                baseContent = file.content;
+              } catch {
+                warnings.push(`Operation ${i + 1}: ${source} not found`);
+                continue;
+              }
+            } else if (destination === normalizedPath ? fileExists && workingContent !== '' : destination && await vfs.fileExists(projectId, destination)) {
+              warnings.push(`Operation ${i + 1}: cannot create ${destination}, it already exists`);
+              continue;
+            }
+
+            if (!destination) {
+              // Deletion: the hunks only restate the old content
+              if (source === normalizedPath) {
+                targetDeleted = true;
+                targetTouched = true;
+              } else if (source) {
+                await vfs.deleteFile(projectId, source);
+                otherFilesChanged.add(source);
+              }
+              hunks.push({ file: label, header: 'delete file', applied: true });
+              diffApplied = true;
+              continue;
+            }
+
+            const applied = applyHunks(baseContent, fileDiff.hunks);
+            hunks.push(...applied.results.map(result => ({ ...result, file: label })));
+            if (fileDiff.hunks.length > 0 && !applied.results.some(result => result.applied)) {
+              continue;
+            }
+
+            if (destination === normalizedPath) {
+              workingContent = applied.content;
+              targetDeleted = false;
+              targetTouched = true;
+            } else {
+              if (await vfs.fileExists(projectId, destination)) {
+                await vfs.updateFile(projectId, destination, applied.content);
+              } else {
+                await vfs.createFile(projectId, destination, applied.content);
+              }
+              otherFilesChanged.add(destination);
+            }
+
+            // Rename: remove the old path once the new one is written
+            if (source && source !== destination) {
+              if (source === normalizedPath) {
+                targetDeleted = true;
+                targetTouched = true;
+              } else {
+                await vfs.deleteFile(projectId, source);
+                otherFilesChanged.add(source);
+              }
+            }
+            diffApplied = true;
+          }
+
+          const failed = hunks.slice(firstHunk).filter(hunk => !hunk.applied).length;
+          if (failed > 0) {
+            warnings.push(`Operation ${i + 1}: ${failed} hunk(s) could not be applied - re-read the file and resend those hunks with exact context`);
+          }
+          if (diffApplied) {
+            operationsApplied++;
+          }
+
         } else {
           const receivedType = (op as any).type;
           const receivedKeys = Object.keys(op || {});
@@ -194,7 +333,7 @@ Examples:
 Received type: ${receivedType === undefined ? 'undefined (missing or malformed "type" key)' : `"${receivedType}"`}
 Received keys in operation: ${receivedKeys.length > 0 ? receivedKeys.join(', ') : 'none'}
 
-Valid operation types: "update", "rewrite", "replace_entity"
+Valid operation types: "update", "rewrite", "replace_entity", "insert_before", "insert_after", "delete_entity", "apply_diff"
 
 Common mistakes:
 • Malformed key name like "\\"type\\"" instead of "type" (check JSON escaping)
@@ -204,7 +343,10 @@ Common mistakes:
 Correct formats:
 {"type": "update", "oldStr": "exact text to find", "newStr": "replacement"}
 {"type": "rewrite", "content": "complete new file content"}
-{"type": "replace_entity", "selector": "opening pattern", "replacement": "new entity content"}`);
+{"type": "replace_entity", "selector": "opening pattern", "replacement": "new entity content"}
+{"type": "insert_after", "selector": "opening pattern", "content": "text to insert"}
+{"type": "delete_entity", "selector": "opening pattern"}
+{"type": "apply_diff", "diff": "--- a/file\\n+++ b/file\\n@@ -1,3 +1,3 @@\\n ..."}`);
         }
         
       } catch (error: any) {
@@ -212,23 +354,40 @@ Correct formats:
       }
     }
 
-    // Write the result back to the file
-    if (operationsApplied > 0) {
-      if (fileExists) {
+    // Write the result back to the file, if any operation changed it
+    if (targetTouched) {
+      if (targetDeleted) {
+        if (fileExists) {
+          await vfs.deleteFile(projectId, normalizedPath);
+        }
+      } else if (fileExists) {
         await vfs.updateFile(projectId, normalizedPath, workingContent);
       } else {
         await vfs.createFile(projectId, normalizedPath, workingContent);
       }
     }
 
-    const summary = operationsApplied > 0 
-      ? `Applied ${operationsApplied}/${operations.length} operations to ${normalizedPath}`
-      : `No operations applied to ${normalizedPath}`;
+    const otherFiles = [...otherFilesChanged].join(', ');
+    let summary: string;
+    if (operationsApplied === 0) {
+      summary = `No operations applied to ${normalizedPath}`;
+    } else if (targetTouched) {
+      summary = `Applied ${operationsApplied}/${operations.length} operations to ${normalizedPath}`;
+      if (targetDeleted) {
+        summary += ` (file deleted)`;
+      }
+      if (otherFiles) {
+        summary += ` (also changed ${otherFiles})`;
+      }
+    } else {
+      summary = `Applied ${operationsApplied}/${operations.length} operations to ${otherFiles}`;
+    }
 
     return {
       applied: operationsApplied > 0,
       summary,
-      warnings: warnings.length > 0 ? warnings : undefined
+      warnings: warnings.length > 0 ? warnings : undefined,
+      hunks: hunks.length > 0 ? hunks : undefined
     };
 
   } catch (error: any) {
@@ -244,10 +403,71 @@ Correct formats:
 }
 
 /**
- * Escape special regex characters in a string
+ * Map a diff header path onto the VFS: drop git's a/ b/ prefixes and the /workspace root
+ */
+export function resolveDiffPath(path: string | null | undefined): string | null {
+  if (!path) return null;
+  const stripped = path.replace(/^[ab]\//, '').replace(/^\/?workspace(?=\/)/, '');
+  return ('/' + stripped).replace(/\/+/g, '/');
+}
+
+/**
+ * Apply one "update" operation. Returns the new content, or undefined with a note explaining why not.
+ * A note is also returned when the match needed whitespace normalisation or fuzzy matching.
  */
-function escapeRegExp(string: string): string {
-  return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+function applyUpdate(
+  content: string,
+  oldStr: string,
+  newStr: string,
+  options: { occurrence?: number; replaceAll?: boolean }
+): { content?: string; note?: string } {
+  // Fuzzy matches are too loose to apply everywhere at once
+  const matches = findTextMatches(content, oldStr, { allowFuzzy: !options.replaceAll });
+
+  if (matches.length === 0) {
+    let note = `oldStr not found in file. Expected: "${truncateString(oldStr, 100)}"`;
+    const candidate = findClosestCandidate(content, oldStr);
+    if (candidate) {
+      const range = candidate.startLine === candidate.endLine
+        ? `line ${candidate.startLine}`
+        : `lines ${candidate.startLine}-${candidate.endLine}`;
+      note += `\n\nClosest match (${range}, ${Math.round(candidate.similarity * 100)}% similar):\n${candidate.snippet}\n\nCopy the text above exactly (without the line numbers) into oldStr and retry.`;
+    }
+    return { note };
+  }
+
+  const lines = matches.map(match => lineNumberAt(content, match.start));
+  let selected = matches;
+
+  if (options.occurrence !== undefined) {
+    if (!Number.isInteger(options.occurrence) || options.occurrence < 1 || options.occurrence > matches.length) {
+      return { note: `occurrence ${options.occurrence} is out of range; oldStr matches ${matches.length} time(s) (lines ${lines.join(', ')})` };
+    }
+    selected = [matches[options.occurrence - 1]];
+  } else if (matches.length > 1 && !options.replaceAll) {
+    return {
+      note: `oldStr appears ${matches.length} times in file (lines ${lines.join(', ')}), must be unique. String: "${truncateString(oldStr, 100)}"\n` +
+        'Add surrounding context, or set "occurrence" (1-based) to pick one, or "replace_all": true to replace every match.'
+    };
+  }
+
+  // Replace from the end so earlier offsets stay valid
+  let result = content;
+  for (const match of [...selected].reverse()) {
+    result = result.slice(0, match.start) + adaptReplacement(content, match, oldStr, newStr) + result.slice(match.end);
+  }
+
+  const tier = selected[0].tier;
+  if (tier === 'exact') {
+    return { content: result };
+  }
+
+  const where = selected.map(match => lineNumberAt(content, match.start)).join(', ');
+  const similarity = tier === 'fuzzy' ? `, ${Math.round(selected[0].similarity * 100)}% similar` : '';
+  return {
+    content: result,
+    note: `applied using ${describeMatchTier(tier)} match at line ${where}${similarity}. Check the result and copy text exactly next time.`
+  };
 }
 
 /**
@@ -260,14 +480,26 @@ function truncateString(str: string, maxLength: number): string {
 }
 
 /**
- * Find and replace a semantic entity in content
+ * Find the range of a semantic entity. Parsers (HTML tokenizer, postcss, acorn) are tried first;
+ * the text heuristics below remain the fallback for selectors they cannot interpret and for
+ * files that do not parse, such as TypeScript.
  */
-function replaceEntity(content: string, selector: string, replacement: string, entityType?: string): { 
-  success: boolean; 
-  result?: string; 
-  error?: string 
+function locateEntity(content: string, filePath: string, selector: string, entityType?: string): {
+  success: boolean;
+  start?: number;
+  end?: number;
+  error?: string;
 } {
   try {
+    const resolution = resolveEntity(content, filePath, selector, entityType);
+    if (resolution.status === 'found') {
+      return { success: true, start: resolution.range.start, end: resolution.range.end };
+    }
+    if (resolution.status !== 'unsupported') {
+      return { success: false, error: resolution.error };
+    }
+    logger.debug(`[StringPatch] Parser lookup skipped for ${filePath}: ${resolution.reason}`);
+
     // Find the selector in the content, tolerating indentation/trailing newlines
     const selectorMatch = findSelectorMatch(content, selector);
     if (!selectorMatch) {
@@ -282,17 +514,56 @@ function replaceEntity(content: string, selector: string, replacement: string, e
       return { success: false, error: `Could not detect entity boundary for selector: "${truncateString(selector, 100)}"` };
     }
 
-    // Replace the entity
-    const beforeEntity = content.substring(0, entityBoundary.start);
-    const afterEntity = content.substring(entityBoundary.end);
-    const result = beforeEntity + replacement + afterEntity;
-
-    return { success: true, result };
+    return { success: true, ...entityBoundary };
   } catch (error: any) {
     return { success: false, error: error.message || String(error) };
   }
 }
 
+/**
+ * Insert text on its own line(s) before or after an entity, matching the entity's indentation.
+ * Entities that share a line with other code get the text inline.
+ */
+function insertNextToEntity(content: string, range: { start: number; end: number }, text: string, position: 'before' | 'after'): string {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const lineStart = content.lastIndexOf('\n', range.start - 1) + 1;
+  const indent = content.slice(lineStart, range.start);
+  const ownsLineStart = /^[ \t]*$/.test(indent);
+
+  const lineEndIndex = content.indexOf('\n', range.end);
+  const lineEnd = lineEndIndex === -1 ? content.length : lineEndIndex;
+  const ownsLineEnd = /^[ \t\r]*$/.test(content.slice(range.end, lineEnd));
+
+  // Indent inserted lines like the entity unless the text already carries indentation
+  const lines = text.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+  const indented = lines
+    .map(line => (ownsLineStart && line.trim() && !/^[ \t]/.test(lines[0]) ? indent + line : line))
+    .join(eol);
+
+  if (position === 'before') {
+    return ownsLineStart
+      ? content.slice(0, lineStart) + indented + eol + content.slice(lineStart)
+      : content.slice(0, range.start) + text + content.slice(range.start);
+  }
+  return ownsLineEnd
+    ? content.slice(0, range.end) + eol + indented + content.slice(range.end)
+    : content.slice(0, range.end) + text + content.slice(range.end);
+}
+
+/**
+ * Remove an entity, taking its whole line(s) with it when nothing else shares them
+ */
+function deleteEntityRange(content: string, range: { start: number; end: number }): string {
+  const lineStart = content.lastIndexOf('\n', range.start - 1) + 1;
+  const lineEndIndex = content.indexOf('\n', range.end);
+  const lineEnd = lineEndIndex === -1 ? content.length : lineEndIndex + 1;
+
+  if (/^[ \t]*$/.test(content.slice(lineStart, range.start)) && /^[ \t\r]*\n?$/.test(content.slice(range.end, lineEnd))) {
+    return content.slice(0, lineStart) + content.slice(lineEnd);
+  }
+  return content.slice(0, range.start) + content.slice(range.end);
+}
+
 /**
  * Locate selector within content while relaxing leading indentation and trailing whitespace
  */
@@ -5,6 +5,38 @@ export function buildShellSystemPrompt(fileTree?: string, chatMode?: boolean): s
   return buildCodeModePrompt(fileTree);
 }
 
+/**
+ * Prompt for the planning phase of a planned build: explore read-only, then submit a task list
+ */
+export function buildPlanningPrompt(fileTree?: string): string {
+  let prompt = `You are the planner for a multi-step website build in a sandboxed virtual file system.
+
+📋 PLANNING PHASE - READ-ONLY
+
+Your job is to break the user's request into an ordered list of tasks. You do NOT write code.
+Each task is carried out afterwards by a separate executor agent that starts with a fresh context:
+it sees only the overall goal, this plan and its own task description.
+
+1. If the project already has files, explore them first with the 'shell' tool (read-only):
+   tree -L 2 /, rg -C 3 'pattern' /, head -n 50 /file. Avoid cat on large files.
+2. Call the 'submit_plan' tool exactly once with the task list.
+
+Good tasks:
+- Are ordered so later tasks build on earlier ones (shared layout, styles and scripts first)
+- Cover one page, section or feature each - typically 2-8 tasks in total
+- Have self-contained descriptions: name the sections, content, class names and shared files to reuse
+- List the files they create or edit
+
+Do not add tasks for testing, previewing or reviewing; each executor checks its own work.
+Write operations (json_patch, sed -i, redirection, mkdir, rm, ...) are disabled while planning.
+`;
+
+  if (fileTree) {
+    prompt += `\n\n${fileTree}`;
+  }
+  return prompt;
+}
+
 function buildChatModePrompt(fileTree?: string): string {
   let prompt = `You are an AI assistant that helps users with their coding projects. You work in a sandboxed virtual file system.
 
@@ -76,9 +108,12 @@ Available Commands (READ-ONLY):
 - Read entire files: cat [filepath] ← AVOID (use only for small files)
 - Search (basic): grep [-n] [-i] [-F] [pattern] [path]
 - Find files: find [path] -name [pattern]
+- Count/sort/filter output: wc [-l] [-w] [-c], sort [-r] [-n] [-u], uniq [-c], cut -d [delim] -f [fields]
+- Pipes and command lists: rg -n 'TODO' / | head -20, cat /a.css && cat /b.css
+- Line ranges and columns: sed -n '30,60p' [filepath] | nl -ba, awk -F, '{ print $1, $3 }' [filepath]
 
 ❌ DISABLED IN CHAT MODE:
-- mkdir, touch, mv, rm, cp, echo > (all write operations)
+- mkdir, touch, mv, rm, cp, sed -i, > and >> redirection (all write operations)
 - json_patch tool (not available)
 - evaluation tool (not available)
 
@@ -166,8 +201,12 @@ Available Commands for the shell tool:
 - Move/rename: mv [source] [dest]
 - Remove files/directories: rm [-rf] [path]
 - Copy: cp [-r] [source] [dest]
-- Output text: echo [text]
-- Write to file: echo [text] > [filepath]
+- Output text: echo [-n] [text]
+- Write/append to file: echo [text] > [filepath], echo [text] >> [filepath]
+- Count/sort/filter output: wc [-l] [-w] [-c], sort [-r] [-n] [-u], uniq [-c], cut -d [delim] -f [fields]
+- Pipes and command lists: rg -n 'TODO' / | head -20, mkdir -p /css && touch /css/site.css
+- Line ranges and columns: sed -n '30,60p' [filepath] | nl -ba, awk -F, '{ print $1, $3 }' [filepath]
+- Quick in-place substitution: sed -i 's/old/new/g' [filepath] (use json_patch for multi-line edits)
 - Edit files: Use json_patch tool for reliable file editing
 
 File Editing with json_patch:
@@ -180,9 +219,10 @@ File Editing with json_patch:
 The json_patch tool uses simple JSON operations for reliable file editing:
 
 Operation Types:
-1. UPDATE: Replace exact strings (oldStr must be unique in file)
+1. UPDATE: Replace exact strings (oldStr must be unique in file, or set "occurrence" (1-based) / "replace_all": true)
 2. REWRITE: Replace entire file content
-3. REPLACE_ENTITY: Replace semantic code entities by opening pattern
+3. REPLACE_ENTITY: Replace semantic code entities by opening pattern (INSERT_BEFORE / INSERT_AFTER / DELETE_ENTITY use the same selectors)
+4. APPLY_DIFF: Apply a standard unified diff, e.g. {"type": "apply_diff", "diff": "--- a/index.html\\n+++ b/index.html\\n@@ -3,3 +3,3 @@\\n <head>\\n-  <title>Old</title>\\n+  <title>New</title>\\n </head>"}
 
 Examples:
 
@@ -336,7 +376,7 @@ But the tool searches for: <div class="example"> (the actual text)
 The JSON parser handles this automatically - just copy what you see!
 
 DEBUGGING FAILED PATCHES:
-• If "oldStr not found", the text doesn't match exactly
+• If "oldStr not found", the text doesn't match exactly - the warning shows the closest lines in the file, copy from there
 • Use smaller, more specific oldStr targets
 • Or switch to 'rewrite' for the entire file
 
@@ -0,0 +1,59 @@
+import { ToolCall } from './types';
+
+/**
+ * How a tool call touches the project, used to decide which calls of one turn may run concurrently.
+ * - read: no side effects (read-only shell commands, malformed calls that only return an error)
+ * - write: modifies the listed files and nothing else
+ * - exclusive: may touch anything or changes orchestration state (shell writes, multi-file diffs, evaluation, plans,
+ *   screenshots, which navigate the shared preview)
+ */
+export type ToolCallAccess =
+  | { mode: 'read' }
+  | { mode: 'write'; paths: string[] }
+  | { mode: 'exclusive' };
+
+export function classifyToolCall(
+  toolCall: ToolCall,
+  isShellWrite: (cmd: string | string[]) => boolean
+): ToolCallAccess {
+  const toolName = toolCall.function?.name;
+
+  let args: any;
+  try {
+    args = JSON.parse(toolCall.function?.arguments || '{}');
+  } catch {
+    return { mode: 'read' };
+  }
+
+  if (toolName === 'shell') {
+    if (typeof args?.cmd !== 'string' && !Array.isArray(args?.cmd)) return { mode: 'read' };
+    return isShellWrite(args.cmd) ? { mode: 'exclusive' } : { mode: 'read' };
+  }
+
+  if (toolName === 'json_patch') {
+    if (typeof args?.file_path !== 'string' || !Array.isArray(args.operations)) return { mode: 'read' };
+    // Diffs can create, delete or rename other files
+    if (args.operations.some((op: any) => op?.type === 'apply_diff')) return { mode: 'exclusive' };
+    return { mode: 'write', paths: [args.file_path.replace(/\/+/g, '/')] };
+  }
+
+  if (toolName === 'evaluation' || toolName === 'submit_plan' || toolName === 'screenshot') {
+    return { mode: 'exclusive' };
+  }
+
+  return { mode: 'read' };
+}
+
+/**
+ * Whether `later` has to wait for `earlier`. Reads run alongside reads; a read can't tell which
+ * files it looks at, so it waits for every earlier write and every later write waits for it.
+ * Writes to different files are independent.
+ */
+export function toolCallsConflict(earlier: ToolCallAccess, later: ToolCallAccess): boolean {
+  if (earlier.mode === 'exclusive' || later.mode === 'exclusive') return true;
+  if (earlier.mode === 'read' && later.mode === 'read') return false;
+  if (earlier.mode === 'write' && later.mode === 'write') {
+    return earlier.paths.some(path => later.paths.includes(path));
+  }
+  return true;
+}
@@ -5,6 +5,7 @@ export interface ToolParameter {
   items?: {
     type: string;
     properties?: Record<string, ToolParameter>;
+    required?: string[];
   };
   oneOf?: ToolParameter[];
 }
@@ -43,9 +44,27 @@ export interface FileContext {
   openFile?: string;
 }
 
+export interface TextContentPart {
+  type: 'text';
+  text: string;
+}
+
+export interface ImageContentPart {
+  type: 'image_url';
+  /** `url` is a base64 data URL */
+  image_url: { url: string; detail?: 'auto' | 'low' | 'high' };
+}
+
+export type MessageContentPart = TextContentPart | ImageContentPart;
+
+/**
+ * Plain text, or text and image parts in the OpenAI chat format
+ */
+export type MessageContent = string | MessageContentPart[];
+
 export interface LLMMessage {
   role: 'system' | 'user' | 'assistant' | 'tool';
-  content: string;
+  content: MessageContent;
   tool_calls?: ToolCall[];
   tool_call_id?: string;
 }
@@ -88,7 +107,9 @@ export interface UsageInfo {
 }
 
 export interface StreamChunk {
-  type: 'content' | 'tool_call' | 'done' | 'usage';
+  // 'reasoning' is thinking text some models stream separately; 'tool_call_delta' carries
+  // the partially streamed call so far, 'tool_call' the completed one
+  type: 'content' | 'reasoning' | 'tool_call_delta' | 'tool_call' | 'done' | 'usage';
   content?: string;
   toolCall?: ToolCall;
   usage?: UsageInfo;
@@ -0,0 +1,258 @@
+/**
+ * Unified diff parsing and hunk application for the json_patch "apply_diff" operation.
+ * Hunks are located by their context lines, so line numbers in `@@` headers are only a hint.
+ */
+
+export interface DiffHunk {
+  header: string;
+  oldStart?: number;
+  oldLines: string[];
+  newLines: string[];
+  /** The new side ends without a trailing newline (`\ No newline at end of file`) */
+  noNewlineAtEnd: boolean;
+}
+
+export interface FileDiff {
+  /** undefined when the diff has no file headers; null for /dev/null */
+  oldPath?: string | null;
+  newPath?: string | null;
+  hunks: DiffHunk[];
+}
+
+export interface HunkResult {
+  header: string;
+  applied: boolean;
+  detail?: string;
+}
+
+const MAX_FUZZ = 2;
+
+/**
+ * Split a (possibly multi-file) unified diff into per-file hunks
+ */
+export function parseUnifiedDiff(diff: string): FileDiff[] {
+  const lines = diff.replace(/\r\n/g, '\n').split('\n');
+  const files: FileDiff[] = [];
+  let current: FileDiff | null = null;
+  let i = 0;
+
+  const startFile = (): FileDiff => {
+    const file: FileDiff = { hunks: [] };
+    files.push(file);
+    return file;
+  };
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.startsWith('diff --git ')) {
+      current = startFile();
+      i++;
+    } else if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      // `diff --git` already opened this file's section
+      const file: FileDiff = current && current.hunks.length === 0 && current.oldPath === undefined ? current : startFile();
+      current = file;
+      file.oldPath = parseHeaderPath(line.slice(4));
+      file.newPath = parseHeaderPath(lines[i + 1].slice(4));
+      i += 2;
+    } else if (line.startsWith('@@')) {
+      const file: FileDiff = current ?? startFile();
+      current = file;
+      const { hunk, next } = parseHunk(lines, i);
+      file.hunks.push(hunk);
+      i = next;
+    } else {
+      // index lines, file modes, commit messages and other noise
+      i++;
+    }
+  }
+
+  return files.filter(file => file.hunks.length > 0 || file.oldPath === null || file.newPath === null);
+}
+
+function parseHeaderPath(value: string): string | null {
+  // Drop timestamps (`--- a/file\t2024-01-01 ...`)
+  const path = value.split('\t')[0].trim();
+  if (path === '/dev/null') return null;
+  return path.replace(/^"(.*)"$/, '$1');
+}
+
+function parseHunk(lines: string[], start: number): { hunk: DiffHunk; next: number } {
+  const header = lines[start];
+  const match = header.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+  const hunk: DiffHunk = {
+    header: header.trim(),
+    oldStart: match ? parseInt(match[1], 10) : undefined,
+    oldLines: [],
+    newLines: [],
+    noNewlineAtEnd: false
+  };
+
+  // With counts we know exactly where the hunk ends; without them stop at the next header
+  let oldRemaining = match ? (match[2] !== undefined ? parseInt(match[2], 10) : 1) : Infinity;
+  let newRemaining = match ? (match[4] !== undefined ? parseInt(match[4], 10) : 1) : Infinity;
+  let i = start + 1;
+  let lastSide: ' ' | '-' | '+' | null = null;
+
+  while (i < lines.length && (oldRemaining > 0 || newRemaining > 0 || lines[i].startsWith('\\'))) {
+    const line = lines[i];
+
+    if (line.startsWith('\\')) {
+      if (lastSide === '+' || lastSide === ' ') hunk.noNewlineAtEnd = true;
+      i++;
+      continue;
+    }
+    if (!match && (line.startsWith('@@') || line.startsWith('diff --git ') ||
+        (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')))) {
+      break;
+    }
+
+    const marker = line[0];
+    if (marker === ' ' || line === '') {
+      // Editors often strip the single space from blank context lines
+      const text = line.slice(1);
+      if (!match && line === '' && i === lines.length - 1) break;
+      hunk.oldLines.push(text);
+      hunk.newLines.push(text);
+      oldRemaining--;
+      newRemaining--;
+      lastSide = ' ';
+    } else if (marker === '-') {
+      hunk.oldLines.push(line.slice(1));
+      oldRemaining--;
+      lastSide = '-';
+    } else if (marker === '+') {
+      hunk.newLines.push(line.slice(1));
+      newRemaining--;
+      lastSide = '+';
+    } else {
+      break;
+    }
+    i++;
+  }
+
+  return { hunk, next: i };
+}
+
+/**
+ * Apply hunks to file content. Each hunk is placed by its context (searching outward from the
+ * expected line), then retried with up to MAX_FUZZ context lines trimmed from either end,
+ * then with whitespace-insensitive comparison. Hunks that cannot be placed are skipped.
+ */
+export function applyHunks(content: string, hunks: DiffHunk[]): { content: string; results: HunkResult[] } {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  let endsWithNewline = content === '' || content.endsWith('\n');
+  const lines = content === '' ? [] : content.split(/\r?\n/);
+  if (content.endsWith('\n')) lines.pop();
+
+  const results: HunkResult[] = [];
+  // Net lines added by earlier hunks, to adjust later headers
+  let drift = 0;
+
+  for (const hunk of hunks) {
+    const expected = hunk.oldStart !== undefined ? Math.max(0, hunk.oldStart - 1 + drift) : 0;
+    const placement = placeHunk(lines, hunk, expected, drift);
+
+    if (!placement) {
+      results.push({ header: hunk.header, applied: false, detail: 'context not found in file' });
+      continue;
+    }
+
+    const { index, trimStart, trimEnd, loose } = placement;
+    const removed = hunk.oldLines.length - trimStart - trimEnd;
+    const inserted = hunk.newLines.slice(trimStart, hunk.newLines.length - trimEnd);
+    lines.splice(index, removed, ...inserted);
+    drift += inserted.length - removed;
+
+    if (hunk.noNewlineAtEnd && index + inserted.length === lines.length) {
+      endsWithNewline = false;
+    }
+
+    const notes: string[] = [];
+    const offset = index - (expected + trimStart);
+    if (hunk.oldStart !== undefined && hunk.oldLines.length > 0 && offset !== 0) {
+      notes.push(`at line ${index + 1} (offset ${offset > 0 ? '+' : ''}${offset})`);
+    }
+    if (trimStart || trimEnd) notes.push(`fuzz ${Math.max(trimStart, trimEnd)}`);
+    if (loose) notes.push('ignoring whitespace');
+    results.push({ header: hunk.header, applied: true, detail: notes.length > 0 ? notes.join(', ') : undefined });
+  }
+
+  let result = lines.join(eol);
+  if (lines.length > 0 && endsWithNewline) result += eol;
+  return { content: result, results };
+}
+
+function placeHunk(
+  lines: string[],
+  hunk: DiffHunk,
+  expected: number,
+  drift: number
+): { index: number; trimStart: number; trimEnd: number; loose: boolean } | null {
+  // Pure insertion: nothing to match against, `-N,0` means after line N
+  if (hunk.oldLines.length === 0) {
+    const index = hunk.oldStart !== undefined ? hunk.oldStart + drift : lines.length;
+    return { index: Math.max(0, Math.min(index, lines.length)), trimStart: 0, trimEnd: 0, loose: false };
+  }
+
+  for (const loose of [false, true]) {
+    for (let fuzz = 0; fuzz <= MAX_FUZZ; fuzz++) {
+      // Only context lines can be dropped, never the lines being removed
+      const trimStart = Math.min(fuzz, leadingContext(hunk));
+      const trimEnd = Math.min(fuzz, trailingContext(hunk));
+      if (fuzz > 0 && trimStart === 0 && trimEnd === 0) break;
+
+      const needle = hunk.oldLines.slice(trimStart, hunk.oldLines.length - trimEnd);
+      if (needle.length === 0) continue;
+
+      const index = findBlock(lines, needle, expected + trimStart, loose);
+      if (index !== -1) {
+        return { index, trimStart, trimEnd, loose };
+      }
+    }
+  }
+  return null;
+}
+
+function leadingContext(hunk: DiffHunk): number {
+  let count = 0;
+  while (count < hunk.oldLines.length && count < hunk.newLines.length && hunk.oldLines[count] === hunk.newLines[count]) {
+    count++;
+  }
+  return count;
+}
+
+function trailingContext(hunk: DiffHunk): number {
+  let count = 0;
+  while (
+    count < hunk.oldLines.length && count < hunk.newLines.length &&
+    hunk.oldLines[hunk.oldLines.length - 1 - count] === hunk.newLines[hunk.newLines.length - 1 - count]
+  ) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Search outward from the expected index for the block, nearest position first
+ */
+function findBlock(lines: string[], needle: string[], expected: number, loose: boolean): number {
+  const normalize = loose
+    ? (line: string) => line.replace(/\s+/g, ' ').trim()
+    : (line: string) => line.replace(/\s+$/, '');
+  const target = needle.map(normalize);
+  const lastStart = lines.length - needle.length;
+  if (lastStart < 0) return -1;
+
+  const matchesAt = (start: number) => target.every((line, i) => normalize(lines[start + i]) === line);
+  const origin = Math.min(Math.max(0, expected), lastStart);
+
+  for (let distance = 0; distance <= lastStart; distance++) {
+    const before = origin - distance;
+    const after = origin + distance;
+    if (before < 0 && after > lastStart) break;
+    if (before >= 0 && matchesAt(before)) return before;
+    if (distance > 0 && after <= lastStart && matchesAt(after)) return after;
+  }
+  return -1;
+}
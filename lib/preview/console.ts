@@ -0,0 +1,342 @@
+import { logger } from '@/lib/utils';
+import { PreviewConsoleEntry, PreviewConsolePayload, PreviewLogLevel } from './types';
+
+const MAX_ENTRIES = 200;
+const MAX_TEXT_LENGTH = 4000;
+// Time after the load event for deferred scripts, timers and first requests to report
+const SETTLE_DELAY = 500;
+
+const LEVELS: PreviewLogLevel[] = ['log', 'info', 'warn', 'error'];
+const KINDS: PreviewConsolePayload['kind'][] = ['console', 'error', 'rejection', 'network'];
+
+/**
+ * Runs first in every preview page and forwards console output, uncaught errors,
+ * unhandled rejections and failed requests to the host window.
+ */
+export const CONSOLE_BRIDGE_SCRIPT = String.raw`<script>
+(function() {
+  if (window.__oswConsoleBridge || window === window.parent) return;
+  window.__oswConsoleBridge = true;
+
+  function post(entry) {
+    try {
+      window.parent.postMessage({ type: 'console', entry: entry }, '*');
+    } catch (e) {}
+  }
+
+  function format(value) {
+    if (typeof value === 'string') return value;
+    if (value instanceof Error) return value.name + ': ' + value.message;
+    if (value === undefined) return 'undefined';
+    if (typeof value === 'function') return 'function ' + (value.name || '(anonymous)') + '()';
+    if (typeof value === 'symbol' || typeof value === 'bigint') return String(value);
+    if (value && value.nodeType === 1) return '<' + value.tagName.toLowerCase() + (value.id ? '#' + value.id : '') + '>';
+    try {
+      var seen = [];
+      return JSON.stringify(value, function(key, item) {
+        if (item && typeof item === 'object') {
+          if (seen.indexOf(item) !== -1) return '[Circular]';
+          seen.push(item);
+        }
+        return item;
+      });
+    } catch (e) {
+      return String(value);
+    }
+  }
+
+  function callerLocation() {
+    var lines = (new Error().stack || '').split('\n');
+    var frames = 0;
+    for (var i = 0; i < lines.length; i++) {
+      var match = /((?:blob|https?|about|file):[^\s()@]*?):(\d+):(\d+)\)?\s*$/.exec(lines[i]);
+      if (!match) continue;
+      // Skip this function and the console wrapper
+      if (frames++ < 2) continue;
+      return { source: match[1], line: Number(match[2]), column: Number(match[3]) };
+    }
+    return {};
+  }
+
+  ['log', 'info', 'warn', 'error', 'debug'].forEach(function(method) {
+    var original = console[method];
+    console[method] = function() {
+      var args = Array.prototype.slice.call(arguments);
+      var error = args.filter(function(arg) { return arg instanceof Error; })[0];
+      var location = callerLocation();
+      post({
+        level: method === 'debug' ? 'log' : method,
+        kind: 'console',
+        message: args.map(format).join(' '),
+        source: location.source,
+        line: location.line,
+        column: location.column,
+        stack: error ? error.stack : undefined
+      });
+      if (original) return original.apply(console, arguments);
+    };
+  });
+
+  window.addEventListener('error', function(event) {
+    var target = event.target;
+    if (target && target !== window && target.nodeType === 1) {
+      var url = target.src || target.href || '';
+      post({ level: 'error', kind: 'network', message: 'Failed to load <' + target.tagName.toLowerCase() + '> ' + (url || '(no url)'), source: url || undefined });
+      return;
+    }
+    var error = event.error;
+    post({
+      level: 'error',
+      kind: 'error',
+      message: event.message || (error ? format(error) : 'Script error'),
+      source: event.filename || undefined,
+      line: event.lineno || undefined,
+      column: event.colno || undefined,
+      stack: error && error.stack ? error.stack : undefined
+    });
+  }, true);
+
+  window.addEventListener('unhandledrejection', function(event) {
+    var reason = event.reason;
+    post({
+      level: 'error',
+      kind: 'rejection',
+      message: 'Unhandled promise rejection: ' + format(reason),
+      stack: reason && reason.stack ? reason.stack : undefined
+    });
+  });
+
+  if (window.fetch) {
+    var originalFetch = window.fetch;
+    window.fetch = function(input, init) {
+      var url = typeof input === 'string' ? input : input && input.url ? input.url : String(input);
+      var method = String((init && init.method) || (input && input.method) || 'GET').toUpperCase();
+      return originalFetch.apply(this, arguments).then(function(response) {
+        if (!response.ok) {
+          post({ level: 'error', kind: 'network', message: method + ' ' + url + ' ' + response.status + (response.statusText ? ' ' + response.statusText : ''), source: url });
+        }
+        return response;
+      }, function(error) {
+        post({ level: 'error', kind: 'network', message: method + ' ' + url + ' failed: ' + format(error && error.message ? error.message : error), source: url });
+        throw error;
+      });
+    };
+  }
+
+  var xhrOpen = XMLHttpRequest.prototype.open;
+  var xhrSend = XMLHttpRequest.prototype.send;
+  XMLHttpRequest.prototype.open = function(method, url) {
+    this.__oswRequest = { method: String(method || 'GET').toUpperCase(), url: String(url) };
+    return xhrOpen.apply(this, arguments);
+  };
+  XMLHttpRequest.prototype.send = function() {
+    var xhr = this;
+    xhr.addEventListener('loadend', function() {
+      var request = xhr.__oswRequest || { method: 'GET', url: '' };
+      if (xhr.status === 0 || xhr.status >= 400) {
+        post({ level: 'error', kind: 'network', message: request.method + ' ' + request.url + ' ' + (xhr.status ? xhr.status + ' ' + xhr.statusText : 'failed'), source: request.url });
+      }
+    });
+    return xhrSend.apply(this, arguments);
+  };
+})();
+</script>`;
+
+/**
+ * Put the console bridge at the start of the document so it is in place before any page script runs
+ */
+export function injectConsoleBridge(html: string): string {
+  const head = /<head[^>]*>/i.exec(html);
+  if (head) {
+    const end = head.index + head[0].length;
+    return html.slice(0, end) + CONSOLE_BRIDGE_SCRIPT + html.slice(end);
+  }
+  const root = /<html[^>]*>/i.exec(html);
+  if (root) {
+    const end = root.index + root[0].length;
+    return html.slice(0, end) + CONSOLE_BRIDGE_SCRIPT + html.slice(end);
+  }
+  return CONSOLE_BRIDGE_SCRIPT + html;
+}
+
+/**
+ * Replace blob URLs (and the srcdoc document URL) in messages, sources and stack traces
+ * with the project paths they were created from
+ */
+export function mapPreviewSources(payload: PreviewConsolePayload, urlToPath: Map<string, string>): PreviewConsolePayload {
+  const replace = (text?: string) => {
+    if (!text) return text;
+    let result = text;
+    for (const [url, path] of urlToPath) {
+      if (result.includes(url)) {
+        result = result.split(url).join(path);
+      }
+    }
+    return result;
+  };
+
+  return {
+    ...payload,
+    message: replace(payload.message) ?? '',
+    source: replace(payload.source),
+    stack: replace(payload.stack)
+  };
+}
+
+function clip(text: unknown): string | undefined {
+  if (typeof text !== 'string' || !text) return undefined;
+  return text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH)}…` : text;
+}
+
+function position(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+interface ConsoleSession {
+  entries: PreviewConsoleEntry[];
+  page: string | null;
+  viewers: number;
+  pending: boolean;
+  loading: boolean;
+}
+
+/**
+ * Console output of the live preview per project, shared by the console panel and the
+ * agent's preview_logs tool. Output is dropped when a page loads, like a browser console
+ * without "preserve log", so it always describes the page as currently built.
+ */
+class PreviewConsoleStore {
+  private sessions = new Map<string, ConsoleSession>();
+  private listeners = new Set<(projectId: string) => void>();
+  private nextId = 1;
+
+  subscribe(listener: (projectId: string) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private emit(projectId: string): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(projectId);
+      } catch (error) {
+        logger.error('[PreviewConsole] Listener error', error);
+      }
+    }
+  }
+
+  private session(projectId: string): ConsoleSession {
+    let session = this.sessions.get(projectId);
+    if (!session) {
+      session = { entries: [], page: null, viewers: 0, pending: false, loading: false };
+      this.sessions.set(projectId, session);
+    }
+    return session;
+  }
+
+  /**
+   * Register a mounted preview; returns the matching detach
+   */
+  attach(projectId: string): () => void {
+    this.session(projectId).viewers++;
+    return () => {
+      const session = this.session(projectId);
+      session.viewers = Math.max(0, session.viewers - 1);
+      if (session.viewers === 0) {
+        session.pending = false;
+        session.loading = false;
+      }
+    };
+  }
+
+  /** Whether a preview is open for the project, so there is output to read */
+  isAttached(projectId: string): boolean {
+    return (this.sessions.get(projectId)?.viewers ?? 0) > 0;
+  }
+
+  /** Files changed and a rebuild is on its way */
+  markPending(projectId: string): void {
+    this.session(projectId).pending = true;
+  }
+
+  /** A page starts loading; output of the previous page is dropped */
+  beginLoad(projectId: string, page: string): void {
+    const session = this.session(projectId);
+    session.entries = [];
+    session.page = page;
+    session.pending = false;
+    session.loading = true;
+    this.emit(projectId);
+  }
+
+  /** The page finished loading, or the build failed and nothing will load */
+  markSettled(projectId: string): void {
+    const session = this.session(projectId);
+    session.pending = false;
+    session.loading = false;
+  }
+
+  add(projectId: string, payload: PreviewConsolePayload): void {
+    const session = this.session(projectId);
+    const entry: PreviewConsoleEntry = {
+      id: this.nextId++,
+      timestamp: Date.now(),
+      count: 1,
+      level: LEVELS.includes(payload.level) ? payload.level : 'log',
+      kind: KINDS.includes(payload.kind) ? payload.kind : 'console',
+      message: clip(payload.message) ?? '',
+      source: clip(payload.source),
+      line: position(payload.line),
+      column: position(payload.column),
+      stack: clip(payload.stack)
+    };
+
+    const last = session.entries[session.entries.length - 1];
+    if (
+      last &&
+      last.level === entry.level &&
+      last.kind === entry.kind &&
+      last.message === entry.message &&
+      last.source === entry.source &&
+      last.line === entry.line
+    ) {
+      session.entries[session.entries.length - 1] = { ...last, count: last.count + 1, timestamp: entry.timestamp };
+    } else {
+      session.entries = [...session.entries, entry].slice(-MAX_ENTRIES);
+    }
+    this.emit(projectId);
+  }
+
+  getEntries(projectId: string): PreviewConsoleEntry[] {
+    return this.sessions.get(projectId)?.entries ?? [];
+  }
+
+  /** Page the current output belongs to */
+  getPage(projectId: string): string | null {
+    return this.sessions.get(projectId)?.page ?? null;
+  }
+
+  clear(projectId: string): void {
+    const session = this.sessions.get(projectId);
+    if (!session || session.entries.length === 0) return;
+    session.entries = [];
+    this.emit(projectId);
+  }
+
+  /**
+   * Wait for a pending rebuild and page load, then a moment for load-time errors to arrive
+   */
+  async waitForSettled(projectId: string, timeout = 5000): Promise<void> {
+    const deadline = Date.now() + timeout;
+    const busy = () => {
+      const session = this.sessions.get(projectId);
+      return !!session && (session.pending || session.loading);
+    };
+    while (busy() && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    await new Promise(resolve => setTimeout(resolve, SETTLE_DELAY));
+  }
+}
+
+export const previewConsole = new PreviewConsoleStore();
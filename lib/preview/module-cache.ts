@@ -0,0 +1,121 @@
+import { logger } from '@/lib/utils';
+import { findImports, isBareSpecifier, rewriteImports } from './modules';
+
+const CACHE_NAME = 'osw-studio-modules';
+// Upper bound on modules fetched for one package and its dependencies
+const MAX_MODULES = 300;
+
+function resolveUrl(specifier: string, base: string): string | null {
+  if (isBareSpecifier(specifier)) return null;
+  try {
+    const url = new URL(specifier, base);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Local copies of CDN modules in Cache Storage, so previews keep working offline. Online,
+ * the import map points at the CDN and packages not cached yet are fetched in the background;
+ * offline, cached modules are served from blob URLs with their imports rewritten.
+ */
+class ModuleCache {
+  private warming = new Set<string>();
+  private offlineUrls = new Map<string, string>();
+
+  private isAvailable(): boolean {
+    return typeof caches !== 'undefined' && typeof fetch !== 'undefined';
+  }
+
+  /**
+   * Import map entries to use right now: CDN URLs online, cached copies offline
+   */
+  async resolve(imports: Record<string, string>): Promise<Record<string, string>> {
+    if (!this.isAvailable()) {
+      return imports;
+    }
+
+    const offline = typeof navigator !== 'undefined' && navigator.onLine === false;
+    const resolved = { ...imports };
+    for (const [specifier, url] of Object.entries(imports)) {
+      if (!/^https?:\/\//.test(url) || url.endsWith('/')) continue;
+
+      if (offline) {
+        const blobUrl = await this.fromCache(url, new Set()).catch(() => null);
+        if (blobUrl) {
+          resolved[specifier] = blobUrl;
+        }
+      } else if (!this.warming.has(url)) {
+        this.warming.add(url);
+        this.warm(url).catch(error => {
+          this.warming.delete(url);
+          logger.debug(`[ModuleCache] Could not cache ${url}`, error);
+        });
+      }
+    }
+    return resolved;
+  }
+
+  /**
+   * Fetch a module and everything it imports into the cache
+   */
+  private async warm(url: string): Promise<void> {
+    const cache = await caches.open(CACHE_NAME);
+    const queue = [url];
+    const seen = new Set<string>();
+
+    while (queue.length > 0 && seen.size < MAX_MODULES) {
+      const next = queue.shift()!;
+      if (seen.has(next)) continue;
+      seen.add(next);
+
+      let response = await cache.match(next);
+      if (!response) {
+        const fetched = await fetch(next);
+        if (!fetched.ok) continue;
+        await cache.put(next, fetched.clone());
+        response = fetched;
+      }
+
+      const code = await response.text();
+      for (const { specifier } of findImports(code)) {
+        const dependency = resolveUrl(specifier, response.url || next);
+        if (dependency && !seen.has(dependency)) {
+          queue.push(dependency);
+        }
+      }
+    }
+  }
+
+  /**
+   * Blob URL for a cached module with its imports pointing at cached blobs too. Imports that
+   * are not cached, or that loop back, keep their CDN URLs.
+   */
+  private async fromCache(url: string, visiting: Set<string>): Promise<string | null> {
+    const known = this.offlineUrls.get(url);
+    if (known) return known;
+    if (visiting.has(url)) return null;
+    visiting.add(url);
+
+    const cache = await caches.open(CACHE_NAME);
+    const response = await cache.match(url);
+    if (!response) return null;
+
+    const base = response.url || url;
+    const code = await response.text();
+    const dependencies = new Map<string, string>();
+    for (const { specifier } of findImports(code)) {
+      const dependency = resolveUrl(specifier, base);
+      if (!dependency || dependencies.has(specifier)) continue;
+      dependencies.set(specifier, (await this.fromCache(dependency, visiting)) ?? dependency);
+    }
+
+    const rewritten = rewriteImports(code, specifier => dependencies.get(specifier) ?? null);
+    const blobUrl = URL.createObjectURL(new Blob([rewritten], { type: 'application/javascript' }));
+    this.offlineUrls.set(url, blobUrl);
+    return blobUrl;
+  }
+}
+
+export const moduleCache = new ModuleCache();
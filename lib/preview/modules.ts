@@ -0,0 +1,244 @@
+/**
+ * ES module helpers for the preview and export: finding import specifiers, resolving them
+ * to project files, ordering modules so dependencies come first, and import maps.
+ */
+
+export interface ModuleImport {
+  specifier: string;
+  /** Offsets of the specifier text, without quotes */
+  start: number;
+  end: number;
+}
+
+export interface ImportMap {
+  imports: Record<string, string>;
+  scopes?: Record<string, Record<string, string>>;
+}
+
+export const DEFAULT_MODULE_CDN = 'https://esm.sh';
+
+// Prefix for project modules that import each other in a cycle. They can't embed each
+// other's blob URLs, so they import these keys and the import map points them at the blobs.
+const CYCLE_KEY_PREFIX = 'vfs:';
+
+const MODULE_EXTENSIONS = ['.js', '.mjs', '.ts', '.tsx', '.jsx'];
+
+// import x from '…', import '…', export … from '…', import('…')
+const IMPORT_PATTERN = /(?:\bfrom\s*|\bimport\s*\(\s*|\bimport\s+)(['"])([^'"\n]+)\1/g;
+
+export function findImports(code: string): ModuleImport[] {
+  const imports: ModuleImport[] = [];
+  for (const match of code.matchAll(IMPORT_PATTERN)) {
+    const specifier = match[2];
+    const end = match.index! + match[0].length - 1;
+    imports.push({ specifier, start: end - specifier.length, end });
+  }
+  return imports;
+}
+
+/**
+ * Replace specifiers; `replace` returns null to keep one as is
+ */
+export function rewriteImports(code: string, replace: (specifier: string) => string | null): string {
+  let result = '';
+  let last = 0;
+  for (const item of findImports(code)) {
+    const replacement = replace(item.specifier);
+    if (replacement === null || replacement === item.specifier) continue;
+    result += code.slice(last, item.start) + replacement;
+    last = item.end;
+  }
+  return result + code.slice(last);
+}
+
+/** npm-style specifiers such as `react` or `lodash-es/debounce` */
+export function isBareSpecifier(specifier: string): boolean {
+  return !/^(\.{0,2}\/|[a-z][a-z0-9+.-]*:)/i.test(specifier);
+}
+
+export function resolveRelativePath(directory: string, path: string): string {
+  const segments = (path.startsWith('/') ? path : directory + path).split('/');
+  const resolved: string[] = [];
+  for (const segment of segments) {
+    if (segment === '..') {
+      resolved.pop();
+    } else if (segment && segment !== '.') {
+      resolved.push(segment);
+    }
+  }
+  return '/' + resolved.join('/');
+}
+
+function directoryOf(path: string): string {
+  return path.substring(0, path.lastIndexOf('/') + 1);
+}
+
+/**
+ * Project file a relative or absolute specifier points at, trying module extensions and
+ * index files the way bundlers do
+ */
+export function resolveModulePath(from: string, specifier: string, paths: Set<string>): string | null {
+  if (isBareSpecifier(specifier) || /^[a-z][a-z0-9+.-]*:/i.test(specifier)) {
+    return null;
+  }
+  const base = resolveRelativePath(directoryOf(from), specifier.split(/[?#]/)[0]);
+  const candidates = [
+    base,
+    ...MODULE_EXTENSIONS.map(extension => base + extension),
+    // TypeScript sources are imported by the name they compile to
+    ...(base.endsWith('.js') ? [base.slice(0, -3) + '.ts', base.slice(0, -3) + '.tsx'] : []),
+    ...MODULE_EXTENSIONS.map(extension => `${base.replace(/\/$/, '')}/index${extension}`)
+  ];
+  return candidates.find(candidate => paths.has(candidate)) ?? null;
+}
+
+/**
+ * Specifier for `target` relative to the module at `from`
+ */
+export function relativeSpecifier(from: string, target: string): string {
+  const fromParts = directoryOf(from).split('/').filter(Boolean);
+  const targetParts = target.split('/').filter(Boolean);
+  let shared = 0;
+  while (shared < fromParts.length && shared < targetParts.length - 1 && fromParts[shared] === targetParts[shared]) {
+    shared++;
+  }
+  const up = fromParts.length - shared;
+  const rest = targetParts.slice(shared).join('/');
+  return up === 0 ? `./${rest}` : `${'../'.repeat(up)}${rest}`;
+}
+
+/**
+ * Strongly connected components of the import graph, dependencies before dependents
+ * (Tarjan's algorithm). A component with more than one module, or a module importing
+ * itself, is an import cycle.
+ */
+export function orderModules(graph: Map<string, string[]>): string[][] {
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+  let index = 0;
+
+  const visit = (node: string) => {
+    indices.set(node, index);
+    lowLinks.set(node, index);
+    index++;
+    stack.push(node);
+    onStack.add(node);
+
+    for (const dependency of graph.get(node) ?? []) {
+      if (!indices.has(dependency)) {
+        visit(dependency);
+        lowLinks.set(node, Math.min(lowLinks.get(node)!, lowLinks.get(dependency)!));
+      } else if (onStack.has(dependency)) {
+        lowLinks.set(node, Math.min(lowLinks.get(node)!, indices.get(dependency)!));
+      }
+    }
+
+    if (lowLinks.get(node) === indices.get(node)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== node);
+      components.push(component);
+    }
+  };
+
+  for (const node of graph.keys()) {
+    if (!indices.has(node)) {
+      visit(node);
+    }
+  }
+  return components;
+}
+
+export function isCycle(component: string[], graph: Map<string, string[]>): boolean {
+  return component.length > 1 || (graph.get(component[0]) ?? []).includes(component[0]);
+}
+
+export function cycleKey(path: string): string {
+  return CYCLE_KEY_PREFIX + path;
+}
+
+/**
+ * Import map entries for bare specifiers: explicit `imports` first, then the CDN
+ */
+export function bareImportMap(
+  specifiers: Iterable<string>,
+  options: { cdn?: string; imports?: Record<string, string> } = {}
+): Record<string, string> {
+  const cdn = (options.cdn || DEFAULT_MODULE_CDN).replace(/\/+$/, '');
+  const explicit = options.imports ?? {};
+  const entries: Record<string, string> = { ...explicit };
+  for (const specifier of specifiers) {
+    if (entries[specifier]) continue;
+    // "react-dom/client" is covered by an explicit "react-dom/" prefix entry
+    const covered = Object.keys(explicit).some(key => key.endsWith('/') && specifier.startsWith(key));
+    if (covered) continue;
+
+    // Subpaths of a pinned package, like the react/jsx-runtime import of compiled JSX, come
+    // from the same version so the page doesn't load two copies
+    const match = /^((?:@[^/]+\/)?[^/]+)\/(.+)$/.exec(specifier);
+    const pinned = match ? explicit[match[1]] : undefined;
+    if (pinned && /^https?:\/\/[^?#]+$/.test(pinned) && !/\.m?js$/.test(pinned)) {
+      entries[specifier] = `${pinned.replace(/\/+$/, '')}/${match![2]}`;
+    } else {
+      entries[specifier] = `${cdn}/${specifier}`;
+    }
+  }
+  return entries;
+}
+
+const MODULE_SCRIPT_PATTERN = /<script\b[^>]*\btype\s*=\s*["']?module\b[^>]*>/i;
+
+/**
+ * Add the import map to a page that loads module scripts, merging with an import map the page
+ * declares itself (its entries win). The map goes inside <head>, ahead of the first module
+ * script, since browsers ignore an import map that comes after one; a page without a head gets one.
+ */
+export function injectImportMap(html: string, map: ImportMap): string {
+  if (Object.keys(map.imports).length === 0 && !map.scopes) {
+    return html;
+  }
+
+  const existing = /<script\b[^>]*type=["']importmap["'][^>]*>([\s\S]*?)<\/script>/i.exec(html);
+  if (existing) {
+    let declared: Partial<ImportMap> = {};
+    try {
+      declared = JSON.parse(existing[1]);
+    } catch {
+      // Leave a broken import map for the browser to report
+      return html;
+    }
+    const merged: ImportMap = {
+      imports: { ...map.imports, ...declared.imports },
+      scopes: map.scopes || declared.scopes ? { ...map.scopes, ...declared.scopes } : undefined
+    };
+    const script = `<script type="importmap">${JSON.stringify(merged)}</script>`;
+    return html.slice(0, existing.index) + script + html.slice(existing.index + existing[0].length);
+  }
+
+  const firstModule = MODULE_SCRIPT_PATTERN.exec(html);
+  if (!firstModule) {
+    return html;
+  }
+
+  const script = `<script type="importmap">${JSON.stringify(map)}</script>`;
+  const head = /<head\b[^>]*>/i.exec(html);
+  if (head) {
+    const headStart = head.index + head[0].length;
+    const headEnd = html.slice(headStart).search(/<\/head>/i);
+    const insertAt = firstModule.index >= headStart && (headEnd === -1 || firstModule.index < headStart + headEnd)
+      ? firstModule.index
+      : headEnd === -1 ? headStart : headStart + headEnd;
+    return html.slice(0, insertAt) + script + html.slice(insertAt);
+  }
+
+  const opening = /<html\b[^>]*>/i.exec(html) ?? /<!doctype\b[^>]*>/i.exec(html);
+  const insertAt = opening ? opening.index + opening[0].length : 0;
+  return html.slice(0, insertAt) + `<head>${script}</head>` + html.slice(insertAt);
+}
@@ -0,0 +1,94 @@
+import { VirtualFile } from '../vfs/types';
+import { logger } from '@/lib/utils';
+
+export const PROJECT_CONFIG_PATH = '/osw.config.json';
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+/**
+ * A routing rule. `source` is a path pattern: `:name` matches one segment and a trailing
+ * `*` matches the rest of the path; both can be used in `destination` (`*` as `:splat`).
+ */
+export interface RouteRule {
+  source: string;
+  destination: string;
+  /** Redirect status, 301 unless set; unused for rewrites */
+  status?: number;
+}
+
+/**
+ * Project-level settings for the preview and export, read from /osw.config.json
+ */
+export interface ProjectConfig {
+  /** Where bare module specifiers such as `react` are loaded from; defaults to https://esm.sh */
+  cdn?: string;
+  /** Import map entries that take precedence over the CDN, e.g. pinned versions */
+  imports?: Record<string, string>;
+  /** Redirects, applied before files are looked up */
+  redirects?: RouteRule[];
+  /** Paths answered by another file without changing the URL, when no file matches them */
+  rewrites?: RouteRule[];
+  /** Page shown with a 404 status for paths that match nothing, e.g. `/404.html` */
+  notFound?: string;
+  /** Page URLs always end in a slash (true) or never do (false); unset leaves them as linked */
+  trailingSlash?: boolean;
+}
+
+function stringRecord(value: unknown): Record<string, string> | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  const entries = Object.entries(value as Record<string, unknown>).filter(
+    (entry): entry is [string, string] => typeof entry[1] === 'string'
+  );
+  return Object.fromEntries(entries);
+}
+
+function routeRules(value: unknown, redirects: boolean): RouteRule[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const rules: RouteRule[] = [];
+  for (const item of value) {
+    const rule = item as Record<string, unknown> | null;
+    if (!rule || typeof rule.source !== 'string' || typeof rule.destination !== 'string' || !rule.source.startsWith('/')) {
+      logger.warn(`Ignoring invalid rule in ${PROJECT_CONFIG_PATH}:`, item);
+      continue;
+    }
+    rules.push(redirects
+      ? { source: rule.source, destination: rule.destination, status: REDIRECT_STATUSES.includes(rule.status as number) ? rule.status as number : 301 }
+      : { source: rule.source, destination: rule.destination });
+  }
+  return rules;
+}
+
+/**
+ * Keep the fields that have the expected shape and drop the rest
+ */
+export function parseProjectConfig(content: string): ProjectConfig {
+  const raw = JSON.parse(content) as Record<string, unknown>;
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`${PROJECT_CONFIG_PATH} must contain a JSON object`);
+  }
+  return {
+    cdn: typeof raw.cdn === 'string' && raw.cdn.trim() ? raw.cdn.trim() : undefined,
+    imports: stringRecord(raw.imports),
+    redirects: routeRules(raw.redirects, true),
+    rewrites: routeRules(raw.rewrites, false),
+    notFound: typeof raw.notFound === 'string' && raw.notFound.startsWith('/') ? raw.notFound : undefined,
+    trailingSlash: typeof raw.trailingSlash === 'boolean' ? raw.trailingSlash : undefined
+  };
+}
+
+/**
+ * Config of a project from its file list; an invalid file is reported and ignored
+ */
+export function readProjectConfig(files: VirtualFile[]): ProjectConfig {
+  const file = files.find(candidate => candidate.path === PROJECT_CONFIG_PATH);
+  if (!file || typeof file.content !== 'string') {
+    return {};
+  }
+
+  try {
+    return parseProjectConfig(file.content);
+  } catch (error) {
+    logger.warn(`Ignoring invalid ${PROJECT_CONFIG_PATH}:`, error);
+    return {};
+  }
+}
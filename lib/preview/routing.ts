@@ -0,0 +1,161 @@
+import { ProjectConfig, RouteRule } from './project-config';
+
+/**
+ * How a request is answered under the project's routing config
+ */
+export type RouteResolution =
+  | { type: 'redirect'; location: string; status: number }
+  | { type: 'file'; path: string; status: number }
+  | { type: 'missing' };
+
+/** Longest redirect chain the preview follows */
+export const MAX_REDIRECTS = 10;
+
+const PARAM_PATTERN = /:([A-Za-z_][A-Za-z0-9_]*)/g;
+
+/**
+ * Files that can answer a page URL the way static hosts resolve them: `/about` is about.html
+ * or about/index.html, `/about/` is about/index.html or about.html
+ */
+export function pageCandidates(path: string): string[] {
+  if (path === '/') return ['/index.html'];
+  if (path.endsWith('/')) return [`${path}index.html`, `${path.slice(0, -1)}.html`];
+  return [path, `${path}.html`, `${path}/index.html`];
+}
+
+function compilePattern(source: string): { regex: RegExp; names: string[] } {
+  const names: string[] = [];
+  const splat = source.endsWith('*');
+  let body = splat ? source.slice(0, -1) : source;
+  // "/app/*" also matches "/app" itself
+  const optionalSlash = splat && body.endsWith('/');
+  if (optionalSlash) body = body.slice(0, -1);
+
+  let pattern = '';
+  body.split(PARAM_PATTERN).forEach((part, index) => {
+    if (index % 2 === 1) {
+      names.push(part);
+      pattern += '([^/]+)';
+    } else {
+      pattern += part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  });
+  if (splat) {
+    names.push('splat');
+    pattern += optionalSlash ? '(?:/(.*))?' : '(.*)';
+  }
+  return { regex: new RegExp(`^${pattern}$`), names };
+}
+
+/**
+ * Parameters captured by a rule's source pattern, or null when the path doesn't match
+ */
+export function matchRoute(source: string, path: string): Record<string, string> | null {
+  const { regex, names } = compilePattern(source);
+  const match = regex.exec(path);
+  if (!match) return null;
+  return Object.fromEntries(names.map((name, index) => [name, match[index + 1] ?? '']));
+}
+
+export function applyRouteParams(destination: string, params: Record<string, string>): string {
+  return destination.replace(PARAM_PATTERN, (placeholder, name: string) => (name in params ? params[name] : placeholder));
+}
+
+/**
+ * Answer a URL path (without query string) the way a host following the config would:
+ * trailing-slash and redirect rules first, then files, then rewrites, then the 404 page.
+ * `findFile` returns the project file that answers a path directly, or null.
+ */
+export function resolveRoute(
+  path: string,
+  config: ProjectConfig,
+  findFile: (path: string) => string | null,
+  options: { navigate?: boolean } = {}
+): RouteResolution {
+  if (options.navigate && config.trailingSlash !== undefined && path !== '/' && !/\.[^/]+$/.test(path)) {
+    if (config.trailingSlash && !path.endsWith('/')) {
+      return { type: 'redirect', location: `${path}/`, status: 301 };
+    }
+    if (!config.trailingSlash && path.endsWith('/')) {
+      return { type: 'redirect', location: path.replace(/\/+$/, '') || '/', status: 301 };
+    }
+  }
+
+  for (const rule of config.redirects ?? []) {
+    const params = matchRoute(rule.source, path);
+    if (params) {
+      return { type: 'redirect', location: applyRouteParams(rule.destination, params), status: rule.status ?? 301 };
+    }
+  }
+
+  const file = findFile(path);
+  if (file) {
+    return { type: 'file', path: file, status: 200 };
+  }
+
+  for (const rule of config.rewrites ?? []) {
+    const params = matchRoute(rule.source, path);
+    const target = params ? findFile(applyRouteParams(rule.destination, params).split(/[?#]/)[0]) : null;
+    if (target) {
+      return { type: 'file', path: target, status: 200 };
+    }
+  }
+
+  const notFound = config.notFound ? findFile(config.notFound) : null;
+  return notFound ? { type: 'file', path: notFound, status: 404 } : { type: 'missing' };
+}
+
+/** Whether the config declares any routing, which turns off the preview's implicit SPA fallback */
+export function hasRouting(config: ProjectConfig): boolean {
+  return Boolean(config.redirects?.length || config.rewrites?.length || config.notFound || config.trailingSlash !== undefined);
+}
+
+// Vercel spells a trailing wildcard as a named parameter with a modifier
+function vercelPattern(source: string): string {
+  return source.endsWith('*') ? `${source.slice(0, -1)}:splat*` : source;
+}
+
+function redirectsLine(rule: RouteRule, status: string): string {
+  return `${rule.source} ${rule.destination} ${status}`;
+}
+
+/**
+ * Hosting config carrying the routing rules into an export: `_redirects` for Netlify and
+ * Cloudflare Pages, `vercel.json` for Vercel. The 404 page is exported as 404.html separately,
+ * which all of them serve for unknown paths.
+ */
+export function routingExportFiles(config: ProjectConfig): { path: string; content: string }[] {
+  if (!hasRouting(config)) {
+    return [];
+  }
+  const redirects = config.redirects ?? [];
+  const rewrites = config.rewrites ?? [];
+  const files: { path: string; content: string }[] = [];
+
+  if (redirects.length > 0 || rewrites.length > 0) {
+    const lines = [
+      // "!" applies a redirect even where a file exists, as the preview does
+      ...redirects.map(rule => redirectsLine(rule, `${rule.status ?? 301}!`)),
+      ...rewrites.map(rule => redirectsLine(rule, '200'))
+    ];
+    files.push({ path: '/_redirects', content: `${lines.join('\n')}\n` });
+  }
+
+  const vercel: Record<string, unknown> = { cleanUrls: true };
+  if (config.trailingSlash !== undefined) {
+    vercel.trailingSlash = config.trailingSlash;
+  }
+  if (redirects.length > 0) {
+    vercel.redirects = redirects.map(rule => ({
+      source: vercelPattern(rule.source),
+      destination: rule.destination,
+      statusCode: rule.status ?? 301
+    }));
+  }
+  if (rewrites.length > 0) {
+    vercel.rewrites = rewrites.map(rule => ({ source: vercelPattern(rule.source), destination: rule.destination }));
+  }
+  files.push({ path: '/vercel.json', content: `${JSON.stringify(vercel, null, 2)}\n` });
+
+  return files;
+}
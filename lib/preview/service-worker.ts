@@ -0,0 +1,136 @@
+import { logger } from '@/lib/utils';
+import { ServedFile } from './types';
+
+const WORKER_URL = '/preview-sw.js';
+export const PREVIEW_SCOPE = '/preview/';
+const CHANNEL_NAME = 'osw-studio-preview';
+// Longest wait for a newly installed worker to take over the preview scope
+const ACTIVATION_TIMEOUT = 10000;
+
+/**
+ * `blob` builds each page into an srcdoc with blob URLs; `service-worker` loads pages from
+ * real URLs under /preview/<projectId>/
+ */
+export type PreviewMode = 'blob' | 'service-worker';
+
+export type PreviewRequestHandler = (path: string, options: { navigate: boolean }) => Promise<ServedFile>;
+
+interface PreviewRequest {
+  type: 'request';
+  id: string;
+  projectId: string;
+  path: string;
+  navigate: boolean;
+}
+
+/**
+ * Registers public/preview-sw.js and answers its file requests for the projects open in
+ * this tab
+ */
+class PreviewServiceWorker {
+  private registration: Promise<boolean> | null = null;
+  private handlers = new Map<string, PreviewRequestHandler>();
+  private channel: BroadcastChannel | null = null;
+
+  isSupported(): boolean {
+    return typeof window !== 'undefined' &&
+      window.isSecureContext &&
+      'serviceWorker' in navigator &&
+      typeof BroadcastChannel !== 'undefined';
+  }
+
+  /**
+   * Register the worker once; resolves to false where service workers are unavailable
+   */
+  register(): Promise<boolean> {
+    if (!this.registration) {
+      this.registration = this.activate().catch(error => {
+        logger.warn('[PreviewServiceWorker] Registration failed', error);
+        this.registration = null;
+        return false;
+      });
+    }
+    return this.registration;
+  }
+
+  private async activate(): Promise<boolean> {
+    if (!this.isSupported()) {
+      return false;
+    }
+
+    const registration = await navigator.serviceWorker.register(WORKER_URL, { scope: PREVIEW_SCOPE });
+    const worker = registration.installing ?? registration.waiting ?? registration.active;
+    if (!worker || worker.state === 'activated') {
+      return Boolean(worker);
+    }
+
+    // The preview frame is only controlled by the worker once it has activated
+    await new Promise<void>((resolve, reject) => {
+      const timer = window.setTimeout(() => reject(new Error('Preview service worker did not activate')), ACTIVATION_TIMEOUT);
+      worker.addEventListener('statechange', () => {
+        if (worker.state === 'activated') {
+          window.clearTimeout(timer);
+          resolve();
+        } else if (worker.state === 'redundant') {
+          window.clearTimeout(timer);
+          reject(new Error('Preview service worker was replaced during installation'));
+        }
+      });
+    });
+    return true;
+  }
+
+  /**
+   * Answer requests for a project's preview URLs; returns a function that stops serving
+   */
+  serve(projectId: string, handler: PreviewRequestHandler): () => void {
+    this.handlers.set(projectId, handler);
+    if (!this.channel && typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.addEventListener('message', event => {
+        void this.handleRequest(event.data as PreviewRequest);
+      });
+    }
+
+    return () => {
+      if (this.handlers.get(projectId) === handler) {
+        this.handlers.delete(projectId);
+      }
+    };
+  }
+
+  /** Path under which a project's files are served, without a trailing slash */
+  scopeUrl(projectId: string): string {
+    return `${PREVIEW_SCOPE}${encodeURIComponent(projectId)}`;
+  }
+
+  previewUrl(projectId: string, path: string): string {
+    return this.scopeUrl(projectId) + (path.startsWith('/') ? path : `/${path}`);
+  }
+
+  private async handleRequest(request: PreviewRequest): Promise<void> {
+    if (!request || request.type !== 'request') {
+      return;
+    }
+    // Another tab may have the project open; it answers instead
+    const handler = this.handlers.get(request.projectId);
+    if (!handler) {
+      return;
+    }
+
+    let served: ServedFile;
+    try {
+      served = await handler(request.path, { navigate: request.navigate });
+    } catch (error) {
+      logger.error(`[PreviewServiceWorker] Failed to serve ${request.path}`, error);
+      served = {
+        status: 500,
+        content: error instanceof Error ? error.message : String(error),
+        mimeType: 'text/plain'
+      };
+    }
+    this.channel?.postMessage({ type: 'response', id: request.id, ...served });
+  }
+}
+
+export const previewServiceWorker = new PreviewServiceWorker();
@@ -0,0 +1,93 @@
+import { transform, Transform } from 'sucrase';
+import { CompileDiagnostic } from './types';
+import { findImports } from './modules';
+
+export interface TranspileResult {
+  code: string;
+  /** Set when the file could not be compiled; `code` is then an empty placeholder */
+  diagnostic?: CompileDiagnostic;
+}
+
+const TRANSFORMS: Record<string, Transform[]> = {
+  ts: ['typescript'],
+  tsx: ['typescript', 'jsx'],
+  jsx: ['jsx']
+};
+
+function extensionOf(path: string): string {
+  return path.split('.').pop()?.toLowerCase() || '';
+}
+
+/**
+ * TypeScript and JSX files are compiled to plain JavaScript before the browser sees them
+ */
+export function needsTranspile(path: string): boolean {
+  return extensionOf(path) in TRANSFORMS;
+}
+
+/**
+ * Path a transpiled file is exported under: `app.tsx` becomes `app.js`
+ */
+export function transpiledPath(path: string): string {
+  return needsTranspile(path) ? path.replace(/\.[^./]+$/, '.js') : path;
+}
+
+function toBase64(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+// ES modules get the automatic JSX runtime, which imports react/jsx-runtime itself; classic
+// scripts can't import and keep React.createElement against a global React
+function isModule(source: string): boolean {
+  return findImports(source).length > 0 || /^\s*export\b/m.test(source);
+}
+
+/**
+ * Strip types and compile JSX. Line numbers are kept, so stack traces point at the right
+ * line of the original file even without the source map.
+ */
+export function transpile(path: string, source: string, options: { sourceMap?: boolean } = {}): TranspileResult {
+  const transforms = TRANSFORMS[extensionOf(path)];
+  if (!transforms) {
+    return { code: source };
+  }
+
+  try {
+    const result = transform(source, {
+      transforms,
+      filePath: path,
+      production: true,
+      jsxRuntime: isModule(source) ? 'automatic' : 'classic',
+      disableESTransforms: true,
+      sourceMapOptions: options.sourceMap ? { compiledFilename: transpiledPath(path) } : undefined
+    });
+
+    if (!result.sourceMap) {
+      return { code: result.code };
+    }
+    const map = { ...result.sourceMap, sources: [path], sourcesContent: [source] };
+    return { code: `${result.code}\n//# sourceMappingURL=data:application/json;charset=utf-8;base64,${toBase64(JSON.stringify(map))}\n` };
+  } catch (error) {
+    const loc = (error as { loc?: { line: number; column: number } }).loc;
+    // Sucrase wraps the message in the file name and position, which are reported separately
+    const message = (error instanceof Error ? error.message : String(error))
+      .replace(/^Error transforming [^:]+: /, '')
+      .replace(/\s*\(\d+:\d+\)$/, '');
+    const diagnostic: CompileDiagnostic = {
+      path,
+      message,
+      line: loc?.line,
+      column: loc ? loc.column + 1 : undefined
+    };
+    const position = loc ? `:${diagnostic.line}:${diagnostic.column}` : '';
+    return {
+      code: `/* ${path}${position} failed to compile: ${message.replace(/\*\//g, '* /')} */\n`,
+      diagnostic
+    };
+  }
+}
@@ -1,3 +1,5 @@
+import { ProjectConfig } from './project-config';
+
 export interface ProcessedFile {
   path: string;
   content: string | ArrayBuffer;
@@ -11,11 +13,40 @@ export interface Route {
   title?: string;
 }
 
+/**
+ * A problem found while building a file: TypeScript or JSX syntax errors, unresolved
+ * imports, import cycles
+ */
+export interface CompileDiagnostic {
+  path: string;
+  message: string;
+  /** Errors unless noted; warnings don't stop the file from running */
+  severity?: 'error' | 'warning';
+  line?: number;
+  column?: number;
+}
+
 export interface CompiledProject {
   entryPoint: string;
   files: ProcessedFile[];
   routes: Route[];
   blobUrls: Map<string, string>;
+  diagnostics: CompileDiagnostic[];
+  /** Settings from /osw.config.json, including the routing rules */
+  config: ProjectConfig;
+}
+
+/**
+ * Response to a request for a preview URL, served by the preview service worker
+ */
+export interface ServedFile {
+  status: number;
+  content: string | ArrayBuffer;
+  mimeType: string;
+  /** Project file that answered the request; unset for a 404 */
+  path?: string;
+  /** Project path to redirect to, e.g. `/blog/` for `/blog` */
+  redirect?: string;
 }
 
 export interface FocusContextPayload {
@@ -25,10 +56,34 @@ export interface FocusContextPayload {
   outerHTML: string;
 }
 
+export type PreviewLogLevel = 'log' | 'info' | 'warn' | 'error';
+
+/**
+ * Output reported by the console bridge running inside the preview
+ */
+export interface PreviewConsolePayload {
+  level: PreviewLogLevel;
+  /** console call, uncaught error, unhandled promise rejection or failed request */
+  kind: 'console' | 'error' | 'rejection' | 'network';
+  message: string;
+  source?: string;
+  line?: number;
+  column?: number;
+  stack?: string;
+}
+
+export interface PreviewConsoleEntry extends PreviewConsolePayload {
+  id: number;
+  timestamp: number;
+  /** Identical consecutive entries are collapsed into one */
+  count: number;
+}
+
 export type PreviewMessage =
   | { type: 'navigate'; path: string }
   | { type: 'reload' }
-  | { type: 'error'; error: string }
+  | { type: 'location'; path: string }
+  | { type: 'console'; entry: PreviewConsolePayload }
   | { type: 'selector-selection'; payload: FocusContextPayload }
   | { type: 'selector-cancelled' };
 
@@ -1,7 +1,32 @@
 import { VirtualFileSystem } from '../vfs';
 import { VirtualFile } from '../vfs/types';
-import { ProcessedFile, Route, CompiledProject } from './types';
+import { ProcessedFile, Route, CompiledProject, CompileDiagnostic, ServedFile } from './types';
+import { needsTranspile, transpile, transpiledPath } from './transpile';
+import {
+  ImportMap,
+  bareImportMap,
+  cycleKey,
+  findImports,
+  injectImportMap,
+  isBareSpecifier,
+  isCycle,
+  orderModules,
+  relativeSpecifier,
+  resolveModulePath,
+  resolveRelativePath,
+  rewriteImports
+} from './modules';
+import { moduleCache } from './module-cache';
+import { PROJECT_CONFIG_PATH, readProjectConfig } from './project-config';
+import { hasRouting, pageCandidates, resolveRoute, routingExportFiles } from './routing';
 import Handlebars from 'handlebars';
+import { logger } from '@/lib/utils';
+
+interface ServingState {
+  files: VirtualFile[];
+  modules: Map<string, ProcessedFile>;
+  compiled: CompiledProject;
+}
 
 export class VirtualServer {
   private vfs: VirtualFileSystem;
@@ -12,6 +37,10 @@ export class VirtualServer {
   private handlebars: typeof Handlebars;
   private templateCache: Map<string, HandlebarsTemplateDelegate> = new Map();
   private partialsRegistered: boolean = false;
+  private diagnostics: CompileDiagnostic[] = [];
+  private importMap: ImportMap = { imports: {} };
+  private pathCache: { files: VirtualFile[]; paths: Set<string> } | null = null;
+  private serving: Promise<ServingState> | null = null;
 
   constructor(vfs: VirtualFileSystem, projectId: string, existingBlobUrls?: Map<string, string>) {
     this.vfs = vfs;
@@ -130,17 +159,23 @@ export class VirtualServer {
     await this.registerPartials();
     
     const files = await this.vfs.listDirectory(this.projectId, '/');
+    const config = readProjectConfig(files);
+    this.diagnostics = [];
     
     const oldBlobUrls = new Map(this.blobUrls);
     const newBlobUrls = new Map<string, string>();
     const rawProcessedFiles: ProcessedFile[] = [];
+    const publish = (processedFile: ProcessedFile) => {
+      this.assignBlobUrl(processedFile, incrementalUpdate, oldBlobUrls, newBlobUrls);
+      return processedFile;
+    };
     
-    // First pass: Create blob URLs for all non-HTML files (images, JS, etc.)
+    // First pass: Create blob URLs for all non-HTML files (images, data, etc.)
     for (const file of files) {
       let processedFile: ProcessedFile;
       
-      // Skip template files and HTML files in first pass
-      if (file.type === 'template' || file.type === 'html' || file.type === 'css') {
+      // Skip template, HTML and CSS files, and modules, which are linked below
+      if (file.type === 'template' || file.type === 'html' || file.type === 'css' || file.type === 'js') {
         continue;
       }
       
@@ -150,8 +185,6 @@ export class VirtualServer {
           content: file.content,
           mimeType: file.mimeType
         };
-      } else if (file.type === 'js') {
-        processedFile = await this.processJS(file);
       } else {
         processedFile = {
           path: file.path,
@@ -160,24 +193,52 @@ export class VirtualServer {
         };
       }
       
-      const contentHash = this.hashContent(processedFile.content);
-      const previousHash = this.fileHashes.get(processedFile.path);
-      
-      if (incrementalUpdate && previousHash === contentHash && oldBlobUrls.has(processedFile.path)) {
-        const existingUrl = oldBlobUrls.get(processedFile.path)!;
-        newBlobUrls.set(processedFile.path, existingUrl);
-        processedFile.blobUrl = existingUrl;
-        oldBlobUrls.delete(processedFile.path);
-      } else {
-        const blob = new Blob([processedFile.content], { type: processedFile.mimeType });
-        const blobUrl = URL.createObjectURL(blob);
-        newBlobUrls.set(processedFile.path, blobUrl);
-        processedFile.blobUrl = blobUrl;
-        this.fileHashes.set(processedFile.path, contentHash);
+      rawProcessedFiles.push(publish(processedFile));
+    }
+
+    // Scripts get their blob URLs dependencies first, so project imports can be
+    // rewritten to the blob URLs of the files they import
+    const modules = new Map<string, ProcessedFile>();
+    for (const file of files) {
+      if (file.type === 'js') {
+        modules.set(file.path, await this.processJS(file));
+      }
+    }
+    const { graph, bareSpecifiers } = this.linkModules(modules, files);
+    const cycleImports: Record<string, string> = {};
+
+    for (const component of orderModules(graph)) {
+      const cyclic = isCycle(component, graph);
+      if (cyclic) {
+        this.reportCycle(component);
+      }
+
+      for (const path of component) {
+        const module = modules.get(path)!;
+        module.content = rewriteImports(module.content as string, specifier => {
+          const target = resolveModulePath(path, specifier, this.filePaths(files));
+          if (!target) return null;
+          // Modules in a cycle can't embed each other's blob URLs and go through the import map
+          if (cyclic && component.includes(target)) return cycleKey(target);
+          return newBlobUrls.get(target) ?? null;
+        });
+        rawProcessedFiles.push(publish(module));
+      }
+
+      if (cyclic) {
+        for (const path of component) {
+          cycleImports[cycleKey(path)] = newBlobUrls.get(path)!;
+        }
       }
-      
-      rawProcessedFiles.push(processedFile);
     }
+
+    this.collectPageSpecifiers(files, bareSpecifiers);
+    this.importMap = {
+      imports: {
+        ...(await moduleCache.resolve(bareImportMap(bareSpecifiers, config))),
+        ...cycleImports
+      }
+    };
     
     // Second pass: Process HTML files with available blob URLs
     for (const file of files) {
@@ -185,49 +246,13 @@ export class VirtualServer {
         continue;
       }
       
-      const processedFile = await this.processHTML(file, newBlobUrls);
-      
-      const contentHash = this.hashContent(processedFile.content);
-      const previousHash = this.fileHashes.get(processedFile.path);
-      
-      if (incrementalUpdate && previousHash === contentHash && oldBlobUrls.has(processedFile.path)) {
-        const existingUrl = oldBlobUrls.get(processedFile.path)!;
-        newBlobUrls.set(processedFile.path, existingUrl);
-        processedFile.blobUrl = existingUrl;
-        oldBlobUrls.delete(processedFile.path);
-      } else {
-        const blob = new Blob([processedFile.content], { type: processedFile.mimeType });
-        const blobUrl = URL.createObjectURL(blob);
-        newBlobUrls.set(processedFile.path, blobUrl);
-        processedFile.blobUrl = blobUrl;
-        this.fileHashes.set(processedFile.path, contentHash);
-      }
-      
-      rawProcessedFiles.push(processedFile);
+      rawProcessedFiles.push(publish(await this.processHTML(file, newBlobUrls)));
     }
     
     const processedFiles = [...rawProcessedFiles];
     for (const file of files) {
       if (file.type === 'css') {
-        const processedFile = await this.processCSS(file, newBlobUrls);
-        
-        const contentHash = this.hashContent(processedFile.content);
-        const previousHash = this.fileHashes.get(processedFile.path);
-        
-        if (incrementalUpdate && previousHash === contentHash && oldBlobUrls.has(processedFile.path)) {
-          const existingUrl = oldBlobUrls.get(processedFile.path)!;
-          newBlobUrls.set(processedFile.path, existingUrl);
-          processedFile.blobUrl = existingUrl;
-          oldBlobUrls.delete(processedFile.path);
-        } else {
-          const blob = new Blob([processedFile.content], { type: processedFile.mimeType });
-          const blobUrl = URL.createObjectURL(blob);
-          newBlobUrls.set(processedFile.path, blobUrl);
-          processedFile.blobUrl = blobUrl;
-          this.fileHashes.set(processedFile.path, contentHash);
-        }
-        
-        processedFiles.push(processedFile);
+        processedFiles.push(publish(await this.processCSS(file, newBlobUrls)));
       }
     }
     
@@ -247,10 +272,340 @@ export class VirtualServer {
       entryPoint: '/index.html',
       files: processedFiles,
       routes,
-      blobUrls: this.blobUrls
+      blobUrls: this.blobUrls,
+      diagnostics: this.diagnostics,
+      config
     };
   }
-  
+
+  /**
+   * Prepare the project for the service worker preview, which loads files from real URLs
+   * instead of blob URLs. Modules are transpiled up front to report diagnostics; pages are
+   * built per request in serve().
+   */
+  compileForServing(): Promise<CompiledProject> {
+    if (!this.serving) {
+      this.serving = this.prepareServing();
+    }
+    return this.serving.then(state => state.compiled);
+  }
+
+  private async prepareServing(): Promise<ServingState> {
+    await this.registerPartials();
+    const files = await this.vfs.listDirectory(this.projectId, '/');
+    const config = readProjectConfig(files);
+    this.diagnostics = [];
+
+    const modules = new Map<string, ProcessedFile>();
+    for (const file of files) {
+      if (file.type === 'js') {
+        modules.set(file.path, await this.processJS(file));
+      }
+    }
+    // Imports resolve natively here, cycles included, so the graph is only used for diagnostics
+    const { graph, bareSpecifiers } = this.linkModules(modules, files);
+    for (const component of orderModules(graph)) {
+      if (isCycle(component, graph)) {
+        this.reportCycle(component);
+      }
+    }
+    this.collectPageSpecifiers(files, bareSpecifiers);
+    this.importMap = { imports: await moduleCache.resolve(bareImportMap(bareSpecifiers, config)) };
+
+    return {
+      files,
+      modules,
+      compiled: {
+        entryPoint: '/index.html',
+        files: [...modules.values()],
+        routes: this.generateRoutes(files),
+        blobUrls: new Map(),
+        diagnostics: this.diagnostics,
+        config
+      }
+    };
+  }
+
+  /**
+   * Answer a request for a preview URL path, the way a static host would: routing rules from
+   * /osw.config.json, exact files, clean URLs (`/about` for about.html), directory index
+   * pages and module specifiers without extensions. Without routing rules, unknown pages get
+   * index.html so client-side routing works. Query strings and fragments are ignored.
+   */
+  async serve(requestPath: string, options: { navigate?: boolean } = {}): Promise<ServedFile> {
+    const { files, modules, compiled: { config } } = await (this.serving ?? (this.serving = this.prepareServing()));
+    const paths = this.filePaths(files);
+    const pathname = requestPath.split(/[?#]/)[0];
+    const query = requestPath.slice(pathname.length);
+
+    let path: string;
+    try {
+      path = resolveRelativePath('/', decodeURIComponent(pathname));
+    } catch {
+      path = resolveRelativePath('/', pathname);
+    }
+    if (path !== '/' && pathname.endsWith('/')) {
+      path += '/';
+    }
+
+    const findFile = (candidate: string) => pageCandidates(candidate).find(page => paths.has(page))
+      ?? (candidate.endsWith('/') ? null : resolveModulePath('/', candidate, paths));
+    const route = resolveRoute(path, config, findFile, options);
+
+    if (route.type === 'redirect') {
+      const location = route.location.includes('?') ? route.location : route.location + query;
+      return { status: route.status, content: '', mimeType: 'text/plain', redirect: location };
+    }
+
+    let target = route.type === 'file' ? route.path : null;
+    const status = route.type === 'file' ? route.status : 404;
+    // Relative URLs on a directory's index page resolve inside the directory only with the slash
+    if (options.navigate && config.trailingSlash === undefined && target === `${path}/index.html`) {
+      return { status: 302, content: '', mimeType: 'text/plain', redirect: `${path}/${query}` };
+    }
+    if (!target && options.navigate && !hasRouting(config) && !/\.[^/]+$/.test(path) && paths.has('/index.html')) {
+      target = '/index.html';
+    }
+    if (!target) {
+      return {
+        status: 404,
+        content: options.navigate ? `<!DOCTYPE html><html><head><title>Not found</title></head><body><h1>404</h1><p>${path.replace(/[<&]/g, '')} is not in this project.</p></body></html>` : `Not found: ${path}`,
+        mimeType: options.navigate ? 'text/html' : 'text/plain'
+      };
+    }
+
+    const module = modules.get(target);
+    if (module) {
+      return { status, content: module.content, mimeType: module.mimeType, path: target };
+    }
+
+    const file = files.find(candidate => candidate.path === target)!;
+    if (file.type === 'html') {
+      let content = await this.processHandlebarsTemplates(file.content as string);
+      content = injectImportMap(content, this.importMap);
+      return { status, content, mimeType: file.mimeType, path: target };
+    }
+    return { status, content: file.content, mimeType: file.mimeType, path: target };
+  }
+
+  private reportCycle(component: string[]): void {
+    this.diagnostics.push({
+      path: component[component.length - 1],
+      severity: 'warning',
+      message: `Circular imports between ${[...component].reverse().join(', ')}; values used before their module has run are undefined`
+    });
+  }
+
+  /**
+   * Bare specifiers imported by inline module scripts of the pages
+   */
+  private collectPageSpecifiers(files: VirtualFile[], bareSpecifiers: Set<string>): void {
+    for (const file of files) {
+      if (file.type === 'html') {
+        for (const { specifier } of findImports(file.content as string)) {
+          if (isBareSpecifier(specifier)) bareSpecifiers.add(specifier);
+        }
+      }
+    }
+  }
+
+  /**
+   * Reuse the blob URL of unchanged content on incremental updates, otherwise create one
+   */
+  private assignBlobUrl(
+    processedFile: ProcessedFile,
+    incrementalUpdate: boolean,
+    oldBlobUrls: Map<string, string>,
+    newBlobUrls: Map<string, string>
+  ): void {
+    const contentHash = this.hashContent(processedFile.content);
+    const previousHash = this.fileHashes.get(processedFile.path);
+    
+    if (incrementalUpdate && previousHash === contentHash && oldBlobUrls.has(processedFile.path)) {
+      const existingUrl = oldBlobUrls.get(processedFile.path)!;
+      newBlobUrls.set(processedFile.path, existingUrl);
+      processedFile.blobUrl = existingUrl;
+      oldBlobUrls.delete(processedFile.path);
+    } else {
+      const blob = new Blob([processedFile.content], { type: processedFile.mimeType });
+      const blobUrl = URL.createObjectURL(blob);
+      newBlobUrls.set(processedFile.path, blobUrl);
+      processedFile.blobUrl = blobUrl;
+      this.fileHashes.set(processedFile.path, contentHash);
+    }
+  }
+
+  private filePaths(files: VirtualFile[]): Set<string> {
+    if (this.pathCache?.files !== files) {
+      this.pathCache = { files, paths: new Set(files.map(file => file.path)) };
+    }
+    return this.pathCache.paths;
+  }
+
+  /**
+   * Import graph between project modules, and the bare specifiers they use. Imports that
+   * point nowhere are reported.
+   */
+  private linkModules(
+    modules: Map<string, ProcessedFile>,
+    files: VirtualFile[]
+  ): { graph: Map<string, string[]>; bareSpecifiers: Set<string> } {
+    const paths = this.filePaths(files);
+    const graph = new Map<string, string[]>();
+    const bareSpecifiers = new Set<string>();
+
+    for (const [path, module] of modules) {
+      const dependencies: string[] = [];
+      for (const { specifier } of findImports(module.content as string)) {
+        if (isBareSpecifier(specifier)) {
+          bareSpecifiers.add(specifier);
+          continue;
+        }
+        if (/^([a-z][a-z0-9+.-]*:|\/\/)/i.test(specifier)) {
+          continue;
+        }
+        const target = resolveModulePath(path, specifier, paths);
+        if (!target) {
+          this.diagnostics.push({ path, message: `Cannot resolve import '${specifier}'` });
+        } else if (modules.has(target) && !dependencies.includes(target)) {
+          dependencies.push(target);
+        }
+      }
+      graph.set(path, dependencies);
+    }
+
+    return { graph, bareSpecifiers };
+  }
+
+  /**
+   * Files as they are published: templates compiled, TypeScript and JSX transpiled to `.js`
+   * files, project imports pointing at the published files and an import map for packages.
+   * Unlike compileProject, no blob URLs or preview scripts.
+   */
+  async compileForExport(): Promise<{ files: ProcessedFile[]; diagnostics: CompileDiagnostic[] }> {
+    await this.registerPartials();
+    const files = await this.vfs.listDirectory(this.projectId, '/');
+    const config = readProjectConfig(files);
+    const paths = this.filePaths(files);
+    const diagnostics: CompileDiagnostic[] = [];
+
+    // app.tsx is published as app.js, unless the project already has an app.js
+    const published = new Map<string, string>();
+    for (const file of files) {
+      const target = transpiledPath(file.path);
+      if (file.type === 'js' && target !== file.path && !paths.has(target)) {
+        published.set(file.path, target);
+      }
+    }
+    const publishedPath = (path: string) => published.get(path) ?? path;
+
+    // Extensionless and TypeScript-style specifiers are spelled out, since a static host
+    // serves exactly the path it is asked for
+    // `at` is where the file is published, when that differs from where it is in the project
+    const rewriteModule = (from: string, code: string, at = publishedPath(from)) => rewriteImports(code, specifier => {
+      const target = resolveModulePath(from, specifier, paths);
+      if (!target) return null;
+      const suffix = specifier.slice(specifier.split(/[?#]/)[0].length);
+      return specifier.startsWith('/')
+        ? publishedPath(target) + suffix
+        : relativeSpecifier(at, publishedPath(target)) + suffix;
+    });
+    const directoryOf = (path: string) => path.substring(0, path.lastIndexOf('/') + 1);
+    const resolveReference = (from: string, url: string, at = from) => {
+      if (/^([a-z]+:|\/\/|#)/i.test(url)) return url;
+      const cut = url.search(/[?#]/);
+      const path = cut === -1 ? url : url.slice(0, cut);
+      const suffix = cut === -1 ? '' : url.slice(cut);
+      const resolved = resolveRelativePath(directoryOf(from), path);
+      const target = published.get(resolved);
+      if (path && !path.startsWith('/') && directoryOf(at) !== directoryOf(from)) {
+        const rebased = relativeSpecifier(at, target ?? resolved);
+        return rebased + (path.endsWith('/') && !rebased.endsWith('/') ? '/' : '') + suffix;
+      }
+      return target ? path.replace(/[^/]+$/, target.split('/').pop()!) + suffix : url;
+    };
+    const renderPage = async (file: VirtualFile, at = file.path) => {
+      const content = (await this.processHandlebarsTemplates(file.content as string)).replace(
+        /\b(src|href)=(["'])([^"']+)\2/g,
+        (match, attr: string, quote: string, url: string) => `${attr}=${quote}${resolveReference(file.path, url, at)}${quote}`
+      );
+      return this.rewriteInlineModules(content, code => rewriteModule(file.path, code, at));
+    };
+
+    // The 404 page is published as /404.html, which static hosts serve for unknown paths
+    const notFoundPath = config.notFound
+      ? pageCandidates(config.notFound).find(path => files.some(file => file.path === path && file.type === 'html'))
+      : undefined;
+    const copyNotFound = notFoundPath !== undefined && notFoundPath !== '/404.html';
+    if (copyNotFound && paths.has('/404.html')) {
+      logger.warn(`Export: keeping the project's own /404.html instead of copying ${notFoundPath} from ${PROJECT_CONFIG_PATH}`);
+    }
+
+    const bareSpecifiers = new Set<string>();
+    const collectBare = (code: string) => {
+      for (const { specifier } of findImports(code)) {
+        if (isBareSpecifier(specifier)) bareSpecifiers.add(specifier);
+      }
+    };
+
+    const processed: ProcessedFile[] = [];
+    const pages: ProcessedFile[] = [];
+    for (const file of files) {
+      if (file.type === 'html') {
+        const content = await renderPage(file);
+        collectBare(content);
+        const page = { path: file.path, content, mimeType: file.mimeType };
+        pages.push(page);
+        processed.push(page);
+        // Relative references are rebased, since the copy is served from the root
+        if (copyNotFound && file.path === notFoundPath && !paths.has('/404.html')) {
+          const copy = { path: '/404.html', content: await renderPage(file, '/404.html'), mimeType: file.mimeType };
+          pages.push(copy);
+          processed.push(copy);
+        }
+      } else if (file.type === 'js') {
+        const result = transpile(file.path, file.content as string);
+        if (result.diagnostic) {
+          diagnostics.push(result.diagnostic);
+        }
+        collectBare(result.code);
+        processed.push({
+          path: publishedPath(file.path),
+          content: rewriteModule(file.path, result.code),
+          mimeType: needsTranspile(file.path) ? 'application/javascript' : file.mimeType
+        });
+      } else {
+        processed.push({ path: file.path, content: file.content, mimeType: file.mimeType });
+      }
+    }
+
+    const importMap: ImportMap = { imports: bareImportMap(bareSpecifiers, config) };
+    for (const page of pages) {
+      page.content = injectImportMap(page.content as string, importMap);
+    }
+
+    // Routing rules are published as hosting config
+    for (const file of routingExportFiles(config)) {
+      if (paths.has(file.path)) {
+        logger.warn(`Export: keeping the project's own ${file.path} instead of generating it from ${PROJECT_CONFIG_PATH}`);
+        continue;
+      }
+      processed.push({ ...file, mimeType: file.path.endsWith('.json') ? 'application/json' : 'text/plain' });
+    }
+
+    return { files: processed, diagnostics };
+  }
+
+  /**
+   * Apply `rewrite` to the code of inline `<script type="module">` elements
+   */
+  private rewriteInlineModules(html: string, rewrite: (code: string) => string): string {
+    return html.replace(
+      /(<script\b[^>]*\btype=["']module["'][^>]*>)([\s\S]*?)(<\/script>)/gi,
+      (match, open: string, code: string, close: string) => (/\bsrc=/i.test(open) ? match : open + rewrite(code) + close)
+    );
+  }
+
   private hashContent(content: string | ArrayBuffer): string {
     let hash = 0;
     
@@ -307,6 +662,14 @@ export class VirtualServer {
     
     // Then process internal references with available blob URLs
     content = await this.processInternalReferences(content, blobUrls);
+
+    // Inline modules run from the srcdoc document, where relative imports don't resolve
+    const urlMap = blobUrls || this.blobUrls;
+    content = this.rewriteInlineModules(content, code => rewriteImports(code, specifier => {
+      const target = resolveModulePath(file.path, specifier, new Set(urlMap.keys()));
+      return target ? urlMap.get(target) ?? null : null;
+    }));
+    content = injectImportMap(content, this.importMap);
     
     // Inject VFS asset interceptor for transparent HTTP requests
     // Always inject the interceptor, even if no blob URLs yet (for future dynamic loading)
@@ -633,6 +996,18 @@ export class VirtualServer {
   private async processJS(file: VirtualFile): Promise<ProcessedFile> {
     const content = file.content as string;
 
+    if (needsTranspile(file.path)) {
+      const result = transpile(file.path, content, { sourceMap: true });
+      if (result.diagnostic) {
+        this.diagnostics.push(result.diagnostic);
+      }
+      return {
+        path: file.path,
+        content: result.code,
+        mimeType: 'application/javascript'
+      };
+    }
+
     return {
       path: file.path,
       content,
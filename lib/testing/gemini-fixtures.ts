@@ -0,0 +1,175 @@
+import { GeminiRequestFixture, ReplayTranscript } from './types';
+
+/**
+ * Gemini streams recorded from `streamGenerateContent?alt=sse`, trimmed to the events that matter
+ */
+export const geminiTranscripts: ReplayTranscript[] = [
+  {
+    id: 'gemini-function-call',
+    name: 'Gemini: text, functionCall and usageMetadata (CRLF framing)',
+    provider: 'gemini',
+    // Gemini frames its events with CRLF
+    sse: String.raw`data: {"candidates": [{"content": {"parts": [{"text": "Adding the contact form now."}],"role": "model"},"index": 0}],"usageMetadata": {"promptTokenCount": 1203,"totalTokenCount": 1203},"modelVersion": "gemini-2.5-flash"}
+
+data: {"candidates": [{"content": {"parts": [{"functionCall": {"name": "shell","args": {"cmd": ["mkdir","-p","/pages"]}}}],"role": "model"},"finishReason": "STOP","index": 0}],"usageMetadata": {"promptTokenCount": 1203,"candidatesTokenCount": 27,"totalTokenCount": 1261,"thoughtsTokenCount": 31},"modelVersion": "gemini-2.5-flash"}
+
+`.replace(/\n/g, '\r\n'),
+    expected: {
+      content: 'Adding the contact form now.',
+      toolCalls: [{ name: 'shell', arguments: { cmd: ['mkdir', '-p', '/pages'] } }],
+      // Thinking tokens are billed as output
+      usage: { promptTokens: 1203, completionTokens: 58 }
+    }
+  },
+  {
+    id: 'gemini-parallel-calls-and-thoughts',
+    name: 'Gemini: thought summaries skipped, two functionCalls in one event',
+    provider: 'gemini',
+    sse: String.raw`data: {"candidates": [{"content": {"parts": [{"text": "The user wants the header and styles checked.","thought": true},{"text": "Reading both files."}],"role": "model"},"index": 0}],"usageMetadata": {"promptTokenCount": 912,"totalTokenCount": 912},"modelVersion": "gemini-2.5-pro"}
+
+data: {"candidates": [{"content": {"parts": [{"functionCall": {"name": "shell","args": {"cmd": ["cat","/index.html"]}}},{"functionCall": {"name": "shell","args": {"cmd": ["cat","/styles.css"]}}}],"role": "model"},"finishReason": "STOP","index": 0}],"usageMetadata": {"promptTokenCount": 912,"candidatesTokenCount": 44,"totalTokenCount": 956},"modelVersion": "gemini-2.5-pro"}
+
+`,
+    expected: {
+      content: 'Reading both files.',
+      toolCalls: [
+        { name: 'shell', arguments: { cmd: ['cat', '/index.html'] } },
+        { name: 'shell', arguments: { cmd: ['cat', '/styles.css'] } }
+      ],
+      usage: { promptTokens: 912, completionTokens: 44 }
+    }
+  },
+  {
+    id: 'gemini-call-id-and-split-text',
+    name: 'Gemini: text across events, functionCall id kept, missing args',
+    provider: 'gemini',
+    sse: String.raw`data: {"candidates": [{"content": {"parts": [{"text": "Café menu "}],"role": "model"},"index": 0}]}
+
+data: {"candidates": [{"content": {"parts": [{"text": "is ready — checking the logs."}],"role": "model"},"index": 0}]}
+
+data: {"candidates": [{"content": {"parts": [{"functionCall": {"id": "fc_7","name": "read_preview_logs"}}],"role": "model"},"finishReason": "STOP","index": 0}],"usageMetadata": {"promptTokenCount": 640,"candidatesTokenCount": 18,"totalTokenCount": 658}}
+
+`,
+    expected: {
+      content: 'Café menu is ready — checking the logs.',
+      toolCalls: [{ id: 'fc_7', name: 'read_preview_logs', arguments: {} }],
+      usage: { promptTokens: 640, completionTokens: 18 }
+    }
+  }
+];
+
+/**
+ * Chat histories and tool definitions with the `streamGenerateContent` body they must produce
+ */
+export const geminiRequestFixtures: GeminiRequestFixture[] = [
+  {
+    id: 'gemini-request-tool-round-trip',
+    name: 'Gemini request: system instruction, functionCall/functionResponse pairs by tool_call_id',
+    options: {
+      messages: [
+        { role: 'system', content: 'You build static sites.' },
+        { role: 'user', content: 'Add a contact page' },
+        {
+          role: 'assistant',
+          content: '',
+          tool_calls: [
+            { id: 'call_1', type: 'function', function: { name: 'shell', arguments: '{"cmd":["ls","/"]}' } },
+            { id: 'call_2', type: 'function', function: { name: 'read_preview_logs', arguments: '' } }
+          ]
+        },
+        { role: 'tool', tool_call_id: 'call_1', content: 'index.html\nstyles.css' },
+        { role: 'tool', tool_call_id: 'call_2', content: '{"errors":0}' },
+        { role: 'assistant', content: 'The contact page is in place.' }
+      ],
+      maxTokens: 4096
+    },
+    expected: {
+      contents: [
+        { role: 'user', parts: [{ text: 'Add a contact page' }] },
+        {
+          role: 'model',
+          parts: [
+            { functionCall: { name: 'shell', args: { cmd: ['ls', '/'] } } },
+            { functionCall: { name: 'read_preview_logs', args: {} } }
+          ]
+        },
+        // Both results go back in a single user turn, since Gemini expects turns to alternate
+        {
+          role: 'user',
+          parts: [
+            { functionResponse: { name: 'shell', response: { output: 'index.html\nstyles.css' } } },
+            { functionResponse: { name: 'read_preview_logs', response: { errors: 0 } } }
+          ]
+        },
+        { role: 'model', parts: [{ text: 'The contact page is in place.' }] }
+      ],
+      systemInstruction: { parts: [{ text: 'You build static sites.' }] },
+      generationConfig: { maxOutputTokens: 4096 }
+    }
+  },
+  {
+    id: 'gemini-request-forced-tool',
+    name: 'Gemini request: schema reduced to the supported subset, forced tool choice',
+    options: {
+      messages: [{ role: 'user', content: 'List the files' }],
+      tools: [
+        {
+          name: 'shell',
+          description: 'Run a shell command',
+          parameters: {
+            type: 'object',
+            properties: {
+              cmd: { type: 'array', description: 'argv', items: { type: 'string' } },
+              cwd: { description: 'Working directory', oneOf: [{ type: 'string' }] }
+            },
+            required: ['cmd']
+          }
+        },
+        { name: 'read_preview_logs', description: '', parameters: { type: 'object', properties: {} } }
+      ],
+      toolChoice: { type: 'function', function: { name: 'shell' } },
+      temperature: 0.2
+    },
+    expected: {
+      contents: [{ role: 'user', parts: [{ text: 'List the files' }] }],
+      tools: [{
+        functionDeclarations: [
+          {
+            name: 'shell',
+            description: 'Run a shell command',
+            parameters: {
+              type: 'object',
+              properties: {
+                cmd: { type: 'array', description: 'argv', items: { type: 'string' } },
+                cwd: { description: 'Working directory' }
+              },
+              required: ['cmd']
+            }
+          },
+          // Declarations without properties are sent without parameters
+          { name: 'read_preview_logs', description: '' }
+        ]
+      }],
+      toolConfig: { functionCallingConfig: { mode: 'ANY', allowedFunctionNames: ['shell'] } },
+      generationConfig: { temperature: 0.2 }
+    }
+  },
+  {
+    id: 'gemini-request-tools-disabled',
+    name: 'Gemini request: consecutive user messages merged, tool_choice none',
+    options: {
+      messages: [
+        { role: 'user', content: 'Here is the brief.' },
+        { role: 'user', content: 'Summarize it without tools.' }
+      ],
+      tools: [{ name: 'shell', description: 'Run a shell command', parameters: { type: 'object', properties: {} } }],
+      toolChoice: 'none'
+    },
+    expected: {
+      contents: [{ role: 'user', parts: [{ text: 'Here is the brief.' }, { text: 'Summarize it without tools.' }] }],
+      tools: [{ functionDeclarations: [{ name: 'shell', description: 'Run a shell command' }] }],
+      toolConfig: { functionCallingConfig: { mode: 'NONE' } },
+      generationConfig: {}
+    }
+  }
+];
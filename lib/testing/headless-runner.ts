@@ -0,0 +1,286 @@
+/**
+ * Headless test runner - replays test scenarios through the orchestrator in Node.
+ * Files live in memory unless another storage backend was set, the model is either the
+ * scripted mock server or a running OSW Studio instance, and results are validated with jsdom.
+ */
+
+import { vfs } from '@/lib/vfs';
+import { MemoryStorageBackend } from '@/lib/vfs/memory-storage';
+import { configManager } from '@/lib/config/storage';
+import { Orchestrator, OrchestratorMessage } from '@/lib/llm/orchestrator';
+import { contentText } from '@/lib/llm/message-content';
+import { ProviderId } from '@/lib/llm/providers/types';
+import { MockLLMServer } from './mock-llm-server';
+import { getMockScript } from './mock-scripts';
+import { testScenarios } from './test-scenarios';
+import { validateScenarioFiles } from './validation';
+import { TestConfig, TestResult, TestScenario, TestSuiteResult, ValidationResult } from './types';
+
+const DEFAULT_TIMEOUT = 120000;
+const MOCK_PROVIDER: ProviderId = 'lmstudio';
+const MOCK_MODEL = 'mock';
+
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+  [name: string]: unknown;
+
+  get length(): number {
+    return this.items.size;
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  key(index: number): string | null {
+    return Array.from(this.items.keys())[index] ?? null;
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, String(value));
+  }
+}
+
+/**
+ * The browser globals the orchestrator and VFS rely on: `window` for events and the
+ * /api/generate origin, and `localStorage` for settings
+ */
+function installBrowserGlobals(origin: string) {
+  const globals = globalThis as Record<string, unknown>;
+  if (!globals.localStorage) {
+    globals.localStorage = new MemoryStorage();
+  }
+  const target = (globals.window as EventTarget | undefined) ?? new EventTarget();
+  globals.window = Object.assign(target, {
+    location: new URL(origin),
+    localStorage: globals.localStorage
+  });
+}
+
+function textFiles(files: Awaited<ReturnType<typeof vfs.listDirectory>>): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const file of files) {
+    if (typeof file.content === 'string') {
+      result[file.path] = file.content;
+    }
+  }
+  return result;
+}
+
+function describeValidation(validation: ValidationResult): string[] {
+  return [
+    ...(validation.syntaxErrors || []).map(error => `Syntax error: ${error}`),
+    ...(validation.missingElements || []).map(selector => `Missing element: ${selector}`),
+    ...(validation.missingPatterns || []).map(pattern => `Missing pattern: ${pattern}`),
+    ...(validation.functionalityErrors || []).map(error => `Runtime error: ${error}`)
+  ];
+}
+
+async function runScenario(
+  scenario: TestScenario,
+  config: TestConfig,
+  provider: string,
+  model: string,
+  mock: MockLLMServer | null
+): Promise<TestResult> {
+  const startTime = Date.now();
+  const errors: string[] = [];
+  const project = await vfs.createProject(`Test: ${scenario.name}`);
+  const setupFiles = scenario.setupFiles || {};
+  let llmCalls = 0;
+
+  try {
+    for (const [path, content] of Object.entries(setupFiles)) {
+      await vfs.createFile(project.id, path, content);
+    }
+
+    if (mock) {
+      mock.load(getMockScript(scenario.id)?.turns || []);
+    }
+
+    const existingConversation: OrchestratorMessage[] | undefined = config.systemPrompt
+      ? [{ role: 'system', content: config.systemPrompt }]
+      : undefined;
+    const orchestrator = new Orchestrator(project.id, existingConversation, (message, step) => {
+      if (message === 'iteration') {
+        llmCalls++;
+      } else if (config.verbose && message === 'tool_status') {
+        console.log(`  [${scenario.id}]`, JSON.stringify(step));
+      }
+    }, { model });
+
+    const timeout = scenario.timeout ?? config.timeout ?? DEFAULT_TIMEOUT;
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      orchestrator.stop();
+    }, timeout);
+
+    let result;
+    try {
+      result = await orchestrator.execute(scenario.prompt);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (timedOut) {
+      errors.push(`Timed out after ${timeout}ms`);
+    } else if (!result.success) {
+      errors.push(`Run failed: ${result.summary}`);
+    }
+
+    const files = textFiles(await vfs.listDirectory(project.id, '/'));
+    const validation = await validateScenarioFiles(scenario, files);
+    errors.push(...describeValidation(validation));
+
+    const assistantMessages = result.conversation.filter(msg => msg.role === 'assistant');
+    return {
+      id: `${scenario.id}-${startTime}`,
+      scenario: scenario.id,
+      category: scenario.category,
+      prompt: scenario.prompt,
+      success: errors.length === 0,
+      filesModified: Object.keys(files).filter(path => path in setupFiles && files[path] !== setupFiles[path]),
+      filesCreated: Object.keys(files).filter(path => !(path in setupFiles)),
+      errors,
+      executionTime: Date.now() - startTime,
+      llmCalls: mock ? mock.requests : llmCalls,
+      validationResults: validation,
+      timestamp: new Date().toISOString(),
+      provider,
+      model,
+      toolCalls: assistantMessages.flatMap(msg => (msg.tool_calls || []).map(call => ({
+        name: call.function.name,
+        arguments: call.function.arguments
+      }))),
+      llmResponses: assistantMessages.map(msg => contentText(msg.content)).filter(Boolean),
+      generatedContent: files
+    };
+  } catch (error) {
+    errors.push(error instanceof Error ? error.message : String(error));
+    return {
+      id: `${scenario.id}-${startTime}`,
+      scenario: scenario.id,
+      category: scenario.category,
+      prompt: scenario.prompt,
+      success: false,
+      filesModified: [],
+      filesCreated: [],
+      errors,
+      executionTime: Date.now() - startTime,
+      llmCalls,
+      validationResults: {
+        syntaxValid: false,
+        domElementsPresent: false,
+        patternsFound: false,
+        functionalityWorks: false
+      },
+      timestamp: new Date().toISOString(),
+      provider,
+      model
+    };
+  } finally {
+    await vfs.deleteProject(project.id).catch(() => undefined);
+  }
+}
+
+/**
+ * Totals, per-category counts and the most frequent failure kinds
+ */
+export function summarizeResults(results: TestResult[]): TestSuiteResult['summary'] {
+  const passed = results.filter(result => result.success).length;
+  const byCategory: Record<string, { total: number; passed: number; failed: number }> = {};
+  const failures = new Map<string, string[]>();
+
+  for (const result of results) {
+    const category = byCategory[result.category] ??= { total: 0, passed: 0, failed: 0 };
+    category.total++;
+    if (result.success) {
+      category.passed++;
+    } else {
+      category.failed++;
+    }
+
+    for (const error of result.errors) {
+      const type = error.split(':')[0];
+      const examples = failures.get(type) ?? [];
+      examples.push(`${result.scenario}: ${error}`);
+      failures.set(type, examples);
+    }
+  }
+
+  return {
+    total: results.length,
+    passed,
+    failed: results.length - passed,
+    successRate: results.length > 0 ? passed / results.length : 0,
+    averageTime: results.length > 0
+      ? results.reduce((sum, result) => sum + result.executionTime, 0) / results.length
+      : 0,
+    byCategory,
+    commonFailures: Array.from(failures.entries())
+      .map(([type, examples]) => ({ type, count: examples.length, examples: examples.slice(0, 3) }))
+      .sort((a, b) => b.count - a.count)
+  };
+}
+
+/**
+ * Run scenarios one after another against the mock server (default) or the
+ * /api/generate route of a running instance at `config.apiUrl`
+ */
+export async function runHeadlessSuite(
+  config: TestConfig = {},
+  scenarios: TestScenario[] = testScenarios
+): Promise<TestSuiteResult> {
+  const mock = config.apiUrl ? null : new MockLLMServer();
+  const origin = mock ? await mock.start() : config.apiUrl!;
+
+  try {
+    installBrowserGlobals(origin);
+    if (vfs.getBackend().kind === 'indexeddb') {
+      vfs.useBackend(new MemoryStorageBackend());
+    }
+    await vfs.init();
+
+    const provider = (mock ? MOCK_PROVIDER : config.provider || configManager.getSelectedProvider()) as ProviderId;
+    const model = mock ? config.model || MOCK_MODEL : config.model || configManager.getProviderModel(provider) || '';
+    configManager.setSelectedProvider(provider);
+    if (config.apiKey) {
+      configManager.setProviderApiKey(provider, config.apiKey);
+    }
+    if (model) {
+      configManager.setProviderModel(provider, model);
+    }
+
+    const selected = scenarios.filter(scenario => config.scenarios
+      ? config.scenarios.includes(scenario.id)
+      : !mock || getMockScript(scenario.id));
+
+    const results: TestResult[] = [];
+    for (const scenario of selected) {
+      if (config.verbose) {
+        console.log(`Running ${scenario.id} (${provider}/${model})`);
+      }
+      results.push(await runScenario(scenario, config, provider, model, mock));
+    }
+
+    return {
+      timestamp: new Date().toISOString(),
+      provider,
+      model,
+      promptVersion: config.promptVersion,
+      results,
+      summary: summarizeResults(results)
+    };
+  } finally {
+    await mock?.stop();
+  }
+}
@@ -0,0 +1,134 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { MockTurn } from './types';
+
+// Answer once the script runs out, so a run always ends instead of waiting on the server
+const FALLBACK_TURN: MockTurn = { content: 'Done.' };
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Encode a turn as an OpenAI-compatible chat completion stream, the format
+ * /api/generate passes through for OpenAI-style providers
+ */
+function toSSE(turn: MockTurn, promptChars: number, turnIndex: number): string {
+  const id = `mock-${turnIndex}`;
+  const events: unknown[] = [];
+  const chunk = (delta: unknown, finishReason: string | null = null) => ({
+    id,
+    object: 'chat.completion.chunk',
+    model: 'mock',
+    choices: [{ index: 0, delta, finish_reason: finishReason }]
+  });
+
+  if (turn.content) {
+    events.push(chunk({ role: 'assistant', content: turn.content }));
+  }
+  const toolCalls = turn.toolCalls || [];
+  toolCalls.forEach((call, index) => {
+    events.push(chunk({
+      tool_calls: [{
+        index,
+        id: `call_${turnIndex}_${index}`,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+      }]
+    }));
+  });
+
+  const completionChars = (turn.content?.length ?? 0) + JSON.stringify(toolCalls).length;
+  events.push({
+    ...chunk({}, toolCalls.length > 0 ? 'tool_calls' : 'stop'),
+    usage: {
+      prompt_tokens: Math.ceil(promptChars / 4),
+      completion_tokens: Math.ceil(completionChars / 4),
+      total_tokens: Math.ceil((promptChars + completionChars) / 4)
+    }
+  });
+
+  return events.map(event => `data: ${JSON.stringify(event)}\n\n`).join('') + 'data: [DONE]\n\n';
+}
+
+/**
+ * Local stand-in for the app's /api/generate route that answers with scripted turns.
+ * Lets the orchestrator run end to end in Node without a provider or API key.
+ */
+export class MockLLMServer {
+  private server: Server | null = null;
+  private turns: MockTurn[] = [];
+  private served = 0;
+  private requestCount = 0;
+
+  get url(): string {
+    const address = this.server?.address() as AddressInfo | null;
+    if (!address) {
+      throw new Error('Mock LLM server is not running');
+    }
+    return `http://127.0.0.1:${address.port}`;
+  }
+
+  /** Requests answered since the script was loaded */
+  get requests(): number {
+    return this.requestCount;
+  }
+
+  async start(port = 0): Promise<string> {
+    if (this.server) return this.url;
+
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }));
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, '127.0.0.1', () => resolve());
+    });
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  /**
+   * Replace the script; turns are served in order, one per request
+   */
+  load(turns: MockTurn[]): void {
+    this.turns = turns;
+    this.served = 0;
+    this.requestCount = 0;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.method !== 'POST' || req.url !== '/api/generate') {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: `Not found: ${req.method} ${req.url}` }));
+      return;
+    }
+
+    const body = await readBody(req);
+    this.requestCount++;
+    const turn = this.turns[this.served] ?? FALLBACK_TURN;
+    const turnIndex = this.served++;
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+    res.end(toSSE(turn, body.length, turnIndex));
+  }
+}
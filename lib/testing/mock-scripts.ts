@@ -0,0 +1,200 @@
+import { MockScript, MockTurn } from './types';
+
+function finished(summary: string): MockTurn {
+  return {
+    toolCalls: [{
+      name: 'evaluation',
+      arguments: {
+        goal_achieved: true,
+        progress_summary: summary,
+        remaining_work: [],
+        blockers: [],
+        reasoning: 'All requested changes are in place.',
+        should_continue: false
+      }
+    }]
+  };
+}
+
+/**
+ * Replace the template's inline script with links to the project's stylesheet and script
+ */
+const linkAssets: MockTurn['toolCalls'] = [{
+  name: 'json_patch',
+  arguments: {
+    file_path: '/index.html',
+    operations: [
+      { type: 'update', oldStr: '</head>', newStr: '    <link rel="stylesheet" href="styles.css">\n</head>' },
+      {
+        type: 'update',
+        oldStr: "<script>\n        // console.log('App loaded');\n    </script>",
+        newStr: '<script src="script.js"></script>'
+      }
+    ]
+  }
+}];
+
+/**
+ * Scripted model behaviour for the quick scenarios: what a capable model does, step by step.
+ * Run against the mock server to check the orchestrator, tools and validation end to end.
+ */
+export const mockScripts: MockScript[] = [
+  {
+    scenarioId: 'style-background-gradient',
+    turns: [
+      { content: "I'll look at the current styles first.", toolCalls: [{ name: 'shell', arguments: { cmd: ['cat', '/styles.css'] } }] },
+      {
+        toolCalls: [{
+          name: 'json_patch',
+          arguments: {
+            file_path: '/styles.css',
+            operations: [{
+              type: 'update',
+              oldStr: '/* Additional styles */',
+              newStr: '/* Additional styles */\nbody {\n    min-height: 100vh;\n    background: linear-gradient(135deg, #ff8c42, #e65100);\n}\n'
+            }]
+          }
+        }]
+      },
+      {
+        toolCalls: [{
+          name: 'json_patch',
+          arguments: {
+            file_path: '/index.html',
+            operations: [{ type: 'update', oldStr: '</head>', newStr: '    <link rel="stylesheet" href="styles.css">\n</head>' }]
+          }
+        }]
+      },
+      finished('Set the body background to a linear gradient from #ff8c42 to #e65100 and linked styles.css.'),
+      { content: 'The page background is now an orange gradient.' }
+    ]
+  },
+  {
+    scenarioId: 'ui-hamburger-menu',
+    turns: [
+      {
+        content: 'Reading the project files.',
+        toolCalls: [
+          { name: 'shell', arguments: { cmd: ['cat', '/index.html'] } },
+          { name: 'shell', arguments: { cmd: ['cat', '/styles.css', '/script.js'] } }
+        ]
+      },
+      {
+        toolCalls: [{
+          name: 'json_patch',
+          arguments: {
+            file_path: '/index.html',
+            operations: [{
+              type: 'update',
+              oldStr: '    <nav>\n        <ul>',
+              newStr: '    <nav>\n        <button class="hamburger" aria-label="Toggle menu" aria-expanded="false">&#9776;</button>\n        <ul class="nav-links">'
+            }]
+          }
+        }]
+      },
+      { toolCalls: linkAssets },
+      {
+        toolCalls: [{
+          name: 'json_patch',
+          arguments: {
+            file_path: '/styles.css',
+            operations: [{
+              type: 'update',
+              oldStr: '.btn:hover {\n    background: #0056b3;\n}',
+              newStr: '.btn:hover {\n    background: #0056b3;\n}\n\n.hamburger {\n    display: none;\n    background: none;\n    border: none;\n    color: white;\n    font-size: 1.5rem;\n    cursor: pointer;\n}\n\n@media (max-width: 768px) {\n    .hamburger {\n        display: block;\n    }\n    nav .nav-links {\n        display: none;\n        flex-direction: column;\n        gap: 1rem;\n        margin-top: 1rem;\n    }\n    nav .nav-links.open {\n        display: flex;\n    }\n}'
+            }]
+          }
+        }]
+      },
+      {
+        toolCalls: [{
+          name: 'json_patch',
+          arguments: {
+            file_path: '/script.js',
+            operations: [{
+              type: 'update',
+              oldStr: "    const navLinks = document.querySelectorAll('nav a');",
+              newStr: "    const hamburger = document.querySelector('.hamburger');\n    const navList = document.querySelector('.nav-links');\n    hamburger.addEventListener('click', function() {\n        const open = navList.classList.toggle('open');\n        hamburger.setAttribute('aria-expanded', String(open));\n    });\n\n    const navLinks = document.querySelectorAll('nav a');"
+            }]
+          }
+        }]
+      },
+      finished('Added a hamburger button that toggles the navigation below 768px.'),
+      { content: 'The navbar now collapses into a hamburger menu on small screens.' }
+    ]
+  },
+  {
+    scenarioId: 'style-inline-entities',
+    turns: [
+      { toolCalls: [{ name: 'shell', arguments: { cmd: ['cat', '/index.html'] } }] },
+      {
+        toolCalls: [{
+          name: 'json_patch',
+          arguments: {
+            file_path: '/index.html',
+            operations: [
+              { type: 'replace_entity', selector: '.card', replacement: '.card { padding: 2rem; border-radius: 8px; }' },
+              {
+                type: 'replace_entity',
+                selector: 'function calc(',
+                replacement: 'function calc(price, qty) { return Math.round(price * qty); }'
+              }
+            ]
+          }
+        }]
+      },
+      finished('Gave .card 2rem padding and rounded corners and made calc() round its result.'),
+      { content: 'The card styles and calc() are updated.' }
+    ]
+  },
+  {
+    scenarioId: 'js-countdown-timer',
+    turns: [
+      { toolCalls: [{ name: 'shell', arguments: { cmd: ['cat', '/index.html', '/script.js'] } }] },
+      {
+        toolCalls: [{
+          name: 'json_patch',
+          arguments: {
+            file_path: '/index.html',
+            operations: [{
+              type: 'update',
+              oldStr: '<p>This is a test application for validating code generation.</p>',
+              newStr: '<p>This is a test application for validating code generation.</p>\n        <section class="countdown">\n            <div id="timer" class="timer-display">60</div>\n            <button id="start-btn">Start</button>\n            <button id="stop-btn">Stop</button>\n            <button id="reset-btn">Reset</button>\n        </section>'
+            }]
+          }
+        }]
+      },
+      {
+        toolCalls: [{
+          name: 'json_patch',
+          arguments: {
+            file_path: '/index.html',
+            operations: [{
+              type: 'update',
+              oldStr: "<script>\n        // console.log('App loaded');\n    </script>",
+              newStr: '<script src="script.js"></script>'
+            }]
+          }
+        }]
+      },
+      {
+        toolCalls: [{
+          name: 'json_patch',
+          arguments: {
+            file_path: '/script.js',
+            operations: [{
+              type: 'rewrite',
+              content: "document.addEventListener('DOMContentLoaded', function() {\n    const display = document.getElementById('timer');\n    let remaining = 60;\n    let countdown = null;\n\n    function render() {\n        display.textContent = String(remaining);\n    }\n\n    function stop() {\n        clearInterval(countdown);\n        countdown = null;\n    }\n\n    document.getElementById('start-btn').addEventListener('click', function() {\n        if (countdown || remaining === 0) return;\n        countdown = setInterval(function() {\n            remaining -= 1;\n            render();\n            if (remaining === 0) stop();\n        }, 1000);\n    });\n\n    document.getElementById('stop-btn').addEventListener('click', stop);\n\n    document.getElementById('reset-btn').addEventListener('click', function() {\n        stop();\n        remaining = 60;\n        render();\n    });\n\n    render();\n});\n"
+            }]
+          }
+        }]
+      },
+      finished('Added a 60 second countdown with start, stop and reset buttons.'),
+      { content: 'The countdown timer is ready.' }
+    ]
+  }
+];
+
+export function getMockScript(scenarioId: string): MockScript | undefined {
+  return mockScripts.find(script => script.scenarioId === scenarioId);
+}
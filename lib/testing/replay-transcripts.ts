@@ -0,0 +1,182 @@
+import { ReplayTranscript } from './types';
+import { geminiTranscripts } from './gemini-fixtures';
+
+/**
+ * Streaming responses recorded from each provider family, trimmed to the events that matter.
+ * Replayed offline through the adapters so parser changes can be checked without API keys.
+ */
+export const replayTranscripts: ReplayTranscript[] = [
+  {
+    id: 'openrouter-text-and-tool',
+    name: 'OpenRouter: text, then a tool call with split arguments',
+    provider: 'openrouter',
+    sse: String.raw`: OPENROUTER PROCESSING
+
+data: {"id":"gen-1729","object":"chat.completion.chunk","model":"anthropic/claude-3.5-haiku","choices":[{"index":0,"delta":{"role":"assistant","content":"I'll check the "},"finish_reason":null}]}
+
+data: {"id":"gen-1729","object":"chat.completion.chunk","model":"anthropic/claude-3.5-haiku","choices":[{"index":0,"delta":{"content":"project files — one moment."},"finish_reason":null}]}
+
+data: {"id":"gen-1729","object":"chat.completion.chunk","model":"anthropic/claude-3.5-haiku","choices":[{"index":0,"delta":{"tool_calls":[{"index":0,"id":"toolu_01","type":"function","function":{"name":"shell","arguments":""}}]},"finish_reason":null}]}
+
+data: {"id":"gen-1729","object":"chat.completion.chunk","model":"anthropic/claude-3.5-haiku","choices":[{"index":0,"delta":{"tool_calls":[{"index":0,"function":{"arguments":"{\"cmd\": [\"ls\""}}]},"finish_reason":null}]}
+
+data: {"id":"gen-1729","object":"chat.completion.chunk","model":"anthropic/claude-3.5-haiku","choices":[{"index":0,"delta":{"tool_calls":[{"index":0,"function":{"arguments":", \"-R\", \"/\"]}"}}]},"finish_reason":null}]}
+
+data: {"id":"gen-1729","object":"chat.completion.chunk","model":"anthropic/claude-3.5-haiku","choices":[{"index":0,"delta":{},"finish_reason":"tool_calls"}],"usage":{"prompt_tokens":1832,"completion_tokens":64,"total_tokens":1896}}
+
+data: [DONE]
+
+`,
+    expected: {
+      content: "I'll check the project files — one moment.",
+      toolCalls: [{ id: 'toolu_01', name: 'shell', arguments: { cmd: ['ls', '-R', '/'] } }],
+      usage: { promptTokens: 1832, completionTokens: 64 }
+    }
+  },
+  {
+    id: 'openai-parallel-tools',
+    name: 'OpenAI: two parallel tool calls',
+    provider: 'openai',
+    sse: String.raw`data: {"id":"chatcmpl-9x","object":"chat.completion.chunk","model":"gpt-4o-mini","choices":[{"index":0,"delta":{"role":"assistant","content":null,"tool_calls":[{"index":0,"id":"call_a","type":"function","function":{"name":"shell","arguments":""}}]},"finish_reason":null}]}
+
+data: {"id":"chatcmpl-9x","object":"chat.completion.chunk","model":"gpt-4o-mini","choices":[{"index":0,"delta":{"tool_calls":[{"index":0,"function":{"arguments":"{\"cmd\":[\"cat\",\"/index.html\"]}"}}]},"finish_reason":null}]}
+
+data: {"id":"chatcmpl-9x","object":"chat.completion.chunk","model":"gpt-4o-mini","choices":[{"index":0,"delta":{"tool_calls":[{"index":1,"id":"call_b","type":"function","function":{"name":"shell","arguments":""}}]},"finish_reason":null}]}
+
+data: {"id":"chatcmpl-9x","object":"chat.completion.chunk","model":"gpt-4o-mini","choices":[{"index":0,"delta":{"tool_calls":[{"index":1,"function":{"arguments":"{\"cmd\":[\"cat\","}}]},"finish_reason":null}]}
+
+data: {"id":"chatcmpl-9x","object":"chat.completion.chunk","model":"gpt-4o-mini","choices":[{"index":0,"delta":{"tool_calls":[{"index":1,"function":{"arguments":"\"/styles.css\"]}"}}]},"finish_reason":null}]}
+
+data: {"id":"chatcmpl-9x","object":"chat.completion.chunk","model":"gpt-4o-mini","choices":[{"index":0,"delta":{},"finish_reason":"tool_calls"}]}
+
+data: {"id":"chatcmpl-9x","object":"chat.completion.chunk","model":"gpt-4o-mini","choices":[],"usage":{"prompt_tokens":920,"completion_tokens":41,"total_tokens":961}}
+
+data: [DONE]
+
+`,
+    expected: {
+      content: '',
+      toolCalls: [
+        { id: 'call_a', name: 'shell', arguments: { cmd: ['cat', '/index.html'] } },
+        { id: 'call_b', name: 'shell', arguments: { cmd: ['cat', '/styles.css'] } }
+      ],
+      usage: { promptTokens: 920, completionTokens: 41 }
+    }
+  },
+  {
+    id: 'groq-x-groq-usage',
+    name: 'Groq: usage reported under x_groq',
+    provider: 'groq',
+    sse: String.raw`data: {"id":"chatcmpl-g1","object":"chat.completion.chunk","model":"llama-3.3-70b-versatile","choices":[{"index":0,"delta":{"role":"assistant","content":""},"finish_reason":null}],"x_groq":{"id":"req_01"}}
+
+data: {"id":"chatcmpl-g1","object":"chat.completion.chunk","model":"llama-3.3-70b-versatile","choices":[{"index":0,"delta":{"content":"Done! The header"},"finish_reason":null}]}
+
+data: {"id":"chatcmpl-g1","object":"chat.completion.chunk","model":"llama-3.3-70b-versatile","choices":[{"index":0,"delta":{"content":" is now sticky."},"finish_reason":null}]}
+
+data: {"id":"chatcmpl-g1","object":"chat.completion.chunk","model":"llama-3.3-70b-versatile","choices":[{"index":0,"delta":{},"finish_reason":"stop"}],"x_groq":{"id":"req_01","usage":{"queue_time":0.02,"prompt_tokens":640,"completion_tokens":9,"total_tokens":649}}}
+
+data: [DONE]
+
+`,
+    expected: {
+      content: 'Done! The header is now sticky.',
+      usage: { promptTokens: 640, completionTokens: 9 }
+    }
+  },
+  {
+    id: 'ollama-unindexed-tool-call',
+    name: 'Ollama-style: tool call fragments without an index',
+    provider: 'ollama',
+    sse: String.raw`data: {"id":"chatcmpl-412","object":"chat.completion.chunk","model":"qwen2.5-coder:7b","choices":[{"index":0,"delta":{"role":"assistant","tool_calls":[{"id":"call_x1","type":"function","function":{"name":"json_patch","arguments":"{\"file_path\":\"/index.html\","}}]},"finish_reason":null}]}
+
+data: {"id":"chatcmpl-412","object":"chat.completion.chunk","model":"qwen2.5-coder:7b","choices":[{"index":0,"delta":{"tool_calls":[{"function":{"arguments":"\"operations\":[{\"type\":\"update\",\"oldStr\":\"<h1>Hi</h1>\",\"newStr\":\"<h1>Hello</h1>\"}]}"}}]},"finish_reason":null}]}
+
+data: {"id":"chatcmpl-412","object":"chat.completion.chunk","model":"qwen2.5-coder:7b","choices":[{"index":0,"delta":{},"finish_reason":"tool_calls"}],"usage":{"prompt_tokens":2210,"completion_tokens":48,"total_tokens":2258}}
+
+data: [DONE]
+
+`,
+    expected: {
+      toolCalls: [{
+        id: 'call_x1',
+        name: 'json_patch',
+        arguments: {
+          file_path: '/index.html',
+          operations: [{ type: 'update', oldStr: '<h1>Hi</h1>', newStr: '<h1>Hello</h1>' }]
+        }
+      }],
+      usage: { promptTokens: 2210, completionTokens: 48 }
+    }
+  },
+  {
+    id: 'openrouter-reasoning-field',
+    name: 'OpenRouter: reasoning field followed by content',
+    provider: 'openrouter',
+    sse: String.raw`data: {"id":"gen-2201","object":"chat.completion.chunk","model":"deepseek/deepseek-r1","choices":[{"index":0,"delta":{"role":"assistant","content":"","reasoning":"The user wants a dark theme. "},"finish_reason":null}]}
+
+data: {"id":"gen-2201","object":"chat.completion.chunk","model":"deepseek/deepseek-r1","choices":[{"index":0,"delta":{"content":"","reasoning":"I should update the CSS variables."},"finish_reason":null}]}
+
+data: {"id":"gen-2201","object":"chat.completion.chunk","model":"deepseek/deepseek-r1","choices":[{"index":0,"delta":{"content":"Switching to a dark palette."},"finish_reason":null}]}
+
+data: {"id":"gen-2201","object":"chat.completion.chunk","model":"deepseek/deepseek-r1","choices":[{"index":0,"delta":{},"finish_reason":"stop"}],"usage":{"prompt_tokens":505,"completion_tokens":37,"total_tokens":542}}
+
+data: [DONE]
+
+`,
+    expected: {
+      content: 'The user wants a dark theme. I should update the CSS variables.Switching to a dark palette.',
+      usage: { promptTokens: 505, completionTokens: 37 }
+    }
+  },
+  {
+    id: 'anthropic-tool-use',
+    name: 'Anthropic: text block, then tool_use with input_json_delta',
+    provider: 'anthropic',
+    sse: String.raw`event: message_start
+data: {"type":"message_start","message":{"id":"msg_01","type":"message","role":"assistant","model":"claude-3-5-haiku-20241022","content":[],"stop_reason":null,"usage":{"input_tokens":1412,"output_tokens":2}}}
+
+event: content_block_start
+data: {"type":"content_block_start","index":0,"content_block":{"type":"text","text":""}}
+
+event: ping
+data: {"type": "ping"}
+
+event: content_block_delta
+data: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"Let me read the "}}
+
+event: content_block_delta
+data: {"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"stylesheet first."}}
+
+event: content_block_stop
+data: {"type":"content_block_stop","index":0}
+
+event: content_block_start
+data: {"type":"content_block_start","index":1,"content_block":{"type":"tool_use","id":"toolu_01Xyz","name":"shell","input":{}}}
+
+event: content_block_delta
+data: {"type":"content_block_delta","index":1,"delta":{"type":"input_json_delta","partial_json":""}}
+
+event: content_block_delta
+data: {"type":"content_block_delta","index":1,"delta":{"type":"input_json_delta","partial_json":"{\"cmd\": [\"cat\", "}}
+
+event: content_block_delta
+data: {"type":"content_block_delta","index":1,"delta":{"type":"input_json_delta","partial_json":"\"/styles/main.css\"]}"}}
+
+event: content_block_stop
+data: {"type":"content_block_stop","index":1}
+
+event: message_delta
+data: {"type":"message_delta","delta":{"stop_reason":"tool_use","stop_sequence":null},"usage":{"output_tokens":71}}
+
+event: message_stop
+data: {"type":"message_stop"}
+
+`,
+    expected: {
+      content: 'Let me read the stylesheet first.',
+      toolCalls: [{ id: 'toolu_01Xyz', name: 'shell', arguments: { cmd: ['cat', '/styles/main.css'] } }],
+      usage: { promptTokens: 1412, completionTokens: 71 }
+    }
+  },
+  ...geminiTranscripts
+];
@@ -0,0 +1,157 @@
+import { decodeProviderStream, getProviderAdapter } from '@/lib/llm/providers/adapters';
+import { buildGeminiRequest } from '@/lib/llm/providers/adapters/gemini';
+import { StreamChunk, ToolCall, UsageInfo } from '@/lib/llm/types';
+import { GeminiRequestFixture, ReplayResult, ReplayTranscript } from './types';
+import { replayTranscripts } from './replay-transcripts';
+import { geminiRequestFixtures } from './gemini-fixtures';
+
+/**
+ * Serve a recorded body in small fixed-size slices, so events (and multi-byte characters)
+ * are split across reads the way they are on a real connection
+ */
+function toSlicedStream(text: string, sliceSize: number): ReadableStream<Uint8Array> {
+  const bytes = new TextEncoder().encode(text);
+  let offset = 0;
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (offset >= bytes.length) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(bytes.slice(offset, offset + sliceSize));
+      offset += sliceSize;
+    }
+  });
+}
+
+function sameJson(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Decode a recorded response through its provider adapter and compare against the expected output
+ */
+export async function replayTranscript(transcript: ReplayTranscript, sliceSize = 7): Promise<ReplayResult> {
+  const errors: string[] = [];
+  const chunks: StreamChunk[] = [];
+  let content = '';
+  const toolCalls: ToolCall[] = [];
+  let usage: UsageInfo | undefined;
+
+  try {
+    const adapter = getProviderAdapter(transcript.provider);
+    for await (const chunk of decodeProviderStream(adapter, toSlicedStream(transcript.sse, sliceSize))) {
+      chunks.push(chunk);
+      if ((chunk.type === 'content' || chunk.type === 'reasoning') && chunk.content) {
+        content += chunk.content;
+      } else if (chunk.type === 'tool_call' && chunk.toolCall) {
+        toolCalls.push(chunk.toolCall);
+      } else if (chunk.type === 'usage' && chunk.usage) {
+        usage = chunk.usage;
+      }
+    }
+  } catch (error) {
+    errors.push(`Stream failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const { expected } = transcript;
+
+  if (chunks[chunks.length - 1]?.type !== 'done') {
+    errors.push('Stream did not end with a done chunk');
+  }
+
+  if (expected.content !== undefined && content !== expected.content) {
+    errors.push(`Content mismatch: expected "${expected.content}", got "${content}"`);
+  }
+
+  const expectedCalls = expected.toolCalls || [];
+  if (toolCalls.length !== expectedCalls.length) {
+    errors.push(`Expected ${expectedCalls.length} tool call(s), got ${toolCalls.length}`);
+  } else {
+    expectedCalls.forEach((expectedCall, i) => {
+      const actual = toolCalls[i];
+      if (expectedCall.id && actual.id !== expectedCall.id) {
+        errors.push(`Tool call ${i}: expected id ${expectedCall.id}, got ${actual.id}`);
+      }
+      if (actual.function.name !== expectedCall.name) {
+        errors.push(`Tool call ${i}: expected ${expectedCall.name}, got ${actual.function.name}`);
+      }
+      try {
+        const args = JSON.parse(actual.function.arguments);
+        if (!sameJson(args, expectedCall.arguments)) {
+          errors.push(`Tool call ${i}: arguments ${actual.function.arguments} do not match`);
+        }
+      } catch {
+        errors.push(`Tool call ${i}: arguments are not valid JSON: ${actual.function.arguments}`);
+      }
+    });
+  }
+
+  if (expected.usage) {
+    if (!usage) {
+      errors.push('No usage reported');
+    } else if (usage.promptTokens !== expected.usage.promptTokens || usage.completionTokens !== expected.usage.completionTokens) {
+      errors.push(
+        `Usage mismatch: expected ${expected.usage.promptTokens}/${expected.usage.completionTokens}, ` +
+        `got ${usage.promptTokens}/${usage.completionTokens}`
+      );
+    }
+  }
+
+  return {
+    id: transcript.id,
+    name: transcript.name,
+    provider: transcript.provider,
+    passed: errors.length === 0,
+    errors,
+    chunkCount: chunks.length
+  };
+}
+
+// JSON with object keys sorted, so bodies compare equal regardless of property order
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, item) => (
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => a.localeCompare(b)))
+      : item
+  ));
+}
+
+/**
+ * Build a Gemini request body from a chat history and compare it against the expected body
+ */
+export function checkGeminiRequest(fixture: GeminiRequestFixture): ReplayResult {
+  const errors: string[] = [];
+  try {
+    const actual = canonicalJson(buildGeminiRequest(fixture.options));
+    const expected = canonicalJson(fixture.expected);
+    if (actual !== expected) {
+      errors.push(`Request mismatch:\n      expected ${expected}\n      got      ${actual}`);
+    }
+  } catch (error) {
+    errors.push(`Request failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return {
+    id: fixture.id,
+    name: fixture.name,
+    provider: 'gemini',
+    passed: errors.length === 0,
+    errors,
+    chunkCount: 0
+  };
+}
+
+export async function replayAllTranscripts(
+  transcripts: ReplayTranscript[] = replayTranscripts,
+  requestFixtures: GeminiRequestFixture[] = geminiRequestFixtures
+): Promise<ReplayResult[]> {
+  const results: ReplayResult[] = [];
+  for (const transcript of transcripts) {
+    results.push(await replayTranscript(transcript));
+  }
+  for (const fixture of requestFixtures) {
+    results.push(checkGeminiRequest(fixture));
+  }
+  return results;
+}
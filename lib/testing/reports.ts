@@ -0,0 +1,104 @@
+import { SuiteComparison, TestSuiteResult } from './types';
+
+export function suiteLabel(suite: TestSuiteResult): string {
+  const model = `${suite.provider}/${suite.model}`;
+  return suite.promptVersion ? `${model} [${suite.promptVersion}]` : model;
+}
+
+/**
+ * Line up suites run with different models or prompt versions, scenario by scenario
+ */
+export function compareSuites(suites: TestSuiteResult[]): SuiteComparison {
+  const scenarios = new Map<string, SuiteComparison['scenarios'][number]>();
+
+  for (const suite of suites) {
+    const label = suiteLabel(suite);
+    for (const result of suite.results) {
+      const row = scenarios.get(result.scenario) ?? { id: result.scenario, passed: {} };
+      row.passed[label] = result.success;
+      scenarios.set(result.scenario, row);
+    }
+  }
+
+  return {
+    runs: suites.map(suite => ({
+      label: suiteLabel(suite),
+      provider: suite.provider,
+      model: suite.model,
+      promptVersion: suite.promptVersion,
+      total: suite.summary.total,
+      passed: suite.summary.passed,
+      successRate: suite.summary.successRate,
+      averageTime: suite.summary.averageTime
+    })),
+    scenarios: Array.from(scenarios.values())
+  };
+}
+
+/**
+ * Plain-text table for the terminal
+ */
+export function formatComparison(comparison: SuiteComparison): string {
+  const lines = comparison.runs.map(run =>
+    `${run.label}: ${run.passed}/${run.total} passed (${Math.round(run.successRate * 100)}%), ` +
+    `avg ${(run.averageTime / 1000).toFixed(1)}s`
+  );
+
+  if (comparison.runs.length > 1) {
+    lines.push('');
+    for (const scenario of comparison.scenarios) {
+      const cells = comparison.runs.map(run => {
+        const passed = scenario.passed[run.label];
+        return passed === undefined ? '-' : passed ? '✓' : '✗';
+      });
+      lines.push(`${cells.join(' ')}  ${scenario.id}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * JUnit XML with one test suite per model/prompt run, for CI test reporters
+ */
+export function toJUnitXml(suites: TestSuiteResult[]): string {
+  const totals = suites.reduce(
+    (sum, suite) => ({ tests: sum.tests + suite.summary.total, failures: sum.failures + suite.summary.failed }),
+    { tests: 0, failures: 0 }
+  );
+
+  const suiteXml = suites.map(suite => {
+    const name = escapeXml(suiteLabel(suite));
+    const cases = suite.results.map(result => {
+      const attrs = `name="${escapeXml(result.scenario)}" classname="${escapeXml(`${suiteLabel(suite)}.${result.category}`)}" time="${(result.executionTime / 1000).toFixed(3)}"`;
+      if (result.success) {
+        return `    <testcase ${attrs}/>`;
+      }
+      const message = escapeXml(result.errors[0] || 'Failed');
+      return `    <testcase ${attrs}>\n      <failure message="${message}">${escapeXml(result.errors.join('\n'))}</failure>\n    </testcase>`;
+    });
+    const time = suite.results.reduce((sum, result) => sum + result.executionTime, 0) / 1000;
+    return [
+      `  <testsuite name="${name}" tests="${suite.summary.total}" failures="${suite.summary.failed}" time="${time.toFixed(3)}" timestamp="${suite.timestamp}">`,
+      ...cases,
+      '  </testsuite>'
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites tests="${totals.tests}" failures="${totals.failures}">`,
+    ...suiteXml,
+    '</testsuites>',
+    ''
+  ].join('\n');
+}
@@ -88,6 +88,20 @@ document.addEventListener('DOMContentLoaded', function() {
     });
 });`;
 
+// Inline blocks whose end tags sit directly against the next tag, as minified pages have them
+const inlineBlocksHTML = `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <title>Pricing</title>
+<style>.card { padding: 1rem; }
+.card::after { content: "}"; color: #999; }</style></head>
+<body>
+    <div class="card"><span id="total"></span></div>
+<script>function calc(price, qty) { const suffix = "}"; return price * qty; }
+document.getElementById('total').textContent = calc(9.5, 3);</script></body>
+</html>`;
+
 export const testScenarios: TestScenario[] = [
   // UI Component Tests
   {
@@ -231,6 +245,7 @@ export const testScenarios: TestScenario[] = [
       '#theme-toggle',
       '.theme-switch'
     ],
+    elementMatch: 'any',
     expectedPatterns: [
       /dark-mode|dark-theme/i,
       /localStorage/,
@@ -255,6 +270,21 @@ export const testScenarios: TestScenario[] = [
     ]
   },
   
+  {
+    id: 'style-inline-entities',
+    name: 'Edit inline style and script blocks',
+    category: 'style',
+    prompt: 'In index.html, give .card a 2rem padding and 8px rounded corners, and make calc() round its result.',
+    setupFiles: {
+      '/index.html': inlineBlocksHTML
+    },
+    expectedPatterns: [
+      /\.card \{ padding: 2rem; border-radius: 8px; \}\n\.card::after \{ content: "\}"; color: #999; \}<\/style><\/head>/,
+      /function calc\(price, qty\) \{ return Math\.round\(price \* qty\); \}\ndocument\.getElementById/,
+      /calc\(9\.5, 3\);<\/script><\/body>/
+    ]
+  },
+  
   // JavaScript Tests
   {
     id: 'js-fetch-api',
@@ -287,6 +317,7 @@ export const testScenarios: TestScenario[] = [
       '.timer-display',
       '.countdown'
     ],
+    elementMatch: 'any',
     expectedPatterns: [
       /setInterval|setTimeout/i,
       /clearInterval|clearTimeout/i,
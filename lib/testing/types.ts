@@ -1,3 +1,6 @@
+import { ProviderId } from '@/lib/llm/providers/types';
+import { GeminiRequest, GeminiRequestOptions } from '@/lib/llm/providers/adapters/gemini';
+
 export interface TestScenario {
   id: string;
   name: string;
@@ -5,6 +8,7 @@ export interface TestScenario {
   prompt: string;
   setupFiles?: Record<string, string>; // Initial files for the test
   expectedElements?: string[]; // CSS selectors to check for
+  elementMatch?: 'all' | 'any'; // Whether every selector or just one of them must match (default: all)
   expectedPatterns?: RegExp[]; // Patterns to find in generated code
   timeout?: number; // Custom timeout for this test
 }
@@ -55,6 +59,7 @@ export interface TestSuiteResult {
   timestamp: string;
   provider: string;
   model: string;
+  promptVersion?: string;
   results: TestResult[];
   summary: {
     total: number;
@@ -76,4 +81,63 @@ export interface TestConfig {
   resultsPath?: string;
   timeout?: number;
   parallel?: boolean;
-}
\ No newline at end of file
+  apiUrl?: string; // Origin serving /api/generate (e.g. a running dev server); the mock server is used when unset
+  promptVersion?: string; // Label for the system prompt under test
+  systemPrompt?: string; // Replaces the built-in system prompt
+  scenarios?: string[]; // Scenario ids to run; defaults to all (or all with a mock script)
+}
+
+/**
+ * One scripted response from the mock LLM server
+ */
+export interface MockTurn {
+  content?: string;
+  toolCalls?: Array<{ name: string; arguments: Record<string, unknown> }>;
+}
+
+export interface MockScript {
+  scenarioId: string;
+  turns: MockTurn[];
+}
+
+export interface SuiteComparison {
+  runs: Array<{
+    label: string;
+    provider: string;
+    model: string;
+    promptVersion?: string;
+    total: number;
+    passed: number;
+    successRate: number;
+    averageTime: number;
+  }>;
+  scenarios: Array<{ id: string; passed: Record<string, boolean | undefined> }>;
+}
+export interface ReplayTranscript {
+  id: string;
+  name: string;
+  provider: ProviderId;
+  sse: string; // Response body exactly as streamed by the provider
+  expected: {
+    content?: string;
+    toolCalls?: Array<{ id?: string; name: string; arguments: Record<string, unknown> }>;
+    usage?: { promptTokens: number; completionTokens: number };
+  };
+}
+
+/** A chat history and the Gemini request body it must be converted into */
+export interface GeminiRequestFixture {
+  id: string;
+  name: string;
+  options: GeminiRequestOptions;
+  expected: GeminiRequest;
+}
+
+export interface ReplayResult {
+  id: string;
+  name: string;
+  provider: ProviderId;
+  passed: boolean;
+  errors: string[];
+  chunkCount: number;
+}
@@ -0,0 +1,151 @@
+import { parse as parseJavaScript } from 'acorn';
+import postcss from 'postcss';
+import { JSDOM, VirtualConsole } from 'jsdom';
+import { TestScenario, ValidationResult } from './types';
+
+// Long enough for DOMContentLoaded/load handlers; timers the page starts are cut off when the window closes
+const PAGE_SETTLE_MS = 200;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function checkSyntax(files: Record<string, string>): string[] {
+  const errors: string[] = [];
+  for (const [path, content] of Object.entries(files)) {
+    if (/\.(m?js)$/i.test(path)) {
+      try {
+        parseJavaScript(content, { ecmaVersion: 'latest', sourceType: path.endsWith('.mjs') ? 'module' : 'script' });
+      } catch (scriptError) {
+        // Plain scripts can still be loaded as modules
+        try {
+          parseJavaScript(content, { ecmaVersion: 'latest', sourceType: 'module' });
+        } catch {
+          errors.push(`${path}: ${errorMessage(scriptError)}`);
+        }
+      }
+    } else if (/\.css$/i.test(path)) {
+      try {
+        postcss.parse(content);
+      } catch (error) {
+        errors.push(`${path}: ${errorMessage(error)}`);
+      }
+    }
+  }
+  return errors;
+}
+
+function resolveLocal(files: Record<string, string>, ref: string | null): string | undefined {
+  if (!ref || /^(https?:)?\/\//i.test(ref) || ref.startsWith('data:')) return undefined;
+  const path = '/' + ref.replace(/^\.?\//, '').split(/[?#]/)[0];
+  return files[path];
+}
+
+/**
+ * Inline the page's local scripts and stylesheets so jsdom can run it without a server
+ */
+function inlineAssets(html: string, files: Record<string, string>): string {
+  const dom = new JSDOM(html);
+  const { document } = dom.window;
+
+  document.querySelectorAll('script[src]').forEach(script => {
+    const source = resolveLocal(files, script.getAttribute('src'));
+    if (source === undefined) {
+      script.remove();
+      return;
+    }
+    script.removeAttribute('src');
+    script.textContent = source;
+  });
+
+  document.querySelectorAll('link[rel="stylesheet"][href]').forEach(link => {
+    const source = resolveLocal(files, link.getAttribute('href'));
+    if (source === undefined) return;
+    const style = document.createElement('style');
+    style.textContent = source;
+    link.replaceWith(style);
+  });
+
+  const serialized = dom.serialize();
+  dom.window.close();
+  return serialized;
+}
+
+/**
+ * Load a page with its scripts running and collect the DOM state and uncaught errors once it settles
+ */
+async function loadPage(html: string, files: Record<string, string>): Promise<{ dom: JSDOM; errors: string[] }> {
+  const errors: string[] = [];
+  const virtualConsole = new VirtualConsole();
+  virtualConsole.on('jsdomError', error => errors.push(errorMessage(error)));
+
+  const dom = new JSDOM(inlineAssets(html, files), {
+    url: 'http://localhost/',
+    runScripts: 'dangerously',
+    pretendToBeVisual: true,
+    virtualConsole
+  });
+
+  await new Promise<void>(resolve => {
+    if (dom.window.document.readyState === 'complete') {
+      resolve();
+    } else {
+      dom.window.addEventListener('load', () => resolve());
+    }
+  });
+  await new Promise(resolve => setTimeout(resolve, PAGE_SETTLE_MS));
+
+  return { dom, errors };
+}
+
+/**
+ * Check a scenario's generated files: JS/CSS syntax, expected elements in the rendered
+ * entry page, expected patterns anywhere in the sources, and runtime errors while loading
+ */
+export async function validateScenarioFiles(scenario: TestScenario, files: Record<string, string>): Promise<ValidationResult> {
+  const syntaxErrors = checkSyntax(files);
+
+  const missingPatterns = (scenario.expectedPatterns || [])
+    .filter(pattern => !Object.values(files).some(content => pattern.test(content)))
+    .map(pattern => pattern.toString());
+
+  const functionalityErrors: string[] = [];
+  let missingElements: string[] = [];
+  const expectedElements = scenario.expectedElements || [];
+  const entry = files['/index.html'] !== undefined
+    ? '/index.html'
+    : Object.keys(files).find(path => path.endsWith('.html'));
+
+  if (!entry) {
+    missingElements = [...expectedElements];
+    if (expectedElements.length > 0) {
+      functionalityErrors.push('No HTML page to render');
+    }
+  } else {
+    const { dom, errors } = await loadPage(files[entry], files);
+    functionalityErrors.push(...errors.map(error => `${entry}: ${error}`));
+    missingElements = expectedElements.filter(selector => {
+      try {
+        return !dom.window.document.querySelector(selector);
+      } catch {
+        return true;
+      }
+    });
+    dom.window.close();
+  }
+
+  const domElementsPresent = scenario.elementMatch === 'any'
+    ? expectedElements.length === 0 || missingElements.length < expectedElements.length
+    : missingElements.length === 0;
+
+  return {
+    syntaxValid: syntaxErrors.length === 0,
+    ...(syntaxErrors.length > 0 && { syntaxErrors }),
+    domElementsPresent,
+    ...(!domElementsPresent && { missingElements }),
+    patternsFound: missingPatterns.length === 0,
+    ...(missingPatterns.length > 0 && { missingPatterns }),
+    functionalityWorks: functionalityErrors.length === 0,
+    ...(functionalityErrors.length > 0 && { functionalityErrors })
+  };
+}
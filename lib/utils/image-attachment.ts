@@ -0,0 +1,59 @@
+/**
+ * Image attachment utilities
+ * Reads user-supplied images as data URLs small enough to send to vision models
+ */
+
+// Vision models downscale anything larger, so sending more only costs upload size
+const MAX_DIMENSION = 1568;
+const MAX_UNCHANGED_BYTES = 1024 * 1024;
+const PASSTHROUGH_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+
+function readAsDataUrl(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read image'));
+    reader.readAsDataURL(file);
+  });
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Unsupported or corrupt image'));
+    image.src = url;
+  });
+}
+
+/**
+ * Read an image file as a data URL. Small images in common formats are kept as they are;
+ * anything larger is scaled to fit MAX_DIMENSION and re-encoded as JPEG.
+ */
+export async function readImageAttachment(file: File): Promise<string> {
+  if (!file.type.startsWith('image/')) {
+    throw new Error(`${file.name} is not an image`);
+  }
+
+  const original = await readAsDataUrl(file);
+  const image = await loadImage(original);
+  const largest = Math.max(image.naturalWidth, image.naturalHeight);
+
+  if (PASSTHROUGH_TYPES.includes(file.type) && file.size <= MAX_UNCHANGED_BYTES && largest <= MAX_DIMENSION) {
+    return original;
+  }
+
+  const scale = Math.min(1, MAX_DIMENSION / largest);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.naturalWidth * scale);
+  canvas.height = Math.round(image.naturalHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+  // JPEG has no transparency; keep transparent mockups readable
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.85);
+}
@@ -1,7 +1,8 @@
 import JSZip from 'jszip';
 import { Project, VirtualFile } from './types';
 import { ConversationState } from '@/lib/llm/conversation-state';
-import { Checkpoint } from './checkpoint';
+import { CheckpointBlob, StoredCheckpoint } from './checkpoint';
+import { DB_NAME, DB_VERSION, createObjectStores } from './database';
 import { logger } from '@/lib/utils';
 
 export interface BackupData {
@@ -12,9 +13,10 @@ export interface BackupData {
       projects: Project[];
       files: VirtualFile[];
       fileTree: unknown[];
+      checkpointBlobs?: SerializedCheckpointBlob[];
     };
     conversations: ConversationState[];
-    checkpoints: Checkpoint[];
+    checkpoints: StoredCheckpoint[];
   };
   metadata: {
     projectCount: number;
@@ -23,6 +25,14 @@ export interface BackupData {
   };
 }
 
+// Checkpoint blobs with binary content base64-encoded for JSON
+interface SerializedCheckpointBlob {
+  hash: string;
+  content: string;
+  size: number;
+  encoding?: 'base64';
+}
+
 export interface ImportOptions {
   mode: 'replace' | 'merge';
   onProgress?: (progress: number, message: string) => void;
@@ -140,7 +150,8 @@ export class BackupService {
       const vfsDataWithAll = {
         ...backupData.databases.vfs,
         conversations: (backupData.databases.vfs as any).conversations || backupData.databases.conversations || [],
-        checkpoints: (backupData.databases.vfs as any).checkpoints || backupData.databases.checkpoints || []
+        checkpoints: (backupData.databases.vfs as any).checkpoints || backupData.databases.checkpoints || [],
+        checkpointBlobs: backupData.databases.vfs.checkpointBlobs || []
       };
 
       await this.importUnifiedData(vfsDataWithAll);
@@ -197,11 +208,12 @@ export class BackupService {
       files: [] as VirtualFile[],
       fileTree: [] as unknown[],
       conversations: [] as any[],
-      checkpoints: [] as any[]
+      checkpoints: [] as any[],
+      checkpointBlobs: [] as SerializedCheckpointBlob[]
     };
 
     return new Promise<typeof vfsData>((resolve, reject) => {
-      const request = indexedDB.open('osw-studio-db', 1);
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
       
       request.onsuccess = async () => {
         try {
@@ -247,13 +259,26 @@ export class BackupService {
             vfsData.checkpoints = checkRequest.result || [];
           };
 
+          // Export checkpoint blobs (binary content base64-encoded)
+          const blobTx = db.transaction(['checkpointBlobs'], 'readonly');
+          const blobStore = blobTx.objectStore('checkpointBlobs');
+          const blobRequest = blobStore.getAll();
+          blobRequest.onsuccess = () => {
+            vfsData.checkpointBlobs = ((blobRequest.result || []) as CheckpointBlob[]).map(blob =>
+              typeof blob.content === 'string'
+                ? { hash: blob.hash, content: blob.content, size: blob.size }
+                : { hash: blob.hash, content: this.arrayBufferToBase64(blob.content), size: blob.size, encoding: 'base64' as const }
+            );
+          };
+
           // Wait for all transactions to complete
           await Promise.all([
             new Promise(res => projectTx.oncomplete = () => res(undefined)),
             new Promise(res => fileTx.oncomplete = () => res(undefined)),
             new Promise(res => treeTx.oncomplete = () => res(undefined)),
             new Promise(res => convTx.oncomplete = () => res(undefined)),
-            new Promise(res => checkTx.oncomplete = () => res(undefined))
+            new Promise(res => checkTx.oncomplete = () => res(undefined)),
+            new Promise(res => blobTx.oncomplete = () => res(undefined))
           ]);
 
           resolve(vfsData);
@@ -321,7 +346,7 @@ export class BackupService {
         reject(new Error('Database open timeout'));
       }, 10000);
 
-      const request = indexedDB.open('osw-studio-db', 1);
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
 
       request.onerror = () => {
         clearTimeout(timeout);
@@ -338,38 +363,7 @@ export class BackupService {
         logger.info('[Import] Creating database schema...');
         const db = (event.target as IDBOpenDBRequest).result;
 
-        // Create all object stores if they don't exist
-        if (!db.objectStoreNames.contains('projects')) {
-          const projectStore = db.createObjectStore('projects', { keyPath: 'id' });
-          projectStore.createIndex('name', 'name', { unique: false });
-          projectStore.createIndex('createdAt', 'createdAt', { unique: false });
-        }
-
-        if (!db.objectStoreNames.contains('files')) {
-          const fileStore = db.createObjectStore('files', { keyPath: 'id' });
-          fileStore.createIndex('projectId', 'projectId', { unique: false });
-          fileStore.createIndex('path', ['projectId', 'path'], { unique: true });
-          fileStore.createIndex('type', 'type', { unique: false });
-        }
-
-        if (!db.objectStoreNames.contains('fileTree')) {
-          const treeStore = db.createObjectStore('fileTree', { keyPath: 'id' });
-          treeStore.createIndex('projectId', 'projectId', { unique: false });
-          treeStore.createIndex('path', ['projectId', 'path'], { unique: true });
-          treeStore.createIndex('parentPath', ['projectId', 'parentPath'], { unique: false });
-        }
-
-        if (!db.objectStoreNames.contains('conversations')) {
-          const conversationStore = db.createObjectStore('conversations', { keyPath: 'id' });
-          conversationStore.createIndex('projectId', 'projectId', { unique: false });
-          conversationStore.createIndex('lastUpdated', 'lastUpdated', { unique: false });
-        }
-
-        if (!db.objectStoreNames.contains('checkpoints')) {
-          const checkpointStore = db.createObjectStore('checkpoints', { keyPath: 'id' });
-          checkpointStore.createIndex('projectId', 'projectId', { unique: false });
-          checkpointStore.createIndex('timestamp', 'timestamp', { unique: false });
-        }
+        createObjectStores(db);
       };
 
       request.onsuccess = async () => {
@@ -469,6 +463,30 @@ export class BackupService {
             logger.info('[Import] Checkpoints imported');
           }
 
+          // Import checkpoint blobs referenced by checkpoint manifests
+          const checkpointBlobs: SerializedCheckpointBlob[] = vfsData.checkpointBlobs || [];
+          if (checkpointBlobs.length > 0) {
+            logger.info('[Import] Importing checkpoint blobs:', checkpointBlobs.length);
+            const blobTx = db.transaction(['checkpointBlobs'], 'readwrite');
+            const blobStore = blobTx.objectStore('checkpointBlobs');
+            for (const blob of checkpointBlobs) {
+              const record: CheckpointBlob = {
+                hash: blob.hash,
+                content: blob.encoding === 'base64' ? this.base64ToArrayBuffer(blob.content) : blob.content,
+                size: blob.size
+              };
+              await new Promise<void>((res, rej) => {
+                const req = blobStore.put(record);
+                req.onsuccess = () => res();
+                req.onerror = () => {
+                  logger.error('[Import] Failed to import checkpoint blob:', blob.hash, req.error);
+                  rej(req.error);
+                };
+              });
+            }
+            logger.info('[Import] Checkpoint blobs imported');
+          }
+
           logger.info('[Import] All data imported successfully');
           resolve();
         } catch (error) {
@@ -542,6 +560,24 @@ export class BackupService {
     }
   }
 
+  private static arrayBufferToBase64(buffer: ArrayBuffer): string {
+    const bytes = new Uint8Array(buffer);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) {
+      binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+  }
+
+  private static base64ToArrayBuffer(base64: string): ArrayBuffer {
+    const binaryString = atob(base64);
+    const bytes = new Uint8Array(binaryString.length);
+    for (let i = 0; i < binaryString.length; i++) {
+      bytes[i] = binaryString.charCodeAt(i);
+    }
+    return bytes.buffer;
+  }
+
   private static calculateDataSize(data: BackupData): number {
     return JSON.stringify(data).length;
   }
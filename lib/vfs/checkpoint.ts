@@ -1,60 +1,116 @@
 import { vfs } from './index';
+import { VirtualFile } from './types';
+import { VFSStorageBackend } from './storage-backend';
 import { logger } from '@/lib/utils';
 
 export type CheckpointKind = 'auto' | 'manual' | 'system';
 
-// File content can be either a string or base64-encoded binary data
-interface CheckpointFileContent {
+// Auto checkpoints are cheap now that unchanged files are shared between manifests
+const MAX_AUTO_CHECKPOINTS = 200;
+
+// Legacy (v1) file content: either a string or base64-encoded binary data
+interface LegacyCheckpointFileContent {
   data: string;
   encoding?: 'base64';
 }
 
+// Content-addressed file blob; binary files are stored as ArrayBuffer
+export interface CheckpointBlob {
+  hash: string;
+  content: string | ArrayBuffer;
+  size: number;
+}
+
 export interface Checkpoint {
   id: string;
   timestamp: string;
   description: string;
-  files: Map<string, string | CheckpointFileContent>;
+  manifest: Map<string, string>; // path -> blob hash
   directories: Set<string>;
   projectId: string;
   kind: CheckpointKind;
   baseRevisionId?: string | null;
+  name?: string | null; // named manual saves are kept until deleted explicitly
+  tags?: string[];
 }
 
 // Serializable checkpoint format for storage
-interface StoredCheckpoint {
+export interface StoredCheckpoint {
   id: string;
   timestamp: string;
   description: string;
-  files: [string, string | CheckpointFileContent][];
+  manifest?: [string, string][];
+  files?: [string, string | LegacyCheckpointFileContent][]; // legacy full snapshot, migrated on load
   directories: string[];
   projectId: string;
   kind?: CheckpointKind;
   baseRevisionId?: string | null;
+  name?: string | null;
+  tags?: string[];
 }
 
+export type CheckpointChangeStatus = 'added' | 'removed' | 'modified';
+
+export interface CheckpointFileChange {
+  path: string;
+  status: CheckpointChangeStatus;
+}
+
+// Pseudo checkpoint id for the live project state in diffs
+export const CURRENT_STATE_ID = 'current';
+
 interface CreateCheckpointOptions {
   kind?: CheckpointKind;
   baseRevisionId?: string | null;
   replaceId?: string | null;
+  name?: string | null;
+  tags?: string[];
+}
+
+export interface ImportedCheckpoint {
+  description: string;
+  timestamp: string;
+  files: Map<string, string | ArrayBuffer>;
+  kind?: CheckpointKind;
+  baseRevisionId?: string | null;
+  name?: string | null;
+  tags?: string[];
+}
+
+export interface CheckpointMetadataUpdate {
+  name?: string | null;
+  description?: string;
+  tags?: string[];
+}
+
+/**
+ * Fallback 53-bit string hash for contexts without crypto.subtle (non-secure origins)
+ */
+function cyrb53(input: Uint8Array, seed: number): number {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < input.length; i++) {
+    h1 = Math.imul(h1 ^ input[i], 2654435761);
+    h2 = Math.imul(h2 ^ input[i], 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
 }
 
 class CheckpointManager {
   private checkpoints: Map<string, Checkpoint> = new Map();
   private currentCheckpoint: string | null = null;
-  private storeName = 'checkpoints';
-  private isInitialized = false;
-
-  /**
-   * Convert ArrayBuffer to base64 string
-   */
-  private arrayBufferToBase64(buffer: ArrayBuffer): string {
-    const bytes = new Uint8Array(buffer);
-    let binary = '';
-    for (let i = 0; i < bytes.length; i++) {
-      binary += String.fromCharCode(bytes[i]);
-    }
-    return btoa(binary);
-  }
+  private initPromise: Promise<void> | null = null;
+  // Hashes of blobs known to exist in storage
+  private blobHashes: Set<string> = new Set();
+  // Number of loaded manifests referencing each blob, so dropping a checkpoint only has to
+  // look at its own blobs
+  private refCounts: Map<string, number> = new Map();
+  // Tail of the queue that serializes checkpoint writes and reloads
+  private queue: Promise<unknown> = Promise.resolve();
+  // Per-file hash cache keyed by project and path, invalidated by updatedAt/size
+  private hashCache: Map<string, { updatedAt: number; size: number; hash: string }> = new Map();
 
   /**
    * Convert base64 string to ArrayBuffer
@@ -67,111 +123,312 @@ class CheckpointManager {
     }
     return bytes.buffer;
   }
-  
+
+  /**
+   * Hash file content; text and binary content live in separate namespaces
+   */
+  private async hashContent(content: string | ArrayBuffer): Promise<string> {
+    const bytes = typeof content === 'string' ? new TextEncoder().encode(content) : new Uint8Array(content);
+    const prefix = typeof content === 'string' ? 't' : 'b';
+
+    if (typeof crypto !== 'undefined' && crypto.subtle) {
+      const digest = await crypto.subtle.digest('SHA-256', bytes);
+      const hex = Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+      return `${prefix}_${hex}`;
+    }
+
+    const fallback = [cyrb53(bytes, 0), cyrb53(bytes, 1), bytes.length].map(n => n.toString(16)).join('');
+    return `${prefix}_${fallback}`;
+  }
+
+  /**
+   * Hash a VFS file, reusing the cached hash when the file has not changed
+   */
+  private async hashFile(file: VirtualFile): Promise<string> {
+    const cacheKey = `${file.projectId}:${file.path}`;
+    const updatedAt = new Date(file.updatedAt).getTime();
+    const cached = this.hashCache.get(cacheKey);
+    if (cached && cached.updatedAt === updatedAt && cached.size === file.size) {
+      return cached.hash;
+    }
+
+    const hash = await this.hashContent(file.content);
+    this.hashCache.set(cacheKey, { updatedAt, size: file.size, hash });
+    return hash;
+  }
+
   /**
    * Initialize by ensuring VFS database is ready
    */
-  private async initDB(): Promise<void> {
-    if (this.isInitialized) return;
+  private initDB(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = (async () => {
+        // Initialize VFS which also initializes the shared database
+        await vfs.init();
+        await this.loadBlobHashes();
+        await this.loadCheckpointsFromDB();
+      })().catch(error => {
+        this.initPromise = null;
+        throw error;
+      });
+    }
+    return this.initPromise;
+  }
 
-    // Initialize VFS which also initializes the shared database
-    await vfs.init();
-    this.isInitialized = true;
-    await this.loadCheckpointsFromDB();
+  /**
+   * Run checkpoint writes and reloads one at a time, so concurrent creates (e.g. from
+   * parallel tool calls) can't drop each other's manifests or collect blobs still being saved
+   */
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private addCheckpoint(checkpoint: Checkpoint): void {
+    this.removeCheckpoint(checkpoint.id);
+    this.checkpoints.set(checkpoint.id, checkpoint);
+    for (const hash of checkpoint.manifest.values()) {
+      this.refCounts.set(hash, (this.refCounts.get(hash) ?? 0) + 1);
+    }
   }
 
   /**
-   * Get shared database connection from VFS
+   * Forget a checkpoint; returns the blobs no loaded manifest references anymore
    */
-  private getDB(): IDBDatabase {
-    return (vfs as any).db.getDatabase();
+  private removeCheckpoint(checkpointId: string): string[] {
+    const checkpoint = this.checkpoints.get(checkpointId);
+    if (!checkpoint) return [];
+    this.checkpoints.delete(checkpointId);
+
+    const released: string[] = [];
+    for (const hash of checkpoint.manifest.values()) {
+      const count = (this.refCounts.get(hash) ?? 1) - 1;
+      if (count > 0) {
+        this.refCounts.set(hash, count);
+      } else {
+        this.refCounts.delete(hash);
+        released.push(hash);
+      }
+    }
+    return released;
   }
-  
+
   /**
-   * Load checkpoints from IndexedDB into memory
+   * Storage shared with the VFS
+   */
+  private getStorage(): VFSStorageBackend {
+    return vfs.getBackend();
+  }
+
+  /**
+   * Load the set of stored blob hashes so unchanged content is never rewritten
+   */
+  private async loadBlobHashes(): Promise<void> {
+    try {
+      this.blobHashes = new Set(await this.getStorage().getRecordKeys('checkpointBlobs'));
+    } catch (error) {
+      logger.error('Failed to load checkpoint blobs from DB');
+      throw error;
+    }
+  }
+
+  /**
+   * Load checkpoints from storage into memory
    */
   private async loadCheckpointsFromDB(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const db = this.getDB();
-      const transaction = db.transaction([this.storeName], 'readonly');
-      const store = transaction.objectStore(this.storeName);
-      const request = store.getAll();
-
-      request.onsuccess = () => {
-        const storedCheckpoints = request.result as StoredCheckpoint[];
-        this.checkpoints.clear();
-
-        for (const stored of storedCheckpoints) {
-          const checkpoint: Checkpoint = {
-            ...stored,
-            kind: stored.kind || 'auto',
-            baseRevisionId: stored.baseRevisionId ?? null,
-            files: new Map(stored.files),
-            directories: new Set(stored.directories)
-          };
-          this.checkpoints.set(checkpoint.id, checkpoint);
+    let storedCheckpoints: StoredCheckpoint[];
+    try {
+      storedCheckpoints = await this.getStorage().getAllRecords<StoredCheckpoint>('checkpoints');
+    } catch (error) {
+      logger.error('Failed to load checkpoints from DB');
+      throw error;
+    }
+
+    const loaded: Checkpoint[] = [];
+    for (const stored of storedCheckpoints) {
+      if (!stored.manifest && stored.files) {
+        try {
+          loaded.push(await this.migrateLegacyCheckpoint(stored));
+        } catch (error) {
+          logger.error(`[Checkpoint] Failed to migrate legacy checkpoint ${stored.id}`, error);
         }
+        continue;
+      }
 
-        resolve();
-      };
+      loaded.push({
+        id: stored.id,
+        timestamp: stored.timestamp,
+        description: stored.description,
+        manifest: new Map(stored.manifest || []),
+        directories: new Set(stored.directories),
+        projectId: stored.projectId,
+        kind: stored.kind || 'auto',
+        baseRevisionId: stored.baseRevisionId ?? null,
+        name: stored.name ?? null,
+        tags: stored.tags ?? []
+      });
+    }
 
-      request.onerror = () => {
-        logger.error('Failed to load checkpoints from DB');
-        reject(request.error);
-      };
-    });
+    this.checkpoints = new Map();
+    this.refCounts = new Map();
+    for (const checkpoint of loaded) {
+      this.addCheckpoint(checkpoint);
+    }
   }
-  
+
   /**
-   * Save a checkpoint to IndexedDB
+   * Convert a full-snapshot checkpoint into blobs plus a manifest
    */
-  private async saveCheckpointToDB(checkpoint: Checkpoint): Promise<void> {
-    await this.initDB();
+  private async migrateLegacyCheckpoint(stored: StoredCheckpoint): Promise<Checkpoint> {
+    const manifest = new Map<string, string>();
+    const blobs: CheckpointBlob[] = [];
+
+    for (const [path, content] of stored.files || []) {
+      const actualContent = typeof content === 'object' && content.encoding === 'base64'
+        ? this.base64ToArrayBuffer(content.data)
+        : content as string;
+      const hash = await this.hashContent(actualContent);
+      manifest.set(path, hash);
+      if (!this.blobHashes.has(hash)) {
+        blobs.push({ hash, content: actualContent, size: this.contentSize(actualContent) });
+      }
+    }
+
+    const checkpoint: Checkpoint = {
+      id: stored.id,
+      timestamp: stored.timestamp,
+      description: stored.description,
+      manifest,
+      directories: new Set(stored.directories),
+      projectId: stored.projectId,
+      kind: stored.kind || 'auto',
+      baseRevisionId: stored.baseRevisionId ?? null,
+      name: stored.name ?? null,
+      tags: stored.tags ?? []
+    };
 
+    await this.saveCheckpointToDB(checkpoint, blobs);
+    logger.info(`[Checkpoint] Migrated ${stored.id} to content-addressed storage`);
+    return checkpoint;
+  }
+
+  private contentSize(content: string | ArrayBuffer): number {
+    return typeof content === 'string' ? new Blob([content]).size : content.byteLength;
+  }
+
+  /**
+   * Save a checkpoint and any new blobs; blobs go first so a manifest never points at missing content
+   */
+  private async saveCheckpointToDB(checkpoint: Checkpoint, blobs: CheckpointBlob[] = []): Promise<void> {
     const storedCheckpoint: StoredCheckpoint = {
-      ...checkpoint,
-      files: Array.from(checkpoint.files.entries()),
+      id: checkpoint.id,
+      timestamp: checkpoint.timestamp,
+      description: checkpoint.description,
+      manifest: Array.from(checkpoint.manifest.entries()),
       directories: Array.from(checkpoint.directories),
+      projectId: checkpoint.projectId,
       kind: checkpoint.kind,
-      baseRevisionId: checkpoint.baseRevisionId ?? null
+      baseRevisionId: checkpoint.baseRevisionId ?? null,
+      name: checkpoint.name ?? null,
+      tags: checkpoint.tags ?? []
     };
 
-    return new Promise((resolve, reject) => {
-      const db = this.getDB();
-      const transaction = db.transaction([this.storeName], 'readwrite');
-      const store = transaction.objectStore(this.storeName);
-      const request = store.put(storedCheckpoint);
-
-      request.onsuccess = () => resolve();
-      request.onerror = () => {
-        logger.error('Failed to save checkpoint to DB');
-        reject(request.error);
-      };
-    });
+    try {
+      await this.getStorage().putRecords('checkpointBlobs', blobs);
+      for (const blob of blobs) {
+        this.blobHashes.add(blob.hash);
+      }
+      await this.getStorage().putRecords('checkpoints', [storedCheckpoint]);
+    } catch (error) {
+      logger.error('Failed to save checkpoint to DB');
+      throw error;
+    }
   }
-  
+
   /**
-   * Delete a checkpoint from IndexedDB
+   * Delete a checkpoint from storage
    */
   private async deleteCheckpointFromDB(checkpointId: string): Promise<void> {
     await this.initDB();
 
-    return new Promise((resolve, reject) => {
-      const db = this.getDB();
-      const transaction = db.transaction([this.storeName], 'readwrite');
-      const store = transaction.objectStore(this.storeName);
-      const request = store.delete(checkpointId);
-
-      request.onsuccess = () => resolve();
-      request.onerror = () => {
-        logger.error('Failed to delete checkpoint from DB');
-        reject(request.error);
-      };
-    });
+    try {
+      await this.getStorage().deleteRecords('checkpoints', [checkpointId]);
+    } catch (error) {
+      logger.error('Failed to delete checkpoint from DB');
+      throw error;
+    }
   }
-  
+
   /**
-   * Create a checkpoint of current project state
+   * Delete blobs released by dropped checkpoints. Stored manifests are only re-read when
+   * something was released, so manifests written by other tabs keep their blobs.
+   */
+  private async collectGarbage(released: string[]): Promise<void> {
+    const candidates = new Set(released.filter(hash => !this.refCounts.has(hash)));
+    if (candidates.size === 0) return;
+
+    const stored = await this.getStorage().getAllRecords<StoredCheckpoint>('checkpoints');
+    for (const checkpoint of stored) {
+      for (const [, hash] of checkpoint.manifest ?? []) {
+        candidates.delete(hash);
+      }
+    }
+    if (candidates.size === 0) return;
+
+    try {
+      await this.getStorage().deleteRecords('checkpointBlobs', Array.from(candidates));
+      for (const hash of candidates) {
+        this.blobHashes.delete(hash);
+      }
+    } catch (error) {
+      logger.error('Failed to delete unreferenced checkpoint blobs');
+      throw error;
+    }
+  }
+
+  /**
+   * Read blob contents for a set of hashes
+   */
+  private async getBlobs(hashes: string[]): Promise<Map<string, string | ArrayBuffer>> {
+    await this.initDB();
+    const unique = Array.from(new Set(hashes));
+
+    try {
+      const blobs = await this.getStorage().getRecords<CheckpointBlob>('checkpointBlobs', unique);
+      return new Map(blobs.map(blob => [blob.hash, blob.content]));
+    } catch (error) {
+      logger.error('Failed to read checkpoint blobs');
+      throw error;
+    }
+  }
+
+  /**
+   * Read the full file contents captured by a checkpoint
+   */
+  async getCheckpointFiles(checkpointId: string): Promise<Map<string, string | ArrayBuffer>> {
+    await this.initDB();
+
+    const checkpoint = this.checkpoints.get(checkpointId);
+    if (!checkpoint) {
+      throw new Error(`Checkpoint not found: ${checkpointId}`);
+    }
+
+    const blobs = await this.getBlobs(Array.from(checkpoint.manifest.values()));
+    const files = new Map<string, string | ArrayBuffer>();
+    for (const [path, hash] of checkpoint.manifest) {
+      const content = blobs.get(hash);
+      if (content === undefined) {
+        throw new Error(`Checkpoint ${checkpointId} is missing content for ${path}`);
+      }
+      files.set(path, content);
+    }
+    return files;
+  }
+
+  /**
+   * Create a checkpoint of current project state.
+   * Only files whose content is not already stored are written; everything else is shared by hash.
    */
   async createCheckpoint(
     projectId: string,
@@ -179,97 +436,148 @@ class CheckpointManager {
     options: CreateCheckpointOptions = {}
   ): Promise<Checkpoint> {
     await this.initDB();
-    await vfs.init();
-    
+    return this.exclusive(() => this.writeCheckpoint(projectId, description, options));
+  }
+
+  private async writeCheckpoint(
+    projectId: string,
+    description: string,
+    options: CreateCheckpointOptions
+  ): Promise<Checkpoint> {
     const files = await vfs.listDirectory(projectId, '/');
-    const fileContents = new Map<string, string | CheckpointFileContent>();
+    const manifest = new Map<string, string>();
     const directories = new Set<string>();
-    
+    const newBlobs = new Map<string, CheckpointBlob>();
+
     for (const file of files) {
       const pathParts = file.path.split('/').filter(Boolean);
       for (let i = 1; i <= pathParts.length - 1; i++) {
         const dirPath = '/' + pathParts.slice(0, i).join('/');
         directories.add(dirPath);
       }
-      
-      if (typeof file.content === 'string') {
-        fileContents.set(file.path, file.content);
-      } else if (file.content instanceof ArrayBuffer) {
-        // Convert ArrayBuffer to base64 for storage
-        const base64Data = this.arrayBufferToBase64(file.content);
-        fileContents.set(file.path, {
-          data: base64Data,
-          encoding: 'base64'
-        });
-      } else {
+
+      let source: VirtualFile = file;
+      if (typeof file.content !== 'string' && !(file.content instanceof ArrayBuffer)) {
         // Try to read the full file if content is not available
         try {
-          const fullFile = await vfs.readFile(projectId, file.path);
-          if (typeof fullFile.content === 'string') {
-            fileContents.set(file.path, fullFile.content);
-          } else if (fullFile.content instanceof ArrayBuffer) {
-            const base64Data = this.arrayBufferToBase64(fullFile.content);
-            fileContents.set(file.path, {
-              data: base64Data,
-              encoding: 'base64'
-            });
-          }
+          source = await vfs.readFile(projectId, file.path);
         } catch (error) {
           logger.error(`Failed to read file for checkpoint: ${file.path}`, error);
+          continue;
         }
       }
+
+      const hash = await this.hashFile(source);
+      manifest.set(file.path, hash);
+      if (!this.blobHashes.has(hash) && !newBlobs.has(hash)) {
+        newBlobs.set(hash, { hash, content: source.content, size: this.contentSize(source.content) });
+      }
     }
-    
+
     const checkpoint: Checkpoint = {
-      id: `cp_${Date.now()}`,
+      id: this.newCheckpointId(),
       timestamp: new Date().toISOString(),
       description,
-      files: fileContents,
+      manifest,
       directories,
       projectId,
       kind: options.kind || 'auto',
-      baseRevisionId: options.baseRevisionId ?? null
+      baseRevisionId: options.baseRevisionId ?? null,
+      name: options.name?.trim() || null,
+      tags: options.tags ?? []
     };
 
+    // Persist first, so blobs released below that the new manifest shares stay referenced
+    await this.saveCheckpointToDB(checkpoint, Array.from(newBlobs.values()));
+    this.addCheckpoint(checkpoint);
+    this.currentCheckpoint = checkpoint.id;
+
+    const released: string[] = [];
     if (options.replaceId) {
-      this.checkpoints.delete(options.replaceId);
+      released.push(...this.removeCheckpoint(options.replaceId));
       await this.deleteCheckpointFromDB(options.replaceId);
     }
 
-    if (checkpoint.kind === 'manual') {
-      const existingManual = Array.from(this.checkpoints.values()).find(
-        (cp) => cp.projectId === projectId && cp.kind === 'manual'
+    // Unnamed manual saves replace each other; named saves are kept side by side
+    if (checkpoint.kind === 'manual' && !checkpoint.name) {
+      const unnamedManual = Array.from(this.checkpoints.values()).filter(
+        (cp) => cp.projectId === projectId && cp.kind === 'manual' && !cp.name && cp.id !== checkpoint.id
       );
-      if (existingManual && existingManual.id !== options.replaceId) {
-        this.checkpoints.delete(existingManual.id);
-        await this.deleteCheckpointFromDB(existingManual.id);
+      for (const existing of unnamedManual) {
+        released.push(...this.removeCheckpoint(existing.id));
+        await this.deleteCheckpointFromDB(existing.id);
       }
     }
 
-    this.checkpoints.set(checkpoint.id, checkpoint);
-    this.currentCheckpoint = checkpoint.id;
-
-    // Persist to IndexedDB
-    await this.saveCheckpointToDB(checkpoint);
-
-    // Clean up old auto checkpoints (keep last 10 by timestamp)
+    // Clean up old auto checkpoints (keep the most recent by timestamp)
     const autoCheckpoints = Array.from(this.checkpoints.values())
       .filter(cp => cp.projectId === projectId && cp.kind === 'auto')
       .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
 
-    if (autoCheckpoints.length > 10) {
-      const toDelete = autoCheckpoints.slice(0, autoCheckpoints.length - 10);
+    if (autoCheckpoints.length > MAX_AUTO_CHECKPOINTS) {
+      const toDelete = autoCheckpoints.slice(0, autoCheckpoints.length - MAX_AUTO_CHECKPOINTS);
       for (const cp of toDelete) {
-        this.checkpoints.delete(cp.id);
+        released.push(...this.removeCheckpoint(cp.id));
         await this.deleteCheckpointFromDB(cp.id);
       }
     }
 
+    await this.collectGarbage(released);
+
+    return checkpoint;
+  }
+
+  private newCheckpointId(): string {
+    return `cp_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  /**
+   * Store a checkpoint built from external file contents (e.g. imported history)
+   * without touching the project's current files
+   */
+  async importCheckpoint(projectId: string, snapshot: ImportedCheckpoint): Promise<Checkpoint> {
+    await this.initDB();
+    return this.exclusive(() => this.writeImportedCheckpoint(projectId, snapshot));
+  }
+
+  private async writeImportedCheckpoint(projectId: string, snapshot: ImportedCheckpoint): Promise<Checkpoint> {
+    const manifest = new Map<string, string>();
+    const directories = new Set<string>();
+    const newBlobs = new Map<string, CheckpointBlob>();
+
+    for (const [path, content] of snapshot.files) {
+      const pathParts = path.split('/').filter(Boolean);
+      for (let i = 1; i <= pathParts.length - 1; i++) {
+        directories.add('/' + pathParts.slice(0, i).join('/'));
+      }
+
+      const hash = await this.hashContent(content);
+      manifest.set(path, hash);
+      if (!this.blobHashes.has(hash) && !newBlobs.has(hash)) {
+        newBlobs.set(hash, { hash, content, size: this.contentSize(content) });
+      }
+    }
+
+    const checkpoint: Checkpoint = {
+      id: this.newCheckpointId(),
+      timestamp: snapshot.timestamp,
+      description: snapshot.description,
+      manifest,
+      directories,
+      projectId,
+      kind: snapshot.kind || 'auto',
+      baseRevisionId: snapshot.baseRevisionId ?? null,
+      name: snapshot.name?.trim() || null,
+      tags: snapshot.tags ?? []
+    };
+
+    await this.saveCheckpointToDB(checkpoint, Array.from(newBlobs.values()));
+    this.addCheckpoint(checkpoint);
     return checkpoint;
   }
-  
+
   /**
-   * Restore project to a checkpoint
+   * Restore project to a checkpoint. Files whose content already matches are left untouched.
    */
   async restoreCheckpoint(checkpointId: string): Promise<boolean> {
     // Defensive check: ensure checkpointId is a string
@@ -277,33 +585,32 @@ class CheckpointManager {
       logger.error('[Checkpoint] Invalid checkpoint ID type:', typeof checkpointId, checkpointId);
       return false;
     }
-    
+
     // Basic validation of checkpoint ID format
     if (!checkpointId.startsWith('cp_') || checkpointId.length < 6) {
       logger.error('[Checkpoint] Invalid checkpoint ID format:', checkpointId);
       return false;
     }
-    
+
     await this.initDB();
-    
+
     let checkpoint = this.checkpoints.get(checkpointId);
     if (!checkpoint) {
-      // Try to load from IndexedDB if not in memory
-      await this.loadCheckpointsFromDB();
+      // Try to load from storage if not in memory
+      await this.exclusive(() => this.loadCheckpointsFromDB());
       checkpoint = this.checkpoints.get(checkpointId);
       if (!checkpoint) {
         logger.error(`[Checkpoint] Checkpoint not found in database: ${checkpointId}`);
-        // List available checkpoints for debugging
-        const available = Array.from(this.checkpoints.keys());
         return false;
       }
     }
-    
+
     await vfs.init();
-    
+
     try {
       const currentFiles = await vfs.listDirectory(checkpoint.projectId, '/');
-      
+      const currentByPath = new Map(currentFiles.map(file => [file.path, file]));
+
       const currentDirs = new Set<string>();
       for (const file of currentFiles) {
         const pathParts = file.path.split('/').filter(Boolean);
@@ -312,28 +619,28 @@ class CheckpointManager {
           currentDirs.add(dirPath);
         }
       }
-      
+
       for (const file of currentFiles) {
-        if (!checkpoint.files.has(file.path)) {
+        if (!checkpoint.manifest.has(file.path)) {
           await vfs.deleteFile(checkpoint.projectId, file.path);
         }
       }
-      
+
       const dirsToDelete = Array.from(currentDirs)
         .filter(dir => !checkpoint.directories || !checkpoint.directories.has(dir))
         .sort((a, b) => b.length - a.length);
-      
+
       for (const dir of dirsToDelete) {
         try {
           await vfs.deleteDirectory(checkpoint.projectId, dir);
         } catch {
         }
       }
-      
+
       if (checkpoint.directories) {
         const dirsToCreate = Array.from(checkpoint.directories)
           .sort((a, b) => a.length - b.length);
-        
+
         for (const dir of dirsToCreate) {
           if (!currentDirs.has(dir)) {
             try {
@@ -343,25 +650,30 @@ class CheckpointManager {
           }
         }
       }
-      
-      for (const [path, content] of checkpoint.files) {
-        let actualContent: string | ArrayBuffer;
-        
-        // Check if content is base64-encoded binary data
-        if (typeof content === 'object' && content.encoding === 'base64') {
-          actualContent = this.base64ToArrayBuffer(content.data);
-        } else {
-          actualContent = content as string;
+
+      // Only fetch and write files whose content differs from the checkpoint
+      const changed: Array<[string, string]> = [];
+      for (const [path, hash] of checkpoint.manifest) {
+        const current = currentByPath.get(path);
+        const hasContent = current && (typeof current.content === 'string' || current.content instanceof ArrayBuffer);
+        if (current && hasContent && await this.hashFile(current) === hash) continue;
+        changed.push([path, hash]);
+      }
+
+      const blobs = await this.getBlobs(changed.map(([, hash]) => hash));
+      for (const [path, hash] of changed) {
+        const content = blobs.get(hash);
+        if (content === undefined) {
+          throw new Error(`Missing checkpoint content for ${path}`);
         }
-        
-        const exists = currentFiles.some(f => f.path === path);
-        if (exists) {
-          await vfs.updateFile(checkpoint.projectId, path, actualContent);
+
+        if (currentByPath.has(path)) {
+          await vfs.updateFile(checkpoint.projectId, path, content);
         } else {
-          await vfs.createFile(checkpoint.projectId, path, actualContent);
+          await vfs.createFile(checkpoint.projectId, path, content);
         }
       }
-      
+
       this.currentCheckpoint = checkpointId;
       return true;
     } catch (error) {
@@ -369,19 +681,202 @@ class CheckpointManager {
       return false;
     }
   }
-  
+
+  /**
+   * Build a path -> hash manifest for the live project files
+   */
+  private async getCurrentManifest(projectId: string): Promise<Map<string, string>> {
+    await vfs.init();
+    const manifest = new Map<string, string>();
+    for (const file of await vfs.listDirectory(projectId, '/')) {
+      let source: VirtualFile = file;
+      if (typeof file.content !== 'string' && !(file.content instanceof ArrayBuffer)) {
+        source = await vfs.readFile(projectId, file.path);
+      }
+      manifest.set(file.path, await this.hashFile(source));
+    }
+    return manifest;
+  }
+
+  /**
+   * Resolve a checkpoint id (or CURRENT_STATE_ID) to its manifest
+   */
+  private async resolveManifest(projectId: string, checkpointId: string): Promise<Map<string, string>> {
+    if (checkpointId === CURRENT_STATE_ID) {
+      return this.getCurrentManifest(projectId);
+    }
+    await this.initDB();
+    const checkpoint = this.checkpoints.get(checkpointId);
+    if (!checkpoint) {
+      throw new Error(`Checkpoint not found: ${checkpointId}`);
+    }
+    return checkpoint.manifest;
+  }
+
+  /**
+   * List files added, removed or modified between two checkpoints (either may be CURRENT_STATE_ID)
+   */
+  async diffCheckpoints(projectId: string, fromId: string, toId: string): Promise<CheckpointFileChange[]> {
+    const from = await this.resolveManifest(projectId, fromId);
+    const to = await this.resolveManifest(projectId, toId);
+    const changes: CheckpointFileChange[] = [];
+
+    for (const [path, hash] of to) {
+      if (!from.has(path)) {
+        changes.push({ path, status: 'added' });
+      } else if (from.get(path) !== hash) {
+        changes.push({ path, status: 'modified' });
+      }
+    }
+    for (const path of from.keys()) {
+      if (!to.has(path)) {
+        changes.push({ path, status: 'removed' });
+      }
+    }
+
+    return changes.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  /**
+   * Read one file as captured by a checkpoint (or the live project); null when the file is absent
+   */
+  async getFileContent(projectId: string, checkpointId: string, path: string): Promise<string | ArrayBuffer | null> {
+    if (checkpointId === CURRENT_STATE_ID) {
+      await vfs.init();
+      try {
+        return (await vfs.readFile(projectId, path)).content;
+      } catch {
+        return null;
+      }
+    }
+
+    const manifest = await this.resolveManifest(projectId, checkpointId);
+    const hash = manifest.get(path);
+    if (!hash) return null;
+    const blobs = await this.getBlobs([hash]);
+    return blobs.get(hash) ?? null;
+  }
+
+  /**
+   * Restore individual files or directories from a checkpoint, leaving the rest of the project untouched.
+   * A directory path restores everything beneath it, including removing files added since the checkpoint.
+   * Returns the number of files written or deleted.
+   */
+  async restorePaths(checkpointId: string, paths: string[]): Promise<number> {
+    await this.initDB();
+
+    const checkpoint = this.checkpoints.get(checkpointId);
+    if (!checkpoint) {
+      throw new Error(`Checkpoint not found: ${checkpointId}`);
+    }
+
+    const targets = paths.map(p => (p.length > 1 && p.endsWith('/') ? p.slice(0, -1) : p));
+    const isSelected = (path: string) =>
+      targets.some(target => target === '/' || path === target || path.startsWith(target + '/'));
+
+    await vfs.init();
+    const currentFiles = (await vfs.listDirectory(checkpoint.projectId, '/')).filter(f => isSelected(f.path));
+    const currentByPath = new Map(currentFiles.map(file => [file.path, file]));
+    let changedCount = 0;
+
+    for (const file of currentFiles) {
+      if (!checkpoint.manifest.has(file.path)) {
+        await vfs.deleteFile(checkpoint.projectId, file.path);
+        changedCount++;
+      }
+    }
+
+    const dirsToCreate = Array.from(checkpoint.directories)
+      .filter(dir => isSelected(dir) || targets.some(target => target.startsWith(dir + '/')))
+      .sort((a, b) => a.length - b.length);
+    for (const dir of dirsToCreate) {
+      try {
+        await vfs.createDirectory(checkpoint.projectId, dir);
+      } catch {
+      }
+    }
+
+    const changed: Array<[string, string]> = [];
+    for (const [path, hash] of checkpoint.manifest) {
+      if (!isSelected(path)) continue;
+      const current = currentByPath.get(path);
+      const hasContent = current && (typeof current.content === 'string' || current.content instanceof ArrayBuffer);
+      if (current && hasContent && await this.hashFile(current) === hash) continue;
+      changed.push([path, hash]);
+    }
+
+    const blobs = await this.getBlobs(changed.map(([, hash]) => hash));
+    for (const [path, hash] of changed) {
+      const content = blobs.get(hash);
+      if (content === undefined) {
+        throw new Error(`Missing checkpoint content for ${path}`);
+      }
+      if (currentByPath.has(path)) {
+        await vfs.updateFile(checkpoint.projectId, path, content);
+      } else {
+        await vfs.createFile(checkpoint.projectId, path, content);
+      }
+      changedCount++;
+    }
+
+    return changedCount;
+  }
+
+  /**
+   * Get a single checkpoint by id
+   */
+  async getCheckpoint(checkpointId: string): Promise<Checkpoint | null> {
+    await this.initDB();
+    return this.checkpoints.get(checkpointId) || null;
+  }
+
+  /**
+   * Rename, re-describe or re-tag a checkpoint
+   */
+  async updateCheckpoint(checkpointId: string, updates: CheckpointMetadataUpdate): Promise<Checkpoint> {
+    await this.initDB();
+
+    const checkpoint = this.checkpoints.get(checkpointId);
+    if (!checkpoint) {
+      throw new Error(`Checkpoint not found: ${checkpointId}`);
+    }
+
+    if (updates.name !== undefined) checkpoint.name = updates.name?.trim() || null;
+    if (updates.description !== undefined) checkpoint.description = updates.description;
+    if (updates.tags !== undefined) checkpoint.tags = updates.tags;
+
+    await this.exclusive(() => this.saveCheckpointToDB(checkpoint));
+    return checkpoint;
+  }
+
+  /**
+   * Delete a single checkpoint and any blobs only it referenced
+   */
+  async deleteCheckpoint(checkpointId: string): Promise<void> {
+    await this.initDB();
+
+    await this.exclusive(async () => {
+      const released = this.removeCheckpoint(checkpointId);
+      await this.deleteCheckpointFromDB(checkpointId);
+      if (this.currentCheckpoint === checkpointId) {
+        this.currentCheckpoint = null;
+      }
+      await this.collectGarbage(released);
+    });
+  }
+
   /**
    * Get all checkpoints for a project
    */
   async getCheckpoints(projectId: string): Promise<Checkpoint[]> {
     await this.initDB();
-    await this.loadCheckpointsFromDB();
-    
+    await this.exclusive(() => this.loadCheckpointsFromDB());
+
     return Array.from(this.checkpoints.values())
       .filter(cp => cp.projectId === projectId)
       .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
   }
-  
+
   /**
    * Get the current checkpoint
    */
@@ -389,7 +884,7 @@ class CheckpointManager {
     if (!this.currentCheckpoint) return null;
     return this.checkpoints.get(this.currentCheckpoint) || null;
   }
-  
+
   /**
    * Check if a checkpoint exists
    */
@@ -397,16 +892,16 @@ class CheckpointManager {
     if (!checkpointId || typeof checkpointId !== 'string') {
       return false;
     }
-    
+
     await this.initDB();
-    
+
     // Check memory first
     if (this.checkpoints.has(checkpointId)) {
       return true;
     }
-    
+
     // Check database
-    await this.loadCheckpointsFromDB();
+    await this.exclusive(() => this.loadCheckpointsFromDB());
     return this.checkpoints.has(checkpointId);
   }
 
@@ -415,20 +910,17 @@ class CheckpointManager {
    */
   async clearCheckpoints(projectId: string): Promise<void> {
     await this.initDB();
-    
-    const toDelete: string[] = [];
-    for (const [id, checkpoint] of this.checkpoints) {
-      if (checkpoint.projectId === projectId) {
-        this.checkpoints.delete(id);
-        toDelete.push(id);
+
+    await this.exclusive(async () => {
+      const released: string[] = [];
+      const toDelete = Array.from(this.checkpoints.values()).filter(cp => cp.projectId === projectId);
+      for (const checkpoint of toDelete) {
+        released.push(...this.removeCheckpoint(checkpoint.id));
+        await this.deleteCheckpointFromDB(checkpoint.id);
       }
-    }
-    
-    // Delete from IndexedDB
-    for (const id of toDelete) {
-      await this.deleteCheckpointFromDB(id);
-    }
-    
+      await this.collectGarbage(released);
+    });
+
     this.currentCheckpoint = null;
   }
 }
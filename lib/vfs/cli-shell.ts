@@ -1,8 +1,11 @@
-import { VirtualFileSystem } from './index';
+import { VirtualFileSystem, vfs } from './index';
+import { parseShellScript, ShellScript, SimpleCommand } from './shell-parser';
+import { runAwk, runSed } from './stream-editors';
 
 export type ShellOpts = {
   cwd?: string;
   timeoutMs?: number;
+  stdin?: string; // piped input from the previous command in a pipeline
 };
 
 export type ShellResult = {
@@ -45,11 +48,123 @@ async function ensureDirectory(vfs: VirtualFileSystem, projectId: string, path:
   }
 }
 
+/**
+ * Split text into lines, ignoring the empty line produced by a trailing newline
+ */
+function toLines(text: string): string[] {
+  if (!text) return [];
+  const lines = text.split(/\r?\n/);
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Resolve command input from a file path or, when no path is given, from piped stdin
+ */
+async function readTextInput(
+  vfs: VirtualFileSystem,
+  projectId: string,
+  program: string,
+  filePath: string | undefined,
+  stdin: string | undefined
+): Promise<{ text: string; path?: string } | { error: ShellResult }> {
+  if ((!filePath || filePath === '-') && stdin !== undefined) {
+    return { text: stdin };
+  }
+  const path = normalizePath(filePath);
+  if (!path) {
+    return { error: { stdout: '', stderr: `${program}: missing file path`, exitCode: 2 } };
+  }
+  try {
+    const file = await vfs.readFile(projectId, path);
+    if (typeof file.content !== 'string') {
+      return { error: { stdout: '', stderr: `${program}: ${path}: binary file`, exitCode: 1 } };
+    }
+    return { text: file.content, path };
+  } catch (e: any) {
+    return { error: { stdout: '', stderr: `${program}: ${path}: ${e?.message || 'file not found'}`, exitCode: 1 } };
+  }
+}
+
+/**
+ * Parse line-count flags shared by head and tail: -n N, -nN, -N
+ */
+function parseLineCountArgs(args: string[]): { count: number; fromStart: boolean; files: string[] } {
+  let count = 10;
+  let fromStart = false;
+  const files: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const a = args[i];
+    let value: string | undefined;
+    if (a === '-n' && args[i + 1] !== undefined) {
+      value = args[++i];
+    } else if (/^-n[+-]?\d+$/.test(a)) {
+      value = a.slice(2);
+    } else if (/^-\d+$/.test(a)) {
+      value = a.slice(1);
+    } else if (a === '-' || !a.startsWith('-')) {
+      files.push(a);
+      continue;
+    }
+    if (value !== undefined) {
+      fromStart = value.startsWith('+');
+      count = Math.abs(parseInt(value, 10)) || 10;
+    }
+  }
+
+  return { count, fromStart, files };
+}
+
+/**
+ * Parse a cut-style list such as "1,3", "2-" or "1-4" into a predicate over 1-based positions
+ */
+function parseCutList(list: string): ((position: number) => boolean) | null {
+  const ranges: Array<[number, number]> = [];
+  for (const part of list.split(',')) {
+    const match = part.match(/^(\d*)(-?)(\d*)$/);
+    if (!match || (!match[1] && !match[3])) return null;
+    const start = match[1] ? parseInt(match[1], 10) : 1;
+    const end = match[2] ? (match[3] ? parseInt(match[3], 10) : Infinity) : start;
+    ranges.push([start, end]);
+  }
+  return (position: number) => ranges.some(([start, end]) => position >= start && position <= end);
+}
+
+/**
+ * Collect matching lines with surrounding context, formatted as [prefix][lineNo:]line
+ */
+function collectMatches(
+  lines: string[],
+  regex: RegExp,
+  options: { before: number; after: number; lineNumbers: boolean; prefix: string; invert?: boolean }
+): { output: string[]; matchCount: number } {
+  const matchedLines = new Set<number>();
+  for (let i = 0; i < lines.length; i++) {
+    if (regex.test(lines[i]) !== Boolean(options.invert)) {
+      matchedLines.add(i);
+    }
+  }
+
+  const contextLines = new Set<number>();
+  for (const lineNum of matchedLines) {
+    for (let j = Math.max(0, lineNum - options.before); j <= Math.min(lines.length - 1, lineNum + options.after); j++) {
+      contextLines.add(j);
+    }
+  }
+
+  const output = Array.from(contextLines)
+    .sort((a, b) => a - b)
+    .map(lineNum => `${options.prefix}${options.lineNumbers ? `${lineNum + 1}:` : ''}${lines[lineNum]}`);
+
+  return { output, matchCount: matchedLines.size };
+}
+
 async function vfsShellExecute(
   vfs: VirtualFileSystem,
   projectId: string,
   cmd: string[],
-  _opts: ShellOpts = {}
+  opts: ShellOpts = {}
 ): Promise<ShellResult> {
   // Validate inputs
   if (!projectId || typeof projectId !== 'string') {
@@ -67,6 +182,7 @@ async function vfsShellExecute(
   }
 
   const [program, ...args] = cleanCmd;
+  const stdin = opts.stdin;
 
   try {
     switch (program) {
@@ -142,89 +258,66 @@ async function vfsShellExecute(
         return { stdout: truncate(lines.join('\n')), stderr: '', exitCode: 0 };
       }
       case 'cat': {
-        const path = normalizePath(args[0]);
-        if (!path) return { stdout: '', stderr: 'cat: missing file path', exitCode: 2 };
-        if (path.startsWith('/-')) return { stdout: '', stderr: 'cat: invalid path (looks like an option). Use: cat /path/to/file', exitCode: 2 };
-        const file = await vfs.readFile(projectId, path);
-        if (typeof file.content !== 'string') {
-          return { stdout: '', stderr: `cat: ${path}: binary or non-text file`, exitCode: 1 };
+        // cat [-n] [file...] - reads stdin when no file is given
+        const numberLines = args.includes('-n');
+        const files = args.filter(a => a !== '-n');
+        if (files.length === 0 && stdin === undefined) {
+          return { stdout: '', stderr: 'cat: missing file path', exitCode: 2 };
         }
-        return { stdout: truncate(file.content), stderr: '', exitCode: 0 };
-      }
-      case 'head': {
-        // head [-n lines] <file>
-        let numLines = 10;
-        let filePath = '';
 
-        for (let i = 0; i < args.length; i++) {
-          const a = args[i];
-          if (a === '-n' && args[i + 1]) {
-            numLines = parseInt(args[++i]) || 10;
-          } else if (!a.startsWith('-')) {
-            filePath = a;
+        const parts: string[] = [];
+        for (const filePath of files.length > 0 ? files : ['-']) {
+          if (filePath !== '-' && normalizePath(filePath)?.startsWith('/-')) {
+            return { stdout: '', stderr: 'cat: invalid path (looks like an option). Use: cat /path/to/file', exitCode: 2 };
           }
+          const input = await readTextInput(vfs, projectId, 'cat', filePath, stdin);
+          if ('error' in input) return input.error;
+          parts.push(input.text);
         }
 
-        const path = normalizePath(filePath);
-        if (!path) return { stdout: '', stderr: 'head: missing file path', exitCode: 2 };
-
-        try {
-          const file = await vfs.readFile(projectId, path);
-          if (typeof file.content !== 'string') {
-            return { stdout: '', stderr: `head: ${path}: binary file`, exitCode: 1 };
-          }
-
-          const lines = (file.content as string).split(/\r?\n/);
-          const output = lines.slice(0, numLines).join('\n');
-          return { stdout: truncate(output), stderr: '', exitCode: 0 };
-        } catch (e: any) {
-          return { stdout: '', stderr: `head: ${path}: ${e?.message || 'file not found'}`, exitCode: 1 };
+        // Keep file boundaries on separate lines when concatenating
+        let output = parts.length === 1
+          ? parts[0]
+          : parts.map(p => (p.length === 0 || p.endsWith('\n') ? p : p + '\n')).join('');
+        if (numberLines) {
+          output = toLines(output)
+            .map((line, i) => `${String(i + 1).padStart(6)}\t${line}`)
+            .join('\n');
         }
+        return { stdout: truncate(output), stderr: '', exitCode: 0 };
       }
-      case 'tail': {
-        // tail [-n lines] <file>
-        let numLines = 10;
-        let filePath = '';
-
-        for (let i = 0; i < args.length; i++) {
-          const a = args[i];
-          if (a === '-n' && args[i + 1]) {
-            numLines = parseInt(args[++i]) || 10;
-          } else if (!a.startsWith('-')) {
-            filePath = a;
-          }
-        }
-
-        const path = normalizePath(filePath);
-        if (!path) return { stdout: '', stderr: 'tail: missing file path', exitCode: 2 };
+      case 'head': {
+        // head [-n lines] [file] - reads stdin when no file is given
+        const { count, files } = parseLineCountArgs(args);
+        const input = await readTextInput(vfs, projectId, 'head', files[0], stdin);
+        if ('error' in input) return input.error;
 
-        try {
-          const file = await vfs.readFile(projectId, path);
-          if (typeof file.content !== 'string') {
-            return { stdout: '', stderr: `tail: ${path}: binary file`, exitCode: 1 };
-          }
+        const output = toLines(input.text).slice(0, count).join('\n');
+        return { stdout: truncate(output), stderr: '', exitCode: 0 };
+      }
+      case 'tail': {
+        // tail [-n lines | -n +start] [file] - reads stdin when no file is given
+        const { count, fromStart, files } = parseLineCountArgs(args);
+        const input = await readTextInput(vfs, projectId, 'tail', files[0], stdin);
+        if ('error' in input) return input.error;
 
-          const lines = (file.content as string).split(/\r?\n/);
-          const output = lines.slice(-numLines).join('\n');
-          return { stdout: truncate(output), stderr: '', exitCode: 0 };
-        } catch (e: any) {
-          return { stdout: '', stderr: `tail: ${path}: ${e?.message || 'file not found'}`, exitCode: 1 };
-        }
+        const lines = toLines(input.text);
+        const output = (fromStart ? lines.slice(Math.max(0, count - 1)) : lines.slice(-count)).join('\n');
+        return { stdout: truncate(output), stderr: '', exitCode: 0 };
       }
       case 'grep': {
-        // Supported: grep [-n] [-i] [-r] [-F] pattern path
+        // Supported: grep [-n] [-i] [-r] [-F] [-v] [-c] pattern [path] - reads stdin when no path is given
         // -F: treat pattern as fixed string (literal) instead of regex
-        const flags: Record<string, boolean> = { n: false, i: false, r: false, F: false };
+        const flags: Record<string, boolean> = { n: false, i: false, r: false, F: false, v: false, c: false, E: false };
         const fargs: string[] = [];
         for (const a of args) {
-          if (a.startsWith('-')) {
+          if (a.startsWith('-') && a.length > 1) {
             for (const ch of a.slice(1)) if (ch in flags) flags[ch] = true;
           } else {
             fargs.push(a);
           }
         }
         const pattern = fargs[0];
-        const path = normalizePath(fargs[1]) || '/';
         if (!pattern) return { stdout: '', stderr: 'grep: missing pattern', exitCode: 2 };
 
         // Create regex - escape special chars if -F flag is used
@@ -237,39 +330,50 @@ async function vfsShellExecute(
           regex = new RegExp(pattern, flags.i ? 'i' : '');
         }
 
+        if (!fargs[1] && stdin !== undefined) {
+          const { output, matchCount } = collectMatches(toLines(stdin), regex, {
+            before: 0, after: 0, lineNumbers: flags.n, prefix: '', invert: flags.v
+          });
+          if (flags.c) return { stdout: String(matchCount), stderr: '', exitCode: matchCount > 0 ? 0 : 1 };
+          return { stdout: truncate(output.join('\n')), stderr: '', exitCode: matchCount > 0 ? 0 : 1 };
+        }
+
+        const path = normalizePath(fargs[1]) || '/';
         const entries = await vfs.getAllFilesAndDirectories(projectId);
         const dirPrefix = path === '/' ? '/' : (path.endsWith('/') ? path : path + '/');
         const outLines: string[] = [];
+        let totalMatches = 0;
         for (const e of entries) {
           if ('type' in e && e.type === 'directory') continue;
           const file = e as any;
           if (!file.path.startsWith(dirPrefix) && file.path !== path) continue;
           if (typeof file.content !== 'string') continue;
-          const lines = (file.content as string).split(/\r?\n/);
-          for (let i = 0; i < lines.length; i++) {
-            const line = lines[i];
-            if (regex.test(line)) {
-              outLines.push(
-                `${file.path}${flags.n ? ':' + (i + 1) : ''}:${line}`
-              );
-            }
+          const { output, matchCount } = collectMatches(toLines(file.content), regex, {
+            before: 0, after: 0, lineNumbers: flags.n, prefix: `${file.path}:`, invert: flags.v
+          });
+          totalMatches += matchCount;
+          if (flags.c) {
+            if (matchCount > 0) outLines.push(`${file.path}:${matchCount}`);
+          } else {
+            outLines.push(...output);
           }
         }
         const output = outLines.join('\n');
-        if (outLines.length === 0) {
+        if (totalMatches === 0) {
           const location = path === '/' ? 'workspace root' : path;
-          return { stdout: '', stderr: `grep: pattern "${pattern}" not found in ${location}`, exitCode: 1 };
+          return { stdout: flags.c ? '0' : '', stderr: `grep: pattern "${pattern}" not found in ${location}`, exitCode: 1 };
         }
         return { stdout: truncate(output), stderr: '', exitCode: 0 };
       }
       case 'rg': {
-        // ripgrep with context flags: rg [-n] [-i] [-C num] [-A num] [-B num] pattern [path]
+        // ripgrep with context flags: rg [-n] [-i] [-C num] [-A num] [-B num] pattern [path] - reads stdin when no path is given
         const flags: Record<string, any> = { n: true, i: false, C: 0, A: 0, B: 0 };
         const fargs: string[] = [];
         for (let i = 0; i < args.length; i++) {
           const a = args[i];
           if (a.startsWith('-')) {
             if (a === '-n') flags.n = true;
+            else if (a === '-N') flags.n = false;
             else if (a === '-i') flags.i = true;
             else if (a === '-C') { flags.C = parseInt(args[++i]) || 2; }
             else if (a === '-A') { flags.A = parseInt(args[++i]) || 2; }
@@ -279,10 +383,20 @@ async function vfsShellExecute(
           }
         }
         const pattern = fargs[0];
-        const path = normalizePath(fargs[1]) || '/';
         if (!pattern) return { stdout: '', stderr: 'rg: missing pattern', exitCode: 2 };
 
         const regex = new RegExp(pattern, flags.i ? 'i' : '');
+        const beforeContext = flags.C || flags.B;
+        const afterContext = flags.C || flags.A;
+
+        if (!fargs[1] && stdin !== undefined) {
+          const { output } = collectMatches(toLines(stdin), regex, {
+            before: beforeContext, after: afterContext, lineNumbers: flags.n, prefix: ''
+          });
+          return { stdout: truncate(output.join('\n')), stderr: '', exitCode: output.length > 0 ? 0 : 1 };
+        }
+
+        const path = normalizePath(fargs[1]) || '/';
         const entries = await vfs.getAllFilesAndDirectories(projectId);
         const dirPrefix = path === '/' ? '/' : (path.endsWith('/') ? path : path + '/');
         const outLines: string[] = [];
@@ -293,38 +407,13 @@ async function vfsShellExecute(
           if (!file.path.startsWith(dirPrefix) && file.path !== path) continue;
           if (typeof file.content !== 'string') continue;
 
-          const lines = (file.content as string).split(/\r?\n/);
-          const matchedLines = new Set<number>();
+          const { output } = collectMatches((file.content as string).split(/\r?\n/), regex, {
+            before: beforeContext, after: afterContext, lineNumbers: flags.n, prefix: `${file.path}:`
+          });
+          if (output.length === 0) continue;
 
-          // Find all matches
-          for (let i = 0; i < lines.length; i++) {
-            if (regex.test(lines[i])) {
-              matchedLines.add(i);
-            }
-          }
-
-          if (matchedLines.size === 0) continue;
-
-          // Add context lines
-          const contextLines = new Set<number>();
-          const beforeContext = flags.C || flags.B;
-          const afterContext = flags.C || flags.A;
-
-          for (const lineNum of matchedLines) {
-            for (let j = Math.max(0, lineNum - beforeContext); j <= Math.min(lines.length - 1, lineNum + afterContext); j++) {
-              contextLines.add(j);
-            }
-          }
-
-          // Output with line numbers
-          const sortedLines = Array.from(contextLines).sort((a, b) => a - b);
           if (outLines.length > 0) outLines.push(''); // Separator between files
-
-          for (const lineNum of sortedLines) {
-            const lineNumStr = flags.n ? `${lineNum + 1}:` : '';
-            const isMatch = matchedLines.has(lineNum);
-            outLines.push(`${file.path}:${lineNumStr}${lines[lineNum]}`);
-          }
+          outLines.push(...output);
         }
 
         if (outLines.length === 0) {
@@ -508,40 +597,262 @@ async function vfsShellExecute(
         }
       }
       case 'echo': {
-        // Support: echo text or echo "text" > /file.txt
-        const redirectIndex = args.indexOf('>');
+        // echo [-n] [-e] text - redirection (> and >>) is handled by the shell runner
+        let interpretEscapes = false;
+        let i = 0;
+        while (i < args.length && /^-[ne]+$/.test(args[i])) {
+          if (args[i].includes('e')) interpretEscapes = true;
+          i++;
+        }
+        let text = args.slice(i).join(' ');
+        if (interpretEscapes) {
+          text = text.replace(/\\n/g, '\n').replace(/\\t/g, '\t');
+        }
+        return { stdout: truncate(text), stderr: '', exitCode: 0 };
+      }
+      case 'wc': {
+        // wc [-l] [-w] [-c] [file...] - reads stdin when no file is given
+        const flagChars = args.filter(a => a.startsWith('-') && a.length > 1).join('');
+        const files = args.filter(a => a === '-' || !a.startsWith('-'));
+        const showAll = !/[lwcm]/.test(flagChars);
+        const selected = {
+          l: showAll || flagChars.includes('l'),
+          w: showAll || flagChars.includes('w'),
+          c: showAll || flagChars.includes('c') || flagChars.includes('m')
+        };
 
-        if (redirectIndex === -1) {
-          // No redirection, just output to stdout
-          return { stdout: truncate(args.join(' ')), stderr: '', exitCode: 0 };
+        const outLines: string[] = [];
+        for (const filePath of files.length > 0 ? files : ['-']) {
+          const input = await readTextInput(vfs, projectId, 'wc', filePath, stdin);
+          if ('error' in input) return input.error;
+          const counts: number[] = [];
+          if (selected.l) counts.push(toLines(input.text).length);
+          if (selected.w) counts.push(input.text.split(/\s+/).filter(Boolean).length);
+          if (selected.c) counts.push(new Blob([input.text]).size);
+          outLines.push([...counts, ...(input.path ? [input.path] : [])].join(' '));
+        }
+        return { stdout: outLines.join('\n'), stderr: '', exitCode: 0 };
+      }
+      case 'sort': {
+        // sort [-r] [-n] [-u] [-f] [-t delim] [-k field] [file]
+        let reverse = false, numeric = false, unique = false, foldCase = false;
+        let delimiter: string | undefined;
+        let keyField: number | undefined;
+        const files: string[] = [];
+        for (let i = 0; i < args.length; i++) {
+          const a = args[i];
+          if (a === '-t') { delimiter = args[++i]; continue; }
+          if (a === '-k') { keyField = parseInt(args[++i], 10) || undefined; continue; }
+          if (a.startsWith('-t') && a.length > 2) { delimiter = a.slice(2); continue; }
+          if (a.startsWith('-k') && a.length > 2) { keyField = parseInt(a.slice(2), 10) || undefined; continue; }
+          if (a.startsWith('-') && a.length > 1) {
+            if (a.includes('r')) reverse = true;
+            if (a.includes('n')) numeric = true;
+            if (a.includes('u')) unique = true;
+            if (a.includes('f')) foldCase = true;
+            continue;
+          }
+          files.push(a);
         }
 
-        // Handle redirection: echo text > /file.txt
-        const content = args.slice(0, redirectIndex).join(' ');
-        const targetFile = args[redirectIndex + 1];
-        const path = normalizePath(targetFile);
+        const input = await readTextInput(vfs, projectId, 'sort', files[0], stdin);
+        if ('error' in input) return input.error;
+
+        const keyOf = (line: string) => {
+          let key = line;
+          if (keyField) {
+            const fields = delimiter !== undefined ? line.split(delimiter) : line.trim().split(/\s+/);
+            key = fields.slice(keyField - 1).join(delimiter ?? ' ');
+          }
+          return foldCase ? key.toLowerCase() : key;
+        };
 
-        if (!path) {
-          return { stdout: '', stderr: 'echo: missing file path after >', exitCode: 2 };
+        let lines = toLines(input.text).sort((a, b) => {
+          const ka = keyOf(a);
+          const kb = keyOf(b);
+          if (numeric) {
+            const diff = (parseFloat(ka) || 0) - (parseFloat(kb) || 0);
+            if (diff !== 0) return diff;
+          }
+          return ka < kb ? -1 : ka > kb ? 1 : 0;
+        });
+        if (reverse) lines.reverse();
+        if (unique) {
+          lines = lines.filter((line, i) => i === 0 || keyOf(line) !== keyOf(lines[i - 1]));
         }
+        return { stdout: truncate(lines.join('\n')), stderr: '', exitCode: 0 };
+      }
+      case 'uniq': {
+        // uniq [-c] [-d] [-u] [-i] [file] - collapses adjacent duplicate lines
+        const flagChars = args.filter(a => a.startsWith('-') && a.length > 1).join('');
+        const files = args.filter(a => a === '-' || !a.startsWith('-'));
+        const input = await readTextInput(vfs, projectId, 'uniq', files[0], stdin);
+        if ('error' in input) return input.error;
 
-        try {
-          // Ensure parent directory exists
-          const dirPath = path.split('/').slice(0, -1).join('/') || '/';
-          if (dirPath !== '/') {
-            await ensureDirectory(vfs, projectId, dirPath);
+        const normalize = (line: string) => (flagChars.includes('i') ? line.toLowerCase() : line);
+        const groups: Array<{ line: string; count: number }> = [];
+        for (const line of toLines(input.text)) {
+          const last = groups[groups.length - 1];
+          if (last && normalize(last.line) === normalize(line)) {
+            last.count++;
+          } else {
+            groups.push({ line, count: 1 });
           }
+        }
 
-          // Create or overwrite the file
-          try {
-            await vfs.createFile(projectId, path, content);
-          } catch {
-            await vfs.updateFile(projectId, path, content);
+        const output = groups
+          .filter(g => (flagChars.includes('d') ? g.count > 1 : true))
+          .filter(g => (flagChars.includes('u') ? g.count === 1 : true))
+          .map(g => (flagChars.includes('c') ? `${String(g.count).padStart(7)} ${g.line}` : g.line))
+          .join('\n');
+        return { stdout: truncate(output), stderr: '', exitCode: 0 };
+      }
+      case 'cut': {
+        // cut -d delim -f list [file] | cut -c list [file]
+        let delimiter = '\t';
+        let fieldList: string | undefined;
+        let charList: string | undefined;
+        const files: string[] = [];
+        for (let i = 0; i < args.length; i++) {
+          const a = args[i];
+          if (a === '-d') { delimiter = args[++i] ?? delimiter; continue; }
+          if (a === '-f') { fieldList = args[++i]; continue; }
+          if (a === '-c') { charList = args[++i]; continue; }
+          if (a.startsWith('-d') && a.length > 2) { delimiter = a.slice(2); continue; }
+          if (a.startsWith('-f') && a.length > 2) { fieldList = a.slice(2); continue; }
+          if (a.startsWith('-c') && a.length > 2) { charList = a.slice(2); continue; }
+          files.push(a);
+        }
+
+        const list = fieldList ?? charList;
+        const selects = list ? parseCutList(list) : null;
+        if (!selects) {
+          return { stdout: '', stderr: 'cut: you must specify a list of fields (-f) or characters (-c), e.g. cut -d: -f1', exitCode: 2 };
+        }
+
+        const input = await readTextInput(vfs, projectId, 'cut', files[0], stdin);
+        if ('error' in input) return input.error;
+
+        const output = toLines(input.text).map(line => {
+          if (charList) {
+            return Array.from(line).filter((_, i) => selects(i + 1)).join('');
+          }
+          if (!line.includes(delimiter)) return line;
+          return line.split(delimiter).filter((_, i) => selects(i + 1)).join(delimiter);
+        });
+        return { stdout: truncate(output.join('\n')), stderr: '', exitCode: 0 };
+      }
+      case 'sed': {
+        // sed [-n] [-E] [-i] [-e script]... [script] [file...] - -i writes the result back to each file
+        let quiet = false;
+        let extended = false;
+        let inPlace = false;
+        const scripts: string[] = [];
+        const operands: string[] = [];
+        for (let i = 0; i < args.length; i++) {
+          const a = args[i];
+          if (a === '-e' || a === '--expression') {
+            if (args[i + 1] === undefined) return { stdout: '', stderr: 'sed: option requires an argument -- e', exitCode: 2 };
+            scripts.push(args[++i]);
+          } else if (a === '--in-place' || a.startsWith('--in-place=')) {
+            inPlace = true;
+          } else if (a === '--quiet' || a === '--silent') {
+            quiet = true;
+          } else if (/^-[nEri]+/.test(a) && !operands.length) {
+            // Combined short flags like -ni; a suffix after i (e.g. -i.bak) is a backup extension we ignore
+            for (const ch of a.slice(1)) {
+              if (ch === 'n') quiet = true;
+              else if (ch === 'E' || ch === 'r') extended = true;
+              else if (ch === 'i') { inPlace = true; break; }
+              else break;
+            }
+          } else {
+            operands.push(a);
           }
-          return { stdout: '', stderr: '', exitCode: 0 };
-        } catch (e: any) {
-          return { stdout: '', stderr: `echo: ${path}: ${e?.message || 'cannot write file'}`, exitCode: 1 };
         }
+        if (scripts.length === 0) {
+          const script = operands.shift();
+          if (script === undefined) return { stdout: '', stderr: 'sed: missing script', exitCode: 2 };
+          scripts.push(script);
+        }
+        if (inPlace && operands.length === 0) {
+          return { stdout: '', stderr: 'sed: -i requires at least one file path', exitCode: 2 };
+        }
+
+        const outputs: string[] = [];
+        const edited: string[] = [];
+        for (const filePath of operands.length > 0 ? operands : ['-']) {
+          const input = await readTextInput(vfs, projectId, 'sed', filePath, stdin);
+          if ('error' in input) return input.error;
+
+          const result = runSed(scripts, input.text, { quiet, extended });
+          if (inPlace && input.path) {
+            if (result !== input.text) {
+              await vfs.updateFile(projectId, input.path, result);
+              edited.push(input.path);
+            }
+          } else {
+            outputs.push(result.endsWith('\n') ? result.slice(0, -1) : result);
+          }
+        }
+
+        if (inPlace) {
+          // Like sed -i, print nothing on success; an unmatched pattern is worth a note on stderr
+          const stderr = edited.length > 0 ? '' : 'sed: no changes (pattern did not match)';
+          return { stdout: '', stderr, exitCode: 0 };
+        }
+        return { stdout: truncate(outputs.join('\n')), stderr: '', exitCode: 0 };
+      }
+      case 'nl': {
+        // nl [-b a|t] [-w width] [file] - numbers non-empty lines by default, all lines with -ba
+        let numberAll = false;
+        let width = 6;
+        const files: string[] = [];
+        for (let i = 0; i < args.length; i++) {
+          const a = args[i];
+          if (a === '-b') { numberAll = args[++i] === 'a'; continue; }
+          if (a.startsWith('-b') && a.length > 2) { numberAll = a.slice(2) === 'a'; continue; }
+          if (a === '-w') { width = parseInt(args[++i], 10) || width; continue; }
+          if (a.startsWith('-w') && a.length > 2) { width = parseInt(a.slice(2), 10) || width; continue; }
+          if (a === '-' || !a.startsWith('-')) files.push(a);
+        }
+
+        const input = await readTextInput(vfs, projectId, 'nl', files[0], stdin);
+        if ('error' in input) return input.error;
+
+        let counter = 0;
+        const output = toLines(input.text).map(line => {
+          if (!numberAll && line.trim() === '') return line;
+          counter++;
+          return `${String(counter).padStart(width)}\t${line}`;
+        });
+        return { stdout: truncate(output.join('\n')), stderr: '', exitCode: 0 };
+      }
+      case 'awk': {
+        // awk [-F sep] [-v OFS=sep] '[pattern] { print $1, $NF }' [file]
+        let fieldSeparator: string | undefined;
+        const variables: Record<string, string> = {};
+        const operands: string[] = [];
+        for (let i = 0; i < args.length; i++) {
+          const a = args[i];
+          if (a === '-F') { fieldSeparator = args[++i]; continue; }
+          if (a.startsWith('-F') && a.length > 2 && !operands.length) { fieldSeparator = a.slice(2); continue; }
+          if (a === '-v') {
+            const [name, ...value] = (args[++i] || '').split('=');
+            if (name) variables[name] = value.join('=');
+            continue;
+          }
+          operands.push(a);
+        }
+
+        const program = operands.shift();
+        if (!program) return { stdout: '', stderr: "awk: missing program, e.g. awk '{ print $1 }' /file.txt", exitCode: 2 };
+
+        const input = await readTextInput(vfs, projectId, 'awk', operands[0], stdin);
+        if ('error' in input) return input.error;
+
+        const output = runAwk(program, input.text, { fieldSeparator, variables });
+        return { stdout: truncate(output), stderr: '', exitCode: 0 };
       }
       default: {
         const bashHint = program === 'bash' ? `
@@ -554,7 +865,8 @@ Right: {"cmd": ["ls", "-la"]}
           stdout: '',
           stderr: `${program}: command not found${bashHint}
 
-Supported commands: ls, tree, cat, head, tail, rg, grep, find, mkdir, touch, rm, mv, cp, echo
+Supported commands: ls, tree, cat, head, tail, rg, grep, find, mkdir, touch, rm, mv, cp, echo, wc, sort, uniq, cut, sed, nl, awk
+Operators: | (pipe), && (and), || (or), ; (sequence), > and >> (write/append to file), < (read file), <<< (here-string)
 
 Correct shell tool usage:
   {"cmd": ["ls", "/"]}                        - List files
@@ -575,6 +887,12 @@ Correct shell tool usage:
   {"cmd": ["cp", "-r", "/src", "/dest"]}      - Copy files/directories
   {"cmd": ["echo", "Hello World"]}            - Output text
   {"cmd": ["echo", "content", ">", "/file.txt"]} - Write text to file
+  {"cmd": "rg -n 'TODO' / | head -20"}        - Pipe output into another command
+  {"cmd": "grep -c 'class=' /index.html"}     - Count matching lines
+  {"cmd": "cat /a.css && cat /b.css"}         - Run commands in sequence
+  {"cmd": "sed -n '30,60p' /app.js | nl -ba"} - Print a numbered line range
+  {"cmd": "sed -i 's/old/new/g' /app.js"}     - Replace text in place
+  {"cmd": "awk -F, '{ print $2 }' /data.csv"}  - Print a column
 
 Note: Use json_patch tool for complex file editing. Use rg (ripgrep) instead of grep for better context.`,
           exitCode: 127
@@ -586,16 +904,178 @@ Note: Use json_patch tool for complex file editing. Use rg (ripgrep) instead of
   }
 }
 
+/**
+ * Write command output to a file for > and >> redirection
+ */
+async function writeRedirect(
+  vfs: VirtualFileSystem,
+  projectId: string,
+  target: string,
+  output: string,
+  append: boolean
+): Promise<void> {
+  const path = normalizePath(target);
+  if (!path) {
+    throw new Error('missing redirection target');
+  }
+  const content = output.length > 0 && !output.endsWith('\n') ? output + '\n' : output;
+
+  const dirPath = path.split('/').slice(0, -1).join('/') || '/';
+  if (dirPath !== '/') {
+    await ensureDirectory(vfs, projectId, dirPath);
+  }
+
+  if (await vfs.fileExists(projectId, path)) {
+    let existing = '';
+    if (append) {
+      const file = await vfs.readFile(projectId, path);
+      if (typeof file.content !== 'string') {
+        throw new Error(`${path}: cannot append to binary file`);
+      }
+      existing = file.content;
+    }
+    await vfs.updateFile(projectId, path, existing + content);
+  } else {
+    await vfs.createFile(projectId, path, content);
+  }
+}
+
+/**
+ * Run a single simple command, applying its input and output redirections
+ */
+async function runSimpleCommand(
+  vfs: VirtualFileSystem,
+  projectId: string,
+  command: SimpleCommand,
+  stdin: string | undefined,
+  opts: ShellOpts
+): Promise<ShellResult> {
+  let input = stdin;
+
+  for (const redirect of command.redirects) {
+    if (redirect.op === '<') {
+      const path = normalizePath(redirect.target);
+      try {
+        const file = await vfs.readFile(projectId, path as string);
+        if (typeof file.content !== 'string') {
+          return { stdout: '', stderr: `sh: ${path}: binary file`, exitCode: 1 };
+        }
+        input = file.content;
+      } catch {
+        return { stdout: '', stderr: `sh: ${path}: No such file`, exitCode: 1 };
+      }
+    } else if (redirect.op === '<<<') {
+      input = redirect.target + '\n';
+    }
+  }
+
+  const result: ShellResult = command.argv.length > 0
+    ? await vfsShellExecute(vfs, projectId, command.argv, { ...opts, stdin: input })
+    : { stdout: '', stderr: '', exitCode: 0 };
+
+  let { stdout, stderr } = result;
+  let exitCode = result.exitCode;
+
+  for (const redirect of command.redirects) {
+    try {
+      switch (redirect.op) {
+        case '2>&1':
+          stdout = [stdout, stderr].filter(Boolean).join('\n');
+          stderr = '';
+          break;
+        case '2>':
+        case '2>>':
+          if (redirect.target !== '/dev/null') {
+            await writeRedirect(vfs, projectId, redirect.target, stderr, redirect.op === '2>>');
+          }
+          stderr = '';
+          break;
+        case '>':
+        case '>>':
+          if (redirect.target !== '/dev/null') {
+            await writeRedirect(vfs, projectId, redirect.target, stdout, redirect.op === '>>');
+          }
+          stdout = '';
+          break;
+      }
+    } catch (e: any) {
+      stderr = [stderr, `sh: ${redirect.target}: ${e?.message || 'cannot write file'}`].filter(Boolean).join('\n');
+      exitCode = 1;
+    }
+  }
+
+  return { stdout, stderr, exitCode };
+}
+
+/**
+ * Concatenate the stdout of consecutive commands. Output that already ends in a newline (cat of
+ * a file) is kept as is; line-oriented commands return their lines without the final newline,
+ * which a real shell would have printed, so one is added at that boundary only.
+ */
+function concatOutputs(parts: string[]): string {
+  return parts.reduce((joined, part) => (
+    joined === '' || joined.endsWith('\n') ? joined + part : `${joined}\n${part}`
+  ), '');
+}
+
+/**
+ * Run a parsed script: pipelines connected by &&, || and ;
+ */
+async function vfsShellRun(
+  vfs: VirtualFileSystem,
+  projectId: string,
+  script: ShellScript,
+  opts: ShellOpts = {}
+): Promise<ShellResult> {
+  const stdoutParts: string[] = [];
+  const stderrParts: string[] = [];
+  let exitCode = 0;
+
+  for (const { connector, pipeline } of script) {
+    if (connector === '&&' && exitCode !== 0) continue;
+    if (connector === '||' && exitCode === 0) continue;
+
+    let stdin: string | undefined;
+    for (let i = 0; i < pipeline.length; i++) {
+      const result = await runSimpleCommand(vfs, projectId, pipeline[i], stdin, opts);
+      if (result.stderr) stderrParts.push(result.stderr);
+      exitCode = result.exitCode;
+
+      if (i === pipeline.length - 1) {
+        if (result.stdout) stdoutParts.push(result.stdout);
+      } else {
+        stdin = result.stdout;
+      }
+    }
+  }
+
+  return {
+    stdout: truncate(concatOutputs(stdoutParts)),
+    stderr: stderrParts.join('\n'),
+    exitCode
+  };
+}
+
 // Create a global instance that can be imported
 export const vfsShell = {
-  execute: async (projectId: string, cmd: string[]): Promise<{ success: boolean; stdout?: string; stderr?: string }> => {
-    const vfs = new VirtualFileSystem();
+  execute: async (projectId: string, cmd: string | string[]): Promise<{ success: boolean; stdout?: string; stderr?: string; exitCode: number }> => {
+    let script: ShellScript;
+    try {
+      script = parseShellScript(cmd);
+    } catch (e: any) {
+      return { success: false, stdout: '', stderr: `sh: ${e?.message || String(e)}`, exitCode: 2 };
+    }
+    if (script.length === 0) {
+      return { success: false, stdout: '', stderr: 'No command provided', exitCode: 2 };
+    }
+
     await vfs.init();
-    const result = await vfsShellExecute(vfs, projectId, cmd);
+    const result = await vfsShellRun(vfs, projectId, script);
     return {
       success: result.exitCode === 0,
       stdout: result.stdout,
-      stderr: result.stderr
+      stderr: result.stderr,
+      exitCode: result.exitCode
     };
   }
 };
@@ -1,9 +1,63 @@
 import { Project, VirtualFile, FileTreeNode, CustomTemplate } from './types';
+import { RecordStoreName, VFSStorageBackend } from './storage-backend';
+
+export const DB_NAME = 'osw-studio-db';
+export const DB_VERSION = 3;
+
+/**
+ * Create any missing object stores (shared by the VFS and backup import)
+ */
+export function createObjectStores(db: IDBDatabase): void {
+  // VFS object stores
+  if (!db.objectStoreNames.contains('projects')) {
+    const projectStore = db.createObjectStore('projects', { keyPath: 'id' });
+    projectStore.createIndex('name', 'name', { unique: false });
+    projectStore.createIndex('createdAt', 'createdAt', { unique: false });
+  }
+
+  if (!db.objectStoreNames.contains('files')) {
+    const fileStore = db.createObjectStore('files', { keyPath: 'id' });
+    fileStore.createIndex('projectId', 'projectId', { unique: false });
+    fileStore.createIndex('path', ['projectId', 'path'], { unique: true });
+    fileStore.createIndex('type', 'type', { unique: false });
+  }
+
+  if (!db.objectStoreNames.contains('fileTree')) {
+    const treeStore = db.createObjectStore('fileTree', { keyPath: 'id' });
+    treeStore.createIndex('projectId', 'projectId', { unique: false });
+    treeStore.createIndex('path', ['projectId', 'path'], { unique: true });
+    treeStore.createIndex('parentPath', ['projectId', 'parentPath'], { unique: false });
+  }
+
+  // Conversations object store
+  if (!db.objectStoreNames.contains('conversations')) {
+    const conversationStore = db.createObjectStore('conversations', { keyPath: 'id' });
+    conversationStore.createIndex('projectId', 'projectId', { unique: false });
+    conversationStore.createIndex('lastUpdated', 'lastUpdated', { unique: false });
+  }
+
+  // Checkpoints object store
+  if (!db.objectStoreNames.contains('checkpoints')) {
+    const checkpointStore = db.createObjectStore('checkpoints', { keyPath: 'id' });
+    checkpointStore.createIndex('projectId', 'projectId', { unique: false });
+    checkpointStore.createIndex('timestamp', 'timestamp', { unique: false });
+  }
+
+  // Content-addressed file blobs shared by checkpoint manifests
+  if (!db.objectStoreNames.contains('checkpointBlobs')) {
+    db.createObjectStore('checkpointBlobs', { keyPath: 'hash' });
+  }
 
-const DB_NAME = 'osw-studio-db';
-const DB_VERSION = 2;
+  // Custom Templates object store
+  if (!db.objectStoreNames.contains('customTemplates')) {
+    const templateStore = db.createObjectStore('customTemplates', { keyPath: 'id' });
+    templateStore.createIndex('name', 'name', { unique: false });
+    templateStore.createIndex('importedAt', 'importedAt', { unique: false });
+  }
+}
 
-export class VFSDatabase {
+export class VFSDatabase implements VFSStorageBackend {
+  readonly kind = 'indexeddb' as const;
   private db: IDBDatabase | null = null;
 
   async init(): Promise<void> {
@@ -18,48 +72,7 @@ export class VFSDatabase {
 
       request.onupgradeneeded = (event) => {
         const db = (event.target as IDBOpenDBRequest).result;
-
-        // VFS object stores
-        if (!db.objectStoreNames.contains('projects')) {
-          const projectStore = db.createObjectStore('projects', { keyPath: 'id' });
-          projectStore.createIndex('name', 'name', { unique: false });
-          projectStore.createIndex('createdAt', 'createdAt', { unique: false });
-        }
-
-        if (!db.objectStoreNames.contains('files')) {
-          const fileStore = db.createObjectStore('files', { keyPath: 'id' });
-          fileStore.createIndex('projectId', 'projectId', { unique: false });
-          fileStore.createIndex('path', ['projectId', 'path'], { unique: true });
-          fileStore.createIndex('type', 'type', { unique: false });
-        }
-
-        if (!db.objectStoreNames.contains('fileTree')) {
-          const treeStore = db.createObjectStore('fileTree', { keyPath: 'id' });
-          treeStore.createIndex('projectId', 'projectId', { unique: false });
-          treeStore.createIndex('path', ['projectId', 'path'], { unique: true });
-          treeStore.createIndex('parentPath', ['projectId', 'parentPath'], { unique: false });
-        }
-
-        // Conversations object store
-        if (!db.objectStoreNames.contains('conversations')) {
-          const conversationStore = db.createObjectStore('conversations', { keyPath: 'id' });
-          conversationStore.createIndex('projectId', 'projectId', { unique: false });
-          conversationStore.createIndex('lastUpdated', 'lastUpdated', { unique: false });
-        }
-
-        // Checkpoints object store
-        if (!db.objectStoreNames.contains('checkpoints')) {
-          const checkpointStore = db.createObjectStore('checkpoints', { keyPath: 'id' });
-          checkpointStore.createIndex('projectId', 'projectId', { unique: false });
-          checkpointStore.createIndex('timestamp', 'timestamp', { unique: false });
-        }
-
-        // Custom Templates object store
-        if (!db.objectStoreNames.contains('customTemplates')) {
-          const templateStore = db.createObjectStore('customTemplates', { keyPath: 'id' });
-          templateStore.createIndex('name', 'name', { unique: false });
-          templateStore.createIndex('importedAt', 'importedAt', { unique: false });
-        }
+        createObjectStores(db);
       };
     });
   }
@@ -205,6 +218,61 @@ export class VFSDatabase {
     return result || [];
   }
 
+  async getRecord<T>(store: RecordStoreName, key: string): Promise<T | null> {
+    const tx = this.getDB().transaction([store], 'readonly');
+    const result = await this.promisify(tx.objectStore(store).get(key));
+    return (result as T | undefined) ?? null;
+  }
+
+  async getRecords<T>(store: RecordStoreName, keys: string[]): Promise<T[]> {
+    if (keys.length === 0) return [];
+    const tx = this.getDB().transaction([store], 'readonly');
+    const objectStore = tx.objectStore(store);
+    const requests = keys.map(key => objectStore.get(key));
+    await this.complete(tx);
+    return requests.map(request => request.result as T | undefined).filter((record): record is T => record !== undefined);
+  }
+
+  async getAllRecords<T>(store: RecordStoreName): Promise<T[]> {
+    const tx = this.getDB().transaction([store], 'readonly');
+    const result = await this.promisify(tx.objectStore(store).getAll());
+    return (result as T[] | undefined) || [];
+  }
+
+  async getRecordKeys(store: RecordStoreName): Promise<string[]> {
+    const tx = this.getDB().transaction([store], 'readonly');
+    const result = await this.promisify(tx.objectStore(store).getAllKeys());
+    return (result as string[] | undefined) || [];
+  }
+
+  async putRecords(store: RecordStoreName, records: object[]): Promise<void> {
+    if (records.length === 0) return;
+    const tx = this.getDB().transaction([store], 'readwrite');
+    const objectStore = tx.objectStore(store);
+    for (const record of records) {
+      objectStore.put(record);
+    }
+    await this.complete(tx);
+  }
+
+  async deleteRecords(store: RecordStoreName, keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    const tx = this.getDB().transaction([store], 'readwrite');
+    const objectStore = tx.objectStore(store);
+    for (const key of keys) {
+      objectStore.delete(key);
+    }
+    await this.complete(tx);
+  }
+
+  private complete(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
   private promisify<T>(request: IDBRequest<T>): Promise<T> {
     return new Promise((resolve, reject) => {
       request.onsuccess = () => resolve(request.result);
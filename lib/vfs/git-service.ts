@@ -0,0 +1,727 @@
+import JSZip from 'jszip';
+import { vfs } from './index';
+import { checkpointManager, Checkpoint } from './checkpoint';
+import { saveManager } from './save-manager';
+import { Project, FILE_SIZE_LIMITS, getFileTypeFromPath, isFileSupported } from './types';
+import { zlibInflate, zlibStore } from './zlib';
+import { logger } from '@/lib/utils';
+
+// Only the most recent commits on the first-parent chain become checkpoints
+const MAX_IMPORTED_COMMITS = 200;
+const DEFAULT_BRANCH = 'main';
+const AUTHOR = 'OSW Studio <studio@osw.local>';
+
+type GitObjectType = 'blob' | 'tree' | 'commit' | 'tag';
+
+interface GitObject {
+  type: GitObjectType;
+  data: Uint8Array;
+}
+
+interface TreeEntry {
+  mode: string;
+  name: string;
+  sha: string;
+}
+
+interface ParsedCommit {
+  sha: string;
+  tree: string;
+  parents: string[];
+  timestamp: string;
+  message: string;
+}
+
+interface PackEntry {
+  offset: number;
+  type: number;
+  data: Uint8Array;
+  baseOffset?: number;
+  baseSha?: string;
+  resolved?: GitObject;
+}
+
+export interface GitImportResult {
+  project: Project;
+  commitCount: number;
+  skippedFiles: string[];
+}
+
+const PACK_OBJECT_TYPES: Record<number, GitObjectType> = { 1: 'commit', 2: 'tree', 3: 'blob', 4: 'tag' };
+const OFS_DELTA = 6;
+const REF_DELTA = 7;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const out = new Uint8Array(total);
+  let pos = 0;
+  for (const part of parts) {
+    out.set(part, pos);
+    pos += part.length;
+  }
+  return out;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+async function sha1(data: Uint8Array): Promise<Uint8Array> {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new Error('Git export and import need a secure context (HTTPS or localhost)');
+  }
+  return new Uint8Array(await crypto.subtle.digest('SHA-1', data as BufferSource));
+}
+
+function frameObject(type: GitObjectType, data: Uint8Array): Uint8Array {
+  return concatBytes([encoder.encode(`${type} ${data.length}\0`), data]);
+}
+
+async function hashObject(type: GitObjectType, data: Uint8Array): Promise<string> {
+  return toHex(await sha1(frameObject(type, data)));
+}
+
+function toBytes(content: string | ArrayBuffer): Uint8Array {
+  return typeof content === 'string' ? encoder.encode(content) : new Uint8Array(content);
+}
+
+/**
+ * Turn a save name into a valid git ref component
+ */
+function toRefName(name: string): string {
+  const ref = name
+    .trim()
+    .replace(/[\s~^:?*[\\\x00-\x1f\x7f]+/g, '-')
+    .replace(/\.{2,}/g, '.')
+    .replace(/@\{/g, '-')
+    .replace(/\/+/g, '/')
+    .replace(/^[-./]+|[./]+$/g, '')
+    .replace(/\.lock$/i, '');
+  return ref || 'save';
+}
+
+/**
+ * Git sorts tree entries by name, comparing directories as if they ended in "/"
+ */
+function treeSortKey(entry: TreeEntry): string {
+  return entry.mode === '40000' ? `${entry.name}/` : entry.name;
+}
+
+function compareBytes(a: string, b: string): number {
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+  const length = Math.min(left.length, right.length);
+  for (let i = 0; i < length; i++) {
+    if (left[i] !== right[i]) return left[i] - right[i];
+  }
+  return left.length - right.length;
+}
+
+/**
+ * Collects git objects in memory and writes them out as a .git directory
+ */
+class GitObjectWriter {
+  private objects = new Map<string, Uint8Array>();
+
+  async write(type: GitObjectType, data: Uint8Array): Promise<string> {
+    const framed = frameObject(type, data);
+    const sha = toHex(await sha1(framed));
+    if (!this.objects.has(sha)) {
+      this.objects.set(sha, framed);
+    }
+    return sha;
+  }
+
+  /**
+   * Write blobs and trees for a set of files and return the root tree sha
+   */
+  async writeTree(files: Map<string, string | ArrayBuffer>, blobShas: Map<string, string>): Promise<string> {
+    interface DirNode {
+      files: Map<string, string>;
+      dirs: Map<string, DirNode>;
+    }
+    const root: DirNode = { files: new Map(), dirs: new Map() };
+
+    for (const [path, content] of files) {
+      const parts = path.split('/').filter(Boolean);
+      let node = root;
+      for (const part of parts.slice(0, -1)) {
+        if (!node.dirs.has(part)) {
+          node.dirs.set(part, { files: new Map(), dirs: new Map() });
+        }
+        node = node.dirs.get(part)!;
+      }
+      const sha = await this.write('blob', toBytes(content));
+      node.files.set(parts[parts.length - 1], sha);
+      blobShas.set(path, sha);
+    }
+
+    const writeNode = async (node: DirNode): Promise<string> => {
+      const entries: TreeEntry[] = [];
+      for (const [name, sha] of node.files) {
+        entries.push({ mode: '100644', name, sha });
+      }
+      for (const [name, child] of node.dirs) {
+        entries.push({ mode: '40000', name, sha: await writeNode(child) });
+      }
+      entries.sort((a, b) => compareBytes(treeSortKey(a), treeSortKey(b)));
+
+      const parts: Uint8Array[] = [];
+      for (const entry of entries) {
+        parts.push(encoder.encode(`${entry.mode} ${entry.name}\0`), fromHex(entry.sha));
+      }
+      return this.write('tree', concatBytes(parts));
+    };
+
+    return writeNode(root);
+  }
+
+  async writeCommit(tree: string, parent: string | null, timestamp: string, message: string): Promise<string> {
+    const seconds = Math.floor(new Date(timestamp).getTime() / 1000);
+    const lines = [`tree ${tree}`];
+    if (parent) lines.push(`parent ${parent}`);
+    lines.push(`author ${AUTHOR} ${seconds} +0000`, `committer ${AUTHOR} ${seconds} +0000`);
+    const body = `${lines.join('\n')}\n\n${message.trim() || 'Checkpoint'}\n`;
+    return this.write('commit', encoder.encode(body));
+  }
+
+  addTo(zip: JSZip): void {
+    for (const [sha, framed] of this.objects) {
+      zip.file(`.git/objects/${sha.slice(0, 2)}/${sha.slice(2)}`, zlibStore(framed));
+    }
+  }
+}
+
+/**
+ * Read-only view of a .git directory inside a zip archive (loose objects and packfiles)
+ */
+class GitRepositoryReader {
+  private objects = new Map<string, GitObject>();
+  private packedRefs: Map<string, string> | null = null;
+
+  private constructor(private zip: JSZip, private gitDir: string) {}
+
+  static async open(zip: JSZip): Promise<GitRepositoryReader> {
+    const names = Object.keys(zip.files);
+    const headPath =
+      names.filter(name => /(^|\/)\.git\/HEAD$/.test(name)).sort((a, b) => a.length - b.length)[0] ||
+      names.find(name => /(^|\/)HEAD$/.test(name) && names.some(other => other.startsWith(name.slice(0, -4) + 'objects/')));
+    if (!headPath) {
+      throw new Error('No git repository found in archive (expected a .git directory)');
+    }
+
+    const reader = new GitRepositoryReader(zip, headPath.slice(0, -'HEAD'.length));
+    await reader.loadPacks();
+    return reader;
+  }
+
+  get workTreePrefix(): string {
+    return this.gitDir.replace(/(^|\/)\.git\/$/, '$1');
+  }
+
+  private async readText(path: string): Promise<string | null> {
+    const file = this.zip.file(this.gitDir + path);
+    return file ? file.async('string') : null;
+  }
+
+  private async loadPacks(): Promise<void> {
+    const packs = Object.keys(this.zip.files).filter(name =>
+      name.startsWith(`${this.gitDir}objects/pack/`) && name.endsWith('.pack')
+    );
+    for (const packPath of packs) {
+      const data = await this.zip.file(packPath)!.async('uint8array');
+      await this.parsePack(data);
+    }
+  }
+
+  private async parsePack(pack: Uint8Array): Promise<void> {
+    if (decoder.decode(pack.subarray(0, 4)) !== 'PACK') {
+      throw new Error('Invalid packfile');
+    }
+    const view = new DataView(pack.buffer, pack.byteOffset, pack.byteLength);
+    const count = view.getUint32(8);
+    const entries: PackEntry[] = [];
+    const byOffset = new Map<number, PackEntry>();
+
+    let pos = 12;
+    for (let i = 0; i < count; i++) {
+      const offset = pos;
+      let byte = pack[pos++];
+      const type = (byte >> 4) & 7;
+      let size = byte & 15;
+      let shift = 4;
+      while (byte & 0x80) {
+        byte = pack[pos++];
+        size += (byte & 0x7f) * 2 ** shift;
+        shift += 7;
+      }
+
+      const entry: PackEntry = { offset, type, data: new Uint8Array(0) };
+      if (type === OFS_DELTA) {
+        byte = pack[pos++];
+        let distance = byte & 0x7f;
+        while (byte & 0x80) {
+          byte = pack[pos++];
+          distance = ((distance + 1) * 128) + (byte & 0x7f);
+        }
+        entry.baseOffset = offset - distance;
+      } else if (type === REF_DELTA) {
+        entry.baseSha = toHex(pack.subarray(pos, pos + 20));
+        pos += 20;
+      } else if (!PACK_OBJECT_TYPES[type]) {
+        throw new Error(`Unsupported packfile object type ${type}`);
+      }
+
+      const inflated = zlibInflate(pack, pos, size);
+      entry.data = inflated.data;
+      pos += inflated.bytesRead;
+      entries.push(entry);
+      byOffset.set(offset, entry);
+    }
+
+    const resolve = async (entry: PackEntry): Promise<GitObject | null> => {
+      if (entry.resolved) return entry.resolved;
+      if (PACK_OBJECT_TYPES[entry.type]) {
+        entry.resolved = { type: PACK_OBJECT_TYPES[entry.type], data: entry.data };
+      } else {
+        const base = entry.baseOffset !== undefined
+          ? await resolve(byOffset.get(entry.baseOffset)!)
+          : this.objects.get(entry.baseSha!) ?? await this.readLooseObject(entry.baseSha!);
+        if (!base) return null;
+        entry.resolved = { type: base.type, data: applyDelta(base.data, entry.data) };
+      }
+      this.objects.set(await hashObject(entry.resolved.type, entry.resolved.data), entry.resolved);
+      return entry.resolved;
+    };
+
+    // REF_DELTA bases can appear later in the pack, so retry until nothing changes
+    let pending = entries;
+    while (pending.length > 0) {
+      const unresolved: PackEntry[] = [];
+      for (const entry of pending) {
+        if (!(await resolve(entry))) unresolved.push(entry);
+      }
+      if (unresolved.length === pending.length) {
+        throw new Error(`Packfile references ${unresolved.length} missing base objects`);
+      }
+      pending = unresolved;
+    }
+  }
+
+  private async readLooseObject(sha: string): Promise<GitObject | null> {
+    const file = this.zip.file(`${this.gitDir}objects/${sha.slice(0, 2)}/${sha.slice(2)}`);
+    if (!file) return null;
+
+    const { data } = zlibInflate(await file.async('uint8array'));
+    const nul = data.indexOf(0);
+    const [type] = decoder.decode(data.subarray(0, nul)).split(' ');
+    const object = { type: type as GitObjectType, data: data.slice(nul + 1) };
+    this.objects.set(sha, object);
+    return object;
+  }
+
+  async readObject(sha: string, expected?: GitObjectType): Promise<GitObject> {
+    const object = this.objects.get(sha) ?? await this.readLooseObject(sha);
+    if (!object) {
+      throw new Error(`Missing git object ${sha}`);
+    }
+    if (expected && object.type !== expected) {
+      throw new Error(`Expected ${expected} ${sha} but found ${object.type}`);
+    }
+    return object;
+  }
+
+  /**
+   * Resolve a ref (or HEAD) to a commit sha, following symbolic refs and tag objects
+   */
+  async resolveRef(ref: string): Promise<string | null> {
+    let name = ref;
+    for (let depth = 0; depth < 10; depth++) {
+      const loose = (await this.readText(name))?.trim();
+      const value = loose ?? (await this.readPackedRefs()).get(name);
+      if (!value) return null;
+      if (!value.startsWith('ref: ')) {
+        return this.peel(value);
+      }
+      name = value.slice(5).trim();
+    }
+    throw new Error(`Too many levels of symbolic refs for ${ref}`);
+  }
+
+  private async peel(sha: string): Promise<string> {
+    let current = sha;
+    for (;;) {
+      const object = await this.readObject(current);
+      if (object.type !== 'tag') return current;
+      const match = decoder.decode(object.data).match(/^object ([0-9a-f]{40})/m);
+      if (!match) throw new Error(`Malformed tag object ${current}`);
+      current = match[1];
+    }
+  }
+
+  private async readPackedRefs(): Promise<Map<string, string>> {
+    if (!this.packedRefs) {
+      this.packedRefs = new Map();
+      const text = await this.readText('packed-refs');
+      for (const line of (text || '').split('\n')) {
+        const match = line.match(/^([0-9a-f]{40}) (\S+)$/);
+        if (match) this.packedRefs.set(match[2], match[1]);
+      }
+    }
+    return this.packedRefs;
+  }
+
+  /**
+   * Map commit sha -> tag names
+   */
+  async listTags(): Promise<Map<string, string[]>> {
+    const refs = new Set<string>();
+    for (const name of Object.keys(this.zip.files)) {
+      if (name.startsWith(`${this.gitDir}refs/tags/`) && !this.zip.files[name].dir) {
+        refs.add(name.slice(this.gitDir.length));
+      }
+    }
+    for (const ref of (await this.readPackedRefs()).keys()) {
+      if (ref.startsWith('refs/tags/')) refs.add(ref);
+    }
+
+    const tags = new Map<string, string[]>();
+    for (const ref of refs) {
+      try {
+        const sha = await this.resolveRef(ref);
+        if (!sha) continue;
+        tags.set(sha, [...(tags.get(sha) || []), ref.slice('refs/tags/'.length)]);
+      } catch (error) {
+        logger.warn('[GitService] Skipping unreadable tag', { ref, error });
+      }
+    }
+    return tags;
+  }
+
+  async readCommit(sha: string): Promise<ParsedCommit> {
+    const text = decoder.decode((await this.readObject(sha, 'commit')).data);
+    const split = text.indexOf('\n\n');
+    const headers = (split === -1 ? text : text.slice(0, split)).split('\n');
+    const message = split === -1 ? '' : text.slice(split + 2);
+
+    const commit: ParsedCommit = { sha, tree: '', parents: [], timestamp: new Date(0).toISOString(), message: message.trim() };
+    for (const header of headers) {
+      if (header.startsWith('tree ')) commit.tree = header.slice(5);
+      else if (header.startsWith('parent ')) commit.parents.push(header.slice(7));
+      else if (header.startsWith('committer ')) {
+        const match = header.match(/> (\d+) [+-]\d{4}$/);
+        if (match) commit.timestamp = new Date(Number(match[1]) * 1000).toISOString();
+      }
+    }
+    return commit;
+  }
+
+  /**
+   * Flatten a tree into path -> blob sha (regular files only)
+   */
+  async readTree(sha: string, prefix = '', out = new Map<string, string>()): Promise<Map<string, string>> {
+    const data = (await this.readObject(sha, 'tree')).data;
+    let pos = 0;
+    while (pos < data.length) {
+      const space = data.indexOf(0x20, pos);
+      const nul = data.indexOf(0, space);
+      const mode = decoder.decode(data.subarray(pos, space));
+      const name = decoder.decode(data.subarray(space + 1, nul));
+      const entrySha = toHex(data.subarray(nul + 1, nul + 21));
+      pos = nul + 21;
+
+      if (mode === '40000') {
+        await this.readTree(entrySha, `${prefix}/${name}`, out);
+      } else if (mode.startsWith('100')) {
+        out.set(`${prefix}/${name}`, entrySha);
+      }
+      // Symlinks (120000) and submodules (160000) have no VFS equivalent
+    }
+    return out;
+  }
+}
+
+function readDeltaSize(delta: Uint8Array, start: number): [number, number] {
+  let size = 0;
+  let shift = 0;
+  let pos = start;
+  let byte: number;
+  do {
+    byte = delta[pos++];
+    size += (byte & 0x7f) * 2 ** shift;
+    shift += 7;
+  } while (byte & 0x80);
+  return [size, pos];
+}
+
+function applyDelta(base: Uint8Array, delta: Uint8Array): Uint8Array {
+  const [sourceSize, afterSource] = readDeltaSize(delta, 0);
+  if (sourceSize !== base.length) {
+    throw new Error('Delta base size mismatch');
+  }
+  const [targetSize, afterTarget] = readDeltaSize(delta, afterSource);
+
+  const out = new Uint8Array(targetSize);
+  let outPos = 0;
+  let pos = afterTarget;
+  while (pos < delta.length) {
+    const op = delta[pos++];
+    if (op & 0x80) {
+      let offset = 0;
+      let size = 0;
+      for (let i = 0; i < 4; i++) {
+        if (op & (1 << i)) offset |= delta[pos++] << (8 * i);
+      }
+      for (let i = 0; i < 3; i++) {
+        if (op & (1 << (4 + i))) size |= delta[pos++] << (8 * i);
+      }
+      offset >>>= 0;
+      if (size === 0) size = 0x10000;
+      out.set(base.subarray(offset, offset + size), outPos);
+      outPos += size;
+    } else if (op > 0) {
+      out.set(delta.subarray(pos, pos + op), outPos);
+      pos += op;
+      outPos += op;
+    } else {
+      throw new Error('Invalid delta opcode');
+    }
+  }
+
+  if (outPos !== targetSize) {
+    throw new Error('Delta result size mismatch');
+  }
+  return out;
+}
+
+/**
+ * Build a git index (v2) so the exported working tree shows as clean
+ */
+async function buildIndex(entries: Map<string, string>, sizes: Map<string, number>): Promise<Uint8Array> {
+  const paths = Array.from(entries.keys()).map(path => path.replace(/^\//, '')).sort(compareBytes);
+  const parts: Uint8Array[] = [];
+
+  const header = new Uint8Array(12);
+  const headerView = new DataView(header.buffer);
+  header.set(encoder.encode('DIRC'));
+  headerView.setUint32(4, 2);
+  headerView.setUint32(8, paths.length);
+  parts.push(header);
+
+  for (const path of paths) {
+    const name = encoder.encode(path);
+    const length = 62 + name.length;
+    const padded = Math.ceil((length + 1) / 8) * 8;
+    const entry = new Uint8Array(padded);
+    const view = new DataView(entry.buffer);
+    view.setUint32(24, 0o100644);
+    view.setUint32(36, sizes.get(`/${path}`) ?? 0);
+    entry.set(fromHex(entries.get(`/${path}`)!), 40);
+    view.setUint16(60, Math.min(name.length, 0xfff));
+    entry.set(name, 62);
+    parts.push(entry);
+  }
+
+  const body = concatBytes(parts);
+  return concatBytes([body, await sha1(body)]);
+}
+
+function decodeContent(path: string, bytes: Uint8Array): string | ArrayBuffer {
+  const type = getFileTypeFromPath(path);
+  if (type === 'image' || type === 'video' || type === 'binary') {
+    return bytes.slice().buffer;
+  }
+  return decoder.decode(bytes);
+}
+
+export class GitService {
+  /**
+   * Export a project's checkpoint chain as a zipped git repository.
+   * Each checkpoint becomes a commit on `main`; named saves become tags.
+   */
+  async exportProjectAsGitZip(projectId: string): Promise<Blob> {
+    await vfs.init();
+    const project = await vfs.getProject(projectId);
+    const checkpoints = (await checkpointManager.getCheckpoints(projectId))
+      .slice()
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+    const writer = new GitObjectWriter();
+    const tags = new Map<string, string>();
+    let head: string | null = null;
+    let headTree: string | null = null;
+
+    for (const checkpoint of checkpoints) {
+      const files = await checkpointManager.getCheckpointFiles(checkpoint.id);
+      const tree = await writer.writeTree(files, new Map());
+      head = await writer.writeCommit(tree, head, checkpoint.timestamp, this.commitMessage(checkpoint));
+      headTree = tree;
+
+      if (checkpoint.name) {
+        let tag = toRefName(checkpoint.name);
+        for (let suffix = 2; tags.has(tag); suffix++) {
+          tag = `${toRefName(checkpoint.name)}-${suffix}`;
+        }
+        tags.set(tag, head);
+      }
+    }
+
+    // Commit unsaved work on top so the exported HEAD matches the project
+    const current = new Map<string, string | ArrayBuffer>();
+    for (const file of await vfs.listDirectory(projectId, '/')) {
+      const source = typeof file.content === 'string' || file.content instanceof ArrayBuffer
+        ? file
+        : await vfs.readFile(projectId, file.path);
+      current.set(file.path, source.content);
+    }
+    const blobShas = new Map<string, string>();
+    const currentTree = await writer.writeTree(current, blobShas);
+    if (currentTree !== headTree) {
+      head = await writer.writeCommit(currentTree, head, new Date().toISOString(), 'Current project state');
+    }
+
+    const zip = new JSZip();
+    writer.addTo(zip);
+    zip.file('.git/HEAD', `ref: refs/heads/${DEFAULT_BRANCH}\n`);
+    zip.file('.git/config', '[core]\n\trepositoryformatversion = 0\n\tfilemode = false\n\tbare = false\n');
+    zip.file('.git/description', `${project.name}\n`);
+    zip.file(`.git/refs/heads/${DEFAULT_BRANCH}`, `${head}\n`);
+    for (const [tag, sha] of tags) {
+      zip.file(`.git/refs/tags/${tag}`, `${sha}\n`);
+    }
+    zip.folder('.git/refs/tags');
+
+    const sizes = new Map<string, number>();
+    for (const [path, content] of current) {
+      const bytes = toBytes(content);
+      sizes.set(path, bytes.length);
+      zip.file(path.replace(/^\//, ''), bytes);
+    }
+    zip.file('.git/index', await buildIndex(blobShas, sizes));
+
+    logger.info('[GitService] Exported project as git repository', {
+      projectId,
+      commits: checkpoints.length + (currentTree !== headTree ? 1 : 0),
+      tags: tags.size
+    });
+
+    return zip.generateAsync({
+      type: 'blob',
+      compression: 'DEFLATE',
+      compressionOptions: { level: 6 }
+    });
+  }
+
+  /**
+   * Import a zipped git repository as a new project.
+   * The first-parent history of HEAD becomes checkpoints; tagged commits become named saves.
+   */
+  async importRepositoryZip(file: File): Promise<GitImportResult> {
+    const zip = await new JSZip().loadAsync(file);
+    const repo = await GitRepositoryReader.open(zip);
+
+    const headSha = await repo.resolveRef('HEAD');
+    if (!headSha) {
+      throw new Error('Repository has no commits');
+    }
+
+    const commits: ParsedCommit[] = [];
+    for (let sha: string | undefined = headSha; sha && commits.length < MAX_IMPORTED_COMMITS;) {
+      const commit = await repo.readCommit(sha);
+      commits.push(commit);
+      sha = commit.parents[0];
+    }
+    commits.reverse();
+
+    const tags = await repo.listTags();
+    const contentCache = new Map<string, string | ArrayBuffer>();
+    const skippedFiles = new Set<string>();
+
+    const readFiles = async (treeSha: string): Promise<Map<string, string | ArrayBuffer>> => {
+      const files = new Map<string, string | ArrayBuffer>();
+      for (const [path, blobSha] of await repo.readTree(treeSha)) {
+        if (!isFileSupported(path)) {
+          skippedFiles.add(path);
+          continue;
+        }
+        const cacheKey = `${blobSha}:${getFileTypeFromPath(path)}`;
+        let content = contentCache.get(cacheKey);
+        if (content === undefined) {
+          const bytes = (await repo.readObject(blobSha, 'blob')).data;
+          if (bytes.length > FILE_SIZE_LIMITS[getFileTypeFromPath(path)]) {
+            skippedFiles.add(path);
+            continue;
+          }
+          content = decodeContent(path, bytes);
+          contentCache.set(cacheKey, content);
+        }
+        files.set(path, content);
+      }
+      return files;
+    };
+
+    await vfs.init();
+    const folderName = repo.workTreePrefix.replace(/\/$/, '').split('/').pop()?.replace(/\.git$/, '');
+    const projectName = (folderName || file.name.replace(/\.zip$/i, '')).slice(0, 50);
+    const project = await vfs.createProject(projectName || 'Imported repository', 'Imported from git');
+
+    let previous: Checkpoint | null = null;
+    let headFiles = new Map<string, string | ArrayBuffer>();
+    for (const commit of commits) {
+      headFiles = await readFiles(commit.tree);
+      const tagNames = tags.get(commit.sha) || [];
+      // Checkpoints are ordered by timestamp, so keep commits from the same second in order
+      let timestamp = commit.timestamp;
+      if (previous && timestamp <= previous.timestamp) {
+        timestamp = new Date(new Date(previous.timestamp).getTime() + 1).toISOString();
+      }
+      previous = await checkpointManager.importCheckpoint(project.id, {
+        description: commit.message.split('\n')[0] || commit.sha.slice(0, 7),
+        timestamp,
+        files: headFiles,
+        kind: tagNames.length > 0 ? 'manual' : 'auto',
+        name: tagNames[0] ?? null,
+        tags: tagNames.slice(1),
+        baseRevisionId: previous?.id ?? null
+      });
+    }
+
+    await saveManager.runWithSuppressedDirty(project.id, async () => {
+      for (const [path, content] of headFiles) {
+        await vfs.createFile(project.id, path, content);
+      }
+    });
+    await saveManager.save(project.id, 'Imported from git');
+
+    if (skippedFiles.size > 0) {
+      logger.warn('[GitService] Skipped unsupported or oversized files during import', Array.from(skippedFiles));
+    }
+    logger.info('[GitService] Imported git repository', { projectId: project.id, commits: commits.length });
+
+    return {
+      project: await vfs.getProject(project.id),
+      commitCount: commits.length,
+      skippedFiles: Array.from(skippedFiles)
+    };
+  }
+
+  private commitMessage(checkpoint: Checkpoint): string {
+    if (checkpoint.name && checkpoint.name !== checkpoint.description) {
+      return `${checkpoint.name}\n\n${checkpoint.description}`;
+    }
+    return checkpoint.description;
+  }
+}
+
+export const gitService = new GitService();
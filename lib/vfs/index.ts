@@ -1,6 +1,7 @@
 import { v4 as uuidv4 } from 'uuid';
 import JSZip from 'jszip';
 import { VFSDatabase } from './database';
+import { VFSStorageBackend } from './storage-backend';
 import { logger } from '@/lib/utils';
 import { 
   Project, 
@@ -14,13 +15,29 @@ import {
 } from './types';
 import { saveManager } from './save-manager';
 import { VirtualServer } from '@/lib/preview/virtual-server';
+import { PROJECT_CONFIG_PATH } from '@/lib/preview/project-config';
 
 export class VirtualFileSystem {
-  private db: VFSDatabase;
+  private db: VFSStorageBackend;
   private initialized = false;
+  // Tree nodes are read, modified and written back; concurrent file creation must not interleave
+  private treeQueues = new Map<string, Promise<unknown>>();
 
-  constructor() {
-    this.db = new VFSDatabase();
+  constructor(backend?: VFSStorageBackend) {
+    this.db = backend ?? new VFSDatabase();
+  }
+
+  /**
+   * Switch where projects, files, checkpoints and conversations are stored.
+   * Call before anything reads from the VFS; checkpoint and conversation caches are not reset.
+   */
+  useBackend(backend: VFSStorageBackend): void {
+    this.db = backend;
+    this.initialized = false;
+  }
+
+  getBackend(): VFSStorageBackend {
+    return this.db;
   }
 
   async init(): Promise<void> {
@@ -215,9 +232,19 @@ export class VirtualFileSystem {
   async createDirectory(projectId: string, path: string): Promise<void> {
     this.ensureInitialized();
     
+    const created = await this.withTreeLock(projectId, () => this.createDirectoryNode(projectId, path));
+    if (created && typeof window !== 'undefined') {
+      window.dispatchEvent(new Event('filesChanged'));
+    }
+  }
+
+  /**
+   * Add a directory node unless it exists; returns whether it was created. Call under the tree lock.
+   */
+  private async createDirectoryNode(projectId: string, path: string): Promise<boolean> {
     const existing = await this.db.getTreeNode(projectId, path);
     if (existing) {
-      return;
+      return false;
     }
     
     const node: FileTreeNode = {
@@ -229,12 +256,24 @@ export class VirtualFileSystem {
       children: []
     };
 
-      await this.db.createTreeNode(node);
-      saveManager.markDirty(projectId);
-      
-      if (typeof window !== 'undefined') {
-        window.dispatchEvent(new Event('filesChanged'));
+    await this.db.createTreeNode(node);
+    saveManager.markDirty(projectId);
+    return true;
+  }
+
+  /**
+   * Run tree node updates for a project one at a time
+   */
+  private withTreeLock<T>(projectId: string, task: () => Promise<T>): Promise<T> {
+    const result = (this.treeQueues.get(projectId) ?? Promise.resolve()).then(task);
+    const queued = result.catch(() => undefined);
+    this.treeQueues.set(projectId, queued);
+    queued.then(() => {
+      if (this.treeQueues.get(projectId) === queued) {
+        this.treeQueues.delete(projectId);
       }
+    });
+    return result;
   }
 
   async listDirectory(projectId: string, path: string): Promise<VirtualFile[]> {
@@ -448,6 +487,7 @@ export class VirtualFileSystem {
     usage: { 
       cost: number; 
       provider: string; 
+      role?: string;
       tokenUsage?: { input: number; output: number };
       sessionId?: string;
       mode?: 'absolute' | 'delta';
@@ -491,6 +531,19 @@ export class VirtualFileSystem {
       providerStats.tokenUsage.output += usage.tokenUsage.output;
     }
 
+    if (usage.role) {
+      const roleStats = this.getRoleStats(project.costTracking, usage.role);
+      roleStats.totalCost += usage.cost;
+      if (usage.mode !== 'delta') {
+        roleStats.requestCount += 1;
+      }
+      roleStats.lastUpdated = new Date();
+      if (usage.tokenUsage) {
+        roleStats.tokenUsage.input += usage.tokenUsage.input;
+        roleStats.tokenUsage.output += usage.tokenUsage.output;
+      }
+    }
+
     if (usage.sessionId && usage.mode !== 'delta') {
       if (!project.costTracking.sessionHistory) {
         project.costTracking.sessionHistory = [];
@@ -500,6 +553,7 @@ export class VirtualFileSystem {
         sessionId: usage.sessionId,
         cost: usage.cost,
         provider: usage.provider,
+        role: usage.role,
         timestamp: new Date(),
         tokenUsage: usage.tokenUsage
       });
@@ -517,6 +571,7 @@ export class VirtualFileSystem {
     usage: {
       costDelta: number;
       provider: string;
+      role?: string;
       tokenUsageDelta?: { input: number; output: number };
       sessionId?: string;
     }
@@ -556,6 +611,16 @@ export class VirtualFileSystem {
       providerStats.tokenUsage.output += usage.tokenUsageDelta.output;
     }
 
+    if (usage.role) {
+      const roleStats = this.getRoleStats(project.costTracking, usage.role);
+      roleStats.totalCost += usage.costDelta;
+      roleStats.lastUpdated = new Date();
+      if (usage.tokenUsageDelta) {
+        roleStats.tokenUsage.input += usage.tokenUsageDelta.input;
+        roleStats.tokenUsage.output += usage.tokenUsageDelta.output;
+      }
+    }
+
     if (usage.sessionId) {
       if (!project.costTracking.sessionHistory) {
         project.costTracking.sessionHistory = [];
@@ -565,6 +630,7 @@ export class VirtualFileSystem {
         sessionId: usage.sessionId,
         cost: usage.costDelta,
         provider: usage.provider,
+        role: usage.role,
         timestamp: new Date(),
         tokenUsage: usage.tokenUsageDelta,
         correction: true
@@ -578,6 +644,21 @@ export class VirtualFileSystem {
     await this.updateProject(project);
   }
 
+  private getRoleStats(costTracking: NonNullable<Project['costTracking']>, role: string) {
+    if (!costTracking.roleBreakdown) {
+      costTracking.roleBreakdown = {};
+    }
+    if (!costTracking.roleBreakdown[role]) {
+      costTracking.roleBreakdown[role] = {
+        totalCost: 0,
+        tokenUsage: { input: 0, output: 0 },
+        requestCount: 0,
+        lastUpdated: new Date()
+      };
+    }
+    return costTracking.roleBreakdown[role];
+  }
+
   async deleteProject(id: string): Promise<void> {
     this.ensureInitialized();
     
@@ -802,14 +883,24 @@ export class VirtualFileSystem {
     this.ensureInitialized();
     
     const zip = new JSZip();
+    const compileErrors: string[] = [];
     
     try {
-      // Create VirtualServer instance and compile the project through Handlebars
+      // Create VirtualServer instance and compile the project through Handlebars,
+      // transpiling TypeScript and JSX to plain JavaScript
       const server = new VirtualServer(this, projectId);
-      const compiledProject = await server.compileProject();
+      const { files: compiledFiles, diagnostics } = await server.compileForExport();
+      for (const diagnostic of diagnostics) {
+        const position = diagnostic.line ? `:${diagnostic.line}${diagnostic.column ? `:${diagnostic.column}` : ''}` : '';
+        if (diagnostic.severity === 'warning') {
+          logger.warn(`Export: ${diagnostic.path}${position}: ${diagnostic.message}`);
+        } else {
+          compileErrors.push(`${diagnostic.path}${position}: ${diagnostic.message}`);
+        }
+      }
       
       // Add compiled files to ZIP, filtering out template-related files
-      for (const file of compiledProject.files) {
+      for (const file of compiledFiles) {
         const zipPath = file.path.startsWith('/') ? file.path.slice(1) : file.path;
         
         // Skip template files, data files, and template directories
@@ -849,6 +940,11 @@ export class VirtualFileSystem {
       }
     }
     
+    // A broken script would be published as an empty placeholder, so refuse instead
+    if (compileErrors.length > 0) {
+      throw new Error(`Cannot export: ${compileErrors.length === 1 ? 'a file fails' : `${compileErrors.length} files fail`} to compile\n${compileErrors.join('\n')}`);
+    }
+    
     const blob = await zip.generateAsync({ 
       type: 'blob',
       compression: 'DEFLATE',
@@ -875,6 +971,11 @@ export class VirtualFileSystem {
     if (filePath === '/data.json') {
       return true;
     }
+
+    // Exclude the preview and export settings
+    if (filePath === PROJECT_CONFIG_PATH) {
+      return true;
+    }
     
     return false;
   }
@@ -924,14 +1025,20 @@ export class VirtualFileSystem {
     return '/' + parts.join('/');
   }
 
-  private async updateFileTree(projectId: string, path: string, operation: 'create' | 'delete'): Promise<void> {
+  private updateFileTree(projectId: string, path: string, operation: 'create' | 'delete'): Promise<void> {
+    return this.withTreeLock(projectId, () => this.applyFileTreeUpdate(projectId, path, operation));
+  }
+
+  private async applyFileTreeUpdate(projectId: string, path: string, operation: 'create' | 'delete'): Promise<void> {
     const parentPath = this.getParentPath(path);
     if (parentPath === null) return;
     
     let parentNode = await this.db.getTreeNode(projectId, parentPath);
     
     if (!parentNode && operation === 'create') {
-      await this.createDirectory(projectId, parentPath);
+      if (await this.createDirectoryNode(projectId, parentPath) && typeof window !== 'undefined') {
+        window.dispatchEvent(new Event('filesChanged'));
+      }
       parentNode = await this.db.getTreeNode(projectId, parentPath);
     }
     
@@ -956,3 +1063,4 @@ export class VirtualFileSystem {
 export const vfs = new VirtualFileSystem();
 
 export * from './types';
+export type { VFSStorageBackend, RecordStoreName } from './storage-backend';
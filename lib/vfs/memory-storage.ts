@@ -0,0 +1,140 @@
+import { Project, VirtualFile, FileTreeNode } from './types';
+import { RecordStoreName, recordKey, VFSStorageBackend } from './storage-backend';
+
+function projectKey(projectId: string, path: string): string {
+  return `${projectId}\u0000${path}`;
+}
+
+/**
+ * Keeps everything in Maps for the lifetime of the process. Values are cloned on the
+ * way in and out, so callers see the same copy semantics as with IndexedDB.
+ */
+export class MemoryStorageBackend implements VFSStorageBackend {
+  readonly kind = 'memory' as const;
+  private projects = new Map<string, Project>();
+  private files = new Map<string, VirtualFile>();
+  private treeNodes = new Map<string, FileTreeNode>();
+  private records: Record<RecordStoreName, Map<string, object>> = {
+    checkpoints: new Map(),
+    checkpointBlobs: new Map(),
+    conversations: new Map()
+  };
+
+  async init(): Promise<void> {}
+
+  async createProject(project: Project): Promise<void> {
+    if (this.projects.has(project.id)) {
+      throw new Error(`Project already exists: ${project.id}`);
+    }
+    this.projects.set(project.id, structuredClone(project));
+  }
+
+  async getProject(id: string): Promise<Project | null> {
+    const project = this.projects.get(id);
+    return project ? structuredClone(project) : null;
+  }
+
+  async updateProject(project: Project): Promise<void> {
+    this.projects.set(project.id, structuredClone(project));
+  }
+
+  async deleteProject(id: string): Promise<void> {
+    for (const [key, file] of this.files) {
+      if (file.projectId === id) this.files.delete(key);
+    }
+    for (const [key, node] of this.treeNodes) {
+      if (node.projectId === id) this.treeNodes.delete(key);
+    }
+    this.projects.delete(id);
+  }
+
+  async listProjects(): Promise<Project[]> {
+    return Array.from(this.projects.values(), project => structuredClone(project));
+  }
+
+  async createFile(file: VirtualFile): Promise<void> {
+    const key = projectKey(file.projectId, file.path);
+    if (this.files.has(key)) {
+      throw new Error(`File already exists: ${file.path}`);
+    }
+    this.files.set(key, structuredClone(file));
+  }
+
+  async getFile(projectId: string, path: string): Promise<VirtualFile | null> {
+    const file = this.files.get(projectKey(projectId, path));
+    return file ? structuredClone(file) : null;
+  }
+
+  async updateFile(file: VirtualFile): Promise<void> {
+    this.files.set(projectKey(file.projectId, file.path), structuredClone(file));
+  }
+
+  async deleteFile(projectId: string, path: string): Promise<void> {
+    this.files.delete(projectKey(projectId, path));
+  }
+
+  async listFiles(projectId: string): Promise<VirtualFile[]> {
+    return Array.from(this.files.values())
+      .filter(file => file.projectId === projectId)
+      .map(file => structuredClone(file));
+  }
+
+  async createTreeNode(node: FileTreeNode): Promise<void> {
+    const key = projectKey(node.projectId, node.path);
+    if (this.treeNodes.has(key)) {
+      throw new Error(`Directory already exists: ${node.path}`);
+    }
+    this.treeNodes.set(key, structuredClone(node));
+  }
+
+  async getTreeNode(projectId: string, path: string): Promise<FileTreeNode | null> {
+    const node = this.treeNodes.get(projectKey(projectId, path));
+    return node ? structuredClone(node) : null;
+  }
+
+  async updateTreeNode(node: FileTreeNode): Promise<void> {
+    this.treeNodes.set(projectKey(node.projectId, node.path), structuredClone(node));
+  }
+
+  async deleteTreeNode(projectId: string, path: string): Promise<void> {
+    this.treeNodes.delete(projectKey(projectId, path));
+  }
+
+  async getAllTreeNodes(projectId: string): Promise<FileTreeNode[]> {
+    return Array.from(this.treeNodes.values())
+      .filter(node => node.projectId === projectId)
+      .map(node => structuredClone(node));
+  }
+
+  async getRecord<T>(store: RecordStoreName, key: string): Promise<T | null> {
+    const record = this.records[store].get(key);
+    return record ? structuredClone(record) as T : null;
+  }
+
+  async getRecords<T>(store: RecordStoreName, keys: string[]): Promise<T[]> {
+    return keys
+      .map(key => this.records[store].get(key))
+      .filter((record): record is object => record !== undefined)
+      .map(record => structuredClone(record) as T);
+  }
+
+  async getAllRecords<T>(store: RecordStoreName): Promise<T[]> {
+    return Array.from(this.records[store].values(), record => structuredClone(record) as T);
+  }
+
+  async getRecordKeys(store: RecordStoreName): Promise<string[]> {
+    return Array.from(this.records[store].keys());
+  }
+
+  async putRecords(store: RecordStoreName, records: object[]): Promise<void> {
+    for (const record of records) {
+      this.records[store].set(recordKey(store, record), structuredClone(record));
+    }
+  }
+
+  async deleteRecords(store: RecordStoreName, keys: string[]): Promise<void> {
+    for (const key of keys) {
+      this.records[store].delete(key);
+    }
+  }
+}
@@ -0,0 +1,431 @@
+/**
+ * Node filesystem backend - project files live as plain files in a directory on disk.
+ * Node only: import it from scripts and server code, never from the browser bundle.
+ *
+ * Layout under the root directory:
+ *   .osw-studio/projects/<id>.json       project metadata and its directory list
+ *   .osw-studio/records/<store>/<key>.json
+ *   <id>/...                              files of projects created through the VFS
+ *
+ * Folders opened with openFolder() stay where they are. Files are read from disk on
+ * every call, so edits made outside the studio show up immediately.
+ */
+
+import { promises as fs, Stats } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { Project, VirtualFile, FileTreeNode, FileType, getFileTypeFromPath, getSpecificMimeType, isFileSupported } from './types';
+import { RecordStoreName, recordKey, VFSStorageBackend } from './storage-backend';
+
+const META_DIR = '.osw-studio';
+const TEXT_TYPES: FileType[] = ['html', 'css', 'js', 'json', 'text', 'template'];
+const RECORD_STORES: RecordStoreName[] = ['checkpoints', 'checkpointBlobs', 'conversations'];
+
+interface ProjectMeta {
+  project: Project;
+  directory: string;
+  treeNodes: FileTreeNode[];
+}
+
+function isMissing(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+function isSkipped(name: string): boolean {
+  return name.startsWith('.') || name === 'node_modules';
+}
+
+function hydrateProject(project: Project): Project {
+  return {
+    ...project,
+    createdAt: project.createdAt ? new Date(project.createdAt) : new Date(),
+    updatedAt: project.updatedAt ? new Date(project.updatedAt) : new Date(),
+    lastSavedAt: project.lastSavedAt ? new Date(project.lastSavedAt) : null
+  };
+}
+
+// Binary checkpoint blobs are stored as base64 inside the JSON records
+function encodeRecord(_key: string, value: unknown): unknown {
+  if (value instanceof ArrayBuffer) {
+    return { __base64: Buffer.from(value).toString('base64') };
+  }
+  return value;
+}
+
+function decodeRecord(_key: string, value: unknown): unknown {
+  if (value && typeof value === 'object' && typeof (value as { __base64?: unknown }).__base64 === 'string') {
+    return toArrayBuffer(Buffer.from((value as { __base64: string }).__base64, 'base64'));
+  }
+  return value;
+}
+
+function toArrayBuffer(buffer: Buffer): ArrayBuffer {
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+}
+
+export class NodeFileSystemBackend implements VFSStorageBackend {
+  readonly kind = 'node-fs' as const;
+  private rootDir: string;
+  private metas = new Map<string, ProjectMeta>();
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  async init(): Promise<void> {
+    await fs.mkdir(path.join(this.rootDir, META_DIR, 'projects'), { recursive: true });
+    for (const store of RECORD_STORES) {
+      await fs.mkdir(this.recordDir(store), { recursive: true });
+    }
+  }
+
+  /**
+   * Register an existing folder as a project without copying it. Its subdirectories
+   * become the project's directory tree; deleting the project leaves the folder alone.
+   */
+  async openFolder(folder: string, name?: string): Promise<Project> {
+    const directory = path.resolve(folder);
+    const stat = await fs.stat(directory);
+    if (!stat.isDirectory()) {
+      throw new Error(`Not a directory: ${folder}`);
+    }
+
+    const project: Project = {
+      id: uuidv4(),
+      name: name || path.basename(directory),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      settings: {},
+      lastSavedCheckpointId: null,
+      lastSavedAt: null,
+      costTracking: {
+        totalCost: 0,
+        providerBreakdown: {},
+        sessionHistory: []
+      }
+    };
+
+    const treeNodes = await this.scanDirectories(project.id, directory);
+    await this.writeMeta({ project, directory, treeNodes });
+    return project;
+  }
+
+  async createProject(project: Project): Promise<void> {
+    if (await this.readMeta(project.id)) {
+      throw new Error(`Project already exists: ${project.id}`);
+    }
+    const directory = path.join(this.rootDir, project.id);
+    await fs.mkdir(directory, { recursive: true });
+    await this.writeMeta({ project: structuredClone(project), directory, treeNodes: [] });
+  }
+
+  async getProject(id: string): Promise<Project | null> {
+    const meta = await this.readMeta(id);
+    return meta ? hydrateProject(structuredClone(meta.project)) : null;
+  }
+
+  async updateProject(project: Project): Promise<void> {
+    const meta = await this.requireMeta(project.id);
+    meta.project = structuredClone(project);
+    await this.writeMeta(meta);
+  }
+
+  async deleteProject(id: string): Promise<void> {
+    const meta = await this.readMeta(id);
+    if (!meta) return;
+
+    if (this.isManaged(meta.directory)) {
+      await fs.rm(meta.directory, { recursive: true, force: true });
+    }
+    await fs.rm(this.metaPath(id), { force: true });
+    this.metas.delete(id);
+  }
+
+  async listProjects(): Promise<Project[]> {
+    const entries = await fs.readdir(path.join(this.rootDir, META_DIR, 'projects'));
+    const projects: Project[] = [];
+    for (const entry of entries) {
+      if (!entry.endsWith('.json')) continue;
+      const project = await this.getProject(entry.slice(0, -'.json'.length));
+      if (project) projects.push(project);
+    }
+    return projects;
+  }
+
+  async createFile(file: VirtualFile): Promise<void> {
+    const meta = await this.requireMeta(file.projectId);
+    const target = this.resolvePath(meta, file.path);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    try {
+      // 'wx' fails when the file exists, like an IndexedDB add
+      await fs.writeFile(target, this.toData(file.content), { flag: 'wx' });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code === 'EEXIST') {
+        throw new Error(`File already exists: ${file.path}`);
+      }
+      throw error;
+    }
+  }
+
+  async getFile(projectId: string, filePath: string): Promise<VirtualFile | null> {
+    const meta = await this.readMeta(projectId);
+    if (!meta) return null;
+    const target = this.resolvePath(meta, filePath);
+
+    let stat: Stats;
+    try {
+      stat = await fs.stat(target);
+    } catch (error) {
+      if (isMissing(error)) return null;
+      throw error;
+    }
+    return stat.isFile() ? this.readVirtualFile(projectId, filePath, target, stat) : null;
+  }
+
+  async updateFile(file: VirtualFile): Promise<void> {
+    const meta = await this.requireMeta(file.projectId);
+    const target = this.resolvePath(meta, file.path);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, this.toData(file.content));
+  }
+
+  async deleteFile(projectId: string, filePath: string): Promise<void> {
+    const meta = await this.readMeta(projectId);
+    if (!meta) return;
+    await fs.rm(this.resolvePath(meta, filePath), { force: true });
+    await this.pruneUntrackedParents(meta, filePath);
+  }
+
+  async listFiles(projectId: string): Promise<VirtualFile[]> {
+    const meta = await this.readMeta(projectId);
+    if (!meta) return [];
+
+    const files: VirtualFile[] = [];
+    const walk = async (directory: string, prefix: string) => {
+      const entries = await fs.readdir(directory, { withFileTypes: true });
+      for (const entry of entries) {
+        if (isSkipped(entry.name)) continue;
+        const fullPath = path.join(directory, entry.name);
+        const vfsPath = `${prefix}/${entry.name}`;
+        if (entry.isDirectory()) {
+          await walk(fullPath, vfsPath);
+        } else if (entry.isFile() && isFileSupported(entry.name)) {
+          files.push(await this.readVirtualFile(projectId, vfsPath, fullPath, await fs.stat(fullPath)));
+        }
+      }
+    };
+
+    try {
+      await walk(meta.directory, '');
+    } catch (error) {
+      if (!isMissing(error)) throw error;
+    }
+    return files;
+  }
+
+  async createTreeNode(node: FileTreeNode): Promise<void> {
+    const meta = await this.requireMeta(node.projectId);
+    if (meta.treeNodes.some(existing => existing.path === node.path)) {
+      throw new Error(`Directory already exists: ${node.path}`);
+    }
+    if (node.type === 'directory') {
+      await fs.mkdir(this.resolvePath(meta, node.path), { recursive: true });
+    }
+    meta.treeNodes.push(structuredClone(node));
+    await this.writeMeta(meta);
+  }
+
+  async getTreeNode(projectId: string, nodePath: string): Promise<FileTreeNode | null> {
+    const meta = await this.readMeta(projectId);
+    const node = meta?.treeNodes.find(existing => existing.path === nodePath);
+    return node ? structuredClone(node) : null;
+  }
+
+  async updateTreeNode(node: FileTreeNode): Promise<void> {
+    const meta = await this.requireMeta(node.projectId);
+    meta.treeNodes = [...meta.treeNodes.filter(existing => existing.path !== node.path), structuredClone(node)];
+    await this.writeMeta(meta);
+  }
+
+  async deleteTreeNode(projectId: string, nodePath: string): Promise<void> {
+    const meta = await this.readMeta(projectId);
+    if (!meta) return;
+    meta.treeNodes = meta.treeNodes.filter(existing => existing.path !== nodePath);
+    await this.writeMeta(meta);
+    // Files are deleted one by one by the VFS; only drop the directory once it is empty
+    if (nodePath !== '/') {
+      await fs.rmdir(this.resolvePath(meta, nodePath)).catch(() => undefined);
+    }
+  }
+
+  async getAllTreeNodes(projectId: string): Promise<FileTreeNode[]> {
+    const meta = await this.readMeta(projectId);
+    return meta ? structuredClone(meta.treeNodes) : [];
+  }
+
+  async getRecord<T>(store: RecordStoreName, key: string): Promise<T | null> {
+    try {
+      const json = await fs.readFile(this.recordPath(store, key), 'utf8');
+      return JSON.parse(json, decodeRecord) as T;
+    } catch (error) {
+      if (isMissing(error)) return null;
+      throw error;
+    }
+  }
+
+  async getRecords<T>(store: RecordStoreName, keys: string[]): Promise<T[]> {
+    const records: T[] = [];
+    for (const key of keys) {
+      const record = await this.getRecord<T>(store, key);
+      if (record) records.push(record);
+    }
+    return records;
+  }
+
+  async getAllRecords<T>(store: RecordStoreName): Promise<T[]> {
+    return this.getRecords<T>(store, await this.getRecordKeys(store));
+  }
+
+  async getRecordKeys(store: RecordStoreName): Promise<string[]> {
+    const entries = await fs.readdir(this.recordDir(store));
+    return entries
+      .filter(entry => entry.endsWith('.json'))
+      .map(entry => decodeURIComponent(entry.slice(0, -'.json'.length)));
+  }
+
+  async putRecords(store: RecordStoreName, records: object[]): Promise<void> {
+    for (const record of records) {
+      await fs.writeFile(this.recordPath(store, recordKey(store, record)), JSON.stringify(record, encodeRecord));
+    }
+  }
+
+  async deleteRecords(store: RecordStoreName, keys: string[]): Promise<void> {
+    for (const key of keys) {
+      await fs.rm(this.recordPath(store, key), { force: true });
+    }
+  }
+
+  private metaPath(projectId: string): string {
+    return path.join(this.rootDir, META_DIR, 'projects', `${projectId}.json`);
+  }
+
+  private recordDir(store: RecordStoreName): string {
+    return path.join(this.rootDir, META_DIR, 'records', store);
+  }
+
+  private recordPath(store: RecordStoreName, key: string): string {
+    return path.join(this.recordDir(store), `${encodeURIComponent(key)}.json`);
+  }
+
+  private async readMeta(projectId: string): Promise<ProjectMeta | null> {
+    const cached = this.metas.get(projectId);
+    if (cached) return cached;
+
+    try {
+      const meta = JSON.parse(await fs.readFile(this.metaPath(projectId), 'utf8')) as ProjectMeta;
+      this.metas.set(projectId, meta);
+      return meta;
+    } catch (error) {
+      if (isMissing(error)) return null;
+      throw error;
+    }
+  }
+
+  private async requireMeta(projectId: string): Promise<ProjectMeta> {
+    const meta = await this.readMeta(projectId);
+    if (!meta) {
+      throw new Error(`Project not found: ${projectId}`);
+    }
+    return meta;
+  }
+
+  private async writeMeta(meta: ProjectMeta): Promise<void> {
+    this.metas.set(meta.project.id, meta);
+    await fs.writeFile(this.metaPath(meta.project.id), JSON.stringify(meta, null, 2));
+  }
+
+  private isManaged(directory: string): boolean {
+    const relative = path.relative(this.rootDir, directory);
+    return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative);
+  }
+
+  /**
+   * Disk path for a VFS path; rejects paths that would leave the project directory
+   */
+  private resolvePath(meta: ProjectMeta, vfsPath: string): string {
+    const target = path.resolve(meta.directory, ...vfsPath.split('/').filter(Boolean));
+    const relative = path.relative(meta.directory, target);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw new Error(`Path is outside the project: ${vfsPath}`);
+    }
+    return target;
+  }
+
+  /**
+   * Remove directories left empty by a delete, unless the VFS still tracks them
+   */
+  private async pruneUntrackedParents(meta: ProjectMeta, filePath: string): Promise<void> {
+    const parts = filePath.split('/').filter(Boolean);
+    for (let depth = parts.length - 1; depth > 0; depth--) {
+      const dirPath = '/' + parts.slice(0, depth).join('/');
+      if (meta.treeNodes.some(node => node.path === dirPath)) return;
+      try {
+        await fs.rmdir(this.resolvePath(meta, dirPath));
+      } catch {
+        return;
+      }
+    }
+  }
+
+  private async scanDirectories(projectId: string, directory: string): Promise<FileTreeNode[]> {
+    const nodes: FileTreeNode[] = [];
+    const visit = async (fullPath: string, vfsPath: string, parentPath: string | null) => {
+      const entries = await fs.readdir(fullPath, { withFileTypes: true });
+      const children: string[] = [];
+      const subdirectories: string[] = [];
+      for (const entry of entries) {
+        if (isSkipped(entry.name)) continue;
+        const childPath = vfsPath === '/' ? `/${entry.name}` : `${vfsPath}/${entry.name}`;
+        if (entry.isDirectory()) {
+          children.push(childPath);
+          subdirectories.push(entry.name);
+        } else if (entry.isFile() && isFileSupported(entry.name)) {
+          children.push(childPath);
+        }
+      }
+      nodes.push({ id: uuidv4(), projectId, path: vfsPath, type: 'directory', parentPath, children });
+      for (const name of subdirectories) {
+        await visit(path.join(fullPath, name), vfsPath === '/' ? `/${name}` : `${vfsPath}/${name}`, vfsPath);
+      }
+    };
+    await visit(directory, '/', null);
+    return nodes;
+  }
+
+  private toData(content: string | ArrayBuffer): string | Uint8Array {
+    return typeof content === 'string' ? content : new Uint8Array(content);
+  }
+
+  private async readVirtualFile(projectId: string, vfsPath: string, fullPath: string, stat: Stats): Promise<VirtualFile> {
+    const type = getFileTypeFromPath(vfsPath);
+    const content = TEXT_TYPES.includes(type)
+      ? await fs.readFile(fullPath, 'utf8')
+      : toArrayBuffer(await fs.readFile(fullPath));
+
+    return {
+      id: `${projectId}:${vfsPath}`,
+      projectId,
+      path: vfsPath,
+      name: path.basename(vfsPath),
+      type,
+      content,
+      mimeType: getSpecificMimeType(vfsPath),
+      size: stat.size,
+      createdAt: stat.birthtime,
+      updatedAt: stat.mtime,
+      metadata: {
+        isEntry: vfsPath === '/index.html'
+      }
+    };
+  }
+}
@@ -2,6 +2,11 @@ import { checkpointManager, Checkpoint } from './checkpoint';
 import { vfs } from './index';
 import { logger } from '@/lib/utils';
 
+export interface NamedSaveOptions {
+  name?: string | null;
+  tags?: string[];
+}
+
 interface DirtyEvent {
   projectId: string;
   dirty: boolean;
@@ -82,14 +87,27 @@ class SaveManager {
     return (this.suppressionCounts.get(projectId) ?? 0) > 0;
   }
 
-  async save(projectId: string, description?: string): Promise<Checkpoint> {
+  /**
+   * Save the project. Named saves are kept alongside earlier saves; an unnamed save
+   * replaces the previous unnamed one.
+   */
+  async save(projectId: string, description?: string, options: NamedSaveOptions = {}): Promise<Checkpoint> {
     await vfs.init();
     const project = await vfs.getProject(projectId);
     const fallbackDescription = `Manual save @ ${new Date().toLocaleTimeString()}`;
-    const checkpoint = await checkpointManager.createCheckpoint(projectId, description || fallbackDescription, {
+    const name = options.name?.trim() || null;
+
+    const previous = project.lastSavedCheckpointId
+      ? await checkpointManager.getCheckpoint(project.lastSavedCheckpointId)
+      : null;
+    const replaceId = !name && previous && !previous.name ? previous.id : null;
+
+    const checkpoint = await checkpointManager.createCheckpoint(projectId, description || name || fallbackDescription, {
       kind: 'manual',
       baseRevisionId: project.lastSavedCheckpointId ?? null,
-      replaceId: project.lastSavedCheckpointId ?? null
+      replaceId,
+      name,
+      tags: options.tags
     });
 
     project.lastSavedCheckpointId = checkpoint.id;
@@ -101,14 +119,44 @@ class SaveManager {
     return checkpoint;
   }
 
-  async restoreLastSaved(projectId: string): Promise<boolean> {
+  /**
+   * List named saves for a project, newest first
+   */
+  async listNamedSaves(projectId: string): Promise<Checkpoint[]> {
+    const checkpoints = await checkpointManager.getCheckpoints(projectId);
+    return checkpoints.filter(cp => cp.kind === 'manual' && !!cp.name);
+  }
+
+  async updateNamedSave(checkpointId: string, name: string, tags?: string[]): Promise<Checkpoint> {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Save name cannot be empty');
+    }
+    return checkpointManager.updateCheckpoint(checkpointId, { name: trimmed, description: trimmed, tags });
+  }
+
+  /**
+   * Delete a named save. Deleting the current saved state leaves the project dirty.
+   */
+  async deleteNamedSave(projectId: string, checkpointId: string): Promise<void> {
     await vfs.init();
+    await checkpointManager.deleteCheckpoint(checkpointId);
+
     const project = await vfs.getProject(projectId);
-    const checkpointId = project.lastSavedCheckpointId;
-    if (!checkpointId) {
-      logger.warn('[SaveManager] No saved checkpoint to restore', { projectId });
-      return false;
+    if (project.lastSavedCheckpointId === checkpointId) {
+      project.lastSavedCheckpointId = null;
+      project.lastSavedAt = null;
+      await vfs.updateProject(project);
+      this.manualCheckpoints.delete(projectId);
+      this.setDirty(projectId, true);
     }
+  }
+
+  /**
+   * Restore a checkpoint; manual saves also become the project's saved state
+   */
+  async restoreSave(projectId: string, checkpointId: string): Promise<boolean> {
+    await vfs.init();
 
     const restored = await this.runWithSuppressedDirty(projectId, async () => {
       const exists = await checkpointManager.checkpointExists(checkpointId);
@@ -123,10 +171,36 @@ class SaveManager {
       return success;
     });
 
-    if (restored) {
-      this.markClean(projectId);
+    if (!restored) {
+      return false;
+    }
+
+    const project = await vfs.getProject(projectId);
+    if (project.lastSavedCheckpointId !== checkpointId) {
+      // Only manual saves become the saved state; auto checkpoints can be pruned
+      const checkpoint = await checkpointManager.getCheckpoint(checkpointId);
+      if (checkpoint?.kind !== 'manual') {
+        this.markDirty(projectId);
+        return true;
+      }
+      project.lastSavedCheckpointId = checkpointId;
+      project.lastSavedAt = new Date(checkpoint.timestamp);
+      await vfs.updateProject(project);
+      this.manualCheckpoints.set(projectId, checkpointId);
+    }
+    this.markClean(projectId);
+    return true;
+  }
+
+  async restoreLastSaved(projectId: string): Promise<boolean> {
+    await vfs.init();
+    const project = await vfs.getProject(projectId);
+    const checkpointId = project.lastSavedCheckpointId;
+    if (!checkpointId) {
+      logger.warn('[SaveManager] No saved checkpoint to restore', { projectId });
+      return false;
     }
-    return restored;
+    return this.restoreSave(projectId, checkpointId);
   }
 
   getSavedCheckpointId(projectId: string): string | null {
@@ -0,0 +1,269 @@
+/**
+ * Shell Parser - POSIX-ish command line parsing for the VFS shell
+ * Supports quoting, pipes, command lists (&&, ||, ;) and redirections
+ */
+
+export type ListOperator = '&&' | '||' | ';';
+
+export type RedirectOperator = '>' | '>>' | '<' | '<<<' | '2>' | '2>>' | '2>&1';
+
+export interface ShellRedirect {
+  op: RedirectOperator;
+  target: string;
+}
+
+export interface SimpleCommand {
+  argv: string[];
+  redirects: ShellRedirect[];
+}
+
+export interface ShellListItem {
+  // Operator that connects this pipeline to the previous one (null for the first)
+  connector: ListOperator | null;
+  pipeline: SimpleCommand[];
+}
+
+export type ShellScript = ShellListItem[];
+
+type Token =
+  | { type: 'word'; value: string }
+  | { type: 'op'; value: string };
+
+const LIST_OPERATORS = new Set<string>(['&&', '||', ';']);
+const REDIRECT_OPERATORS = new Set<string>(['>', '>>', '<', '<<<', '2>', '2>>', '2>&1']);
+const ALL_OPERATORS = new Set<string>([...LIST_OPERATORS, ...REDIRECT_OPERATORS, '|']);
+
+// Longest operators first so that ">>" wins over ">"
+const OPERATOR_PATTERNS = ['2>&1', '<<<', '2>>', '&&', '||', '>>', '2>', '|', ';', '>', '<', '&'];
+
+/**
+ * Split a command string into words and operators
+ */
+export function tokenizeShellCommand(input: string): Token[] {
+  const tokens: Token[] = [];
+  let current = '';
+  let hasWord = false;
+  let i = 0;
+
+  const pushWord = () => {
+    if (hasWord) {
+      tokens.push({ type: 'word', value: current });
+    }
+    current = '';
+    hasWord = false;
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (char === '\\') {
+      // Line continuation
+      if (input[i + 1] === '\n') {
+        i += 2;
+        continue;
+      }
+      if (i + 1 < input.length) {
+        current += input[i + 1];
+        hasWord = true;
+        i += 2;
+        continue;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === "'") {
+      const end = input.indexOf("'", i + 1);
+      if (end === -1) {
+        throw new Error('syntax error: unterminated single quote');
+      }
+      current += input.slice(i + 1, end);
+      hasWord = true;
+      i = end + 1;
+      continue;
+    }
+
+    if (char === '"') {
+      let j = i + 1;
+      let closed = false;
+      while (j < input.length) {
+        const c = input[j];
+        if (c === '\\' && j + 1 < input.length && '"\\$`\n'.includes(input[j + 1])) {
+          if (input[j + 1] !== '\n') current += input[j + 1];
+          j += 2;
+          continue;
+        }
+        if (c === '"') {
+          closed = true;
+          break;
+        }
+        current += c;
+        j++;
+      }
+      if (!closed) {
+        throw new Error('syntax error: unterminated double quote');
+      }
+      hasWord = true;
+      i = j + 1;
+      continue;
+    }
+
+    if (char === ' ' || char === '\t' || char === '\r') {
+      pushWord();
+      i++;
+      continue;
+    }
+
+    if (char === '\n') {
+      pushWord();
+      tokens.push({ type: 'op', value: ';' });
+      i++;
+      continue;
+    }
+
+    // Comments start at the beginning of a word
+    if (char === '#' && !hasWord) {
+      const end = input.indexOf('\n', i);
+      i = end === -1 ? input.length : end;
+      continue;
+    }
+
+    // "2>" is only a redirect when the 2 starts a new word
+    const operator = OPERATOR_PATTERNS.find(op =>
+      input.startsWith(op, i) && (!op.startsWith('2') || !hasWord)
+    );
+    if (operator) {
+      pushWord();
+      // A lone "&" (background job) is treated as a command separator
+      tokens.push({ type: 'op', value: operator === '&' ? ';' : operator });
+      i += operator.length;
+      continue;
+    }
+
+    current += char;
+    hasWord = true;
+    i++;
+  }
+
+  pushWord();
+  return tokens;
+}
+
+/**
+ * Convert an argv array (shell tool array format) into tokens.
+ * Elements that are exactly an operator are treated as operators so that
+ * ["rg", "foo", "/", "|", "head", "-20"] composes like a real terminal.
+ */
+function tokensFromArgv(argv: string[]): Token[] {
+  return argv
+    .filter(arg => arg !== undefined && arg !== null && arg !== '')
+    .map(arg => (ALL_OPERATORS.has(arg) ? { type: 'op', value: arg } : { type: 'word', value: String(arg) }) as Token);
+}
+
+function parseTokens(tokens: Token[]): ShellScript {
+  const script: ShellScript = [];
+  let connector: ListOperator | null = null;
+  let pipeline: SimpleCommand[] = [];
+  let command: SimpleCommand = { argv: [], redirects: [] };
+
+  const isEmpty = (cmd: SimpleCommand) => cmd.argv.length === 0 && cmd.redirects.length === 0;
+
+  const endCommand = (op: string) => {
+    if (isEmpty(command)) {
+      throw new Error(`syntax error near unexpected token \`${op}'`);
+    }
+    pipeline.push(command);
+    command = { argv: [], redirects: [] };
+  };
+
+  const endPipeline = (op: string) => {
+    endCommand(op);
+    script.push({ connector, pipeline });
+    pipeline = [];
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (token.type === 'word') {
+      command.argv.push(token.value);
+      continue;
+    }
+
+    const op = token.value;
+
+    if (REDIRECT_OPERATORS.has(op)) {
+      if (op === '2>&1') {
+        command.redirects.push({ op, target: '' });
+        continue;
+      }
+      const next = tokens[i + 1];
+      if (!next || next.type !== 'word') {
+        throw new Error(`syntax error: missing target after \`${op}'`);
+      }
+      command.redirects.push({ op: op as RedirectOperator, target: next.value });
+      i++;
+      continue;
+    }
+
+    if (op === '|') {
+      endCommand(op);
+      continue;
+    }
+
+    if (LIST_OPERATORS.has(op)) {
+      // Tolerate trailing or repeated ";" separators
+      if (op === ';' && isEmpty(command) && pipeline.length === 0) {
+        continue;
+      }
+      endPipeline(op);
+      connector = op as ListOperator;
+      continue;
+    }
+  }
+
+  if (!isEmpty(command)) {
+    endPipeline('newline');
+  } else if (pipeline.length > 0 || (connector && connector !== ';')) {
+    throw new Error('syntax error: unexpected end of command');
+  }
+
+  return script;
+}
+
+/**
+ * Parse a command (string or argv array) into a list of pipelines
+ */
+export function parseShellScript(input: string | string[]): ShellScript {
+  if (Array.isArray(input)) {
+    // Single-element arrays like ["ls -la /"] are really command strings
+    if (input.length === 1 && /\s/.test(input[0] ?? '')) {
+      return parseTokens(tokenizeShellCommand(input[0]));
+    }
+    return parseTokens(tokensFromArgv(input));
+  }
+  return parseTokens(tokenizeShellCommand(input));
+}
+
+/**
+ * Split a command string into an argv array (operators are kept as plain words)
+ */
+export function splitShellWords(input: string): string[] {
+  return tokenizeShellCommand(input).map(token => token.value);
+}
+
+/**
+ * Flatten a parsed script into its simple commands
+ */
+export function listScriptCommands(script: ShellScript): SimpleCommand[] {
+  return script.flatMap(item => item.pipeline);
+}
+
+/**
+ * Check whether any command in the script writes to a file through redirection
+ */
+export function scriptHasOutputRedirect(script: ShellScript): boolean {
+  return listScriptCommands(script).some(cmd =>
+    cmd.redirects.some(r => (r.op === '>' || r.op === '>>') && r.target !== '/dev/null')
+  );
+}
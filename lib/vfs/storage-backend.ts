@@ -0,0 +1,67 @@
+import { Project, VirtualFile, FileTreeNode } from './types';
+
+/**
+ * Record stores kept next to the project files: checkpoint manifests, their
+ * content-addressed blobs, and conversations
+ */
+export type RecordStoreName = 'checkpoints' | 'checkpointBlobs' | 'conversations';
+
+/** Property each record store is keyed by */
+export const RECORD_KEYS: Record<RecordStoreName, string> = {
+  checkpoints: 'id',
+  checkpointBlobs: 'hash',
+  conversations: 'id'
+};
+
+/**
+ * Where the virtual file system keeps its data. IndexedDB in the browser; in memory
+ * or in a directory on disk when running in Node (tests, CLI, local folders).
+ *
+ * Objects passed in and returned are copies: callers may mutate them freely and
+ * must write them back to persist changes.
+ */
+export interface VFSStorageBackend {
+  readonly kind: 'indexeddb' | 'memory' | 'node-fs';
+
+  init(): Promise<void>;
+
+  createProject(project: Project): Promise<void>;
+  getProject(id: string): Promise<Project | null>;
+  updateProject(project: Project): Promise<void>;
+  /** Removes the project and its files; records are left to their managers */
+  deleteProject(id: string): Promise<void>;
+  listProjects(): Promise<Project[]>;
+
+  /** Rejects when a file already exists at the path */
+  createFile(file: VirtualFile): Promise<void>;
+  getFile(projectId: string, path: string): Promise<VirtualFile | null>;
+  updateFile(file: VirtualFile): Promise<void>;
+  deleteFile(projectId: string, path: string): Promise<void>;
+  listFiles(projectId: string): Promise<VirtualFile[]>;
+
+  createTreeNode(node: FileTreeNode): Promise<void>;
+  getTreeNode(projectId: string, path: string): Promise<FileTreeNode | null>;
+  updateTreeNode(node: FileTreeNode): Promise<void>;
+  deleteTreeNode(projectId: string, path: string): Promise<void>;
+  getAllTreeNodes(projectId: string): Promise<FileTreeNode[]>;
+
+  getRecord<T>(store: RecordStoreName, key: string): Promise<T | null>;
+  /** Records for the keys that exist, in no particular order */
+  getRecords<T>(store: RecordStoreName, keys: string[]): Promise<T[]>;
+  getAllRecords<T>(store: RecordStoreName): Promise<T[]>;
+  getRecordKeys(store: RecordStoreName): Promise<string[]>;
+  /** Insert or replace records, keyed by RECORD_KEYS[store] */
+  putRecords(store: RecordStoreName, records: object[]): Promise<void>;
+  deleteRecords(store: RecordStoreName, keys: string[]): Promise<void>;
+}
+
+/**
+ * Record key according to RECORD_KEYS
+ */
+export function recordKey(store: RecordStoreName, record: object): string {
+  const key = (record as Record<string, unknown>)[RECORD_KEYS[store]];
+  if (typeof key !== 'string' || !key) {
+    throw new Error(`Record for ${store} is missing its ${RECORD_KEYS[store]}`);
+  }
+  return key;
+}
@@ -0,0 +1,569 @@
+/**
+ * Stream Editors - minimal sed and awk engines for the VFS shell
+ * Operate on plain text; file reads and writes are handled by the shell
+ */
+
+type SedAddress =
+  | { type: 'line'; line: number }
+  | { type: 'last' }
+  | { type: 'regex'; regex: RegExp };
+
+interface SedCommand {
+  start?: SedAddress;
+  end?: SedAddress;
+  negate: boolean;
+  name: 's' | 'd' | 'p' | 'q' | '=' | 'a' | 'i' | 'c';
+  // s command
+  regex?: RegExp;
+  replacement?: string;
+  occurrence?: number;
+  printOnReplace?: boolean;
+  // a, i, c commands
+  text?: string;
+}
+
+export interface SedOptions {
+  quiet?: boolean; // -n: suppress automatic printing of the pattern space
+  extended?: boolean; // -E/-r: extended regular expressions
+}
+
+/**
+ * Convert a POSIX basic regular expression to JavaScript syntax.
+ * In BRE, \( \) \{ \} \+ \? \| are operators and the bare characters are literals.
+ */
+function breToJs(pattern: string): string {
+  let out = '';
+  let inBracket = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (inBracket) {
+      out += char;
+      if (char === ']') inBracket = false;
+      continue;
+    }
+    if (char === '[') {
+      inBracket = true;
+      out += char;
+      // A leading ] (or ^]) is a literal member of the bracket expression
+      if (pattern[i + 1] === '^') out += pattern[++i];
+      if (pattern[i + 1] === ']') out += pattern[++i];
+      continue;
+    }
+    if (char === '\\' && i + 1 < pattern.length) {
+      const next = pattern[++i];
+      out += '(){}+?|'.includes(next) ? next : '\\' + next;
+      continue;
+    }
+    out += '(){}+?|'.includes(char) ? '\\' + char : char;
+  }
+
+  return out;
+}
+
+/**
+ * Convert a sed replacement (&, \1-\9, \n) into a $-style template for expandReplacement
+ */
+function sedReplacementToJs(replacement: string): string {
+  let out = '';
+  for (let i = 0; i < replacement.length; i++) {
+    const char = replacement[i];
+    if (char === '\\' && i + 1 < replacement.length) {
+      const next = replacement[++i];
+      if (/[0-9]/.test(next)) out += next === '0' ? '$&' : '$' + next;
+      else if (next === 'n') out += '\n';
+      else if (next === 't') out += '\t';
+      else if (next === '$') out += '$$';
+      else out += next;
+    } else if (char === '&') {
+      out += '$&';
+    } else if (char === '$') {
+      out += '$$';
+    } else {
+      out += char;
+    }
+  }
+  return out;
+}
+
+/**
+ * Expand $&, $1-$9 and $$ in a converted replacement for a single match
+ */
+function expandReplacement(template: string, match: string, groups: Array<string | undefined>): string {
+  return template.replace(/\$(\$|&|[1-9])/g, (_, token: string) => {
+    if (token === '$') return '$';
+    if (token === '&') return match;
+    return groups[parseInt(token, 10) - 1] ?? '';
+  });
+}
+
+class SedScriptReader {
+  pos = 0;
+
+  constructor(private script: string) {}
+
+  get done(): boolean {
+    return this.pos >= this.script.length;
+  }
+
+  peek(): string {
+    return this.script[this.pos];
+  }
+
+  next(): string {
+    return this.script[this.pos++];
+  }
+
+  skipWhitespace(): void {
+    while (!this.done && /[ \t]/.test(this.peek())) this.pos++;
+  }
+
+  /**
+   * Read up to an unescaped delimiter; an escaped delimiter becomes the literal character
+   */
+  readDelimited(delimiter: string): string {
+    let out = '';
+    while (!this.done) {
+      const char = this.next();
+      if (char === '\\' && !this.done) {
+        const escaped = this.next();
+        out += escaped === delimiter ? delimiter : '\\' + escaped;
+        continue;
+      }
+      if (char === delimiter) return out;
+      out += char;
+    }
+    throw new Error(`sed: unterminated expression (missing '${delimiter}')`);
+  }
+
+  readToLineEnd(): string {
+    const end = this.script.indexOf('\n', this.pos);
+    const text = this.script.slice(this.pos, end === -1 ? undefined : end);
+    this.pos = end === -1 ? this.script.length : end + 1;
+    return text;
+  }
+}
+
+function compileRegex(pattern: string, extended: boolean, flags = ''): RegExp {
+  try {
+    return new RegExp(extended ? pattern : breToJs(pattern), flags);
+  } catch (e: any) {
+    throw new Error(`sed: invalid regular expression: ${e?.message || pattern}`);
+  }
+}
+
+function readSedAddress(reader: SedScriptReader, extended: boolean): SedAddress | undefined {
+  const char = reader.peek();
+  if (char === '$') {
+    reader.next();
+    return { type: 'last' };
+  }
+  if (/[0-9]/.test(char)) {
+    let digits = '';
+    while (!reader.done && /[0-9]/.test(reader.peek())) digits += reader.next();
+    return { type: 'line', line: parseInt(digits, 10) };
+  }
+  if (char === '/' || char === '\\') {
+    reader.next();
+    const delimiter = char === '\\' ? reader.next() : '/';
+    const pattern = reader.readDelimited(delimiter);
+    let flags = '';
+    if (reader.peek() === 'I') {
+      reader.next();
+      flags = 'i';
+    }
+    return { type: 'regex', regex: compileRegex(pattern, extended, flags) };
+  }
+  return undefined;
+}
+
+/**
+ * Parse a sed script into commands.
+ * Supported: addresses (N, $, /re/, ranges, !), s///[gipN], d, p, q, =, a, i, c
+ */
+export function parseSedScript(script: string, options: SedOptions = {}): SedCommand[] {
+  const extended = Boolean(options.extended);
+  const reader = new SedScriptReader(script);
+  const commands: SedCommand[] = [];
+
+  while (!reader.done) {
+    reader.skipWhitespace();
+    if (reader.done) break;
+    if (reader.peek() === ';' || reader.peek() === '\n') {
+      reader.next();
+      continue;
+    }
+
+    const start = readSedAddress(reader, extended);
+    let end: SedAddress | undefined;
+    if (start && reader.peek() === ',') {
+      reader.next();
+      end = readSedAddress(reader, extended);
+      if (!end) throw new Error('sed: expected address after ","');
+    }
+
+    reader.skipWhitespace();
+    let negate = false;
+    if (reader.peek() === '!') {
+      reader.next();
+      negate = true;
+      reader.skipWhitespace();
+    }
+
+    if (reader.done) throw new Error('sed: missing command');
+    const name = reader.next();
+    const command: SedCommand = { start, end, negate, name: name as SedCommand['name'] };
+
+    switch (name) {
+      case 's': {
+        const delimiter = reader.next();
+        if (!delimiter || delimiter === '\\' || delimiter === '\n') {
+          throw new Error('sed: unterminated `s\' command');
+        }
+        const pattern = reader.readDelimited(delimiter);
+        const replacement = reader.readDelimited(delimiter);
+        let flags = '';
+        let occurrence = 1;
+        let global = false;
+        while (!reader.done && /[gipI0-9]/.test(reader.peek())) {
+          const flag = reader.next();
+          if (flag === 'g') global = true;
+          else if (flag === 'i' || flag === 'I') flags += 'i';
+          else if (flag === 'p') command.printOnReplace = true;
+          else {
+            let digits = flag;
+            while (!reader.done && /[0-9]/.test(reader.peek())) digits += reader.next();
+            occurrence = parseInt(digits, 10) || 1;
+          }
+        }
+        command.regex = compileRegex(pattern, extended, flags + 'g');
+        command.replacement = sedReplacementToJs(replacement);
+        command.occurrence = global ? 0 : occurrence;
+        break;
+      }
+      case 'd':
+      case 'p':
+      case 'q':
+      case '=':
+        break;
+      case 'a':
+      case 'i':
+      case 'c': {
+        // GNU one-liner form: "a text" or "a\text", or the classic "a\<newline>text"
+        reader.skipWhitespace();
+        if (reader.peek() === '\\') {
+          reader.next();
+          if (reader.peek() === '\n') reader.next();
+        }
+        command.text = reader.readToLineEnd().replace(/\\(.)/g, '$1');
+        break;
+      }
+      default:
+        throw new Error(`sed: unsupported command '${name}' (supported: s, d, p, q, =, a, i, c)`);
+    }
+
+    commands.push(command);
+
+    reader.skipWhitespace();
+    if (!reader.done && reader.peek() !== ';' && reader.peek() !== '\n' && reader.peek() !== '}') {
+      throw new Error(`sed: extra characters after command '${name}'`);
+    }
+  }
+
+  return commands;
+}
+
+function matchesAddress(address: SedAddress, lineNo: number, line: string, isLast: boolean): boolean {
+  switch (address.type) {
+    case 'line': return lineNo === address.line;
+    case 'last': return isLast;
+    case 'regex': return address.regex.test(line);
+  }
+}
+
+/**
+ * Split text into lines, remembering whether it ended with a newline
+ */
+function splitLines(text: string): { lines: string[]; trailingNewline: boolean } {
+  if (!text) return { lines: [], trailingNewline: false };
+  const lines = text.split(/\r?\n/);
+  const trailingNewline = lines[lines.length - 1] === '';
+  if (trailingNewline) lines.pop();
+  return { lines, trailingNewline };
+}
+
+/**
+ * Run a sed script over text. The trailing newline of the input is preserved.
+ */
+export function runSed(script: string | string[], text: string, options: SedOptions = {}): string {
+  const commands = (Array.isArray(script) ? script : [script])
+    .flatMap(part => parseSedScript(part, options));
+  const { lines, trailingNewline } = splitLines(text);
+  const output: string[] = [];
+  const activeRanges = new Map<SedCommand, boolean>();
+
+  const isSelected = (command: SedCommand, lineNo: number, line: string, isLast: boolean): boolean => {
+    let selected: boolean;
+    if (!command.start) {
+      selected = true;
+    } else if (!command.end) {
+      selected = matchesAddress(command.start, lineNo, line, isLast);
+    } else if (activeRanges.get(command)) {
+      selected = true;
+      const end = command.end;
+      const closes = end.type === 'line' ? lineNo >= end.line : matchesAddress(end, lineNo, line, isLast);
+      if (closes) activeRanges.set(command, false);
+    } else if (matchesAddress(command.start, lineNo, line, isLast)) {
+      selected = true;
+      // A numeric end at or before the start line selects only one line
+      const end = command.end;
+      const closesNow = end.type === 'line' ? end.line <= lineNo : (end.type === 'last' && isLast);
+      activeRanges.set(command, !closesNow);
+    } else {
+      selected = false;
+    }
+    return command.negate ? !selected : selected;
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    const lineNo = index + 1;
+    const isLast = index === lines.length - 1;
+    let patternSpace = lines[index];
+    let deleted = false;
+    let quit = false;
+    const appended: string[] = [];
+
+    for (const command of commands) {
+      if (!isSelected(command, lineNo, patternSpace, isLast)) continue;
+
+      if (command.name === 's') {
+        const regex = command.regex as RegExp;
+        regex.lastIndex = 0;
+        let count = 0;
+        let replaced = false;
+        patternSpace = patternSpace.replace(regex, (match: string, ...rest: unknown[]) => {
+          count++;
+          if (command.occurrence !== 0 && count !== command.occurrence) return match;
+          replaced = true;
+          const groups = rest.slice(0, -2).filter((g): g is string | undefined => typeof g !== 'object');
+          return expandReplacement(command.replacement as string, match, groups);
+        });
+        if (replaced && command.printOnReplace) output.push(patternSpace);
+      } else if (command.name === 'd') {
+        deleted = true;
+        break;
+      } else if (command.name === 'p') {
+        output.push(patternSpace);
+      } else if (command.name === '=') {
+        output.push(String(lineNo));
+      } else if (command.name === 'a') {
+        appended.push(command.text ?? '');
+      } else if (command.name === 'i') {
+        output.push(command.text ?? '');
+      } else if (command.name === 'c') {
+        // Ranges print the replacement text once, at the end of the range
+        if (!command.end || !activeRanges.get(command)) output.push(command.text ?? '');
+        deleted = true;
+        break;
+      } else if (command.name === 'q') {
+        quit = true;
+        break;
+      }
+    }
+
+    if (!deleted && !options.quiet) output.push(patternSpace);
+    output.push(...appended);
+    if (quit) break;
+  }
+
+  const result = output.join('\n');
+  return trailingNewline && output.length > 0 ? result + '\n' : result;
+}
+
+export interface AwkOptions {
+  fieldSeparator?: string; // -F
+  variables?: Record<string, string>; // -v name=value (OFS is honoured)
+}
+
+type AwkRecord = { fields: string[]; line: string; nr: number };
+
+/**
+ * Split at top-level occurrences of a separator, ignoring quoted strings and /regex/ literals
+ */
+function splitTopLevel(source: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  let depth = 0;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quote) {
+      current += char;
+      if (char === '\\' && i + 1 < source.length) current += source[++i];
+      else if (char === quote) quote = null;
+      continue;
+    }
+    if (char === '"' || (char === '/' && /(^|[~!(&|]\s*)$/.test(current))) {
+      quote = char;
+      current += char;
+      continue;
+    }
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (depth === 0 && source.startsWith(separator, i)) {
+      parts.push(current.trim());
+      current = '';
+      i += separator.length - 1;
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current.trim());
+  return parts;
+}
+
+function awkField(record: AwkRecord, index: number): string {
+  if (index === 0) return record.line;
+  return record.fields[index - 1] ?? '';
+}
+
+/**
+ * Evaluate an awk value expression made of juxtaposed terms ($N, $NF, NR, NF, "text", numbers)
+ */
+function evaluateAwkValue(expression: string, record: AwkRecord): string {
+  const termPattern = /\$\(\s*NF\s*-\s*(\d+)\s*\)|\$NF|\$(\d+)|\bNR\b|\bNF\b|"((?:[^"\\]|\\.)*)"|(-?\d+(?:\.\d+)?)|(\S)/g;
+  let out = '';
+  let match: RegExpExecArray | null;
+
+  while ((match = termPattern.exec(expression)) !== null) {
+    const [term, nfOffset, fieldIndex, literal, numeric, unknown] = match;
+    if (nfOffset !== undefined) out += awkField(record, record.fields.length - parseInt(nfOffset, 10));
+    else if (term === '$NF') out += awkField(record, record.fields.length);
+    else if (fieldIndex !== undefined) out += awkField(record, parseInt(fieldIndex, 10));
+    else if (term === 'NR') out += String(record.nr);
+    else if (term === 'NF') out += String(record.fields.length);
+    else if (literal !== undefined) out += literal.replace(/\\n/g, '\n').replace(/\\t/g, '\t').replace(/\\(.)/g, '$1');
+    else if (numeric !== undefined) out += numeric;
+    else throw new Error(`awk: unsupported expression near '${unknown}' (supported: $N, $NF, NR, NF, "text")`);
+  }
+
+  return out;
+}
+
+function compareAwkValues(left: string, op: string, right: string): boolean {
+  const numeric = left.trim() !== '' && right.trim() !== '' && !isNaN(Number(left)) && !isNaN(Number(right));
+  const a: string | number = numeric ? Number(left) : left;
+  const b: string | number = numeric ? Number(right) : right;
+  switch (op) {
+    case '==': return a === b;
+    case '!=': return a !== b;
+    case '>': return a > b;
+    case '<': return a < b;
+    case '>=': return a >= b;
+    case '<=': return a <= b;
+    default: return false;
+  }
+}
+
+/**
+ * Compile an awk pattern (/re/, !/re/, $N ~ /re/, comparisons, && and ||) into a predicate
+ */
+function compileAwkPattern(pattern: string): (record: AwkRecord) => boolean {
+  const source = pattern.trim();
+  if (!source) return () => true;
+
+  const alternatives = splitTopLevel(source, '||');
+  if (alternatives.length > 1) {
+    const predicates = alternatives.map(compileAwkPattern);
+    return record => predicates.some(p => p(record));
+  }
+  const conjuncts = splitTopLevel(source, '&&');
+  if (conjuncts.length > 1) {
+    const predicates = conjuncts.map(compileAwkPattern);
+    return record => predicates.every(p => p(record));
+  }
+
+  if (source.startsWith('(') && source.endsWith(')')) {
+    return compileAwkPattern(source.slice(1, -1));
+  }
+
+  const regexOnly = source.match(/^(!?)\s*\/(.*)\/$/);
+  if (regexOnly) {
+    const regex = new RegExp(regexOnly[2]);
+    const negate = regexOnly[1] === '!';
+    return record => regex.test(record.line) !== negate;
+  }
+
+  const regexMatch = source.match(/^(.+?)\s*(!?~)\s*\/(.*)\/$/);
+  if (regexMatch) {
+    const regex = new RegExp(regexMatch[3]);
+    const negate = regexMatch[2] === '!~';
+    return record => regex.test(evaluateAwkValue(regexMatch[1], record)) !== negate;
+  }
+
+  const comparison = source.match(/^(.+?)\s*(==|!=|>=|<=|>|<)\s*(.+)$/);
+  if (comparison) {
+    const [, left, op, right] = comparison;
+    return record => compareAwkValues(evaluateAwkValue(left, record), op, evaluateAwkValue(right, record));
+  }
+
+  throw new Error(`awk: unsupported pattern '${source}'`);
+}
+
+function splitAwkFields(line: string, separator?: string): string[] {
+  if (separator === undefined || separator === ' ') {
+    const trimmed = line.trim();
+    return trimmed ? trimmed.split(/\s+/) : [];
+  }
+  const sep = separator === '\\t' || separator === 't' ? '\t' : separator;
+  // Single characters are literal separators; longer values are regular expressions
+  return sep.length === 1 ? line.split(sep) : line.split(new RegExp(sep));
+}
+
+/**
+ * Run a minimal awk program: `[pattern] [{ print expr, ... }]`
+ */
+export function runAwk(program: string, text: string, options: AwkOptions = {}): string {
+  const source = program.trim();
+  if (/^(BEGIN|END)\b/.test(source)) {
+    throw new Error('awk: BEGIN/END blocks are not supported; use a pattern and a print action');
+  }
+
+  let patternSource = source;
+  let actionSource = 'print';
+  const braceIndex = source.indexOf('{');
+  if (braceIndex !== -1) {
+    if (!source.endsWith('}')) throw new Error('awk: missing closing }');
+    patternSource = source.slice(0, braceIndex);
+    actionSource = source.slice(braceIndex + 1, -1).trim();
+  }
+
+  const matches = compileAwkPattern(patternSource);
+  const outputSeparator = options.variables?.OFS ?? ' ';
+  const statements = splitTopLevel(actionSource, ';').filter(Boolean);
+  for (const statement of statements) {
+    if (!/^print\b/.test(statement)) {
+      throw new Error(`awk: unsupported statement '${statement}' (only print is supported)`);
+    }
+  }
+
+  const output: string[] = [];
+  const { lines } = splitLines(text);
+  lines.forEach((line, index) => {
+    const record: AwkRecord = { fields: splitAwkFields(line, options.fieldSeparator), line, nr: index + 1 };
+    if (!matches(record)) return;
+
+    for (const statement of statements) {
+      const argsSource = statement.replace(/^print\s*/, '').replace(/^\((.*)\)$/, '$1');
+      if (!argsSource) {
+        output.push(line);
+        continue;
+      }
+      output.push(splitTopLevel(argsSource, ',').map(arg => evaluateAwkValue(arg, record)).join(outputSeparator));
+    }
+  });
+
+  return output.join('\n');
+}
@@ -25,10 +25,21 @@ export interface Project {
       requestCount: number;
       lastUpdated: Date;
     }>;
+    /** Spend per model role (chat, code, planner, evaluation, summarization) */
+    roleBreakdown?: Record<string, {
+      totalCost: number;
+      tokenUsage: {
+        input: number;
+        output: number;
+      };
+      requestCount: number;
+      lastUpdated: Date;
+    }>;
     sessionHistory?: Array<{
       sessionId: string;
       cost: number;
       provider: string;
+      role?: string;
       timestamp: Date;
       tokenUsage?: {
         input: number;
@@ -94,7 +105,7 @@ export const MIME_TYPES: Record<FileType, string> = {
 export const SUPPORTED_EXTENSIONS = {
   html: ['html', 'htm'],
   css: ['css'],
-  js: ['js', 'mjs', 'jsx'],
+  js: ['js', 'mjs', 'jsx', 'ts', 'tsx'],
   json: ['json'],
   text: ['txt', 'md', 'xml', 'svg'],
   template: ['hbs', 'handlebars'],
@@ -138,6 +149,8 @@ export function getSpecificMimeType(path: string): string {
     'js': 'application/javascript',
     'mjs': 'application/javascript',
     'jsx': 'application/javascript',
+    'ts': 'application/typescript',
+    'tsx': 'application/typescript',
     
     'json': 'application/json',
     
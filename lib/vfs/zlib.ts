@@ -0,0 +1,302 @@
+/**
+ * Minimal zlib (RFC 1950) / DEFLATE (RFC 1951) helpers used for git objects.
+ * Inflate reports how many input bytes it consumed, which packfile parsing needs.
+ */
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+const MAX_STORED_BLOCK = 65535;
+
+interface Huffman {
+  counts: Uint16Array;
+  symbols: Uint16Array;
+}
+
+export interface InflateResult {
+  data: Uint8Array;
+  bytesRead: number;
+}
+
+export function adler32(data: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < data.length;) {
+    // 5552 is the largest run that cannot overflow before the modulo
+    const end = Math.min(i + 5552, data.length);
+    for (; i < end; i++) {
+      a += data[i];
+      b += a;
+    }
+    a %= 65521;
+    b %= 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+/**
+ * Wrap data in a zlib stream made of stored (uncompressed) blocks.
+ * Any zlib reader accepts it; the surrounding zip archive does the real compression.
+ */
+export function zlibStore(data: Uint8Array): Uint8Array {
+  const blockCount = Math.max(1, Math.ceil(data.length / MAX_STORED_BLOCK));
+  const out = new Uint8Array(2 + blockCount * 5 + data.length + 4);
+  out[0] = 0x78;
+  out[1] = 0x01;
+
+  let pos = 2;
+  for (let i = 0; i < blockCount; i++) {
+    const start = i * MAX_STORED_BLOCK;
+    const length = Math.min(MAX_STORED_BLOCK, data.length - start);
+    out[pos++] = i === blockCount - 1 ? 1 : 0;
+    out[pos++] = length & 0xff;
+    out[pos++] = length >>> 8;
+    out[pos++] = ~length & 0xff;
+    out[pos++] = (~length >>> 8) & 0xff;
+    out.set(data.subarray(start, start + length), pos);
+    pos += length;
+  }
+
+  const checksum = adler32(data);
+  out[pos++] = checksum >>> 24;
+  out[pos++] = (checksum >>> 16) & 0xff;
+  out[pos++] = (checksum >>> 8) & 0xff;
+  out[pos++] = checksum & 0xff;
+  return out;
+}
+
+function buildHuffman(lengths: Uint8Array, offset: number, count: number): Huffman {
+  const counts = new Uint16Array(16);
+  const symbols = new Uint16Array(count);
+  for (let i = 0; i < count; i++) counts[lengths[offset + i]]++;
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(16);
+  for (let len = 1; len < 16; len++) offsets[len] = offsets[len - 1] + counts[len - 1];
+  for (let i = 0; i < count; i++) {
+    const len = lengths[offset + i];
+    if (len) symbols[offsets[len]++] = i;
+  }
+  return { counts, symbols };
+}
+
+let fixedTables: { lit: Huffman; dist: Huffman } | null = null;
+
+function getFixedTables(): { lit: Huffman; dist: Huffman } {
+  if (!fixedTables) {
+    const lengths = new Uint8Array(288 + 30);
+    lengths.fill(8, 0, 144);
+    lengths.fill(9, 144, 256);
+    lengths.fill(7, 256, 280);
+    lengths.fill(8, 280, 288);
+    lengths.fill(5, 288);
+    fixedTables = { lit: buildHuffman(lengths, 0, 288), dist: buildHuffman(lengths, 288, 30) };
+  }
+  return fixedTables;
+}
+
+class Inflater {
+  private pos: number;
+  private bitBuffer = 0;
+  private bitCount = 0;
+  private out: Uint8Array;
+  private outLength = 0;
+
+  constructor(private input: Uint8Array, start: number, expectedSize: number) {
+    this.pos = start;
+    this.out = new Uint8Array(Math.max(expectedSize, 1024));
+  }
+
+  get position(): number {
+    return this.pos;
+  }
+
+  private bits(n: number): number {
+    while (this.bitCount < n) {
+      if (this.pos >= this.input.length) {
+        throw new Error('Unexpected end of compressed data');
+      }
+      this.bitBuffer |= this.input[this.pos++] << this.bitCount;
+      this.bitCount += 8;
+    }
+    const value = this.bitBuffer & ((1 << n) - 1);
+    this.bitBuffer >>>= n;
+    this.bitCount -= n;
+    return value;
+  }
+
+  private ensureCapacity(extra: number): void {
+    if (this.outLength + extra <= this.out.length) return;
+    let size = this.out.length * 2;
+    while (size < this.outLength + extra) size *= 2;
+    const grown = new Uint8Array(size);
+    grown.set(this.out.subarray(0, this.outLength));
+    this.out = grown;
+  }
+
+  private decodeSymbol(table: Huffman): number {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let len = 1; len < 16; len++) {
+      code |= this.bits(1);
+      const count = table.counts[len];
+      if (code - first < count) {
+        return table.symbols[index + code - first];
+      }
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new Error('Invalid Huffman code');
+  }
+
+  private stored(): void {
+    // Stored blocks start on a byte boundary
+    this.bitBuffer = 0;
+    this.bitCount = 0;
+    if (this.pos + 4 > this.input.length) {
+      throw new Error('Unexpected end of compressed data');
+    }
+    const length = this.input[this.pos] | (this.input[this.pos + 1] << 8);
+    const inverse = this.input[this.pos + 2] | (this.input[this.pos + 3] << 8);
+    if (length !== (~inverse & 0xffff)) {
+      throw new Error('Corrupt stored block');
+    }
+    this.pos += 4;
+    if (this.pos + length > this.input.length) {
+      throw new Error('Unexpected end of compressed data');
+    }
+    this.ensureCapacity(length);
+    this.out.set(this.input.subarray(this.pos, this.pos + length), this.outLength);
+    this.outLength += length;
+    this.pos += length;
+  }
+
+  private codes(lit: Huffman, dist: Huffman): void {
+    for (;;) {
+      const symbol = this.decodeSymbol(lit);
+      if (symbol < 256) {
+        this.ensureCapacity(1);
+        this.out[this.outLength++] = symbol;
+        continue;
+      }
+      if (symbol === 256) return;
+
+      const lengthIndex = symbol - 257;
+      if (lengthIndex >= LENGTH_BASE.length) {
+        throw new Error('Invalid length code');
+      }
+      const length = LENGTH_BASE[lengthIndex] + this.bits(LENGTH_EXTRA[lengthIndex]);
+      const distIndex = this.decodeSymbol(dist);
+      if (distIndex >= DIST_BASE.length) {
+        throw new Error('Invalid distance code');
+      }
+      const distance = DIST_BASE[distIndex] + this.bits(DIST_EXTRA[distIndex]);
+      if (distance > this.outLength) {
+        throw new Error('Distance too far back');
+      }
+
+      this.ensureCapacity(length);
+      // Byte-by-byte so overlapping copies repeat correctly
+      for (let i = 0; i < length; i++) {
+        this.out[this.outLength] = this.out[this.outLength - distance];
+        this.outLength++;
+      }
+    }
+  }
+
+  private dynamic(): void {
+    const literalCount = this.bits(5) + 257;
+    const distanceCount = this.bits(5) + 1;
+    const codeLengthCount = this.bits(4) + 4;
+
+    const codeLengths = new Uint8Array(19);
+    for (let i = 0; i < codeLengthCount; i++) {
+      codeLengths[CODE_LENGTH_ORDER[i]] = this.bits(3);
+    }
+    const codeLengthTable = buildHuffman(codeLengths, 0, 19);
+
+    const lengths = new Uint8Array(literalCount + distanceCount);
+    let index = 0;
+    while (index < lengths.length) {
+      const symbol = this.decodeSymbol(codeLengthTable);
+      if (symbol < 16) {
+        lengths[index++] = symbol;
+        continue;
+      }
+
+      let repeat: number;
+      let value = 0;
+      if (symbol === 16) {
+        if (index === 0) throw new Error('Repeat with no previous length');
+        value = lengths[index - 1];
+        repeat = 3 + this.bits(2);
+      } else if (symbol === 17) {
+        repeat = 3 + this.bits(3);
+      } else {
+        repeat = 11 + this.bits(7);
+      }
+      if (index + repeat > lengths.length) {
+        throw new Error('Too many code lengths');
+      }
+      lengths.fill(value, index, index + repeat);
+      index += repeat;
+    }
+
+    this.codes(buildHuffman(lengths, 0, literalCount), buildHuffman(lengths, literalCount, distanceCount));
+  }
+
+  run(): Uint8Array {
+    let last = 0;
+    while (!last) {
+      last = this.bits(1);
+      const type = this.bits(2);
+      if (type === 0) {
+        this.stored();
+      } else if (type === 1) {
+        const { lit, dist } = getFixedTables();
+        this.codes(lit, dist);
+      } else if (type === 2) {
+        this.dynamic();
+      } else {
+        throw new Error('Invalid block type');
+      }
+    }
+    return this.out.slice(0, this.outLength);
+  }
+}
+
+/**
+ * Inflate a zlib stream starting at `offset`. `bytesRead` includes the header and checksum.
+ */
+export function zlibInflate(input: Uint8Array, offset = 0, expectedSize = 0): InflateResult {
+  if (offset + 2 > input.length) {
+    throw new Error('Unexpected end of compressed data');
+  }
+  const cmf = input[offset];
+  const flg = input[offset + 1];
+  if ((cmf & 0x0f) !== 8 || ((cmf << 8) | flg) % 31 !== 0) {
+    throw new Error('Invalid zlib header');
+  }
+  if (flg & 0x20) {
+    throw new Error('Preset dictionaries are not supported');
+  }
+
+  const inflater = new Inflater(input, offset + 2, expectedSize);
+  const data = inflater.run();
+  const end = inflater.position + 4;
+  if (end > input.length) {
+    throw new Error('Unexpected end of compressed data');
+  }
+
+  const expected = ((input[end - 4] << 24) | (input[end - 3] << 16) | (input[end - 2] << 8) | input[end - 1]) >>> 0;
+  if (adler32(data) !== expected) {
+    throw new Error('zlib checksum mismatch');
+  }
+
+  return { data, bytesRead: end - offset };
+}
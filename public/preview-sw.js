@@ -0,0 +1,124 @@
+/**
+ * OSW Studio preview service worker.
+ *
+ * Serves project files at /preview/<projectId>/<path> so previews load from real URLs:
+ * relative links, srcset, CSS @import, dynamic import() and history routing resolve the way
+ * they do on a static host. Files live in the studio tab, which answers each request over a
+ * BroadcastChannel. Root-absolute requests made by a preview page (`/style.css`) are
+ * served from the project that page belongs to.
+ */
+
+const CHANNEL_NAME = 'osw-studio-preview';
+// Longest wait for the studio tab to answer before giving up on a request
+const REQUEST_TIMEOUT = 15000;
+
+const channel = new BroadcastChannel(CHANNEL_NAME);
+const pending = new Map();
+
+channel.addEventListener('message', (event) => {
+  const data = event.data;
+  if (!data || data.type !== 'response') {
+    return;
+  }
+  const request = pending.get(data.id);
+  if (request) {
+    pending.delete(data.id);
+    clearTimeout(request.timer);
+    request.resolve(toResponse(data, request.projectId));
+  }
+});
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request;
+  if (request.method !== 'GET' && request.method !== 'HEAD') {
+    return;
+  }
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) {
+    return;
+  }
+
+  const target = previewTarget(url.pathname);
+  if (target) {
+    // Without the trailing slash, relative URLs on the entry page would resolve outside the project
+    if (target.path === '') {
+      event.respondWith(Response.redirect(`${url.origin}${url.pathname}/${url.search}`, 302));
+      return;
+    }
+    event.respondWith(requestFile(target.projectId, target.path, request.mode === 'navigate'));
+    return;
+  }
+
+  if (event.clientId) {
+    event.respondWith(fromPreviewClient(event.clientId, request, url));
+  }
+});
+
+/**
+ * Project and file path of a URL in the preview scope
+ */
+function previewTarget(pathname) {
+  const scope = new URL(self.registration.scope).pathname;
+  if (!pathname.startsWith(scope)) {
+    return null;
+  }
+  const rest = pathname.slice(scope.length);
+  const slash = rest.indexOf('/');
+  const projectId = decodeURIComponent(slash === -1 ? rest : rest.slice(0, slash));
+  if (!projectId) {
+    return null;
+  }
+  return { projectId, path: slash === -1 ? '' : rest.slice(slash) };
+}
+
+async function fromPreviewClient(clientId, request, url) {
+  const client = await self.clients.get(clientId);
+  const owner = client ? previewTarget(new URL(client.url).pathname) : null;
+  if (!owner) {
+    return fetch(request);
+  }
+  return requestFile(owner.projectId, url.pathname, false);
+}
+
+function requestFile(projectId, path, navigate) {
+  return new Promise((resolve) => {
+    const id = self.crypto.randomUUID();
+    const timer = setTimeout(() => {
+      pending.delete(id);
+      resolve(new Response('The studio tab serving this preview did not respond. Keep the project open in OSW Studio.', {
+        status: 504,
+        headers: { 'Content-Type': 'text/plain; charset=utf-8' }
+      }));
+    }, REQUEST_TIMEOUT);
+    pending.set(id, { resolve, timer, projectId });
+    channel.postMessage({ type: 'request', id, projectId, path, navigate });
+  });
+}
+
+function toResponse(data, projectId) {
+  if (data.redirect) {
+    const location = /^[a-z][a-z0-9+.-]*:/i.test(data.redirect)
+      ? data.redirect
+      : new URL(`${new URL(self.registration.scope).pathname}${encodeURIComponent(projectId)}${data.redirect}`, self.location.origin).href;
+    return Response.redirect(location, data.status);
+  }
+  const contentType = typeof data.content === 'string' && !/charset=/i.test(data.mimeType)
+    ? `${data.mimeType}; charset=utf-8`
+    : data.mimeType;
+  return new Response(data.content, {
+    status: data.status,
+    headers: {
+      'Content-Type': contentType,
+      'Cache-Control': 'no-store'
+    }
+  });
+}
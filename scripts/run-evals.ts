@@ -0,0 +1,123 @@
+/**
+ * Run the test scenarios headlessly and report the results.
+ *
+ *   npm run eval                                   # scripted mock model, no API key needed
+ *   npm run eval -- --api-url http://localhost:3000 --provider openrouter \
+ *     --model openai/gpt-4o-mini --model anthropic/claude-3.5-haiku --api-key $KEY
+ *   npm run eval -- --prompt v2=prompts/v2.txt --junit results.xml --json results.json
+ *
+ * Every --model is run with every --prompt version, so success rates can be compared.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { basename } from 'path';
+import { runHeadlessSuite } from '@/lib/testing/headless-runner';
+import { compareSuites, formatComparison, toJUnitXml } from '@/lib/testing/reports';
+import { TestConfig, TestSuiteResult } from '@/lib/testing/types';
+
+interface CliOptions {
+  apiUrl?: string;
+  provider?: string;
+  apiKey?: string;
+  models: string[];
+  prompts: Array<{ version?: string; systemPrompt?: string }>;
+  scenarios?: string[];
+  timeout?: number;
+  json?: string;
+  junit?: string;
+  verbose: boolean;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    apiKey: process.env.EVAL_API_KEY,
+    models: [],
+    prompts: [],
+    verbose: false
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    const value = () => {
+      const next = argv[++i];
+      if (next === undefined) {
+        throw new Error(`Missing value for ${flag}`);
+      }
+      return next;
+    };
+
+    switch (flag) {
+      case '--api-url': options.apiUrl = value(); break;
+      case '--provider': options.provider = value(); break;
+      case '--api-key': options.apiKey = value(); break;
+      case '--model': options.models.push(value()); break;
+      case '--scenario': (options.scenarios ??= []).push(value()); break;
+      case '--timeout': options.timeout = Number(value()); break;
+      case '--json': options.json = value(); break;
+      case '--junit': options.junit = value(); break;
+      case '--verbose': options.verbose = true; break;
+      case '--prompt': {
+        // name=path, or just a path named after the file
+        const spec = value();
+        const separator = spec.indexOf('=');
+        const version = separator > 0 ? spec.slice(0, separator) : basename(spec).replace(/\.[^.]+$/, '');
+        const path = separator > 0 ? spec.slice(separator + 1) : spec;
+        options.prompts.push({ version, systemPrompt: readFileSync(path, 'utf8') });
+        break;
+      }
+      default:
+        throw new Error(`Unknown option: ${flag}`);
+    }
+  }
+
+  return options;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const models = options.models.length > 0 ? options.models : [undefined];
+  const prompts = options.prompts.length > 0 ? options.prompts : [{}];
+
+  const suites: TestSuiteResult[] = [];
+  for (const model of models) {
+    for (const prompt of prompts) {
+      const config: TestConfig = {
+        apiUrl: options.apiUrl,
+        provider: options.provider,
+        apiKey: options.apiKey,
+        model,
+        promptVersion: prompt.version,
+        systemPrompt: prompt.systemPrompt,
+        scenarios: options.scenarios,
+        timeout: options.timeout,
+        verbose: options.verbose
+      };
+      const suite = await runHeadlessSuite(config);
+      suites.push(suite);
+
+      for (const result of suite.results) {
+        console.log(`${result.success ? '✓' : '✗'} ${result.scenario} (${(result.executionTime / 1000).toFixed(1)}s)`);
+        for (const error of result.errors) {
+          console.log(`    ${error}`);
+        }
+      }
+    }
+  }
+
+  const comparison = compareSuites(suites);
+  console.log(`\n${formatComparison(comparison)}`);
+
+  if (options.json) {
+    writeFileSync(options.json, JSON.stringify({ suites, comparison }, null, 2));
+  }
+  if (options.junit) {
+    writeFileSync(options.junit, toJUnitXml(suites));
+  }
+
+  process.exitCode = suites.every(suite => suite.summary.failed === 0) ? 0 : 1;
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,57 @@
+/**
+ * Replay the recorded provider responses through their stream adapters, offline, and check
+ * the request bodies built for Gemini.
+ *
+ *   npm run replay                      # every transcript
+ *   npm run replay -- --provider gemini --provider anthropic
+ *
+ * Exits non-zero when any replay fails, so it can gate CI.
+ */
+
+import { replayAllTranscripts } from '@/lib/testing/replay';
+import { replayTranscripts } from '@/lib/testing/replay-transcripts';
+import { geminiRequestFixtures } from '@/lib/testing/gemini-fixtures';
+
+function parseArgs(argv: string[]): { providers: string[] } {
+  const providers: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    if (flag !== '--provider') {
+      throw new Error(`Unknown option: ${flag}`);
+    }
+    const value = argv[++i];
+    if (value === undefined) {
+      throw new Error(`Missing value for ${flag}`);
+    }
+    providers.push(value);
+  }
+  return { providers };
+}
+
+async function main() {
+  const { providers } = parseArgs(process.argv.slice(2));
+  const selected = (provider: string) => providers.length === 0 || providers.includes(provider);
+  const transcripts = replayTranscripts.filter(transcript => selected(transcript.provider));
+  const requestFixtures = selected('gemini') ? geminiRequestFixtures : [];
+  if (transcripts.length === 0) {
+    throw new Error(`No transcripts recorded for ${providers.join(', ')}`);
+  }
+
+  const results = await replayAllTranscripts(transcripts, requestFixtures);
+  for (const result of results) {
+    const detail = result.chunkCount > 0 ? ` (${result.chunkCount} chunks)` : '';
+    console.log(`${result.passed ? '✓' : '✗'} ${result.id} [${result.provider}]${detail}`);
+    for (const error of result.errors) {
+      console.log(`    ${error}`);
+    }
+  }
+
+  const passed = results.filter(result => result.passed).length;
+  console.log(`\n${passed}/${results.length} replays passed`);
+  process.exitCode = passed === results.length ? 0 : 1;
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});